@@ -0,0 +1,249 @@
+import { fetchPage } from './pageFetcher';
+import { extractRequirements, extractScriptJson, findSalaryInText, htmlToText, isRequirementHeading, listItems } from './htmlText';
+
+/**
+ * Deterministic extractors for applicant tracking systems that publish postings as structured
+ * data, keyed by hostname. Each reads the posting from the ATS's public job-board API or from
+ * the data embedded in its page, without an LLM. Unknown hosts fall back to the LLM (extract-job).
+ */
+
+export interface ExtractedJob {
+  title: string;
+  company: string;
+  location: string;
+  salaryRange: string;
+  description: string;
+  requirements: string[];
+  applicationUrl: string;
+  employmentType?: string;
+  postedAt?: string;
+  expiresAt?: string;
+  isRemote?: boolean;
+}
+
+export interface AtsExtractor {
+  name: string;
+  // Tested against the hostname
+  host: RegExp;
+  // Where the structured posting lives (an API or the page itself); null if the URL isn't a posting
+  sourceUrl: (url: URL) => string | null;
+  // Null when the source doesn't hold a usable posting
+  parse: (body: string, url: URL) => ExtractedJob | null;
+}
+
+const pathSegments = (url: URL) => url.pathname.split('/').filter(Boolean);
+
+// "acme-corp" -> "Acme Corp", for boards whose API doesn't name the company
+const companyFromSlug = (slug: string) =>
+  slug.split(/[-_]+/).filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+const CURRENCY_SYMBOLS: Record<string, string> = { USD: '$', EUR: '€', GBP: '£' };
+
+export const formatSalaryRange = (min?: number, max?: number, currency = 'USD', interval = '') => {
+  if (!min && !max) return '';
+  const symbol = CURRENCY_SYMBOLS[currency.toUpperCase()];
+  const format = (value: number) => symbol ? `${symbol}${value.toLocaleString('en-US')}` : `${value.toLocaleString('en-US')} ${currency}`;
+  const range = min && max && min !== max ? `${format(min)} - ${format(max)}` : format((min || max)!);
+  return interval ? `${range} ${interval}` : range;
+};
+
+export const toIsoDate = (value: any): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// "FullTime" / "full-time" -> "Full-time"
+const formatEmploymentType = (value?: string) => {
+  if (!value) return undefined;
+  const words = value.replace(/([a-z])([A-Z])/g, '$1 $2').split(/[\s_-]+/).filter(Boolean).map(word => word.toLowerCase());
+  return words.length > 0 ? words[0][0].toUpperCase() + words[0].slice(1) + words.slice(1).map(word => `-${word}`).join('') : undefined;
+};
+
+const parseJson = (body: string): any => {
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    return null;
+  }
+};
+
+// Greenhouse escapes the posting HTML once more inside the JSON
+const decodeHtmlOnce = (escaped: string) => escaped
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// boards.greenhouse.io/<board>/jobs/<id>, job-boards.greenhouse.io/<board>/jobs/<id>, or the embed form
+const greenhousePosting = (url: URL) => {
+  const segments = pathSegments(url);
+  const jobsIndex = segments.indexOf('jobs');
+  const board = jobsIndex > 0 ? segments[jobsIndex - 1] : url.searchParams.get('for');
+  const id = jobsIndex > 0 ? segments[jobsIndex + 1] : url.searchParams.get('token');
+  return board && id && /^\d+$/.test(id) ? { board, id } : null;
+};
+
+const greenhouse: AtsExtractor = {
+  name: 'greenhouse',
+  host: /(^|\.)greenhouse\.io$/,
+  sourceUrl: url => {
+    const posting = greenhousePosting(url);
+    return posting
+      ? `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(posting.board)}/jobs/${posting.id}?pay_transparency=true`
+      : null;
+  },
+  parse: (body, url) => {
+    const job = parseJson(body);
+    if (!job?.title) return null;
+    const content = decodeHtmlOnce(job.content || '');
+    const pay = Array.isArray(job.pay_input_ranges) ? job.pay_input_ranges[0] : null;
+    return {
+      title: job.title,
+      company: job.company_name || companyFromSlug(greenhousePosting(url)?.board || ''),
+      location: job.location?.name || '',
+      salaryRange: pay
+        ? formatSalaryRange(pay.min_cents / 100, pay.max_cents / 100, pay.currency_type || 'USD')
+        : findSalaryInText(htmlToText(content)),
+      description: htmlToText(content),
+      requirements: extractRequirements(content),
+      applicationUrl: job.absolute_url || url.toString(),
+      postedAt: toIsoDate(job.first_published)
+    };
+  }
+};
+
+const lever: AtsExtractor = {
+  name: 'lever',
+  host: /^jobs\.(eu\.)?lever\.co$/,
+  // jobs.lever.co/<company>/<id>[/apply]
+  sourceUrl: url => {
+    const [company, id] = pathSegments(url);
+    if (!company || !id || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+    const api = url.hostname.startsWith('jobs.eu.') ? 'api.eu.lever.co' : 'api.lever.co';
+    return `https://${api}/v0/postings/${encodeURIComponent(company)}/${id}`;
+  },
+  parse: (body, url) => {
+    const posting = parseJson(body);
+    if (!posting?.text) return null;
+    const lists: { text: string, content: string }[] = Array.isArray(posting.lists) ? posting.lists : [];
+    const requirementList = lists.find(list => isRequirementHeading(list.text)) || lists[0];
+    const descriptionHtml = [
+      posting.description || '',
+      ...lists.map(list => `<h3>${list.text}</h3><ul>${list.content}</ul>`),
+      posting.additional || ''
+    ].join('\n');
+    const locations: string[] = posting.categories?.allLocations?.length
+      ? posting.categories.allLocations
+      : [posting.categories?.location].filter(Boolean);
+    const salary = posting.salaryRange;
+    return {
+      title: posting.text,
+      company: companyFromSlug(pathSegments(url)[0]),
+      location: locations.join(' / '),
+      salaryRange: salary
+        ? formatSalaryRange(salary.min, salary.max, salary.currency || 'USD', (salary.interval || '').replace(/-/g, ' '))
+        : findSalaryInText(htmlToText(descriptionHtml)),
+      description: htmlToText(descriptionHtml),
+      requirements: requirementList ? listItems(requirementList.content).slice(0, 15) : [],
+      applicationUrl: posting.applyUrl || posting.hostedUrl || url.toString(),
+      employmentType: formatEmploymentType(posting.categories?.commitment),
+      postedAt: toIsoDate(posting.createdAt),
+      isRemote: posting.workplaceType === 'remote' || undefined
+    };
+  }
+};
+
+const workday: AtsExtractor = {
+  name: 'workday',
+  host: /\.myworkday(jobs|site)\.com$/,
+  // <tenant>.wd5.myworkdayjobs.com/[<locale>/]<site>/job/<location>/<title>_<req id>
+  // -> the same host's /wday/cxs/<tenant>/<site>/job/... JSON endpoint the page itself loads
+  sourceUrl: url => {
+    const segments = pathSegments(url).filter(segment => !/^[a-z]{2}-[A-Z]{2}$/.test(segment));
+    const jobIndex = segments.indexOf('job');
+    if (jobIndex < 1 || jobIndex === segments.length - 1) return null;
+    const tenant = url.hostname.split('.')[0];
+    return `https://${url.hostname}/wday/cxs/${tenant}/${segments[jobIndex - 1]}/${segments.slice(jobIndex).join('/')}`;
+  },
+  parse: (body, url) => {
+    const data = parseJson(body);
+    const info = data?.jobPostingInfo;
+    if (!info?.title) return null;
+    const description = htmlToText(info.jobDescription || '');
+    return {
+      title: info.title,
+      company: data.hiringOrganization?.name || companyFromSlug(url.hostname.split('.')[0]),
+      location: [info.location, ...(info.additionalLocations || [])].filter(Boolean).join(' / '),
+      salaryRange: findSalaryInText(description),
+      description,
+      requirements: extractRequirements(info.jobDescription || ''),
+      applicationUrl: info.externalUrl || url.toString(),
+      employmentType: formatEmploymentType(info.timeType),
+      postedAt: toIsoDate(info.startDate),
+      isRemote: info.remoteType === 'Fully Remote' || undefined
+    };
+  }
+};
+
+const ashby: AtsExtractor = {
+  name: 'ashby',
+  host: /^jobs\.ashbyhq\.com$/,
+  // jobs.ashbyhq.com/<org>/<id>[/application]; the page embeds the posting as window.__appData
+  sourceUrl: url => {
+    const [org, id] = pathSegments(url);
+    if (!org || !id || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+    return `https://jobs.ashbyhq.com/${org}/${id}`;
+  },
+  parse: (body, url) => {
+    const appData = extractScriptJson(body, 'window.__appData');
+    const posting = appData?.posting;
+    if (!posting?.title) return null;
+    const [org, id] = pathSegments(url);
+    const locations = [posting.locationName, ...(posting.secondaryLocations || []).map((l: any) => l.locationName)].filter(Boolean);
+    const descriptionHtml = posting.descriptionHtml || '';
+    return {
+      title: posting.title,
+      company: appData.organization?.name || companyFromSlug(org),
+      location: locations.join(' / ') || (posting.isRemote ? 'Remote' : ''),
+      salaryRange: posting.scrapeableCompensationSalarySummary || posting.compensationTierSummary || findSalaryInText(htmlToText(descriptionHtml)),
+      description: htmlToText(descriptionHtml),
+      requirements: extractRequirements(descriptionHtml),
+      applicationUrl: `https://jobs.ashbyhq.com/${org}/${id}/application`,
+      employmentType: formatEmploymentType(posting.employmentType),
+      postedAt: toIsoDate(posting.publishedDate),
+      isRemote: posting.isRemote || posting.workplaceType === 'Remote' || undefined
+    };
+  }
+};
+
+export const ATS_EXTRACTORS: AtsExtractor[] = [greenhouse, lever, workday, ashby];
+
+export const findAtsExtractor = (url: URL, extractors: AtsExtractor[] = ATS_EXTRACTORS) =>
+  extractors.find(extractor => extractor.host.test(url.hostname.toLowerCase())) || null;
+
+/**
+ * Extracts the posting at `url` when its host has an extractor. Null when there is none, when
+ * `url` isn't a valid URL, or when the source can't be fetched or parsed (callers fall back to the LLM).
+ */
+export const extractAtsJob = async (url: string): Promise<{ extractor: string, job: ExtractedJob } | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    return null;
+  }
+  const extractor = findAtsExtractor(parsed);
+  const source = extractor?.sourceUrl(parsed);
+  if (!extractor || !source) return null;
+
+  try {
+    const page = await fetchPage(source, { accept: 'application/json,text/html;q=0.9' });
+    const job = extractor.parse(page.body, parsed);
+    return job ? { extractor: extractor.name, job } : null;
+  } catch (error: any) {
+    console.warn(`[ATS/${extractor.name}] Extraction failed:`, error.message);
+    return null;
+  }
+};
@@ -0,0 +1,44 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Secret per-user tokens for the interview calendar feed. Calendar apps subscribe to a plain URL and
+ * can't send an Authorization header, so the token goes in the query string. Only its hash is stored;
+ * creating a new token replaces the old one, and revoking deletes it.
+ */
+
+let tableReady = false;
+export const ensureFeedTokenTable = async (sql: any) => {
+  if (tableReady) return;
+  await sql`
+    CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+      user_id TEXT PRIMARY KEY,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+  tableReady = true;
+};
+
+const hashFeedToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// The new token in plaintext; this is the only time it is available
+export const createFeedToken = async (sql: any, userId: string): Promise<string> => {
+  const token = randomBytes(24).toString('base64url');
+  await sql`
+    INSERT INTO calendar_feed_tokens (user_id, token_hash, created_at)
+    VALUES (${userId}, ${hashFeedToken(token)}, NOW())
+    ON CONFLICT (user_id) DO UPDATE SET token_hash = EXCLUDED.token_hash, created_at = NOW()
+  `;
+  return token;
+};
+
+export const revokeFeedToken = async (sql: any, userId: string) => {
+  await sql`DELETE FROM calendar_feed_tokens WHERE user_id = ${userId}`;
+};
+
+// The user a feed token belongs to, or null for an unknown or revoked token
+export const findFeedTokenUser = async (sql: any, token: string): Promise<string | null> => {
+  if (!token) return null;
+  const rows = await sql`SELECT user_id FROM calendar_feed_tokens WHERE token_hash = ${hashFeedToken(token)}`;
+  return rows[0]?.user_id || null;
+};
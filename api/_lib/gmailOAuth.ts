@@ -0,0 +1,163 @@
+import { createHash, randomBytes } from 'crypto';
+import { MailCredential, markCredentialRevoked, updateAccessToken } from './mailCredentials';
+
+/**
+ * Google OAuth 2.0 authorization-code flow with PKCE (RFC 7636) for read-only Gmail access.
+ *
+ * Every endpoint can be overridden through the environment so the flow runs against a
+ * local mock server:
+ *   GOOGLE_OAUTH_AUTHORIZE_URL, GOOGLE_OAUTH_TOKEN_URL, GOOGLE_OAUTH_REVOKE_URL, GMAIL_API_BASE
+ */
+
+export const GMAIL_SCOPE = 'https://www.googleapis.com/auth/gmail.readonly';
+
+// Access tokens this close to expiry are refreshed before being handed out
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export class OAuthError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+export const getGoogleOAuthConfig = () => {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const redirectUri = process.env.GOOGLE_OAUTH_REDIRECT_URI;
+  if (!clientId || !redirectUri) {
+    throw new Error('GOOGLE_CLIENT_ID and GOOGLE_OAUTH_REDIRECT_URI must be set');
+  }
+  return {
+    clientId,
+    // Optional for "Desktop"/public clients, which rely on PKCE alone
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+    redirectUri,
+    authorizeUrl: process.env.GOOGLE_OAUTH_AUTHORIZE_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: process.env.GOOGLE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+    revokeUrl: process.env.GOOGLE_OAUTH_REVOKE_URL || 'https://oauth2.googleapis.com/revoke',
+    gmailApiBase: process.env.GMAIL_API_BASE || 'https://gmail.googleapis.com'
+  };
+};
+
+export const createPkcePair = () => {
+  const codeVerifier = randomBytes(48).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+};
+
+export const createOAuthState = () => randomBytes(24).toString('base64url');
+
+export const buildGoogleAuthorizeUrl = (state: string, codeChallenge: string, loginHint?: string) => {
+  const config = getGoogleOAuthConfig();
+  const params = new URLSearchParams({
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    response_type: 'code',
+    scope: GMAIL_SCOPE,
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    // offline + consent makes Google issue a refresh token even on re-authorization
+    access_type: 'offline',
+    prompt: 'consent',
+    include_granted_scopes: 'true'
+  });
+  if (loginHint) params.set('login_hint', loginHint);
+  return `${config.authorizeUrl}?${params.toString()}`;
+};
+
+export interface GoogleTokenResponse {
+  accessToken: string;
+  expiresAt: string;
+  refreshToken?: string;
+  scope?: string;
+}
+
+const postTokenRequest = async (params: Record<string, string>): Promise<GoogleTokenResponse> => {
+  const config = getGoogleOAuthConfig();
+  const body = new URLSearchParams({ client_id: config.clientId, ...params });
+  if (config.clientSecret) body.set('client_secret', config.clientSecret);
+
+  const response = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+    body: body.toString()
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.access_token) {
+    // invalid_grant means the refresh token was revoked or expired; the user must reconnect
+    throw new OAuthError(data.error_description || data.error || `Token endpoint returned ${response.status}`, data.error || 'token_error');
+  }
+
+  return {
+    accessToken: data.access_token,
+    expiresAt: new Date(Date.now() + (Number(data.expires_in) || 3600) * 1000).toISOString(),
+    refreshToken: data.refresh_token,
+    scope: data.scope
+  };
+};
+
+export const exchangeAuthorizationCode = (code: string, codeVerifier: string) =>
+  postTokenRequest({
+    grant_type: 'authorization_code',
+    code,
+    code_verifier: codeVerifier,
+    redirect_uri: getGoogleOAuthConfig().redirectUri
+  });
+
+export const refreshGoogleAccessToken = (refreshToken: string) =>
+  postTokenRequest({ grant_type: 'refresh_token', refresh_token: refreshToken });
+
+export const revokeGoogleToken = async (token: string) => {
+  const { revokeUrl } = getGoogleOAuthConfig();
+  try {
+    await fetch(revokeUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ token }).toString()
+    });
+  } catch (error) {
+    // Revocation is best effort; the stored credential is deleted either way
+    console.warn('[GmailOAuth] Revoke failed:', error);
+  }
+};
+
+export const fetchGmailAddress = async (accessToken: string): Promise<string> => {
+  const { gmailApiBase } = getGoogleOAuthConfig();
+  const response = await fetch(`${gmailApiBase}/gmail/v1/users/me/profile`, {
+    headers: { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' }
+  });
+  if (!response.ok) {
+    throw new OAuthError(`Gmail profile request failed: ${response.status}`, 'profile_error');
+  }
+  const data = await response.json();
+  return data.emailAddress;
+};
+
+/**
+ * Returns a usable access token for the credential, refreshing and persisting it when it is
+ * missing or about to expire. Throws OAuthError('TOKEN_EXPIRED') if the grant is gone.
+ */
+export const getFreshGmailAccessToken = async (sql: any, credential: MailCredential): Promise<{ accessToken: string, expiresAt: string }> => {
+  if (credential.status === 'revoked' || !credential.refreshToken) {
+    throw new OAuthError('Gmail access was revoked. Please reconnect.', 'TOKEN_EXPIRED');
+  }
+
+  const expiresAt = credential.accessTokenExpiresAt ? new Date(credential.accessTokenExpiresAt).getTime() : 0;
+  if (credential.accessToken && expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+    return { accessToken: credential.accessToken, expiresAt: credential.accessTokenExpiresAt! };
+  }
+
+  try {
+    const refreshed = await refreshGoogleAccessToken(credential.refreshToken);
+    await updateAccessToken(sql, credential.id, refreshed.accessToken, refreshed.expiresAt, refreshed.refreshToken);
+    return { accessToken: refreshed.accessToken, expiresAt: refreshed.expiresAt };
+  } catch (error) {
+    if (error instanceof OAuthError && error.code === 'invalid_grant') {
+      await markCredentialRevoked(sql, credential.id);
+      throw new OAuthError('Gmail access was revoked. Please reconnect.', 'TOKEN_EXPIRED');
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,88 @@
+/**
+ * Regex-based HTML helpers for serverless functions, where DOMParser isn't available.
+ * Good enough for email bodies and job descriptions; not a general HTML parser.
+ */
+
+export const decodeEntities = (text: string) => text
+  .replace(/&nbsp;/gi, ' ')
+  .replace(/&lt;/gi, '<')
+  .replace(/&gt;/gi, '>')
+  .replace(/&quot;/gi, '"')
+  .replace(/&#39;|&apos;/gi, "'")
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+  .replace(/&amp;/gi, '&');
+
+const inlineText = (html: string) => decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+// Readable plain text: block elements become line breaks, list items become bullets
+export const htmlToText = (html: string) => decodeEntities(html
+  .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+  .replace(/<li\b[^>]*>/gi, '\n• ')
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/<\/(p|div|ul|ol|h[1-6]|section|tr)>/gi, '\n')
+  .replace(/<[^>]+>/g, ''))
+  .replace(/[ \t\u00a0]+/g, ' ')
+  .replace(/ *\n */g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+export const listItems = (html: string): string[] =>
+  Array.from(html.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi)).map(match => inlineText(match[1])).filter(Boolean);
+
+const HEADING = /<(h[1-6]|strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+const REQUIREMENT_HEADING = /requirement|qualification|what you('ll)? (need|bring|have)|you have|about you|looking for|must have|skills|experience/i;
+
+export const isRequirementHeading = (text: string) => REQUIREMENT_HEADING.test(text);
+
+/**
+ * List items under the first heading that reads like a requirements section ("Requirements",
+ * "What you'll bring", ...), up to the next heading.
+ */
+export const extractRequirements = (html: string, limit = 15): string[] => {
+  const headings = Array.from(html.matchAll(HEADING));
+  for (let i = 0; i < headings.length; i++) {
+    if (!isRequirementHeading(inlineText(headings[i][2]))) continue;
+    const start = headings[i].index! + headings[i][0].length;
+    const end = i + 1 < headings.length ? headings[i + 1].index! : html.length;
+    const items = listItems(html.slice(start, end));
+    if (items.length > 0) return items.slice(0, limit);
+  }
+  return [];
+};
+
+const SALARY_PATTERN = /(?:USD|EUR|GBP|CAD|AUD)?\s?[$€£]\s?\d[\d,.]*\s?[kK]?\s?(?:-|–|—|to)\s?(?:USD|EUR|GBP|CAD|AUD)?\s?[$€£]?\s?\d[\d,.]*\s?[kK]?(?:\s?(?:USD|EUR|GBP|CAD|AUD))?(?:\s?(?:per|\/|a)\s?(?:year|yr|annum|hour|hr|month))?/;
+
+// First salary range written out in the text ("$120,000 - $150,000 per year")
+export const findSalaryInText = (text: string) => text.match(SALARY_PATTERN)?.[0].trim() || '';
+
+/**
+ * The object literal assigned to `name` in an inline script (`window.__appData = {...};`),
+ * parsed as JSON. Null when missing or not valid JSON.
+ */
+export const extractScriptJson = (html: string, name: string): any => {
+  const start = html.indexOf(name);
+  if (start === -1) return null;
+  const open = html.indexOf('{', start);
+  if (open === -1) return null;
+  let depth = 0;
+  let inString = false;
+  for (let i = open; i < html.length; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      try {
+        return JSON.parse(html.slice(open, i + 1));
+      } catch (e) {
+        return null;
+      }
+    }
+  }
+  return null;
+};
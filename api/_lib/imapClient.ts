@@ -0,0 +1,166 @@
+import { isIP } from 'net';
+import { FetchMessageObject, FetchQueryObject, ImapFlow } from 'imapflow';
+import { decodeMimeBody } from '../../services/mimeService';
+import { resolvePublicHost } from './netGuard';
+
+/**
+ * Server-side IMAP access for providers without a browser-friendly API (Yahoo, iCloud, self-hosted).
+ * Each call opens a short-lived connection; serverless functions cannot keep IMAP sessions alive.
+ */
+
+export interface ImapSettings {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (993). false = STARTTLS when offered (143)
+  user: string;
+}
+
+export interface ImapMessage {
+  id: string; // UID, unique within INBOX
+  from: string;
+  subject: string;
+  date: string;
+  snippet: string;
+  html: string;
+}
+
+// Same subject terms as the Gmail and Graph searches
+const JOB_KEYWORDS = ['job', 'jobs', 'vacancy', 'career', 'hiring', 'opportunity'];
+
+// Bodies are returned to the browser, so very large messages are truncated
+const MAX_MESSAGE_BYTES = 512 * 1024;
+
+const PRIVATE_HOST_PATTERN = /^(localhost$|127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|169\.254\.|0\.0\.0\.0$|\[?::1\]?$|\[?f[cd][0-9a-f]{2}:)/i;
+
+// Local test servers (GreenMail, Dovecot) need IMAP_ALLOW_PRIVATE_HOSTS=true
+const allowPrivateHosts = () => process.env.IMAP_ALLOW_PRIVATE_HOSTS === 'true';
+
+/**
+ * Quick check of the submitted settings. Host names are only matched literally here; connectImap
+ * checks what they resolve to.
+ */
+export const validateImapSettings = (settings: Partial<ImapSettings>): string | null => {
+  if (!settings.host || !settings.user) return 'Host and username are required';
+  const port = Number(settings.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) return 'Invalid port';
+  if (PRIVATE_HOST_PATTERN.test(settings.host) && !allowPrivateHosts()) {
+    return 'Private network hosts are not allowed';
+  }
+  return null;
+};
+
+/**
+ * Opens a logged-in connection. The host is resolved on every connect and the socket goes to the
+ * checked address, so neither a name pointing at a private network nor one re-pointed after the
+ * check (DNS rebinding) lets the bridge probe internal services. Throws BlockedUrlError for those.
+ */
+const connectImap = async (settings: ImapSettings, password: string): Promise<ImapFlow> => {
+  const [address] = allowPrivateHosts() ? [settings.host] : await resolvePublicHost(settings.host);
+  const client = new ImapFlow({
+    host: address,
+    // The certificate is still checked against the name the user entered
+    servername: isIP(settings.host) ? undefined : settings.host,
+    port: settings.port,
+    secure: settings.secure,
+    auth: { user: settings.user, pass: password },
+    logger: false,
+    disableAutoIdle: true,
+    // Test servers usually present self-signed certificates; accepting them is a separate opt-in
+    tls: process.env.IMAP_ALLOW_SELF_SIGNED_CERTS === 'true' ? { rejectUnauthorized: false } : undefined,
+    connectionTimeout: 10000,
+    greetingTimeout: 10000,
+    socketTimeout: 30000
+  });
+  await client.connect();
+  return client;
+};
+
+/**
+ * Logs in and out to confirm the credentials before they are stored.
+ */
+export const verifyImapLogin = async (settings: ImapSettings, password: string) => {
+  const client = await connectImap(settings, password);
+  await client.logout();
+};
+
+const formatAddress = (address?: { name?: string, address?: string }[]) =>
+  address && address[0] ? (address[0].name || address[0].address || '') : '';
+
+const toSnippet = (html: string) =>
+  html.replace(/<style[\s\S]*?<\/style>/gi, ' ').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 160);
+
+const MESSAGE_QUERY: FetchQueryObject = {
+  uid: true,
+  envelope: true,
+  internalDate: true,
+  source: { maxLength: MAX_MESSAGE_BYTES }
+};
+
+const toImapMessage = (message: FetchMessageObject, settings: ImapSettings): ImapMessage => {
+  const html = message.source ? decodeMimeBody(message.source.toString('utf8')) : '';
+  const date = message.envelope?.date || message.internalDate;
+  return {
+    id: String(message.uid),
+    from: formatAddress(message.envelope?.from) || settings.user,
+    subject: message.envelope?.subject || '(no subject)',
+    date: date ? new Date(date).toISOString() : new Date().toISOString(),
+    snippet: toSnippet(html),
+    html
+  };
+};
+
+/**
+ * Runs the job-related subject search over INBOX for the last `days` days and
+ * returns the newest `limit` messages with decoded bodies.
+ */
+export const searchJobMessages = async (
+  settings: ImapSettings,
+  password: string,
+  days: number,
+  limit: number
+): Promise<ImapMessage[]> => {
+  const client = await connectImap(settings, password);
+  try {
+    const lock = await client.getMailboxLock('INBOX');
+    try {
+      return await fetchInboxMatches(client, settings, days, limit);
+    } finally {
+      lock.release();
+    }
+  } finally {
+    await client.logout().catch(() => client.close());
+  }
+};
+
+const fetchInboxMatches = async (client: ImapFlow, settings: ImapSettings, days: number, limit: number): Promise<ImapMessage[]> => {
+  const since = new Date(Date.now() - days * 86400000);
+  const uids = await client.search({ since, or: JOB_KEYWORDS.map(subject => ({ subject })) }, { uid: true });
+  if (!uids || uids.length === 0) return [];
+
+  const newest = [...uids].sort((a, b) => b - a).slice(0, limit);
+  const messages: ImapMessage[] = [];
+  for await (const message of client.fetch(newest.join(','), MESSAGE_QUERY, { uid: true })) {
+    messages.push(toImapMessage(message, settings));
+  }
+  return messages.sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * One INBOX message by UID, whatever its subject, or null when it no longer exists.
+ * Used to re-read a message from an earlier scan.
+ */
+export const fetchMessageByUid = async (settings: ImapSettings, password: string, uid: string): Promise<ImapMessage | null> => {
+  if (!/^\d+$/.test(uid)) return null;
+  const client = await connectImap(settings, password);
+  try {
+    const lock = await client.getMailboxLock('INBOX');
+    try {
+      const message = await client.fetchOne(uid, MESSAGE_QUERY, { uid: true });
+      return message ? toImapMessage(message, settings) : null;
+    } finally {
+      lock.release();
+    }
+  } finally {
+    await client.logout().catch(() => client.close());
+  }
+};
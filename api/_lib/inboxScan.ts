@@ -0,0 +1,170 @@
+import { EmailAccount, Job, ScanRun, UserPreferences } from '../../types';
+import { createMailProvider } from '../../services/mailProviderRegistry';
+import { MailSearchOptions, describeMailQuery, getMailboxKey } from '../../services/mailProvider';
+import { selectJobLinks } from '../../services/localAiService';
+import { buildDetectedJobs } from '../../services/jobMatchService';
+import { MessageExtraction, summarizeScanMessages } from '../../services/scanRunService';
+import { MailCredential, markCredentialScanned, patchProfileMailAccount } from './mailCredentials';
+import { getFreshGmailAccessToken } from './gmailOAuth';
+import { ImapSettings, searchJobMessages } from './imapClient';
+import { listProcessedMessageIds, recordProcessedMessages } from './mailLedger';
+import { recordScanRun } from './scanRuns';
+import { serializeJobData } from './jobData';
+import { resolveJobUrls } from './urlResolver';
+import { decodeEntities } from './htmlText';
+
+/**
+ * Server-side inbox scan for one stored mailbox: the same MailProvider, ledger and job
+ * matching as the in-app scanner, but new jobs are written straight to the jobs table.
+ */
+
+// Window for a mailbox that has never been scanned; later scans continue from the sync cursor
+const FIRST_SCAN_DAYS = 7;
+const MAX_MESSAGES_PER_SCAN = 50;
+// Link resolution makes network calls per job; the rest keep only their cleaned link
+const MAX_RESOLVED_LINKS = 25;
+
+const ANCHOR_PATTERN = /<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>([\s\S]*?)<\/a>/gi;
+
+// DOMParser isn't available in serverless functions; email HTML only needs the anchors
+export const extractLinks = (html: string): { href: string, text: string }[] =>
+  Array.from(html.matchAll(ANCHOR_PATTERN)).map(match => ({
+    href: decodeEntities((match[1] ?? match[2] ?? match[3] ?? '').trim()),
+    text: decodeEntities(match[4].replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+  }));
+
+// Resolves tracker and redirect links for jobs the user doesn't have yet
+const resolveNewJobUrls = async (sql: any, userId: string, jobs: Job[]) => {
+  const existing = new Set<string>((await sql`
+    SELECT id FROM jobs WHERE user_id = ${userId} AND id = ANY(${jobs.map(job => job.id)}::text[])
+  `).map((row: any) => row.id));
+  const pending = jobs.filter(job => job.applicationUrl && !existing.has(job.id)).slice(0, MAX_RESOLVED_LINKS);
+  const results = await resolveJobUrls(pending.map(job => job.applicationUrl!));
+  pending.forEach((job, index) => {
+    if (results[index].resolved) job.canonicalUrl = results[index].url;
+  });
+};
+
+const insertDetectedJobs = async (sql: any, userId: string, jobs: Job[]): Promise<number> => {
+  let created = 0;
+  for (const job of jobs) {
+    const jobData = serializeJobData(job);
+    // Jobs the user already has (from an earlier scan or added by hand) are left untouched
+    const inserted = await sql`
+      INSERT INTO jobs (id, user_id, title, company, description, status, source, application_url, match_score, data, created_at, updated_at)
+      VALUES (
+        ${job.id}, ${userId}, ${job.title}, ${job.company}, ${job.description}, ${job.status},
+        ${job.source}, ${job.applicationUrl || null}, ${job.matchScore}, ${jobData}, NOW(), NOW()
+      )
+      ON CONFLICT (id) DO NOTHING
+      RETURNING id
+    `;
+    if (inserted.length === 0) continue;
+    created++;
+    await sql`
+      INSERT INTO job_status_history (job_id, user_id, previous_status, status, note, changed_at)
+      VALUES (${job.id}, ${userId}, ${null}, ${job.status}, ${'Found by scheduled inbox scan'}, NOW())
+    `;
+  }
+  return created;
+};
+
+/**
+ * Scans one mailbox and records the run. Failures reading the mailbox are recorded as an 'error' run.
+ */
+export const scanStoredMailbox = async (
+  sql: any,
+  credential: MailCredential,
+  profile: { preferences?: UserPreferences, connectedAccounts: EmailAccount[] }
+): Promise<ScanRun> => {
+  const startedAt = new Date().toISOString();
+  const mirrored = profile.connectedAccounts.find(a => a && a.id === credential.id);
+  const account: EmailAccount = {
+    id: credential.id,
+    provider: credential.provider as EmailAccount['provider'],
+    emailAddress: credential.emailAddress,
+    isConnected: true,
+    lastSynced: mirrored?.lastSynced || startedAt,
+    authType: credential.secret ? 'imap' : 'oauth',
+    syncCursor: mirrored?.syncCursor
+  };
+  const mailbox = getMailboxKey(account);
+  const searchOptions: MailSearchOptions = { days: FIRST_SCAN_DAYS, limit: MAX_MESSAGES_PER_SCAN };
+  const query = describeMailQuery(account.syncCursor || null, searchOptions);
+  const counts = { messagesFound: 0, messagesProcessed: 0, jobsFound: 0, jobsCreated: 0, duplicatesSkipped: 0 };
+  let details: ScanRun['messages'] = [];
+
+  const finish = async (status: ScanRun['status'], error?: string) => {
+    await markCredentialScanned(sql, credential.id);
+    const finishedAt = new Date().toISOString();
+    return recordScanRun(sql, credential.userId, {
+      accountId: credential.id,
+      mailbox,
+      trigger: 'scheduled',
+      status,
+      query,
+      ...counts,
+      error,
+      startedAt,
+      finishedAt,
+      durationMs: new Date(finishedAt).getTime() - new Date(startedAt).getTime(),
+      messages: details
+    });
+  };
+
+  try {
+    const provider = createMailProvider(account, {
+      resolveAccessToken: async () => (await getFreshGmailAccessToken(sql, credential)).accessToken,
+      fetchBridgedMessages: async (_, days) =>
+        searchJobMessages(credential.settings as ImapSettings, credential.secret!, days, MAX_MESSAGES_PER_SCAN)
+    });
+    if (!provider) {
+      return await finish('error', `No mail provider for ${credential.provider}`);
+    }
+
+    await provider.authenticate();
+    const [{ messages, cursor }, processedIds] = await Promise.all([
+      provider.sync(account.syncCursor || null, searchOptions),
+      listProcessedMessageIds(sql, credential.userId, mailbox)
+    ]);
+    const processed = new Set(processedIds);
+    const pending = messages.filter(message => !processed.has(message.id));
+    counts.messagesFound = messages.length;
+
+    const extractions: MessageExtraction[] = [];
+    const analyzedIds: string[] = [];
+    for (const message of pending) {
+      try {
+        const html = await provider.fetchBody(message.id);
+        extractions.push({ message, candidates: selectJobLinks(extractLinks(html), profile.preferences?.targetRoles || []) });
+        analyzedIds.push(message.id);
+      } catch (error: any) {
+        if (error.message === 'TOKEN_EXPIRED') throw error;
+        console.warn(`[INBOX-SCAN] Skipping message ${message.id}:`, error.message);
+        extractions.push({ message, candidates: [], error: error.message || 'Could not read message' });
+      }
+    }
+
+    const jobs = buildDetectedJobs(extractions.flatMap(e => e.candidates), profile.preferences, provider.jobSource);
+    const summary = summarizeScanMessages(messages, extractions, jobs);
+    details = summary.messages;
+    counts.duplicatesSkipped = summary.duplicatesSkipped;
+    counts.messagesProcessed = analyzedIds.length;
+    counts.jobsFound = jobs.length;
+    if (jobs.length > 0) await resolveNewJobUrls(sql, credential.userId, jobs);
+    counts.jobsCreated = await insertDetectedJobs(sql, credential.userId, jobs);
+    await recordProcessedMessages(sql, credential.userId, mailbox, analyzedIds);
+
+    // Messages that failed stay behind the cursor so the next scan retries them
+    const patch: Partial<EmailAccount> = { lastSynced: new Date().toISOString() };
+    if (analyzedIds.length === pending.length) patch.syncCursor = cursor;
+    await patchProfileMailAccount(sql, credential.userId, credential.id, patch);
+
+    return await finish('success');
+  } catch (error: any) {
+    console.error(`[INBOX-SCAN] ${mailbox} failed:`, error.message);
+    return await finish('error', error.code === 'TOKEN_EXPIRED' || error.message === 'TOKEN_EXPIRED' || error.authenticationFailed
+      ? 'Mailbox access was revoked or the password changed. Reconnect it in the app.'
+      : error.message || 'Scan failed');
+  }
+};
@@ -0,0 +1,24 @@
+import { Job } from '../../types';
+
+/**
+ * The jobs.data JSON column holds every Job field that has no column of its own. api/jobs.ts,
+ * api/job-merge.ts and the scheduled inbox scan all write it through here, so a new field is
+ * added in one place and can't be dropped by one of the writers.
+ */
+export const serializeJobData = (job: Partial<Job>): string => JSON.stringify({
+  location: job.location || '',
+  salaryRange: job.salaryRange || '',
+  requirements: job.requirements || [],
+  notes: job.notes || '',
+  logoUrl: job.logoUrl || '',
+  canonicalUrl: job.canonicalUrl || '',
+  employmentType: job.employmentType || '',
+  postedAt: job.postedAt || null,
+  expiresAt: job.expiresAt || null,
+  isRemote: !!job.isRemote,
+  coverLetterPromptVersion: job.coverLetterPromptVersion || '',
+  customizedResumePromptVersion: job.customizedResumePromptVersion || '',
+  tailoredResume: job.tailoredResume || null,
+  baseResumeId: job.baseResumeId || '',
+  distinctFrom: Array.isArray(job.distinctFrom) ? job.distinctFrom : []
+});
@@ -0,0 +1,133 @@
+import { ExtractedJob, formatSalaryRange, toIsoDate } from './atsExtractors';
+import { decodeEntities, extractRequirements, findSalaryInText, htmlToText } from './htmlText';
+
+/**
+ * schema.org JobPosting from a page's <script type="application/ld+json"> blocks. Most career
+ * sites publish one for search engines, so this covers pages without an ATS extractor.
+ */
+
+const LD_JSON_SCRIPT = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  FULL_TIME: 'Full-time',
+  PART_TIME: 'Part-time',
+  CONTRACTOR: 'Contract',
+  CONTRACT: 'Contract',
+  TEMPORARY: 'Temporary',
+  INTERN: 'Internship',
+  INTERNSHIP: 'Internship',
+  VOLUNTEER: 'Volunteer',
+  PER_DIEM: 'Per diem'
+};
+
+const SALARY_UNITS: Record<string, string> = {
+  HOUR: 'per hour',
+  DAY: 'per day',
+  WEEK: 'per week',
+  MONTH: 'per month',
+  YEAR: 'per year'
+};
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] => value == null ? [] : Array.isArray(value) ? value : [value];
+
+const hasType = (node: any, type: string) => asArray(node?.['@type']).some(t => String(t).toLowerCase() === type.toLowerCase());
+
+const parseLdJson = (text: string): any => {
+  try {
+    return JSON.parse(text.trim());
+  } catch (e) {
+    // Some sites leave raw line breaks inside strings
+    try {
+      return JSON.parse(text.trim().replace(/[\r\n\t]+/g, ' '));
+    } catch (e2) {
+      return null;
+    }
+  }
+};
+
+// Every JobPosting node on the page, including ones nested in arrays and @graph
+export const findJobPostings = (html: string): any[] => {
+  const postings: any[] = [];
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) return node.forEach(visit);
+    if (hasType(node, 'JobPosting')) postings.push(node);
+    if (node['@graph']) visit(node['@graph']);
+  };
+  for (const match of Array.from(html.matchAll(LD_JSON_SCRIPT))) {
+    visit(parseLdJson(match[1]));
+  }
+  return postings;
+};
+
+const nameOf = (value: any): string => typeof value === 'string' ? value : value?.name || '';
+
+const formatAddress = (place: any): string => {
+  const address = place?.address;
+  if (!address) return nameOf(place);
+  if (typeof address === 'string') return address;
+  const parts = [address.addressLocality, address.addressRegion, nameOf(address.addressCountry)].filter(Boolean);
+  return Array.from(new Set(parts)).join(', ');
+};
+
+const formatBaseSalary = (salary: any): string => {
+  if (!salary) return '';
+  if (typeof salary === 'string' || typeof salary === 'number') return String(salary);
+  const value = salary.value;
+  const unit = SALARY_UNITS[String(value?.unitText || salary.unitText || '').toUpperCase()] || '';
+  if (typeof value === 'number' || typeof value === 'string') {
+    return formatSalaryRange(Number(value), undefined, salary.currency || 'USD', unit);
+  }
+  const min = Number(value?.minValue ?? value?.value) || undefined;
+  const max = Number(value?.maxValue) || undefined;
+  return formatSalaryRange(min, max, salary.currency || 'USD', unit);
+};
+
+const textList = (value: any): string[] =>
+  asArray(value).flatMap(item => htmlToText(decodeEntities(nameOf(item))).split('\n'))
+    .map(line => line.replace(/^[•\-*]\s*/, '').trim())
+    .filter(Boolean);
+
+export const parseJobPosting = (posting: any, pageUrl: string): ExtractedJob | null => {
+  const title = htmlToText(decodeEntities(posting.title || posting.name || ''));
+  if (!title) return null;
+
+  // Descriptions are HTML, sometimes entity-encoded once more
+  const descriptionHtml = decodeEntities(String(posting.description || ''));
+  const description = htmlToText(descriptionHtml);
+  const isRemote = asArray(posting.jobLocationType).some(type => String(type).toUpperCase() === 'TELECOMMUTE');
+  const places = asArray(posting.jobLocation).map(formatAddress).filter(Boolean);
+  const remoteRegions = asArray(posting.applicantLocationRequirements).map(nameOf).filter(Boolean);
+  const location = places.length > 0
+    ? places.join(' / ')
+    : isRemote ? ['Remote', ...remoteRegions].join(' - ') : '';
+  const employmentTypes = asArray(posting.employmentType)
+    .flatMap(type => String(type).split(','))
+    .map(type => type.trim())
+    .filter(Boolean)
+    .map(type => EMPLOYMENT_TYPES[type.toUpperCase().replace(/[\s-]+/g, '_')] || type);
+  const requirements = [...textList(posting.qualifications), ...textList(posting.skills)];
+
+  return {
+    title,
+    company: nameOf(posting.hiringOrganization),
+    location,
+    salaryRange: formatBaseSalary(posting.baseSalary || posting.estimatedSalary) || findSalaryInText(description),
+    description,
+    requirements: (requirements.length > 0 ? requirements : extractRequirements(descriptionHtml)).slice(0, 15),
+    applicationUrl: typeof posting.url === 'string' && /^https?:/.test(posting.url) ? posting.url : pageUrl,
+    employmentType: Array.from(new Set(employmentTypes)).join(', ') || undefined,
+    postedAt: toIsoDate(posting.datePosted),
+    expiresAt: toIsoDate(posting.validThrough),
+    isRemote: isRemote || undefined
+  };
+};
+
+// The page's first usable JobPosting, or null
+export const extractJobPostingJsonLd = (html: string, pageUrl: string): ExtractedJob | null => {
+  for (const posting of findJobPostings(html)) {
+    const job = parseJobPosting(posting, pageUrl);
+    if (job) return job;
+  }
+  return null;
+};
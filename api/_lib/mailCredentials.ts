@@ -0,0 +1,244 @@
+import { encryptSecret, decryptSecret } from './tokenCrypto';
+
+/**
+ * Per-profile mailbox credentials. Secrets are encrypted at rest with tokenCrypto;
+ * plaintext never leaves the server except as a short-lived access token.
+ */
+
+export interface MailCredential {
+  id: string;
+  userId: string;
+  provider: string;
+  emailAddress: string;
+  refreshToken: string | null;
+  accessToken: string | null;
+  accessTokenExpiresAt: string | null;
+  scope: string | null;
+  // Non-secret connection details, e.g. IMAP host/port/user
+  settings: Record<string, any> | null;
+  // Password-style secret for providers without OAuth (IMAP app passwords)
+  secret: string | null;
+  status: 'active' | 'revoked';
+}
+
+const OAUTH_STATE_TTL_MINUTES = 10;
+
+let tablesReady = false;
+export const ensureMailCredentialTables = async (sql: any) => {
+  if (tablesReady) return;
+  await sql`
+    CREATE TABLE IF NOT EXISTS mail_credentials (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      email_address TEXT NOT NULL,
+      refresh_token TEXT,
+      access_token TEXT,
+      access_token_expires_at TIMESTAMPTZ,
+      scope TEXT,
+      status TEXT NOT NULL DEFAULT 'active',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (user_id, provider, email_address)
+    )
+  `;
+  await sql`ALTER TABLE mail_credentials ADD COLUMN IF NOT EXISTS settings JSONB`;
+  await sql`ALTER TABLE mail_credentials ADD COLUMN IF NOT EXISTS secret TEXT`;
+  await sql`ALTER TABLE mail_credentials ADD COLUMN IF NOT EXISTS last_scanned_at TIMESTAMPTZ`;
+  // Pending authorization requests; each row is consumed by the callback exactly once
+  await sql`
+    CREATE TABLE IF NOT EXISTS oauth_states (
+      state TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      code_verifier TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+  tablesReady = true;
+};
+
+const mapCredential = (row: any): MailCredential => ({
+  id: row.id,
+  userId: row.user_id,
+  provider: row.provider,
+  emailAddress: row.email_address,
+  refreshToken: row.refresh_token ? decryptSecret(row.refresh_token) : null,
+  accessToken: row.access_token ? decryptSecret(row.access_token) : null,
+  accessTokenExpiresAt: row.access_token_expires_at ? new Date(row.access_token_expires_at).toISOString() : null,
+  scope: row.scope || null,
+  settings: row.settings || null,
+  secret: row.secret ? decryptSecret(row.secret) : null,
+  status: row.status
+});
+
+export const saveOAuthState = async (sql: any, state: string, userId: string, provider: string, codeVerifier: string) => {
+  await sql`DELETE FROM oauth_states WHERE created_at < NOW() - ${`${OAUTH_STATE_TTL_MINUTES} minutes`}::interval`;
+  await sql`
+    INSERT INTO oauth_states (state, user_id, provider, code_verifier)
+    VALUES (${state}, ${userId}, ${provider}, ${encryptSecret(codeVerifier)})
+  `;
+};
+
+/**
+ * Deletes and returns the pending state, or null if it is unknown, expired or for another provider.
+ */
+export const consumeOAuthState = async (sql: any, state: string, provider: string): Promise<{ userId: string, codeVerifier: string } | null> => {
+  const rows = await sql`
+    DELETE FROM oauth_states
+    WHERE state = ${state} AND provider = ${provider}
+    RETURNING user_id, code_verifier, created_at
+  `;
+  if (rows.length === 0) return null;
+  const ageMs = Date.now() - new Date(rows[0].created_at).getTime();
+  if (ageMs > OAUTH_STATE_TTL_MINUTES * 60000) return null;
+  return { userId: rows[0].user_id, codeVerifier: decryptSecret(rows[0].code_verifier) };
+};
+
+export const getMailCredential = async (sql: any, userId: string, id: string): Promise<MailCredential | null> => {
+  const rows = await sql`SELECT * FROM mail_credentials WHERE id = ${id} AND user_id = ${userId}`;
+  return rows.length > 0 ? mapCredential(rows[0]) : null;
+};
+
+export const listMailCredentials = async (sql: any, userId: string, provider?: string): Promise<MailCredential[]> => {
+  const rows = await sql`
+    SELECT * FROM mail_credentials
+    WHERE user_id = ${userId} AND (${provider || null}::text IS NULL OR provider = ${provider || null})
+    ORDER BY created_at ASC
+  `;
+  return rows.map(mapCredential);
+};
+
+/**
+ * Active credentials across all users, least recently scanned first, for the scheduled scan.
+ */
+export const listCredentialsDueForScan = async (sql: any, limit: number): Promise<MailCredential[]> => {
+  const rows = await sql`
+    SELECT * FROM mail_credentials
+    WHERE status = 'active'
+    ORDER BY last_scanned_at ASC NULLS FIRST
+    LIMIT ${limit}
+  `;
+  return rows.map(mapCredential);
+};
+
+export const markCredentialScanned = async (sql: any, id: string) => {
+  await sql`UPDATE mail_credentials SET last_scanned_at = NOW() WHERE id = ${id}`;
+};
+
+/**
+ * Inserts or updates the credential for (user, provider, address) and returns its id.
+ * A missing refresh token keeps the stored one, since providers only send it on first consent.
+ */
+export const upsertMailCredential = async (
+  sql: any,
+  credential: Omit<MailCredential, 'id' | 'status' | 'settings' | 'secret'> & { id?: string, settings?: Record<string, any> | null, secret?: string | null }
+): Promise<string> => {
+  const id = credential.id || `${credential.provider.toLowerCase()}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const rows = await sql`
+    INSERT INTO mail_credentials (
+      id, user_id, provider, email_address, refresh_token, access_token, access_token_expires_at, scope, settings, secret, status, updated_at
+    )
+    VALUES (
+      ${id},
+      ${credential.userId},
+      ${credential.provider},
+      ${credential.emailAddress},
+      ${credential.refreshToken ? encryptSecret(credential.refreshToken) : null},
+      ${credential.accessToken ? encryptSecret(credential.accessToken) : null},
+      ${credential.accessTokenExpiresAt},
+      ${credential.scope},
+      ${credential.settings ? JSON.stringify(credential.settings) : null},
+      ${credential.secret ? encryptSecret(credential.secret) : null},
+      'active',
+      NOW()
+    )
+    ON CONFLICT (user_id, provider, email_address) DO UPDATE SET
+      refresh_token = COALESCE(EXCLUDED.refresh_token, mail_credentials.refresh_token),
+      access_token = EXCLUDED.access_token,
+      access_token_expires_at = EXCLUDED.access_token_expires_at,
+      scope = COALESCE(EXCLUDED.scope, mail_credentials.scope),
+      settings = COALESCE(EXCLUDED.settings, mail_credentials.settings),
+      secret = COALESCE(EXCLUDED.secret, mail_credentials.secret),
+      status = 'active',
+      updated_at = NOW()
+    RETURNING id
+  `;
+  return rows[0].id;
+};
+
+export const updateAccessToken = async (sql: any, id: string, accessToken: string, expiresAt: string, refreshToken?: string) => {
+  await sql`
+    UPDATE mail_credentials SET
+      access_token = ${encryptSecret(accessToken)},
+      access_token_expires_at = ${expiresAt},
+      refresh_token = COALESCE(${refreshToken ? encryptSecret(refreshToken) : null}, refresh_token),
+      updated_at = NOW()
+    WHERE id = ${id}
+  `;
+};
+
+export const markCredentialRevoked = async (sql: any, id: string) => {
+  await sql`
+    UPDATE mail_credentials SET status = 'revoked', access_token = NULL, access_token_expires_at = NULL, updated_at = NOW()
+    WHERE id = ${id}
+  `;
+};
+
+export const deleteMailCredential = async (sql: any, userId: string, id: string) => {
+  await sql`DELETE FROM mail_credentials WHERE id = ${id} AND user_id = ${userId}`;
+};
+
+/**
+ * Mirrors a connected mailbox into profiles.connected_accounts so the client lists it.
+ * No secrets are written here.
+ */
+export const setProfileMailAccount = async (
+  sql: any,
+  userId: string,
+  account: { id: string, provider: string, emailAddress: string, authType?: 'oauth' | 'imap' } | null,
+  removeId?: string
+) => {
+  const rows = await sql`SELECT connected_accounts FROM profiles WHERE id = ${userId}`;
+  if (rows.length === 0) return;
+  const existing: any[] = Array.isArray(rows[0].connected_accounts) ? rows[0].connected_accounts : [];
+  const dropId = account ? account.id : removeId;
+  const next = existing.filter(a => a && a.id !== dropId && !(account && a.provider === account.provider && a.emailAddress === account.emailAddress));
+  if (account) {
+    next.push({
+      id: account.id,
+      provider: account.provider,
+      emailAddress: account.emailAddress,
+      isConnected: true,
+      lastSynced: new Date().toISOString(),
+      authType: account.authType || 'oauth'
+    });
+  }
+  await sql`UPDATE profiles SET connected_accounts = ${JSON.stringify(next)}, updated_at = NOW() WHERE id = ${userId}`;
+};
+
+/**
+ * Merges the connected_accounts a client saves with the stored ones. The cron advances the scan
+ * state of stored mailboxes on its own, so a client copy loaded before that must not roll it back:
+ * whichever side synced the account last keeps its syncCursor and lastSynced.
+ */
+export const mergeConnectedAccounts = (stored: any[], incoming: any[]): any[] => {
+  const storedById = new Map(stored.filter(a => a && a.id).map(a => [a.id, a]));
+  return incoming.map(account => {
+    const current = account && storedById.get(account.id);
+    if (!current) return account;
+    const storedAt = Date.parse(current.lastSynced || '') || 0;
+    const incomingAt = Date.parse(account.lastSynced || '') || 0;
+    return storedAt > incomingAt ? { ...account, syncCursor: current.syncCursor, lastSynced: current.lastSynced } : account;
+  });
+};
+
+/**
+ * Updates fields of one mirrored account (sync cursor, last scan time) without replacing the list.
+ */
+export const patchProfileMailAccount = async (sql: any, userId: string, accountId: string, patch: Record<string, any>) => {
+  const rows = await sql`SELECT connected_accounts FROM profiles WHERE id = ${userId}`;
+  if (rows.length === 0 || !Array.isArray(rows[0].connected_accounts)) return;
+  const next = rows[0].connected_accounts.map((a: any) => a && a.id === accountId ? { ...a, ...patch } : a);
+  await sql`UPDATE profiles SET connected_accounts = ${JSON.stringify(next)}, updated_at = NOW() WHERE id = ${userId}`;
+};
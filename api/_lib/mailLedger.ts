@@ -0,0 +1,44 @@
+/**
+ * Ledger of mail messages that have already been analyzed, keyed by mailbox so re-scans
+ * (manual or scheduled) skip them. Entries expire after LEDGER_RETENTION_DAYS, well past
+ * the longest scan window.
+ */
+
+const LEDGER_RETENTION_DAYS = 45;
+
+let ledgerReady = false;
+export const ensureMailLedgerTable = async (sql: any) => {
+  if (ledgerReady) return;
+  await sql`
+    CREATE TABLE IF NOT EXISTS processed_messages (
+      user_id TEXT NOT NULL,
+      mailbox TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, mailbox, message_id)
+    )
+  `;
+  ledgerReady = true;
+};
+
+export const listProcessedMessageIds = async (sql: any, userId: string, mailbox: string): Promise<string[]> => {
+  const rows = await sql`
+    SELECT message_id FROM processed_messages
+    WHERE user_id = ${userId} AND mailbox = ${mailbox}
+      AND processed_at > NOW() - ${`${LEDGER_RETENTION_DAYS} days`}::interval
+  `;
+  return rows.map((row: any) => row.message_id);
+};
+
+export const recordProcessedMessages = async (sql: any, userId: string, mailbox: string, messageIds: string[]) => {
+  if (messageIds.length === 0) return;
+  await sql`
+    DELETE FROM processed_messages
+    WHERE user_id = ${userId} AND processed_at < NOW() - ${`${LEDGER_RETENTION_DAYS} days`}::interval
+  `;
+  await sql`
+    INSERT INTO processed_messages (user_id, mailbox, message_id)
+    SELECT ${userId}, ${mailbox}, unnest(${messageIds}::text[])
+    ON CONFLICT DO NOTHING
+  `;
+};
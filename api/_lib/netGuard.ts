@@ -0,0 +1,137 @@
+import { lookup } from 'dns/promises';
+import { LookupFunction, isIP } from 'net';
+import { Agent } from 'undici';
+
+/**
+ * Guards server-side fetches of user-supplied URLs: only http(s) to public addresses, so a job
+ * link can't be used to reach the function's own network (metadata endpoints, localhost, LAN).
+ */
+
+export interface NetGuardOptions {
+  // Local fixture servers in development
+  allowPrivateHosts?: boolean;
+}
+
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedUrlError';
+  }
+}
+
+const isPrivateV4 = ([a, b]: number[]): boolean =>
+  a === 0 || a === 10 || a === 127 || a >= 224 ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  (a === 100 && b >= 64 && b <= 127);
+
+// Expands a valid IPv6 address (any spelling, including a dotted IPv4 tail) to its 16 bytes
+const ipv6Bytes = (ip: string): number[] => {
+  let text = ip.split('%')[0];
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.includes('::') ? text.split('::') : [text, ''];
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros: string[] = new Array(8 - headGroups.length - tailGroups.length).fill('0');
+  return [...headGroups, ...zeros, ...tailGroups].flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+};
+
+// The IPv4 address carried inside an IPv6 one: mapped, compatible, NAT64 and 6to4
+const embeddedV4 = (bytes: number[]): number[] | null => {
+  const zero = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+  if (zero(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) return bytes.slice(12);
+  if (zero(0, 12)) return bytes.slice(12);
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && zero(4, 12)) return bytes.slice(12);
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return bytes.slice(2, 6);
+  return null;
+};
+
+export const isPrivateAddress = (address: string): boolean => {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (isIP(ip) === 4) return isPrivateV4(ip.split('.').map(Number));
+  if (isIP(ip) === 6) {
+    const bytes = ipv6Bytes(ip);
+    const v4 = embeddedV4(bytes);
+    if (v4) return isPrivateV4(v4);
+    // Unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+    return (bytes[0] & 0xfe) === 0xfc || (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || bytes[0] === 0xff;
+  }
+  return false;
+};
+
+/**
+ * Resolves `host` and returns its addresses, throwing BlockedUrlError if it is a local name or any
+ * address is private. Callers that open sockets themselves should connect to an address returned
+ * here, so a DNS answer that changes after the check can't redirect them.
+ */
+export const resolvePublicHost = async (host: string): Promise<string[]> => {
+  const name = host.replace(/^\[|\]$/g, '');
+  if (name === 'localhost' || name.endsWith('.localhost') || name.endsWith('.internal')) {
+    throw new BlockedUrlError(`Blocked host ${name}`);
+  }
+  const addresses = isIP(name) ? [name] : (await lookup(name, { all: true })).map(entry => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new BlockedUrlError(`Blocked host ${name}`);
+  }
+  return addresses;
+};
+
+/**
+ * Throws BlockedUrlError unless `url` is http(s) and its host resolves only to public addresses.
+ */
+export const assertPublicUrl = async (url: string, options: NetGuardOptions = {}): Promise<URL> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    throw new BlockedUrlError('Invalid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BlockedUrlError(`Unsupported protocol ${parsed.protocol}`);
+  }
+  if (options.allowPrivateHosts) return parsed;
+
+  await resolvePublicHost(parsed.hostname);
+  return parsed;
+};
+
+// Socket lookup that answers only with addresses resolvePublicHost accepted
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  resolvePublicHost(hostname).then(
+    addresses => {
+      const entries = addresses.map(address => ({ address, family: isIP(address) }));
+      if (options.all) callback(null, entries);
+      else callback(null, entries[0].address, entries[0].family);
+    },
+    error => callback(error, '')
+  );
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// Node's fetch takes an undici dispatcher; the DOM typings don't declare the option
+type DispatcherInit = RequestInit & { dispatcher?: Agent };
+
+/**
+ * fetch() pinned to checked addresses: the connection resolves the host once more through the
+ * guard, so a DNS answer that changes after assertPublicUrl can't reach a private address. Callers
+ * follow redirects themselves (redirect: 'manual') and assert every hop.
+ */
+export const guardedFetch = async (url: string, init: RequestInit, options: NetGuardOptions = {}): Promise<Response> => {
+  try {
+    const pinned: DispatcherInit = { ...init, dispatcher: options.allowPrivateHosts ? undefined : publicAgent };
+    return await fetch(url, pinned);
+  } catch (error: any) {
+    // fetch wraps connect failures in "fetch failed"
+    if (error?.cause instanceof BlockedUrlError) throw error.cause;
+    throw error;
+  }
+};
@@ -0,0 +1,195 @@
+import { BlockedUrlError, NetGuardOptions, assertPublicUrl, guardedFetch } from './netGuard';
+
+/**
+ * Fetches job pages directly from the function: browser-like headers, a timeout, a size cap,
+ * charset detection and the SSRF guard on every redirect hop, with connections pinned to the
+ * checked addresses. gzip, deflate and brotli bodies are decoded by fetch itself. Successful
+ * results are cached per URL for PAGE_CACHE_TTL_MS, per instance.
+ */
+
+export interface FetchPageOptions extends NetGuardOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  accept?: string;
+  // 0 skips the cache
+  cacheTtlMs?: number;
+}
+
+export interface FetchedPage {
+  // After redirects
+  url: string;
+  status: number;
+  contentType: string;
+  charset: string;
+  body: string;
+  // The body was cut at maxBytes
+  truncated: boolean;
+  fetchedAt: string;
+}
+
+export class PageFetchError extends Error {
+  status?: number;
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'PageFetchError';
+    this.status = status;
+  }
+}
+
+export const BROWSER_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+const PAGE_CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 100;
+
+const cache = new Map<string, { expiresAt: number, page: FetchedPage }>();
+
+const readCache = (key: string) => {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return null;
+  }
+  return entry.page;
+};
+
+const writeCache = (key: string, page: FetchedPage, ttlMs: number) => {
+  // Map keeps insertion order, so the first key is the oldest entry
+  if (cache.size >= MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+  cache.set(key, { expiresAt: Date.now() + ttlMs, page });
+};
+
+export const clearPageCache = () => cache.clear();
+
+const readBody = async (response: Response, maxBytes: number): Promise<{ bytes: Uint8Array, truncated: boolean }> => {
+  if (!response.body) return { bytes: new Uint8Array(0), truncated: false };
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.length > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      size = maxBytes;
+      truncated = true;
+      await reader.cancel().catch(() => undefined);
+      break;
+    }
+    chunks.push(value);
+    size += value.length;
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return { bytes, truncated };
+};
+
+const charsetFromContentType = (contentType: string) => contentType.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1];
+
+// Byte order mark, then the Content-Type header, then a <meta> tag in the first 2 KB, then UTF-8
+export const detectCharset = (bytes: Uint8Array, contentType: string): string => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  const declared = charsetFromContentType(contentType);
+  if (declared) return declared.toLowerCase();
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 2048));
+  const meta = head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i);
+  return meta ? meta[1].toLowerCase() : 'utf-8';
+};
+
+// Labels browsers decode as windows-1252 (WHATWG); Node's TextDecoder treats them as plain Latin-1
+const WINDOWS_1252_LABELS = new Set(['windows-1252', 'cp1252', 'x-cp1252', 'latin1', 'l1', 'iso-8859-1', 'iso8859-1', 'iso_8859-1', 'us-ascii', 'ascii']);
+// 0x80-0x9F in windows-1252
+const WINDOWS_1252_HIGH = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f'
+  + '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+const decodeBody = (bytes: Uint8Array, charset: string) => {
+  if (WINDOWS_1252_LABELS.has(charset)) {
+    let text = '';
+    for (let i = 0; i < bytes.length; i++) {
+      text += bytes[i] >= 0x80 && bytes[i] <= 0x9f ? WINDOWS_1252_HIGH[bytes[i] - 0x80] : String.fromCharCode(bytes[i]);
+    }
+    return text;
+  }
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch (e) {
+    // Unknown label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+/**
+ * Throws BlockedUrlError for non-public targets and PageFetchError for timeouts, redirect loops
+ * and non-2xx responses.
+ */
+export const fetchPage = async (url: string, options: FetchPageOptions = {}): Promise<FetchedPage> => {
+  const ttlMs = options.cacheTtlMs ?? PAGE_CACHE_TTL_MS;
+  const accept = options.accept || 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8';
+  const cacheKey = `${accept} ${url}`;
+  const cached = ttlMs > 0 ? readCache(cacheKey) : null;
+  if (cached) return cached;
+
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let current = url;
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicUrl(current, { allowPrivateHosts: options.allowPrivateHosts });
+      const response = await guardedFetch(current, {
+        // Redirects are followed here so every hop goes through the guard
+        redirect: 'manual',
+        signal,
+        headers: {
+          'User-Agent': BROWSER_USER_AGENT,
+          'Accept': accept,
+          'Accept-Language': 'en-US,en;q=0.9',
+          'Accept-Encoding': 'gzip, deflate, br'
+        }
+      }, options);
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel().catch(() => undefined);
+        if (redirects >= maxRedirects) throw new PageFetchError(`Stopped after ${maxRedirects} redirects`);
+        current = new URL(location, current).toString();
+        continue;
+      }
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => undefined);
+        throw new PageFetchError(`HTTP ${response.status}`, response.status);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const { bytes, truncated } = await readBody(response, options.maxBytes ?? DEFAULT_MAX_BYTES);
+      const charset = detectCharset(bytes, contentType);
+      const page: FetchedPage = {
+        url: current,
+        status: response.status,
+        contentType,
+        charset,
+        body: decodeBody(bytes, charset),
+        truncated,
+        fetchedAt: new Date().toISOString()
+      };
+      if (ttlMs > 0) writeCache(cacheKey, page, ttlMs);
+      return page;
+    }
+  } catch (error: any) {
+    if (error instanceof PageFetchError || error instanceof BlockedUrlError) throw error;
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') throw new PageFetchError('Timed out');
+    throw new PageFetchError(error.message || 'Could not fetch page');
+  }
+};
@@ -0,0 +1,109 @@
+import { ScanRun } from '../../types';
+
+/**
+ * Scan-run history. One row per mailbox per scan, with the per-email breakdown, kept for
+ * SCAN_RUN_RETENTION_DAYS.
+ */
+
+// Must match the /api/cron-inbox-scan schedule in vercel.json ("0 */6 * * *")
+export const SCAN_INTERVAL_HOURS = 6;
+
+const SCAN_RUN_RETENTION_DAYS = 30;
+
+// Larger scans keep the first MAX_RUN_MESSAGES emails of the breakdown
+export const MAX_RUN_MESSAGES = 100;
+
+// Scans run at whole multiples of the interval, in UTC
+export const getNextScanAt = (now: Date = new Date()) => {
+  const interval = SCAN_INTERVAL_HOURS * 3600000;
+  return new Date(Math.floor(now.getTime() / interval) * interval + interval).toISOString();
+};
+
+let scanRunsReady = false;
+export const ensureScanRunsTable = async (sql: any) => {
+  if (scanRunsReady) return;
+  await sql`
+    CREATE TABLE IF NOT EXISTS mail_scan_runs (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      account_id TEXT NOT NULL,
+      mailbox TEXT NOT NULL,
+      trigger TEXT NOT NULL,
+      status TEXT NOT NULL,
+      query TEXT NOT NULL DEFAULT '',
+      messages_found INTEGER NOT NULL DEFAULT 0,
+      messages_processed INTEGER NOT NULL DEFAULT 0,
+      jobs_found INTEGER NOT NULL DEFAULT 0,
+      jobs_created INTEGER NOT NULL DEFAULT 0,
+      duplicates_skipped INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      started_at TIMESTAMPTZ NOT NULL,
+      finished_at TIMESTAMPTZ NOT NULL,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      messages JSONB NOT NULL DEFAULT '[]'
+    )
+  `;
+  // Tables created before the per-email breakdown existed
+  await sql`ALTER TABLE mail_scan_runs ADD COLUMN IF NOT EXISTS query TEXT NOT NULL DEFAULT ''`;
+  await sql`ALTER TABLE mail_scan_runs ADD COLUMN IF NOT EXISTS duplicates_skipped INTEGER NOT NULL DEFAULT 0`;
+  await sql`ALTER TABLE mail_scan_runs ADD COLUMN IF NOT EXISTS duration_ms INTEGER NOT NULL DEFAULT 0`;
+  await sql`ALTER TABLE mail_scan_runs ADD COLUMN IF NOT EXISTS messages JSONB NOT NULL DEFAULT '[]'`;
+  await sql`CREATE INDEX IF NOT EXISTS mail_scan_runs_user_idx ON mail_scan_runs (user_id, started_at DESC)`;
+  scanRunsReady = true;
+};
+
+const mapScanRun = (row: any): ScanRun => ({
+  id: row.id,
+  accountId: row.account_id,
+  mailbox: row.mailbox,
+  trigger: row.trigger,
+  status: row.status,
+  query: row.query || '',
+  messagesFound: row.messages_found,
+  messagesProcessed: row.messages_processed,
+  jobsFound: row.jobs_found,
+  jobsCreated: row.jobs_created,
+  duplicatesSkipped: row.duplicates_skipped || 0,
+  error: row.error || undefined,
+  startedAt: new Date(row.started_at).toISOString(),
+  finishedAt: new Date(row.finished_at).toISOString(),
+  durationMs: row.duration_ms || 0,
+  ...(row.messages ? { messages: typeof row.messages === 'string' ? JSON.parse(row.messages) : row.messages } : {})
+});
+
+export const recordScanRun = async (sql: any, userId: string, run: Omit<ScanRun, 'id'>): Promise<ScanRun> => {
+  const id = `scan-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const messages = (run.messages || []).slice(0, MAX_RUN_MESSAGES);
+  await sql`DELETE FROM mail_scan_runs WHERE user_id = ${userId} AND started_at < NOW() - ${`${SCAN_RUN_RETENTION_DAYS} days`}::interval`;
+  await sql`
+    INSERT INTO mail_scan_runs (
+      id, user_id, account_id, mailbox, trigger, status, query,
+      messages_found, messages_processed, jobs_found, jobs_created, duplicates_skipped, error,
+      started_at, finished_at, duration_ms, messages
+    )
+    VALUES (
+      ${id}, ${userId}, ${run.accountId}, ${run.mailbox}, ${run.trigger}, ${run.status}, ${run.query},
+      ${run.messagesFound}, ${run.messagesProcessed}, ${run.jobsFound}, ${run.jobsCreated}, ${run.duplicatesSkipped}, ${run.error || null},
+      ${run.startedAt}, ${run.finishedAt}, ${run.durationMs}, ${JSON.stringify(messages)}
+    )
+  `;
+  return { id, ...run, messages };
+};
+
+// Summaries only; the per-email breakdown comes with getScanRun
+export const listScanRuns = async (sql: any, userId: string, limit: number): Promise<ScanRun[]> => {
+  const rows = await sql`
+    SELECT id, account_id, mailbox, trigger, status, query, messages_found, messages_processed, jobs_found,
+      jobs_created, duplicates_skipped, error, started_at, finished_at, duration_ms
+    FROM mail_scan_runs
+    WHERE user_id = ${userId}
+    ORDER BY started_at DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(mapScanRun);
+};
+
+export const getScanRun = async (sql: any, userId: string, id: string): Promise<ScanRun | null> => {
+  const rows = await sql`SELECT * FROM mail_scan_runs WHERE user_id = ${userId} AND id = ${id}`;
+  return rows.length > 0 ? mapScanRun(rows[0]) : null;
+};
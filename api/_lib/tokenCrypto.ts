@@ -0,0 +1,35 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * AES-256-GCM encryption for secrets stored in the database (refresh tokens, app passwords).
+ * Payload format: v1.<iv>.<auth tag>.<ciphertext>, each part base64url.
+ */
+
+const VERSION = 'v1';
+
+const getKey = () => {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('TOKEN_ENCRYPTION_KEY is not set');
+  }
+  // Hashing lets the key be any high-entropy string while always yielding 32 bytes
+  return createHash('sha256').update(secret).digest();
+};
+
+export const encryptSecret = (plain: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64url'), tag.toString('base64url'), ciphertext.toString('base64url')].join('.');
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [version, iv, tag, ciphertext] = payload.split('.');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,126 @@
+import { DEFAULT_URL_RULES, UrlRules, cleanJobUrl, isLoginWall, isTerminalJobUrl } from '../../services/urlRules';
+import { assertPublicUrl, guardedFetch } from './netGuard';
+import { BROWSER_USER_AGENT } from './pageFetcher';
+
+/**
+ * Resolves a job link from an email to the posting it leads to: unwraps known tracker links,
+ * follows redirects (HTTP, meta refresh and simple script redirects) and strips tracking params.
+ * Stops early at a known job board or ATS page, and before a sign-in wall.
+ */
+
+export interface ResolveOptions {
+  rules?: UrlRules;
+  maxRedirects?: number;
+  // Per request
+  timeoutMs?: number;
+  allowPrivateHosts?: boolean;
+}
+
+export interface ResolvedUrl {
+  // Canonical URL, or the cleaned input when resolution failed
+  url: string;
+  // Every URL visited, starting with the cleaned input
+  hops: string[];
+  resolved: boolean;
+  error?: string;
+}
+
+const DEFAULT_MAX_REDIRECTS = 8;
+const DEFAULT_TIMEOUT_MS = 5000;
+// Client-side redirects sit in the <head>; the rest of the page isn't needed
+const MAX_BODY_BYTES = 64 * 1024;
+
+const SCRIPT_REDIRECT_MAX_LENGTH = 4096;
+
+const META_REFRESH = /<meta[^>]+http-equiv\s*=\s*["']?refresh["']?[^>]*content\s*=\s*["']?\s*\d+\s*;\s*url\s*=\s*['"]?([^"'>\s]+)/i;
+const SCRIPT_REDIRECT = /(?:window\.|document\.)?location(?:\.href)?\s*=\s*["']([^"']+)["']|location\.replace\(\s*["']([^"']+)["']\s*\)/i;
+
+const readHead = async (response: Response): Promise<string> => {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  while (bytes < MAX_BODY_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.length;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => undefined);
+  return text;
+};
+
+const decodeHtmlUrl = (url: string) => url.replace(/&amp;/g, '&').replace(/\\\//g, '/');
+
+// Where this response sends the browser next, if anywhere
+const nextLocation = async (response: Response, current: string): Promise<string | null> => {
+  if (response.status >= 300 && response.status < 400) {
+    const location = response.headers.get('location');
+    return location ? new URL(location, current).toString() : null;
+  }
+  if (!response.ok || !(response.headers.get('content-type') || '').includes('html')) {
+    await response.body?.cancel().catch(() => undefined);
+    return null;
+  }
+  const html = await readHead(response);
+  // Script redirects only count on stub pages; a real page may assign location in event handlers
+  const match = html.match(META_REFRESH) || (html.length < SCRIPT_REDIRECT_MAX_LENGTH ? html.match(SCRIPT_REDIRECT) : null);
+  const target = match && (match[1] || match[2]);
+  return target ? new URL(decodeHtmlUrl(target), current).toString() : null;
+};
+
+export const resolveJobUrl = async (url: string, options: ResolveOptions = {}): Promise<ResolvedUrl> => {
+  const rules = options.rules || DEFAULT_URL_RULES;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let current = cleanJobUrl(url, rules);
+  const hops = [current];
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      if (isTerminalJobUrl(current, rules)) break;
+      if (redirects >= maxRedirects) {
+        return { url: current, hops, resolved: false, error: `Stopped after ${maxRedirects} redirects` };
+      }
+
+      await assertPublicUrl(current, { allowPrivateHosts: options.allowPrivateHosts });
+      const response = await guardedFetch(current, {
+        redirect: 'manual',
+        headers: { 'User-Agent': BROWSER_USER_AGENT, 'Accept': 'text/html,*/*' },
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+      }, options);
+      if (response.status >= 400) {
+        await response.body?.cancel().catch(() => undefined);
+        return { url: current, hops, resolved: false, error: `HTTP ${response.status}` };
+      }
+
+      const next = await nextLocation(response, current);
+      if (!next) break;
+      const cleaned = cleanJobUrl(next, rules);
+      if (isLoginWall(cleaned, rules)) break;
+      if (hops.includes(cleaned)) {
+        return { url: current, hops, resolved: false, error: 'Redirect loop' };
+      }
+      hops.push(cleaned);
+      current = cleaned;
+    }
+    return { url: current, hops, resolved: true };
+  } catch (error: any) {
+    const message = error.name === 'TimeoutError' ? 'Timed out' : error.message || 'Could not resolve';
+    return { url: current, hops, resolved: false, error: message };
+  }
+};
+
+// Resolves several links a few at a time; results are in input order
+export const resolveJobUrls = async (urls: string[], options: ResolveOptions = {}, concurrency = 4): Promise<ResolvedUrl[]> => {
+  const results: ResolvedUrl[] = new Array(urls.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const index = next++;
+      results[index] = await resolveJobUrl(urls[index], options);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, worker));
+  return results;
+};
@@ -0,0 +1,78 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { ensureMailCredentialTables, listCredentialsDueForScan } from './_lib/mailCredentials';
+import { ensureMailLedgerTable } from './_lib/mailLedger';
+import { ensureScanRunsTable } from './_lib/scanRuns';
+import { scanStoredMailbox } from './_lib/inboxScan';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+const MAX_MAILBOXES_PER_RUN = 25;
+// Stop starting new scans well before the function's maxDuration (vercel.json)
+const TIME_BUDGET_MS = 240000;
+
+/**
+ * Scheduled by Vercel Cron (see vercel.json). Scans every stored mailbox, least recently
+ * scanned first, imports new jobs and records a scan run per mailbox. Mailboxes that don't
+ * fit in one invocation are first in line next time.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (process.env.NODE_ENV !== 'development' && (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const sql = getSql();
+    await ensureMailCredentialTables(sql);
+    await ensureMailLedgerTable(sql);
+    await ensureScanRunsTable(sql);
+
+    const startedAt = Date.now();
+    const credentials = await listCredentialsDueForScan(sql, MAX_MAILBOXES_PER_RUN);
+    const profiles = new Map<string, any>();
+    let scanned = 0;
+    let failed = 0;
+    let jobsCreated = 0;
+
+    for (const credential of credentials) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) break;
+
+      if (!profiles.has(credential.userId)) {
+        const rows = await sql`SELECT preferences, connected_accounts FROM profiles WHERE id = ${credential.userId}`;
+        profiles.set(credential.userId, rows[0] || null);
+      }
+      const profile = profiles.get(credential.userId);
+      if (!profile) continue;
+
+      try {
+        const run = await scanStoredMailbox(sql, credential, {
+          preferences: profile.preferences || undefined,
+          connectedAccounts: Array.isArray(profile.connected_accounts) ? profile.connected_accounts : []
+        });
+        scanned++;
+        if (run.status === 'error') failed++;
+        jobsCreated += run.jobsCreated;
+      } catch (error: any) {
+        failed++;
+        console.error(`[CRON-INBOX-SCAN] Could not record scan for ${credential.id}:`, error.message);
+      }
+    }
+
+    console.log(`[CRON-INBOX-SCAN] Scanned ${scanned} mailboxes (${failed} failed), created ${jobsCreated} jobs`);
+    return res.status(200).json({ success: true, scanned, failed, jobsCreated });
+  } catch (error: any) {
+    console.error('[API/CRON-INBOX-SCAN] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,132 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { evaluateReminderRules, getReminderRules } from '../services/reminderService';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+let remindersTableReady = false;
+const ensureRemindersTable = async (sql: any) => {
+  if (remindersTableReady) return;
+  await sql`
+    CREATE TABLE IF NOT EXISTS reminders (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      rule_id TEXT NOT NULL,
+      job_id TEXT NOT NULL,
+      interview_id TEXT,
+      dedupe_key TEXT NOT NULL,
+      message TEXT NOT NULL,
+      due_at TIMESTAMPTZ NOT NULL,
+      status TEXT NOT NULL DEFAULT 'unread',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (user_id, dedupe_key)
+    )
+  `;
+  remindersTableReady = true;
+};
+
+const tableExists = async (sql: any, name: string) => {
+  const result = await sql`SELECT to_regclass(${'public.' + name}) AS name`;
+  return !!result[0]?.name;
+};
+
+/**
+ * Scheduled by Vercel Cron (see vercel.json). Evaluates every profile's reminder rules
+ * and stores any newly due reminders; the unique dedupe key makes re-runs harmless.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (process.env.NODE_ENV !== 'development' && (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const sql = getSql();
+    await ensureRemindersTable(sql);
+
+    const hasHistory = await tableExists(sql, 'job_status_history');
+    const hasInterviews = await tableExists(sql, 'interviews');
+    const now = new Date();
+
+    const profiles = await sql`SELECT id, preferences FROM profiles`;
+    let created = 0;
+
+    for (const profile of profiles) {
+      const rules = getReminderRules(profile.preferences?.reminderRules);
+      if (!rules.some(r => r.enabled)) continue;
+
+      const jobRows = await sql`SELECT id, title, company, status, created_at FROM jobs WHERE user_id = ${profile.id}`;
+      const historyRows = hasHistory
+        ? await sql`SELECT job_id, previous_status, status, changed_at FROM job_status_history WHERE user_id = ${profile.id} ORDER BY changed_at ASC, id ASC`
+        : [];
+      const interviewRows = hasInterviews
+        ? await sql`SELECT id, job_id, round, stage, starts_at, time_zone FROM interviews WHERE user_id = ${profile.id} AND starts_at > NOW()`
+        : [];
+
+      const jobs = jobRows.map((row: any) => ({
+        id: row.id,
+        title: row.title || '',
+        company: row.company || '',
+        location: '',
+        description: '',
+        source: 'Gmail' as const,
+        detectedAt: new Date(row.created_at).toISOString(),
+        status: row.status,
+        matchScore: 0,
+        requirements: [],
+        statusHistory: historyRows
+          .filter((h: any) => h.job_id === row.id)
+          .map((h: any) => ({ status: h.status, previousStatus: h.previous_status, changedAt: new Date(h.changed_at).toISOString() }))
+      }));
+
+      const interviews = interviewRows.map((row: any) => ({
+        id: row.id,
+        jobId: row.job_id,
+        round: row.round,
+        stage: row.stage || '',
+        startsAt: new Date(row.starts_at).toISOString(),
+        timeZone: row.time_zone || 'UTC',
+        durationMinutes: 60,
+        interviewers: []
+      }));
+
+      const candidates = evaluateReminderRules(rules, jobs, interviews, now);
+      for (const c of candidates) {
+        const inserted = await sql`
+          INSERT INTO reminders (id, user_id, rule_id, job_id, interview_id, dedupe_key, message, due_at, status, created_at)
+          VALUES (
+            ${`reminder-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`},
+            ${profile.id},
+            ${c.ruleId},
+            ${c.jobId},
+            ${c.interviewId || null},
+            ${c.dedupeKey},
+            ${c.message},
+            ${c.dueAt},
+            'unread',
+            NOW()
+          )
+          ON CONFLICT (user_id, dedupe_key) DO NOTHING
+          RETURNING id
+        `;
+        created += inserted.length;
+      }
+    }
+
+    console.log(`[CRON-REMINDERS] Evaluated ${profiles.length} profiles, created ${created} reminders`);
+    return res.status(200).json({ success: true, profiles: profiles.length, created });
+  } catch (error: any) {
+    console.error('[API/CRON-REMINDERS] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
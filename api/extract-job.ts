@@ -1,21 +1,94 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { extractAtsJob } from './_lib/atsExtractors';
+import { extractJobPostingJsonLd } from './_lib/jsonLd';
+import { fetchPage } from './_lib/pageFetcher';
+import { resolveJobUrl } from './_lib/urlResolver';
+import { getLlmClient } from '../services/llmClientRegistry';
+import { parseJsonResponse } from '../services/llmClient';
+import { buildPrompt } from '../services/promptRegistry';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Debug logs
-  console.log('[extract-job] Environment keys:', Object.keys(process.env).filter(k => k.includes('API') || k.includes('KEY')));
-  console.log('[extract-job] GOOGLE_GENERATIVE_AI_API_KEY exists:', !!process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/EXTRACT-JOB] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/EXTRACT-JOB] Token verification error:', error);
+    return null;
+  }
+}
 
+// Page HTML; empty when it can't be fetched (the LLM then works from the URL alone)
+const fetchPageContent = async (url: string) => {
+  try {
+    const page = await fetchPage(url);
+    console.log('[extract-job] Fetched page content, length:', page.body.length);
+    return page.body;
+  } catch (error: any) {
+    console.error('[extract-job] Failed to fetch page content:', error.message);
+    return '';
+  }
+};
+
+// Last resort for pages without structured data: the page (or just the URL) through the LLM
+const extractWithLlm = async (url: string, pageContent: string) => {
+  const response = await getLlmClient().generate(buildPrompt('extractJob', { url, pageContent }).request);
+  const parsed = parseJsonResponse<any>(response.text, {});
+  return {
+    title: parsed.title || 'Extraction Failed',
+    company: parsed.company || 'Unknown',
+    location: parsed.location || 'Remote',
+    salaryRange: parsed.salaryRange || '',
+    description: parsed.description || '',
+    requirements: Array.isArray(parsed.requirements) ? parsed.requirements : [],
+    applicationUrl: url
+  };
+};
+
+/**
+ * POST { url } -> { data, sources, extractor }
+ * Signed-in users only, since it fetches the given URL from the function.
+ * Tracker links are resolved first. Postings on a supported ATS (Greenhouse, Lever, Workday, Ashby)
+ * are read from its structured data, other pages from their schema.org JobPosting JSON-LD;
+ * only pages with neither go through the LLM (extractor 'llm').
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS headers
   res.setHeader('Access-Control-Allow-Credentials', 'true');
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
   
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  // Development bypass
+  if (process.env.NODE_ENV === 'development') {
+    console.log('[extract-job] Development mode - bypassing Clerk auth');
+  } else if (!await verifyClerkToken(req.headers.authorization as string)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method Not Allowed' });
   }
@@ -28,39 +101,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     console.log('[extract-job] Processing URL:', url);
 
-    // 1. Fetch page HTML via proxy (server-side)
-    const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-    let pageContent = '';
+    const resolved = await resolveJobUrl(url);
+    const canonicalUrl = resolved.resolved ? resolved.url : undefined;
 
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 15000);
-        const pageRes = await fetch(proxyUrl, { signal: controller.signal });
-        clearTimeout(timeoutId);
-        if (pageRes.ok) {
-          pageContent = await pageRes.text();
-          console.log('[extract-job] Fetched page content, length:', pageContent.length);
-        }
-      } catch (e) {
-        const err: any = e;
-        if (err && err.name === 'AbortError') {
-          console.error('[extract-job] Fetch timed out');
-        } else {
-          console.error('[extract-job] Failed to fetch page content:', e);
-        }
+    const ats = await extractAtsJob(resolved.url);
+    if (ats) {
+      console.log(`[extract-job] Extracted with ${ats.extractor}:`, ats.job.title);
+      return res.status(200).json({ data: { ...ats.job, canonicalUrl }, sources: [], extractor: ats.extractor });
     }
 
-    // 2. Call Gemini on the server
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-    if (!apiKey) {
-      console.error('[extract-job] API key not found in environment');
-      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY environment variable is not set');
+    const pageContent = await fetchPageContent(resolved.url);
+    const posting = pageContent ? extractJobPostingJsonLd(pageContent, resolved.url) : null;
+    if (posting) {
+      console.log('[extract-job] Extracted from JSON-LD:', posting.title);
+      return res.status(200).json({ data: { ...posting, canonicalUrl }, sources: [], extractor: 'json-ld' });
     }
 
-    console.log('[extract-job] Creating GoogleGenerativeAI with key:', apiKey.substring(0, 20) + '...');
-
-    const ai = new GoogleGenerativeAI(apiKey);
-    
-    // Enhanced prompt for better extraction
-    const prompt = pageContent
-      ? `Extract job details from this HTML content.
+    const data = await extractWithLlm(resolved.url, pageContent);
+    return res.status(200).json({ data: { ...data, canonicalUrl }, sources: [], extractor: 'llm' });
+  } catch (error: any) {
+    console.error('[extract-job] Error:', error.message);
+    return res.status(500).json({ error: 'Job extraction failed' });
+  }
+}
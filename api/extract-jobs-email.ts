@@ -1,7 +1,9 @@
 
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import * as ClerkServer from '@clerk/nextjs/server';
-import { GoogleGenAI, Type } from "@google/genai";
+import { getLlmClient } from '../services/llmClientRegistry';
+import { parseJsonResponse } from '../services/llmClient';
+import { buildPrompt } from '../services/promptRegistry';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method Not Allowed' });
@@ -14,34 +16,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const { html } = req.body;
     if (!html) return res.status(400).json({ error: 'Missing HTML' });
 
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Identify all job listings in this email content: ${html.substring(0, 20000)}. For each job, extract the title, company, location, and application URL.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            jobs: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  title: { type: Type.STRING },
-                  company: { type: Type.STRING },
-                  location: { type: Type.STRING },
-                  applicationUrl: { type: Type.STRING }
-                }
-              }
-            }
-          }
-        }
-      }
-    });
+    const response = await getLlmClient().generate(buildPrompt('extractEmailJobs', { html }).request);
 
-    const data = JSON.parse(response.text || '{"jobs": []}');
-    return res.status(200).json(data);
+    const data = parseJsonResponse<{ jobs?: any[] }>(response.text, { jobs: [] });
+    return res.status(200).json({ jobs: Array.isArray(data.jobs) ? data.jobs : [] });
   } catch (error: any) {
     console.error('[API/EXTRACT-JOBS-EMAIL] Error:', error.message);
     return res.status(500).json({ error: 'Internal Server Error' });
@@ -0,0 +1,135 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import {
+  ensureMailCredentialTables,
+  saveOAuthState,
+  getMailCredential,
+  deleteMailCredential,
+  setProfileMailAccount
+} from './_lib/mailCredentials';
+import {
+  buildGoogleAuthorizeUrl,
+  createOAuthState,
+  createPkcePair,
+  getFreshGmailAccessToken,
+  revokeGoogleToken,
+  OAuthError
+} from './_lib/gmailOAuth';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/GMAIL-AUTH] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/GMAIL-AUTH] Token verification error:', error);
+    return null;
+  }
+}
+
+/**
+ * POST   -> starts an authorization: stores state + PKCE verifier, returns the Google consent URL
+ * GET    ?accountId= -> a valid access token for the connected mailbox, refreshed if needed
+ * DELETE ?accountId= -> revokes the grant and deletes the stored credential
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  res.setHeader('Cache-Control', 'no-store');
+  
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[GMAIL-AUTH] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const sql = getSql();
+    await ensureMailCredentialTables(sql);
+
+    if (req.method === 'POST') {
+      const { loginHint } = req.body || {};
+      const state = createOAuthState();
+      const { codeVerifier, codeChallenge } = createPkcePair();
+      await saveOAuthState(sql, state, userId, 'Gmail', codeVerifier);
+      return res.status(200).json({ authorizeUrl: buildGoogleAuthorizeUrl(state, codeChallenge, loginHint) });
+    }
+
+    const accountId = req.query.accountId as string;
+    if (!accountId) {
+      return res.status(400).json({ error: 'Account ID required' });
+    }
+
+    const credential = await getMailCredential(sql, userId, accountId);
+    if (!credential || credential.provider !== 'Gmail') {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    if (req.method === 'GET') {
+      try {
+        const token = await getFreshGmailAccessToken(sql, credential);
+        return res.status(200).json({ ...token, emailAddress: credential.emailAddress });
+      } catch (error: any) {
+        if (error instanceof OAuthError && error.code === 'TOKEN_EXPIRED') {
+          return res.status(401).json({ error: 'TOKEN_EXPIRED' });
+        }
+        throw error;
+      }
+    }
+
+    if (req.method === 'DELETE') {
+      if (credential.refreshToken) await revokeGoogleToken(credential.refreshToken);
+      await deleteMailCredential(sql, userId, accountId);
+      await setProfileMailAccount(sql, userId, null, accountId);
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    console.error('[API/GMAIL-AUTH] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,81 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import {
+  ensureMailCredentialTables,
+  consumeOAuthState,
+  upsertMailCredential,
+  setProfileMailAccount
+} from './_lib/mailCredentials';
+import { exchangeAuthorizationCode, fetchGmailAddress, GMAIL_SCOPE } from './_lib/gmailOAuth';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+// Google redirects the browser here, so every outcome ends in a redirect back into the app
+const redirectToApp = (res: VercelResponse, params: Record<string, string>) => {
+  const base = process.env.APP_BASE_URL || '';
+  return res.redirect(302, `${base}/?${new URLSearchParams(params).toString()}`);
+};
+
+/**
+ * OAuth redirect URI for Gmail. No Clerk session is available here; the user is
+ * identified by the single-use state created in /api/gmail-auth.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const code = req.query.code as string | undefined;
+  const state = req.query.state as string | undefined;
+  const providerError = req.query.error as string | undefined;
+
+  if (providerError) {
+    return redirectToApp(res, { mail_error: providerError });
+  }
+  if (!code || !state) {
+    return redirectToApp(res, { mail_error: 'invalid_request' });
+  }
+
+  try {
+    const sql = getSql();
+    await ensureMailCredentialTables(sql);
+
+    const pending = await consumeOAuthState(sql, state, 'Gmail');
+    if (!pending) {
+      return redirectToApp(res, { mail_error: 'invalid_state' });
+    }
+
+    const tokens = await exchangeAuthorizationCode(code, pending.codeVerifier);
+    if (!tokens.refreshToken) {
+      // Without a refresh token the connection would die within the hour
+      return redirectToApp(res, { mail_error: 'no_refresh_token' });
+    }
+
+    const emailAddress = await fetchGmailAddress(tokens.accessToken);
+    const accountId = await upsertMailCredential(sql, {
+      userId: pending.userId,
+      provider: 'Gmail',
+      emailAddress,
+      refreshToken: tokens.refreshToken,
+      accessToken: tokens.accessToken,
+      accessTokenExpiresAt: tokens.expiresAt,
+      scope: tokens.scope || GMAIL_SCOPE
+    });
+    await setProfileMailAccount(sql, pending.userId, { id: accountId, provider: 'Gmail', emailAddress });
+
+    return redirectToApp(res, { mail_connected: 'Gmail', account: accountId });
+  } catch (error: any) {
+    console.error('[API/GMAIL-CALLBACK] Error:', error.message);
+    return redirectToApp(res, { mail_error: 'token_exchange_failed' });
+  }
+}
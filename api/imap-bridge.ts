@@ -0,0 +1,195 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import {
+  ensureMailCredentialTables,
+  upsertMailCredential,
+  getMailCredential,
+  deleteMailCredential,
+  setProfileMailAccount
+} from './_lib/mailCredentials';
+import { ImapSettings, fetchMessageByUid, searchJobMessages, validateImapSettings, verifyImapLogin } from './_lib/imapClient';
+import { BlockedUrlError } from './_lib/netGuard';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+const IMAP_PROVIDERS = ['IMAP', 'Yahoo', 'Apple'];
+const MAX_MESSAGES = 50;
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/IMAP-BRIDGE] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/IMAP-BRIDGE] Token verification error:', error);
+    return null;
+  }
+}
+
+/**
+ * POST   { provider, emailAddress, host, port, secure, username, password } -> verifies and stores the mailbox
+ * GET    ?accountId=&days=&limit= -> job-related INBOX messages with decoded bodies
+ * GET    ?accountId=&messageId= -> one INBOX message with its decoded body
+ * DELETE ?accountId= -> forgets the stored credentials
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  res.setHeader('Cache-Control', 'no-store');
+  
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[IMAP-BRIDGE] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const sql = getSql();
+    await ensureMailCredentialTables(sql);
+
+    if (req.method === 'POST') {
+      const body = req.body || {};
+      const provider = IMAP_PROVIDERS.includes(body.provider) ? body.provider : 'IMAP';
+      const emailAddress = String(body.emailAddress || '').trim();
+      const settings: ImapSettings = {
+        host: String(body.host || '').trim(),
+        port: Number(body.port) || 993,
+        secure: body.secure !== false,
+        user: String(body.username || emailAddress).trim()
+      };
+      const password = String(body.password || '');
+
+      const invalid = validateImapSettings(settings);
+      if (invalid || !emailAddress || !password) {
+        return res.status(400).json({ error: invalid || 'Email address and password are required' });
+      }
+
+      try {
+        await verifyImapLogin(settings, password);
+      } catch (error: any) {
+        console.warn('[API/IMAP-BRIDGE] Login failed:', error.message);
+        if (error instanceof BlockedUrlError) {
+          return res.status(400).json({ error: 'Private network hosts are not allowed' });
+        }
+        return res.status(422).json({ error: 'IMAP login failed. Check the server settings and app password.' });
+      }
+
+      const accountId = await upsertMailCredential(sql, {
+        userId,
+        provider,
+        emailAddress,
+        refreshToken: null,
+        accessToken: null,
+        accessTokenExpiresAt: null,
+        scope: null,
+        settings,
+        secret: password
+      });
+      await setProfileMailAccount(sql, userId, { id: accountId, provider, emailAddress, authType: 'imap' });
+
+      return res.status(200).json({
+        account: {
+          id: accountId,
+          provider,
+          emailAddress,
+          isConnected: true,
+          lastSynced: new Date().toISOString(),
+          authType: 'imap'
+        }
+      });
+    }
+
+    const accountId = req.query.accountId as string;
+    if (!accountId) {
+      return res.status(400).json({ error: 'Account ID required' });
+    }
+
+    const credential = await getMailCredential(sql, userId, accountId);
+    if (!credential || !IMAP_PROVIDERS.includes(credential.provider)) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    if (req.method === 'GET') {
+      if (!credential.settings || !credential.secret) {
+        return res.status(401).json({ error: 'TOKEN_EXPIRED' });
+      }
+      const days = Math.min(Math.max(Number(req.query.days) || 3, 1), 90);
+      const limit = Math.min(Math.max(Number(req.query.limit) || 30, 1), MAX_MESSAGES);
+      const messageId = req.query.messageId as string | undefined;
+
+      try {
+        if (messageId) {
+          const message = await fetchMessageByUid(credential.settings as ImapSettings, credential.secret, messageId);
+          if (!message) {
+            return res.status(404).json({ error: 'Message not found' });
+          }
+          return res.status(200).json({ message });
+        }
+        const messages = await searchJobMessages(credential.settings as ImapSettings, credential.secret, days, limit);
+        return res.status(200).json({ messages });
+      } catch (error: any) {
+        // Most often a changed or revoked app password
+        console.warn('[API/IMAP-BRIDGE] Fetch failed:', error.message);
+        if (error instanceof BlockedUrlError) {
+          return res.status(400).json({ error: 'Private network hosts are not allowed' });
+        }
+        if (error.authenticationFailed) {
+          return res.status(401).json({ error: 'TOKEN_EXPIRED' });
+        }
+        return res.status(502).json({ error: 'IMAP server error' });
+      }
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteMailCredential(sql, userId, accountId);
+      await setProfileMailAccount(sql, userId, null, accountId);
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    console.error('[API/IMAP-BRIDGE] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,142 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { buildInterviewCalendar } from '../services/calendarService';
+import { createFeedToken, ensureFeedTokenTable, findFeedTokenUser, revokeFeedToken } from './_lib/feedTokens';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/INTERVIEW-FEED] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/INTERVIEW-FEED] Token verification error:', error);
+    return null;
+  }
+}
+
+const buildFeed = async (sql: any, userId: string) => {
+  const exists = await sql`SELECT to_regclass('public.interviews') AS name`;
+  const rows = exists[0]?.name
+    ? await sql`
+        SELECT i.*, j.title AS job_title, j.company AS job_company
+        FROM interviews i
+        JOIN jobs j ON j.id = i.job_id AND j.user_id = i.user_id
+        WHERE i.user_id = ${userId}
+        ORDER BY i.starts_at ASC
+      `
+    : [];
+
+  return buildInterviewCalendar(rows.map((row: any) => ({
+    interview: {
+      id: row.id,
+      jobId: row.job_id,
+      round: row.round,
+      stage: row.stage || '',
+      startsAt: new Date(row.starts_at).toISOString(),
+      timeZone: row.time_zone || 'UTC',
+      durationMinutes: row.duration_minutes,
+      interviewers: row.interviewers || [],
+      meetingLink: row.meeting_link || undefined,
+      location: row.location || undefined,
+      prepNotes: row.prep_notes || undefined
+    },
+    job: { title: row.job_title || 'Interview', company: row.job_company || '' }
+  })));
+};
+
+const sendFeed = async (res: VercelResponse, sql: any, userId: string) => {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'attachment; filename="jobflow-interviews.ics"');
+  return res.status(200).send(await buildFeed(sql, userId));
+};
+
+/**
+ * Combined iCalendar feed of every interview for a user.
+ * GET ?token=<feed token> -> the feed, for calendar subscriptions (no Authorization header needed)
+ * GET -> the signed-in user's feed, for a one-off download
+ * POST -> { token }: a new feed token, replacing (and so revoking) the previous one
+ * DELETE -> revokes the feed token
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const sql = getSql();
+    await ensureFeedTokenTable(sql);
+
+    const feedToken = req.query.token;
+    if (req.method === 'GET' && typeof feedToken === 'string') {
+      const owner = await findFeedTokenUser(sql, feedToken);
+      if (!owner) {
+        return res.status(404).json({ error: 'Unknown or revoked feed link' });
+      }
+      return await sendFeed(res, sql, owner);
+    }
+
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[INTERVIEW-FEED] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    if (req.method === 'POST') {
+      return res.status(200).json({ token: await createFeedToken(sql, userId) });
+    }
+    if (req.method === 'DELETE') {
+      await revokeFeedToken(sql, userId);
+      return res.status(200).json({ success: true });
+    }
+    return await sendFeed(res, sql, userId);
+  } catch (error: any) {
+    console.error('[API/INTERVIEW-FEED] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
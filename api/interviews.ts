@@ -0,0 +1,189 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+let interviewsTableReady = false;
+const ensureInterviewsTable = async (sql: any) => {
+  if (interviewsTableReady) return;
+  await sql`
+    CREATE TABLE IF NOT EXISTS interviews (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      job_id TEXT NOT NULL,
+      round INTEGER NOT NULL DEFAULT 1,
+      stage TEXT NOT NULL DEFAULT '',
+      starts_at TIMESTAMPTZ NOT NULL,
+      time_zone TEXT NOT NULL DEFAULT 'UTC',
+      duration_minutes INTEGER NOT NULL DEFAULT 60,
+      interviewers JSONB NOT NULL DEFAULT '[]',
+      meeting_link TEXT,
+      location TEXT,
+      prep_notes TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS interviews_user_starts_idx ON interviews (user_id, starts_at)`;
+  interviewsTableReady = true;
+};
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/INTERVIEWS] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/INTERVIEWS] Token verification error:', error);
+    return null;
+  }
+}
+
+const mapInterview = (row: any) => ({
+  id: row.id,
+  jobId: row.job_id,
+  round: row.round,
+  stage: row.stage || '',
+  startsAt: new Date(row.starts_at).toISOString(),
+  timeZone: row.time_zone || 'UTC',
+  durationMinutes: row.duration_minutes,
+  interviewers: row.interviewers || [],
+  meetingLink: row.meeting_link || undefined,
+  location: row.location || undefined,
+  prepNotes: row.prep_notes || undefined
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[INTERVIEWS] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const sql = getSql();
+    await ensureInterviewsTable(sql);
+
+    if (req.method === 'GET') {
+      // Inner join hides interviews whose job has been deleted
+      const result = await sql`
+        SELECT i.* FROM interviews i
+        JOIN jobs j ON j.id = i.job_id AND j.user_id = i.user_id
+        WHERE i.user_id = ${userId}
+        ORDER BY i.starts_at ASC
+      `;
+      return res.status(200).json({ interviews: result.map(mapInterview) });
+    }
+
+    if (req.method === 'POST') {
+      const body = req.body;
+      if (!body || !body.id || !body.jobId || !body.startsAt || isNaN(new Date(body.startsAt).getTime())) {
+        return res.status(400).json({ error: 'Invalid Interview Payload' });
+      }
+
+      const job = await sql`SELECT id FROM jobs WHERE id = ${body.jobId} AND user_id = ${userId}`;
+      if (job.length === 0) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      const interviewers = JSON.stringify(Array.isArray(body.interviewers) ? body.interviewers : []);
+
+      const result = await sql`
+        INSERT INTO interviews (id, user_id, job_id, round, stage, starts_at, time_zone, duration_minutes, interviewers, meeting_link, location, prep_notes, created_at, updated_at)
+        VALUES (
+          ${body.id},
+          ${userId},
+          ${body.jobId},
+          ${body.round || 1},
+          ${body.stage || ''},
+          ${body.startsAt},
+          ${body.timeZone || 'UTC'},
+          ${body.durationMinutes || 60},
+          ${interviewers},
+          ${body.meetingLink || null},
+          ${body.location || null},
+          ${body.prepNotes || null},
+          NOW(),
+          NOW()
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          round = EXCLUDED.round,
+          stage = EXCLUDED.stage,
+          starts_at = EXCLUDED.starts_at,
+          time_zone = EXCLUDED.time_zone,
+          duration_minutes = EXCLUDED.duration_minutes,
+          interviewers = EXCLUDED.interviewers,
+          meeting_link = EXCLUDED.meeting_link,
+          location = EXCLUDED.location,
+          prep_notes = EXCLUDED.prep_notes,
+          updated_at = NOW()
+        WHERE interviews.user_id = ${userId}
+        RETURNING *
+      `;
+
+      if (result.length === 0) {
+        return res.status(404).json({ error: 'Interview not found' });
+      }
+      return res.status(200).json({ success: true, interview: mapInterview(result[0]) });
+    }
+
+    if (req.method === 'DELETE') {
+      const interviewId = req.query.id;
+      if (!interviewId) {
+        return res.status(400).json({ error: 'Missing Interview ID' });
+      }
+      
+      await sql`DELETE FROM interviews WHERE id = ${interviewId} AND user_id = ${userId}`;
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    console.error('[API/INTERVIEWS] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,156 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { serializeJobData } from './_lib/jobData';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+const MAX_DUPLICATES = 20;
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/JOB-MERGE] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/JOB-MERGE] Token verification error:', error);
+    return null;
+  }
+}
+
+// Interviews and reminders are created lazily by their own endpoints
+const tableExists = async (sql: any, table: string) => {
+  const rows = await sql`SELECT to_regclass(${`public.${table}`}) AS name`;
+  return !!rows[0]?.name;
+};
+
+/**
+ * POST { job, duplicateIds } -> saves the merged job over its existing record, moves the duplicates'
+ * interviews to it and deletes the duplicates. The merged job keeps the earliest detection date.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[JOB-MERGE] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const sql = getSql();
+    const job = req.body?.job;
+    const duplicateIds: string[] = Array.isArray(req.body?.duplicateIds)
+      ? Array.from(new Set<string>(req.body.duplicateIds.map(String))).filter(id => id && id !== job?.id)
+      : [];
+    if (!job || !job.id || duplicateIds.length === 0 || duplicateIds.length > MAX_DUPLICATES) {
+      return res.status(400).json({ error: `A job and 1-${MAX_DUPLICATES} duplicate ids are required` });
+    }
+
+    const allIds = [job.id, ...duplicateIds];
+    const owned = await sql`SELECT id, status FROM jobs WHERE user_id = ${userId} AND id = ANY(${allIds}::text[])`;
+    if (owned.length !== allIds.length) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    const previousStatus: string = owned.find((row: any) => row.id === job.id).status;
+    const nextStatus: string = job.status || previousStatus;
+
+    const jobData = serializeJobData(job);
+
+    // Merged record first, so a failure part-way leaves duplicates behind rather than losing data
+    const result = await sql`
+      UPDATE jobs SET
+        title = ${job.title},
+        company = ${job.company},
+        description = ${job.description || ''},
+        status = ${nextStatus},
+        application_url = ${job.applicationUrl || null},
+        custom_resume = ${job.customizedResume || null},
+        cover_letter = ${job.coverLetter || null},
+        match_score = ${job.matchScore || 0},
+        data = ${jobData},
+        created_at = (SELECT MIN(created_at) FROM jobs WHERE user_id = ${userId} AND id = ANY(${allIds}::text[])),
+        updated_at = NOW()
+      WHERE id = ${job.id} AND user_id = ${userId}
+      RETURNING *
+    `;
+
+    if (previousStatus !== nextStatus) {
+      await sql`
+        INSERT INTO job_status_history (job_id, user_id, previous_status, status, note, changed_at)
+        VALUES (${job.id}, ${userId}, ${previousStatus}, ${nextStatus}, ${'Merged duplicate postings'}, NOW())
+      `;
+    }
+
+    let movedInterviews = 0;
+    if (await tableExists(sql, 'interviews')) {
+      const moved = await sql`
+        UPDATE interviews SET job_id = ${job.id}, updated_at = NOW()
+        WHERE user_id = ${userId} AND job_id = ANY(${duplicateIds}::text[])
+        RETURNING id
+      `;
+      movedInterviews = moved.length;
+    }
+    // Document versions of the duplicates join the merged job's history
+    if (await tableExists(sql, 'job_document_versions')) {
+      await sql`UPDATE job_document_versions SET job_id = ${job.id} WHERE user_id = ${userId} AND job_id = ANY(${duplicateIds}::text[])`;
+    }
+    // Reminders are regenerated for the merged job by the next reminders run
+    if (await tableExists(sql, 'reminders')) {
+      await sql`DELETE FROM reminders WHERE user_id = ${userId} AND job_id = ANY(${duplicateIds}::text[])`;
+    }
+
+    await sql`DELETE FROM jobs WHERE user_id = ${userId} AND id = ANY(${duplicateIds}::text[])`;
+    await sql`DELETE FROM job_status_history WHERE user_id = ${userId} AND job_id = ANY(${duplicateIds}::text[])`;
+
+    return res.status(200).json({ success: true, job: result[0], movedInterviews });
+  } catch (error: any) {
+    console.error('[API/JOB-MERGE] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
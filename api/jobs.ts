@@ -1,5 +1,6 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
+import { serializeJobData } from './_lib/jobData';
 
 // Lazy initialization - only create when needed
 let sql: any = null;
@@ -13,6 +14,81 @@ const getSql = () => {
   return sql;
 };
 
+// Status transitions are appended here and never rewritten
+let schemaReady = false;
+const ensureJobsSchema = async (sql: any) => {
+  if (schemaReady) return;
+  await sql`
+    CREATE TABLE IF NOT EXISTS job_status_history (
+      id SERIAL PRIMARY KEY,
+      job_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      previous_status TEXT,
+      status TEXT NOT NULL,
+      note TEXT,
+      changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS job_status_history_user_job_idx ON job_status_history (user_id, job_id)`;
+  // Generated and edited documents; only an editing session's manual version is ever updated (see services/documentVersions)
+  await sql`
+    CREATE TABLE IF NOT EXISTS job_document_versions (
+      id TEXT PRIMARY KEY,
+      job_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      content TEXT NOT NULL,
+      resume_data JSONB,
+      source TEXT NOT NULL,
+      model TEXT,
+      prompt_version TEXT,
+      base_resume_id TEXT,
+      restored_from TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS job_document_versions_user_job_idx ON job_document_versions (user_id, job_id, created_at)`;
+  // Keyset pagination and full-text search over the jobs list
+  await sql`CREATE INDEX IF NOT EXISTS jobs_user_created_idx ON jobs (user_id, created_at DESC, id DESC)`;
+  await sql`
+    CREATE INDEX IF NOT EXISTS jobs_fts_idx ON jobs
+    USING GIN (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(company, '') || ' ' || coalesce(description, '')))
+  `;
+  schemaReady = true;
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+// Per job and document kind; older versions are pruned on save
+const MAX_DOCUMENT_VERSIONS = 30;
+const DOCUMENT_KINDS = ['resume', 'coverLetter'];
+const DOCUMENT_SOURCES = ['ai', 'local', 'manual'];
+
+const isDocumentVersion = (v: any) =>
+  v && typeof v.id === 'string' && v.id && DOCUMENT_KINDS.includes(v.kind) && DOCUMENT_SOURCES.includes(v.source)
+  && typeof v.text === 'string' && !isNaN(new Date(v.createdAt).getTime());
+
+// Cursors are opaque to clients: base64url of [created_at, id] of the last row on the page
+const encodeCursor = (createdAt: string, id: string) =>
+  Buffer.from(JSON.stringify([createdAt, id])).toString('base64url');
+
+const decodeCursor = (cursor: string): [string, string] | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Array.isArray(parsed) && parsed.length === 2 ? [String(parsed[0]), String(parsed[1])] : null;
+  } catch {
+    return null;
+  }
+};
+
+const queryParam = (value: string | string[] | undefined): string | null => {
+  const v = Array.isArray(value) ? value[0] : value;
+  return v && v.trim() ? v.trim() : null;
+};
+
+const isValidDate = (value: string | null) => value === null || !isNaN(new Date(value).getTime());
+
 async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return null;
@@ -67,11 +143,98 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const sql = getSql();
+    await ensureJobsSchema(sql);
+
+    // GET ?versions=<jobId> -> { versions } with the job's document history, oldest first
+    if (req.method === 'GET' && queryParam(req.query.versions)) {
+      const jobId = queryParam(req.query.versions);
+      const rows = await sql`
+        SELECT id, kind, content, resume_data, source, model, prompt_version, base_resume_id, restored_from, created_at
+        FROM job_document_versions
+        WHERE user_id = ${userId} AND job_id = ${jobId}
+        ORDER BY created_at ASC, id ASC
+      `;
+      const versions = rows.map((row: any) => ({
+        id: row.id,
+        kind: row.kind,
+        text: row.content,
+        resume: row.resume_data || undefined,
+        source: row.source,
+        model: row.model || undefined,
+        promptVersion: row.prompt_version || undefined,
+        baseResumeId: row.base_resume_id || undefined,
+        restoredFrom: row.restored_from || undefined,
+        createdAt: new Date(row.created_at).toISOString()
+      }));
+      return res.status(200).json({ versions });
+    }
 
     if (req.method === 'GET') {
-      const result = await sql`SELECT * FROM jobs WHERE user_id = ${userId} ORDER BY created_at DESC`;
+      const limit = Math.min(Math.max(parseInt(queryParam(req.query.limit) || '', 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+      const cursorParam = queryParam(req.query.cursor);
+      const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+      const statusParam = queryParam(req.query.status);
+      const statuses = statusParam ? statusParam.split(',').map(s => s.trim()).filter(Boolean) : null;
+      const source = queryParam(req.query.source);
+      const from = queryParam(req.query.from);
+      const to = queryParam(req.query.to);
+      const minScoreParam = queryParam(req.query.minScore);
+      const minScore = minScoreParam !== null ? Number(minScoreParam) : null;
+      const q = queryParam(req.query.q);
+      const idsParam = queryParam(req.query.ids);
+      const ids = idsParam ? idsParam.split(',').map(s => s.trim()).filter(Boolean).slice(0, MAX_PAGE_SIZE) : null;
+
+      if ((cursorParam && !cursor) || !isValidDate(from) || !isValidDate(to) || (minScore !== null && isNaN(minScore))) {
+        return res.status(400).json({ error: 'Invalid query parameters' });
+      }
+
+      // Each filter is skipped when its parameter is NULL, so one statement covers every combination
+      const result = await sql`
+        SELECT *, created_at::text AS cursor_created_at FROM jobs
+        WHERE user_id = ${userId}
+          AND (${statuses}::text[] IS NULL OR status = ANY(${statuses}::text[]))
+          AND (${source}::text IS NULL OR source = ${source})
+          AND (${from}::timestamptz IS NULL OR created_at >= ${from}::timestamptz)
+          AND (${to}::date IS NULL OR created_at < ${to}::date + 1)
+          AND (${minScore}::int IS NULL OR match_score >= ${minScore}::int)
+          AND (${ids}::text[] IS NULL OR id = ANY(${ids}::text[]))
+          AND (
+            ${q}::text IS NULL
+            OR to_tsvector('english', coalesce(title, '') || ' ' || coalesce(company, '') || ' ' || coalesce(description, '')) @@ websearch_to_tsquery('english', ${q})
+            OR title ILIKE ${'%' + (q || '') + '%'}
+            OR company ILIKE ${'%' + (q || '') + '%'}
+          )
+          AND (${cursor ? cursor[0] : null}::timestamptz IS NULL OR (created_at, id) < (${cursor ? cursor[0] : null}::timestamptz, ${cursor ? cursor[1] : null}::text))
+        ORDER BY created_at DESC, id DESC
+        LIMIT ${limit + 1}
+      `;
+
+      const hasMore = result.length > limit;
+      const page = hasMore ? result.slice(0, limit) : result;
+      const lastRow = page[page.length - 1];
+      const nextCursor = hasMore && lastRow ? encodeCursor(lastRow.cursor_created_at, lastRow.id) : null;
+
+      const jobIds = page.map((job: any) => job.id);
+      const historyRows = jobIds.length === 0 ? [] : await sql`
+        SELECT job_id, previous_status, status, note, changed_at
+        FROM job_status_history
+        WHERE user_id = ${userId} AND job_id = ANY(${jobIds}::text[])
+        ORDER BY changed_at ASC, id ASC
+      `;
+
+      const historyByJob = new Map<string, any[]>();
+      historyRows.forEach((row: any) => {
+        const entries = historyByJob.get(row.job_id) || [];
+        entries.push({
+          status: row.status,
+          previousStatus: row.previous_status,
+          changedAt: row.changed_at,
+          note: row.note || undefined
+        });
+        historyByJob.set(row.job_id, entries);
+      });
       
-      const jobs = result.map((job: any) => ({
+      const jobs = page.map((job: any) => ({
         id: job.id,
         title: job.title || '',
         company: job.company || '',
@@ -85,12 +248,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         requirements: job.data?.requirements || [],
         coverLetter: job.cover_letter,
         customizedResume: job.custom_resume,
+        coverLetterPromptVersion: job.data?.coverLetterPromptVersion || undefined,
+        customizedResumePromptVersion: job.data?.customizedResumePromptVersion || undefined,
+        tailoredResume: job.data?.tailoredResume || undefined,
+        baseResumeId: job.data?.baseResumeId || undefined,
         notes: job.data?.notes || '',
         logoUrl: job.data?.logoUrl || '',
-        applicationUrl: job.application_url
+        applicationUrl: job.application_url,
+        canonicalUrl: job.data?.canonicalUrl || undefined,
+        employmentType: job.data?.employmentType || undefined,
+        postedAt: job.data?.postedAt || undefined,
+        expiresAt: job.data?.expiresAt || undefined,
+        isRemote: job.data?.isRemote || undefined,
+        distinctFrom: job.data?.distinctFrom || [],
+        statusHistory: historyByJob.get(job.id) || []
       }));
       
-      return res.status(200).json({ jobs });
+      return res.status(200).json({ jobs, nextCursor });
     }
 
     if (req.method === 'POST') {
@@ -99,13 +273,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(400).json({ error: 'Invalid Job Payload' });
       }
 
-      const jobData = JSON.stringify({
-        location: body.location || '',
-        salaryRange: body.salaryRange || '',
-        requirements: body.requirements || [],
-        notes: body.notes || '',
-        logoUrl: body.logoUrl || ''
-      });
+      const existing = await sql`SELECT status, application_url, data FROM jobs WHERE id = ${body.id} AND user_id = ${userId}`;
+      const previousStatus: string | null = existing.length > 0 ? existing[0].status : null;
+      // Resolved in the background by /api/resolve-url; kept until the application link changes
+      const storedCanonicalUrl = existing.length > 0 && existing[0].application_url === (body.applicationUrl || null)
+        ? existing[0].data?.canonicalUrl
+        : undefined;
+      const nextStatus: string = body.status || 'Detected';
+
+      const jobData = serializeJobData({ ...body, canonicalUrl: body.canonicalUrl || storedCanonicalUrl });
 
       const result = await sql`
         INSERT INTO jobs (id, user_id, title, company, description, status, source, application_url, custom_resume, cover_letter, match_score, data, created_at, updated_at)
@@ -115,7 +291,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           ${body.title}, 
           ${body.company}, 
           ${body.description || ''}, 
-          ${body.status || 'Detected'}, 
+          ${nextStatus}, 
           ${body.source || 'Manual'}, 
           ${body.applicationUrl || null}, 
           ${body.customizedResume || null}, 
@@ -136,6 +312,64 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           updated_at = NOW()
         RETURNING *
       `;
+
+      if (existing.length === 0 || previousStatus !== nextStatus) {
+        // The client appends its own entry optimistically; reuse its note if it describes this transition
+        const history = Array.isArray(body.statusHistory) ? body.statusHistory : [];
+        const lastEntry = history[history.length - 1];
+        const note = lastEntry && lastEntry.status === nextStatus ? lastEntry.note || null : null;
+
+        await sql`
+          INSERT INTO job_status_history (job_id, user_id, previous_status, status, note, changed_at)
+          VALUES (${body.id}, ${userId}, ${previousStatus}, ${nextStatus}, ${note}, NOW())
+        `;
+      }
+
+      // Clients resend versions until a save succeeds; a stored version only changes while it is being edited.
+      // One row per id, since a single INSERT ... ON CONFLICT can't update the same row twice.
+      const versions: any[] = Array.isArray(body.documentVersions)
+        ? Array.from(new Map<string, any>(body.documentVersions.filter(isDocumentVersion).map((v: any) => [v.id, v])).values())
+          .slice(-MAX_DOCUMENT_VERSIONS * DOCUMENT_KINDS.length)
+        : [];
+      if (versions.length > 0) {
+        const rows = versions.map(v => ({
+          id: v.id,
+          kind: v.kind,
+          content: v.text,
+          resume_data: v.kind === 'resume' && v.resume ? v.resume : null,
+          source: v.source,
+          model: v.model || null,
+          prompt_version: v.promptVersion || null,
+          base_resume_id: v.baseResumeId || null,
+          restored_from: v.restoredFrom || null,
+          created_at: v.createdAt
+        }));
+        await sql`
+          INSERT INTO job_document_versions (id, job_id, user_id, kind, content, resume_data, source, model, prompt_version, base_resume_id, restored_from, created_at)
+          SELECT v.id, ${body.id}, ${userId}, v.kind, v.content, v.resume_data, v.source, v.model, v.prompt_version, v.base_resume_id, v.restored_from, v.created_at
+          FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) AS v(
+            id TEXT, kind TEXT, content TEXT, resume_data JSONB, source TEXT, model TEXT,
+            prompt_version TEXT, base_resume_id TEXT, restored_from TEXT, created_at TIMESTAMPTZ
+          )
+          ON CONFLICT (id) DO UPDATE SET
+            content = EXCLUDED.content,
+            resume_data = EXCLUDED.resume_data,
+            created_at = EXCLUDED.created_at
+          WHERE job_document_versions.user_id = EXCLUDED.user_id
+            AND job_document_versions.job_id = EXCLUDED.job_id
+            AND job_document_versions.source = 'manual'
+        `;
+        await sql`
+          DELETE FROM job_document_versions WHERE id IN (
+            SELECT id FROM (
+              SELECT id, ROW_NUMBER() OVER (PARTITION BY kind ORDER BY created_at DESC, id DESC) AS position
+              FROM job_document_versions
+              WHERE user_id = ${userId} AND job_id = ${body.id}
+            ) ranked
+            WHERE position > ${MAX_DOCUMENT_VERSIONS}
+          )
+        `;
+      }
       
       return res.status(200).json({ success: true, job: result[0] });
     }
@@ -147,6 +381,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
       
       await sql`DELETE FROM jobs WHERE id = ${jobId} AND user_id = ${userId}`;
+      await sql`DELETE FROM job_status_history WHERE job_id = ${jobId} AND user_id = ${userId}`;
+      await sql`DELETE FROM job_document_versions WHERE job_id = ${jobId} AND user_id = ${userId}`;
       return res.status(200).json({ success: true });
     }
 
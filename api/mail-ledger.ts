@@ -0,0 +1,106 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { ensureMailLedgerTable, listProcessedMessageIds, recordProcessedMessages } from './_lib/mailLedger';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+const MAX_MAILBOX_LENGTH = 320;
+const MAX_IDS_PER_REQUEST = 200;
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/MAIL-LEDGER] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/MAIL-LEDGER] Token verification error:', error);
+    return null;
+  }
+}
+
+/**
+ * GET  ?mailbox= -> ids of messages already analyzed for this mailbox
+ * POST { mailbox, messageIds } -> marks messages as analyzed
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  res.setHeader('Cache-Control', 'no-store');
+  
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[MAIL-LEDGER] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const sql = getSql();
+    await ensureMailLedgerTable(sql);
+
+    if (req.method === 'GET') {
+      const mailbox = typeof req.query.mailbox === 'string' ? req.query.mailbox : '';
+      if (!mailbox || mailbox.length > MAX_MAILBOX_LENGTH) {
+        return res.status(400).json({ error: 'mailbox is required' });
+      }
+      const messageIds = await listProcessedMessageIds(sql, userId, mailbox);
+      return res.status(200).json({ messageIds });
+    }
+
+    if (req.method === 'POST') {
+      const { mailbox, messageIds } = req.body || {};
+      if (typeof mailbox !== 'string' || !mailbox || mailbox.length > MAX_MAILBOX_LENGTH
+        || !Array.isArray(messageIds) || messageIds.length > MAX_IDS_PER_REQUEST
+        || !messageIds.every((id: any) => typeof id === 'string' && id.length > 0)) {
+        return res.status(400).json({ error: 'Invalid Ledger Payload' });
+      }
+      await recordProcessedMessages(sql, userId, mailbox, messageIds);
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    console.error('[API/MAIL-LEDGER] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
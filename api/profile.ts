@@ -1,5 +1,6 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
+import { mergeConnectedAccounts } from './_lib/mailCredentials';
 
 // Lazy initialization - only create when needed
 let sql: any = null;
@@ -13,6 +14,17 @@ const getSql = () => {
   return sql;
 };
 
+// Structured resume (see services/resumeModel); resume_content keeps its plain-text rendering.
+// resumes holds every master resume, the resume_* columns mirror the default one.
+let schemaReady = false;
+const ensureProfileSchema = async (sql: any) => {
+  if (schemaReady) return;
+  await sql`ALTER TABLE profiles ADD COLUMN IF NOT EXISTS resume_data JSONB`;
+  await sql`ALTER TABLE profiles ADD COLUMN IF NOT EXISTS resumes JSONB`;
+  await sql`ALTER TABLE profiles ADD COLUMN IF NOT EXISTS default_resume_id TEXT`;
+  schemaReady = true;
+};
+
 async function getUserIdFromClerkToken(req: VercelRequest): Promise<string | null> {
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -69,6 +81,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const sql = getSql();
+    await ensureProfileSchema(sql);
 
     if (req.method === 'GET') {
       const result = await sql`SELECT * FROM profiles WHERE id = ${userId}`;
@@ -84,7 +97,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         email: profile.email,
         phone: profile.phone || '',
         resumeContent: profile.resume_content,
+        resume: profile.resume_data || undefined,
         resumeFileName: profile.resume_file_name || '',
+        resumes: profile.resumes || undefined,
+        defaultResumeId: profile.default_resume_id || undefined,
         preferences: profile.preferences || { targetRoles: [], targetLocations: [], minSalary: '', remoteOnly: false, language: 'en' },
         connectedAccounts: profile.connected_accounts || [],
         plan: profile.plan || 'free',
@@ -95,7 +111,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     if (req.method === 'POST') {
       const body = req.body;
-      const existing = await sql`SELECT id FROM profiles WHERE id = ${userId}`;
+      const existing = await sql`SELECT id, connected_accounts FROM profiles WHERE id = ${userId}`;
+      const connectedAccounts = body.connectedAccounts || body.connected_accounts || [];
 
       if (existing.length === 0) {
         const result = await sql`
@@ -105,7 +122,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             full_name, 
             phone, 
             resume_content, 
+            resume_data, 
             resume_file_name, 
+            resumes, 
+            default_resume_id, 
             preferences, 
             connected_accounts, 
             plan, 
@@ -117,9 +137,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             ${body.fullName || body.full_name || ''}, 
             ${body.phone || ''}, 
             ${body.resumeContent || body.resume_content || ''}, 
+            ${body.resume ? JSON.stringify(body.resume) : null}, 
             ${body.resumeFileName || body.resume_file_name || ''}, 
+            ${Array.isArray(body.resumes) ? JSON.stringify(body.resumes) : null}, 
+            ${body.defaultResumeId || null}, 
             ${JSON.stringify(body.preferences || {})}, 
-            ${JSON.stringify(body.connectedAccounts || body.connected_accounts || [])}, 
+            ${JSON.stringify(connectedAccounts)}, 
             ${body.plan || 'free'}, 
             NOW()
           )
@@ -133,7 +156,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           email: saved.email,
           phone: saved.phone || '',
           resumeContent: saved.resume_content,
+          resume: saved.resume_data || undefined,
           resumeFileName: saved.resume_file_name || '',
+          resumes: saved.resumes || undefined,
+          defaultResumeId: saved.default_resume_id || undefined,
           preferences: saved.preferences,
           connectedAccounts: saved.connected_accounts || [],
           plan: saved.plan || 'free',
@@ -146,9 +172,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             full_name = ${body.fullName || body.full_name || ''},
             phone = ${body.phone || ''},
             resume_content = ${body.resumeContent || body.resume_content || ''},
+            resume_data = ${body.resume ? JSON.stringify(body.resume) : null},
             resume_file_name = ${body.resumeFileName || body.resume_file_name || ''},
+            resumes = ${Array.isArray(body.resumes) ? JSON.stringify(body.resumes) : null},
+            default_resume_id = ${body.defaultResumeId || null},
             preferences = ${JSON.stringify(body.preferences || {})},
-            connected_accounts = ${JSON.stringify(body.connectedAccounts || body.connected_accounts || [])},
+            connected_accounts = ${JSON.stringify(mergeConnectedAccounts(existing[0].connected_accounts || [], connectedAccounts))},
             plan = ${body.plan || 'free'},
             updated_at = NOW()
           WHERE id = ${userId}
@@ -162,7 +191,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           email: saved.email,
           phone: saved.phone || '',
           resumeContent: saved.resume_content,
+          resume: saved.resume_data || undefined,
           resumeFileName: saved.resume_file_name || '',
+          resumes: saved.resumes || undefined,
+          defaultResumeId: saved.default_resume_id || undefined,
           preferences: saved.preferences,
           connectedAccounts: saved.connected_accounts || [],
           plan: saved.plan || 'free',
@@ -0,0 +1,136 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+let remindersTableReady = false;
+const ensureRemindersTable = async (sql: any) => {
+  if (remindersTableReady) return;
+  await sql`
+    CREATE TABLE IF NOT EXISTS reminders (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      rule_id TEXT NOT NULL,
+      job_id TEXT NOT NULL,
+      interview_id TEXT,
+      dedupe_key TEXT NOT NULL,
+      message TEXT NOT NULL,
+      due_at TIMESTAMPTZ NOT NULL,
+      status TEXT NOT NULL DEFAULT 'unread',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (user_id, dedupe_key)
+    )
+  `;
+  remindersTableReady = true;
+};
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/REMINDERS] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/REMINDERS] Token verification error:', error);
+    return null;
+  }
+}
+
+const REMINDER_STATUSES = ['unread', 'read', 'dismissed'];
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[REMINDERS] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const sql = getSql();
+    await ensureRemindersTable(sql);
+
+    if (req.method === 'GET') {
+      const result = await sql`
+        SELECT * FROM reminders
+        WHERE user_id = ${userId} AND status <> 'dismissed'
+        ORDER BY due_at DESC
+        LIMIT 200
+      `;
+
+      const reminders = result.map((row: any) => ({
+        id: row.id,
+        ruleId: row.rule_id,
+        jobId: row.job_id,
+        interviewId: row.interview_id || undefined,
+        message: row.message,
+        dueAt: new Date(row.due_at).toISOString(),
+        createdAt: new Date(row.created_at).toISOString(),
+        status: row.status
+      }));
+
+      return res.status(200).json({ reminders });
+    }
+
+    // Mark reminders read or dismissed
+    if (req.method === 'POST') {
+      const { ids, status } = req.body || {};
+      if (!Array.isArray(ids) || ids.length === 0 || !REMINDER_STATUSES.includes(status)) {
+        return res.status(400).json({ error: 'Invalid Reminder Payload' });
+      }
+
+      await sql`
+        UPDATE reminders SET status = ${status}
+        WHERE user_id = ${userId} AND id = ANY(${ids})
+      `;
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    console.error('[API/REMINDERS] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,121 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { resolveJobUrls } from './_lib/urlResolver';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+const MAX_ITEMS = 20;
+const MAX_URL_LENGTH = 4096;
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/RESOLVE-URL] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/RESOLVE-URL] Token verification error:', error);
+    return null;
+  }
+}
+
+// Sets only this key of the job's data in one statement, so a save of other fields in the meantime survives
+const storeCanonicalUrl = async (sql: any, userId: string, jobId: string, canonicalUrl: string) => {
+  const rows = await sql`
+    UPDATE jobs SET
+      data = COALESCE(data::jsonb, '{}'::jsonb) || jsonb_build_object('canonicalUrl', ${canonicalUrl}::text),
+      updated_at = NOW()
+    WHERE id = ${jobId} AND user_id = ${userId}
+    RETURNING id
+  `;
+  return rows.length > 0;
+};
+
+/**
+ * POST { items: [{ url, jobId? }] } -> { results: [{ url, canonicalUrl, hops, resolved, error? }] }
+ * Follows each link to the posting it leads to. Resolved links with a jobId are saved as the job's canonicalUrl.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  res.setHeader('Cache-Control', 'no-store');
+  
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[RESOLVE-URL] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const items: { url: string, jobId?: string }[] = Array.isArray(req.body?.items)
+      ? req.body.items
+          .filter((item: any) => item && typeof item.url === 'string' && item.url.length <= MAX_URL_LENGTH)
+          .map((item: any) => ({ url: item.url.trim(), jobId: item.jobId ? String(item.jobId) : undefined }))
+      : [];
+    if (items.length === 0 || items.length > MAX_ITEMS) {
+      return res.status(400).json({ error: `1-${MAX_ITEMS} urls are required` });
+    }
+
+    const resolved = await resolveJobUrls(items.map(item => item.url), {
+      allowPrivateHosts: process.env.NODE_ENV === 'development' && process.env.ALLOW_PRIVATE_URLS === 'true'
+    });
+
+    const sql = getSql();
+    const results = [];
+    for (let i = 0; i < items.length; i++) {
+      const { url, hops, resolved: isResolved, error } = resolved[i];
+      const jobId = items[i].jobId;
+      const stored = !!jobId && isResolved && await storeCanonicalUrl(sql, userId, jobId, url);
+      results.push({ url: items[i].url, canonicalUrl: url, hops, resolved: isResolved, error, jobId, stored });
+    }
+
+    return res.status(200).json({ results });
+  } catch (error: any) {
+    console.error('[API/RESOLVE-URL] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,174 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+// Matches MAX_RESUME_FILE_BYTES in services/resumeImport; base64 keeps the request under Vercel's 4.5 MB body limit
+const MAX_FILE_BYTES = 3 * 1024 * 1024;
+
+const ALLOWED_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain'
+];
+
+// Id of the resume a file belongs to when none is given, see PRIMARY_RESUME_ID in services/masterResumes
+const PRIMARY_RESUME_ID = 'primary';
+
+// The uploaded original of each of the user's master resumes; profiles.resumes holds the extracted text.
+// Tables created before there could be several resumes were keyed by user_id alone.
+let schemaReady = false;
+const ensureResumeFilesTable = async (sql: any) => {
+  if (schemaReady) return;
+  await sql`
+    CREATE TABLE IF NOT EXISTS resume_files (
+      user_id TEXT NOT NULL,
+      resume_id TEXT NOT NULL DEFAULT 'primary',
+      file_name TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+  await sql`ALTER TABLE resume_files ADD COLUMN IF NOT EXISTS resume_id TEXT NOT NULL DEFAULT 'primary'`;
+  await sql`ALTER TABLE resume_files DROP CONSTRAINT IF EXISTS resume_files_pkey`;
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS resume_files_user_resume_idx ON resume_files (user_id, resume_id)`;
+  schemaReady = true;
+};
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = authHeader.substring(7);
+
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+
+    if (!response.ok) {
+      console.error('[API/RESUME-FILE] Clerk verification failed:', response.status);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/RESUME-FILE] Token verification error:', error);
+    return null;
+  }
+}
+
+/**
+ * All methods take ?resumeId= naming the master resume, defaulting to the primary one.
+ * GET -> the stored original resume file as base64, with its name and type
+ * POST { fileName, mimeType, data } -> replaces the stored file (data is base64)
+ * DELETE -> removes the stored file
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[RESUME-FILE] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const sql = getSql();
+    await ensureResumeFilesTable(sql);
+    const resumeId = typeof req.query.resumeId === 'string' && req.query.resumeId ? req.query.resumeId.slice(0, 64) : PRIMARY_RESUME_ID;
+
+    if (req.method === 'GET') {
+      const rows = await sql`
+        SELECT file_name, mime_type, size, data, uploaded_at FROM resume_files WHERE user_id = ${userId} AND resume_id = ${resumeId}
+      `;
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'No resume file stored' });
+      }
+      const file = rows[0];
+      return res.status(200).json({
+        fileName: file.file_name,
+        mimeType: file.mime_type,
+        size: file.size,
+        uploadedAt: new Date(file.uploaded_at).toISOString(),
+        data: file.data
+      });
+    }
+
+    if (req.method === 'POST') {
+      const { fileName, mimeType, data } = req.body || {};
+      if (!fileName || typeof data !== 'string' || !data) {
+        return res.status(400).json({ error: 'fileName and data are required' });
+      }
+      if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+        return res.status(400).json({ error: 'Only PDF, DOCX and plain text resumes can be stored' });
+      }
+      const size = Buffer.from(data, 'base64').length;
+      if (size === 0 || size > MAX_FILE_BYTES) {
+        return res.status(413).json({ error: 'Resume files can be at most 3 MB' });
+      }
+
+      const rows = await sql`
+        INSERT INTO resume_files (user_id, resume_id, file_name, mime_type, size, data, uploaded_at)
+        VALUES (${userId}, ${resumeId}, ${String(fileName).slice(0, 255)}, ${mimeType}, ${size}, ${data}, NOW())
+        ON CONFLICT (user_id, resume_id) DO UPDATE SET
+          file_name = EXCLUDED.file_name,
+          mime_type = EXCLUDED.mime_type,
+          size = EXCLUDED.size,
+          data = EXCLUDED.data,
+          uploaded_at = NOW()
+        RETURNING file_name, mime_type, size, uploaded_at
+      `;
+      const saved = rows[0];
+      return res.status(200).json({
+        fileName: saved.file_name,
+        mimeType: saved.mime_type,
+        size: saved.size,
+        uploadedAt: new Date(saved.uploaded_at).toISOString()
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      await sql`DELETE FROM resume_files WHERE user_id = ${userId} AND resume_id = ${resumeId}`;
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    console.error('[API/RESUME-FILE] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
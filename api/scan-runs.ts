@@ -0,0 +1,158 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { ScanRun, ScanRunMessage } from '../types';
+import { MAX_RUN_MESSAGES, ensureScanRunsTable, getNextScanAt, getScanRun, listScanRuns, recordScanRun } from './_lib/scanRuns';
+
+// Lazy initialization - only create when needed
+let sql: any = null;
+const getSql = () => {
+  if (!sql) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not set');
+    }
+    sql = neon(process.env.DATABASE_URL);
+  }
+  return sql;
+};
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const MESSAGE_OUTCOMES: ScanRunMessage['outcome'][] = ['jobs', 'no_jobs', 'skipped', 'error'];
+
+const text = (value: any, max: number) => String(value ?? '').slice(0, max);
+const count = (value: any) => Math.max(0, Math.floor(Number(value) || 0));
+const timestamp = (value: any) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+// Runs reported by the in-app scanner; the stored fields are bounded whatever the client sends
+const parseManualRun = (body: any): Omit<ScanRun, 'id'> | null => {
+  if (!body || !body.accountId || !body.mailbox) return null;
+  const messages: ScanRunMessage[] = (Array.isArray(body.messages) ? body.messages : [])
+    .slice(0, MAX_RUN_MESSAGES)
+    .map((message: any) => ({
+      messageId: text(message?.messageId, 200),
+      from: text(message?.from, 200),
+      subject: text(message?.subject, 300),
+      outcome: MESSAGE_OUTCOMES.includes(message?.outcome) ? message.outcome : 'error',
+      linksMatched: count(message?.linksMatched),
+      jobs: (Array.isArray(message?.jobs) ? message.jobs : []).slice(0, 20).map((job: any) => ({
+        id: text(job?.id, 2000),
+        title: text(job?.title, 200),
+        company: text(job?.company, 200),
+        applicationUrl: text(job?.applicationUrl, 2000)
+      })),
+      ...(message?.error ? { error: text(message.error, 500) } : {})
+    }));
+
+  return {
+    accountId: text(body.accountId, 200),
+    mailbox: text(body.mailbox, 300),
+    trigger: 'manual',
+    status: body.status === 'error' ? 'error' : 'success',
+    query: text(body.query, 500),
+    messagesFound: count(body.messagesFound),
+    messagesProcessed: count(body.messagesProcessed),
+    jobsFound: count(body.jobsFound),
+    jobsCreated: count(body.jobsCreated),
+    duplicatesSkipped: count(body.duplicatesSkipped),
+    error: body.error ? text(body.error, 500) : undefined,
+    startedAt: timestamp(body.startedAt),
+    finishedAt: timestamp(body.finishedAt),
+    durationMs: count(body.durationMs),
+    messages
+  };
+};
+
+async function verifyClerkToken(authHeader: string | undefined): Promise<string | null> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  
+  const token = authHeader.substring(7);
+  
+  try {
+    const response = await fetch('https://api.clerk.com/v1/tokens/verify', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    if (!response.ok) {
+      console.error('[API/SCAN-RUNS] Clerk verification failed:', response.status);
+      return null;
+    }
+    
+    const data = await response.json();
+    return data.sub || data.user_id || data.userId || null;
+  } catch (error) {
+    console.error('[API/SCAN-RUNS] Token verification error:', error);
+    return null;
+  }
+}
+
+/**
+ * GET  ?limit= -> recent scan runs, newest first, and when the next scheduled scan starts
+ * GET  ?id= -> one run with its per-email breakdown
+ * POST ScanRun -> records a scan run by the in-app scanner
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization,Content-Type');
+  res.setHeader('Cache-Control', 'no-store');
+  
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Development bypass
+    let userId: string | null;
+    if (process.env.NODE_ENV === 'development') {
+      userId = 'dev_user_123';
+      console.log('[SCAN-RUNS] Development mode - bypassing Clerk auth');
+    } else {
+      userId = await verifyClerkToken(req.headers.authorization as string);
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const sql = getSql();
+    await ensureScanRunsTable(sql);
+
+    if (req.method === 'GET' && req.query.id) {
+      const run = await getScanRun(sql, userId, String(req.query.id));
+      if (!run) {
+        return res.status(404).json({ error: 'Scan run not found' });
+      }
+      return res.status(200).json({ run });
+    }
+
+    if (req.method === 'GET') {
+      const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+      const runs = await listScanRuns(sql, userId, limit);
+      return res.status(200).json({ runs, nextScanAt: getNextScanAt() });
+    }
+
+    if (req.method === 'POST') {
+      const run = parseManualRun(req.body);
+      if (!run) {
+        return res.status(400).json({ error: 'Account and mailbox are required' });
+      }
+      return res.status(200).json({ run: await recordScanRun(sql, userId, run) });
+    }
+
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    console.error('[API/SCAN-RUNS] Error:', error.message);
+    return res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
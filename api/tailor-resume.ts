@@ -1,7 +1,11 @@
 
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import * as ClerkServer from '@clerk/nextjs/server';
-import { GoogleGenAI } from "@google/genai";
+import { getLlmClient } from '../services/llmClientRegistry';
+import { buildPrompt } from '../services/promptRegistry';
+import { parseJsonResponse } from '../services/llmClient';
+import { applyTailoring, normalizeResume, resumeToText } from '../services/resumeModel';
+import { parseResumeText } from '../services/resumeParser';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method Not Allowed' });
@@ -16,22 +20,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const { title, company, description, resume, email } = req.body;
     if (!title || !description || !resume) return res.status(400).json({ error: 'Missing required fields' });
 
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Tailor this resume for a ${title} role at ${company || 'your company'}. 
-        Email: ${email}. 
-        Resume: ${resume}
-        Job Description: ${description}
-        
-        TASK:
-        Rewrite bullet points to emphasize relevant experience for the specific role. Ensure the contact information is updated correctly. Keep the layout professional and text-based. Do not include placeholders.`,
-      config: {
-        systemInstruction: "You are a professional resume writer specializing in ATS optimization and role-specific tailoring."
-      }
-    });
-
-    return res.status(200).json({ text: response.text || "" });
+    // A structured resume, or plain text that is parsed into one
+    const structured = typeof resume === 'string' ? parseResumeText(resume) : normalizeResume(resume);
+    const original = { ...structured, contact: { ...structured.contact, email: email || structured.contact.email } };
+
+    const { request, promptVersion } = buildPrompt('tailorStructuredResume', { title, company, description, resume: original });
+    const response = await getLlmClient().generate(request);
+    const tailored = applyTailoring(original, normalizeResume(parseJsonResponse(response.text, {})));
+
+    return res.status(200).json({ text: resumeToText(tailored), resume: tailored, promptVersion });
   } catch (error: any) {
     console.error('[API/TAILOR-RESUME] Error:', error.message);
     return res.status(500).json({ error: 'Internal Server Error' });
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useAuth } from '@clerk/clerk-react';
 import { Job, JobStatus } from '../types';
 import { X, Link as LinkIcon, Loader2, Sparkles, Edit3 } from 'lucide-react';
 import { extractJobFromUrl } from '../services/geminiService';
@@ -9,7 +10,17 @@ interface AddJobModalProps {
   onAdd: (job: Job) => void;
 }
 
+// extract-job's structured sources; anything else came from the LLM
+const EXTRACTOR_LABELS: Record<string, string> = {
+  greenhouse: 'Greenhouse',
+  lever: 'Lever',
+  workday: 'Workday',
+  ashby: 'Ashby',
+  'json-ld': 'the page\'s job posting data'
+};
+
 export const AddJobModal: React.FC<AddJobModalProps> = ({ isOpen, onClose, onAdd }) => {
+  const { getToken } = useAuth();
   const [mode, setMode] = useState<'url' | 'manual'>('url');
   const [jobUrl, setJobUrl] = useState('');
   const [isExtracting, setIsExtracting] = useState(false);
@@ -41,7 +52,12 @@ export const AddJobModal: React.FC<AddJobModalProps> = ({ isOpen, onClose, onAdd
     setError('');
 
     try {
-      const { data } = await extractJobFromUrl(jobUrl);
+      const token = await getToken();
+      if (!token) {
+        setError('Please sign in again to import jobs');
+        return;
+      }
+      const { data, extractor } = await extractJobFromUrl(jobUrl, token);
       
       const extractionFailed = data.title.includes('Failed') || data.title.includes('Manual Entry');
       
@@ -67,8 +83,13 @@ export const AddJobModal: React.FC<AddJobModalProps> = ({ isOpen, onClose, onAdd
         matchScore: 75,
         requirements: Array.isArray(data.requirements) ? data.requirements : [],
         applicationUrl: jobUrl,
+        canonicalUrl: data.canonicalUrl,
         logoUrl: '',
-        notes: 'Extracted via AI'
+        employmentType: data.employmentType,
+        postedAt: data.postedAt,
+        expiresAt: data.expiresAt,
+        isRemote: data.isRemote,
+        notes: extractor && EXTRACTOR_LABELS[extractor] ? `Extracted from ${EXTRACTOR_LABELS[extractor]}` : 'Extracted via AI'
       };
 
       onAdd(newJob);
@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useUser, useAuth, UserButton } from '@clerk/clerk-react';
-import { Job, JobStatus, ViewState, UserProfile, EmailAccount } from '../types';
+import { Job, JobStatus, ViewState, UserProfile, EmailAccount, Interview, Reminder, JobQuery, JobPage, ImapConnectRequest, ScanRun } from '../types';
 import { DashboardStats } from './DashboardStats';
 import { JobCard } from './JobCard';
 import { InboxScanner } from './InboxScanner';
@@ -9,15 +9,41 @@ import { Auth } from './Auth';
 import { ApplicationTracker } from './ApplicationTracker';
 import { DebugView } from './DebugView';
 import { AddJobModal } from './AddJobModal';
+import { MergeJobsModal } from './MergeJobsModal';
 import { NotificationToast, NotificationType } from './NotificationToast';
 import { LanguageCode } from '../services/localization';
 import { 
   fetchJobsFromDb, 
+  fetchJobsPage,
   getUserProfile, 
   saveUserProfile, 
   saveJobToDb, 
-  deleteJobFromDb 
+  saveJobToDbOrThrow,
+  deleteJobFromDb,
+  mergeJobsInDb,
+  resolveJobUrlsInDb,
+  fetchInterviewsFromDb,
+  saveInterviewToDb,
+  deleteInterviewFromDb,
+  fetchInterviewFeed,
+  createInterviewFeedLink,
+  revokeInterviewFeedLink,
+  fetchRemindersFromDb,
+  updateReminderStatus,
+  startGmailAuthorization,
+  fetchMailAccessToken,
+  disconnectMailAccount,
+  connectImapAccount,
+  fetchImapMessages,
+  fetchImapMessage,
+  fetchProcessedMessageIds,
+  recordProcessedMessages,
+  fetchScanRuns,
+  fetchScanRun,
+  saveScanRun
 } from '../services/dbService';
+import { applyStatusChange } from '../services/statusHistoryService';
+import { findDuplicateGroups, findDuplicatesOf, mergeJobGroup } from '../services/jobDedupService';
 import { 
   LayoutDashboard, 
   Briefcase, 
@@ -29,9 +55,12 @@ import {
   LogOut,
   X,
   Plus,
-  AlertCircle
+  AlertCircle,
+  Bell,
+  Copy
 } from 'lucide-react';
 import { JobDetail } from './JobDetail';
+import { RemindersInbox } from './RemindersInbox';
 
 export const App: React.FC = () => {
   const { isLoaded, isSignedIn, user } = useUser();
@@ -41,10 +70,28 @@ export const App: React.FC = () => {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [currentView, setCurrentView] = useState<ViewState>(ViewState.DASHBOARD);
   const [jobs, setJobs] = useState<Job[]>([]);
+  // Cursor of the next, older page of jobs; null once everything is loaded
+  const [jobsCursor, setJobsCursor] = useState<string | null>(null);
+  const [isLoadingMoreJobs, setIsLoadingMoreJobs] = useState(false);
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const seenReminderIds = useRef<Set<string>>(new Set());
+  // Jobs already fetched by id, so one that no longer exists isn't requested again
+  const requestedJobIds = useRef<Set<string>>(new Set());
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
   const [sessionAccount, setSessionAccount] = useState<EmailAccount | null>(null);
   const [notification, setNotification] = useState<{message: string, type: NotificationType} | null>(null);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [replayTarget, setReplayTarget] = useState<{ run: ScanRun, messageId: string } | null>(null);
+  const [isMergeModalOpen, setIsMergeModalOpen] = useState(false);
+  const [mergeStartJobId, setMergeStartJobId] = useState<string | null>(null);
+
+  const duplicateGroups = useMemo(() => findDuplicateGroups(jobs), [jobs]);
+  const duplicateCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    duplicateGroups.forEach(group => group.forEach(job => counts.set(job.id, group.length - 1)));
+    return counts;
+  }, [duplicateGroups]);
 
   const lang = (userProfile?.preferences?.language as LanguageCode) || 'en';
   const isRtl = lang === 'ar';
@@ -63,12 +110,15 @@ export const App: React.FC = () => {
         }
 
         let profile: UserProfile | null = null;
-        let dbJobs: Job[] = [];
+        let dbJobs: JobPage = { jobs: [], nextCursor: null };
+        let dbInterviews: Interview[] = [];
 
         // Try to fetch from DB, but don't crash if it fails
         try {
             profile = await getUserProfile(token);
+            // Only the newest page; older jobs load when the tracker asks for them
             dbJobs = await fetchJobsFromDb(token);
+            dbInterviews = await fetchInterviewsFromDb(token);
         } catch (dbError) {
             console.warn("Database not available, using local state:", dbError);
             // Silently fail - use empty state
@@ -95,7 +145,9 @@ export const App: React.FC = () => {
         }
         
         setUserProfile(profile);
-        setJobs(dbJobs);
+        setJobs(dbJobs.jobs);
+        setJobsCursor(dbJobs.nextCursor);
+        setInterviews(dbInterviews);
     } catch (e) {
         console.error("Sync Error:", e);
         showNotification("Using local offline data.", "success");
@@ -104,6 +156,43 @@ export const App: React.FC = () => {
     }
 }, [getToken, user, showNotification]);
 
+  // Reminders are produced by the scheduled function; poll so new ones surface while the app is open
+  const syncReminders = useCallback(async () => {
+    const token = await getToken();
+    if (!token) return;
+    const latest = await fetchRemindersFromDb(token);
+    const fresh = latest.filter(r => r.status === 'unread' && !seenReminderIds.current.has(r.id));
+    latest.forEach(r => seenReminderIds.current.add(r.id));
+    setReminders(latest);
+    if (fresh.length === 1) {
+        showNotification(fresh[0].message, "reminder");
+    } else if (fresh.length > 1) {
+        showNotification(`You have ${fresh.length} new follow-up reminders.`, "reminder");
+    }
+  }, [getToken, showNotification]);
+
+  useEffect(() => {
+    if (!isLoaded || !isSignedIn) return;
+    syncReminders();
+    const interval = setInterval(syncReminders, 5 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [isLoaded, isSignedIn, syncReminders]);
+
+  // Returning from the Gmail OAuth callback; the new account arrives with the synced profile
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const connected = params.get('mail_connected');
+    const error = params.get('mail_error');
+    if (!connected && !error) return;
+    if (connected) {
+        showNotification(`${connected} connected. Scans will keep working without reconnecting.`, "success");
+        setCurrentView(ViewState.EMAILS);
+    } else {
+        showNotification(`Mailbox connection failed (${error}).`, "error");
+    }
+    window.history.replaceState({}, '', window.location.pathname);
+  }, [showNotification]);
+
   useEffect(() => {
     if (isLoaded) {
         if (isSignedIn) {
@@ -117,20 +206,299 @@ export const App: React.FC = () => {
   const handleUpdateProfile = async (updated: UserProfile) => {
     setUserProfile(updated);
     const token = await getToken();
-    if (token) await saveUserProfile(updated, token);
+    if (!token) return;
+    const saved = await saveUserProfile(updated, token);
+    // The server keeps scan state the cron advanced since this copy was loaded
+    setUserProfile(prev => prev ? { ...prev, connectedAccounts: saved.connectedAccounts } : prev);
+  };
+
+  // A pasted session token wins; otherwise scan with the persisted OAuth or IMAP connection
+  const scannerAccount = sessionAccount 
+    || userProfile?.connectedAccounts?.find(a => (a.authType === 'oauth' || a.authType === 'imap') && a.isConnected) 
+    || null;
+
+  const handleAuthorizeGmail = async () => {
+    const token = await getToken();
+    if (!token) return;
+    try {
+        const authorizeUrl = await startGmailAuthorization(token, user?.primaryEmailAddress?.emailAddress);
+        window.location.assign(authorizeUrl);
+    } catch (e: any) {
+        showNotification(e.message || "Could not start Gmail authorization.", "error");
+    }
+  };
+
+  const handleResolveAccessToken = async (account: EmailAccount) => {
+    const token = await getToken();
+    if (!token) throw new Error("Not signed in");
+    const { accessToken } = await fetchMailAccessToken(account.id, token);
+    return accessToken;
+  };
+
+  const handleConnectImap = async (request: ImapConnectRequest) => {
+    const token = await getToken();
+    if (!token) throw new Error("Not signed in");
+    const account = await connectImapAccount(request, token);
+    setUserProfile(prev => prev ? { 
+        ...prev, 
+        connectedAccounts: [...prev.connectedAccounts.filter(a => a.id !== account.id), account] 
+    } : prev);
+    return account;
+  };
+
+  const handleFetchBridgedMessages = async (account: EmailAccount, days: number) => {
+    const token = await getToken();
+    if (!token) throw new Error("Not signed in");
+    return fetchImapMessages(account.id, days, 30, token);
+  };
+
+  const handleFetchBridgedMessage = async (account: EmailAccount, messageId: string) => {
+    const token = await getToken();
+    if (!token) throw new Error("Not signed in");
+    return fetchImapMessage(account.id, messageId, token);
+  };
+
+  const handleSyncCursor = async (account: EmailAccount, cursor: string) => {
+    const stamp = { syncCursor: cursor, lastSynced: new Date().toISOString() };
+    if (sessionAccount && sessionAccount.id === account.id) {
+        // Session accounts are never stored, so their cursor only lasts as long as the session
+        setSessionAccount({ ...sessionAccount, ...stamp });
+        return;
+    }
+    if (!userProfile) return;
+    await handleUpdateProfile({
+        ...userProfile,
+        connectedAccounts: userProfile.connectedAccounts.map(a => a.id === account.id ? { ...a, ...stamp } : a)
+    });
+  };
+
+  const handleLoadProcessedMessages = async (mailbox: string) => {
+    const token = await getToken();
+    return token ? fetchProcessedMessageIds(mailbox, token) : [];
+  };
+
+  const handleRecordProcessedMessages = async (mailbox: string, messageIds: string[]) => {
+    const token = await getToken();
+    if (token) await recordProcessedMessages(mailbox, messageIds, token);
+  };
+
+  const handleLoadScanStatus = async () => {
+    const token = await getToken();
+    return token ? fetchScanRuns(token) : { runs: [], nextScanAt: null };
+  };
+
+  const handleLoadScanRun = async (id: string) => {
+    const token = await getToken();
+    return token ? fetchScanRun(id, token) : null;
   };
 
+  const handleRecordScanRun = async (run: Omit<ScanRun, 'id'>) => {
+    const token = await getToken();
+    return token ? saveScanRun(run, token) : null;
+  };
+
+  const handleReplayMessage = (run: ScanRun, messageId: string) => {
+    setReplayTarget({ run, messageId });
+    setCurrentView(ViewState.DEBUG);
+  };
+
+  const handleDisconnectScanner = async () => {
+    setSessionAccount(null);
+    // Session tokens live only in memory; persisted connections also delete their stored credentials
+    if (!scannerAccount || !scannerAccount.authType || scannerAccount.authType === 'session') return;
+    setUserProfile(prev => prev ? { ...prev, connectedAccounts: prev.connectedAccounts.filter(a => a.id !== scannerAccount.id) } : prev);
+    const token = await getToken();
+    if (token) await disconnectMailAccount(scannerAccount.id, token, scannerAccount.authType);
+  };
+
+  // Adds jobs from further pages or from a filtered query to the list, keeping the local copy of known ones
+  const mergeLoadedJobs = useCallback((incoming: Job[]) => {
+    setJobs(prev => {
+        const known = new Set(prev.map(j => j.id));
+        const added = incoming.filter(j => !known.has(j.id));
+        return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  }, []);
+
+  // Results join the app's jobs, so a job found beyond the loaded pages can be opened and updated
+  const handleQueryJobs = useCallback(async (query: JobQuery, cursor?: string | null) => {
+    const token = await getToken();
+    if (!token) throw new Error("Not signed in");
+    const page = await fetchJobsPage(token, query, cursor);
+    mergeLoadedJobs(page.jobs);
+    return page;
+  }, [getToken, mergeLoadedJobs]);
+
+  // Reminders and interviews can point at jobs beyond the loaded pages; fetch those so they can be opened
+  useEffect(() => {
+    const known = new Set(jobs.map(j => j.id));
+    const missing = Array.from(new Set([...reminders.map(r => r.jobId), ...interviews.map(i => i.jobId)]))
+        .filter(id => !known.has(id) && !requestedJobIds.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach(id => requestedJobIds.current.add(id));
+    (async () => {
+        const token = await getToken();
+        if (!token) return;
+        // A few ids per request keeps the query string short
+        for (let i = 0; i < missing.length; i += 50) {
+            const ids = missing.slice(i, i + 50);
+            const page = await fetchJobsPage(token, { ids, limit: ids.length });
+            mergeLoadedJobs(page.jobs);
+        }
+    })().catch(e => console.warn("Loading linked jobs failed:", e));
+  }, [jobs, reminders, interviews, getToken, mergeLoadedJobs]);
+
+  const handleLoadMoreJobs = useCallback(async () => {
+    if (!jobsCursor || isLoadingMoreJobs) return;
+    setIsLoadingMoreJobs(true);
+    try {
+        const token = await getToken();
+        if (!token) return;
+        const page = await fetchJobsPage(token, {}, jobsCursor);
+        // A job added since the first page, or found by a query, can also show up further down
+        mergeLoadedJobs(page.jobs);
+        setJobsCursor(page.nextCursor);
+    } catch (e) {
+        console.warn("Loading more jobs failed:", e);
+        showNotification("Couldn't load older jobs.", "error");
+    } finally {
+        setIsLoadingMoreJobs(false);
+    }
+  }, [getToken, jobsCursor, isLoadingMoreJobs, showNotification, mergeLoadedJobs]);
+
+  // Rejects when the server didn't store the change; the local copy is updated either way.
+  // Once stored, the document versions it carried are dropped so later saves don't resend them.
   const handleUpdateJob = async (updated: Job) => {
     setJobs(prev => prev.map(j => j.id === updated.id ? updated : j));
     const token = await getToken();
-    if (token) await saveJobToDb(updated, token);
+    if (!token) return;
+    await saveJobToDbOrThrow(updated, token);
+    const sent = updated.documentVersions;
+    if (!sent || sent.length === 0) return;
+    // Versions added or edited while the request was out are different objects and stay queued
+    setJobs(prev => prev.map(j => {
+      if (j.id !== updated.id || !j.documentVersions) return j;
+      const pending = j.documentVersions.filter(version => !sent.includes(version));
+      return { ...j, documentVersions: pending.length > 0 ? pending : undefined };
+    }));
+  };
+
+  // Runs after the jobs are saved; each job picks up its canonicalUrl once the server has followed the link
+  const resolveCanonicalUrls = async (newJobs: Job[], token: string) => {
+    const resolved = await resolveJobUrlsInDb(newJobs, token);
+    if (Object.keys(resolved).length === 0) return;
+    setJobs(prev => prev.map(j => resolved[j.id] ? { ...j, canonicalUrl: resolved[j.id] } : j));
   };
 
   const handleAddJob = async (job: Job) => {
+    const duplicates = findDuplicatesOf(job, jobs);
     setJobs(prev => [job, ...prev]);
     const token = await getToken();
-    if (token) await saveJobToDb(job, token);
-    showNotification("Job lead added successfully!", "success");
+    if (token) {
+      await saveJobToDb(job, token);
+      resolveCanonicalUrls([job], token);
+    }
+    showNotification(duplicates.length > 0
+        ? `Job added. It looks like "${duplicates[0].title}" at ${duplicates[0].company}, which you already have. Review duplicates under Scanned Jobs.`
+        : "Job lead added successfully!", "success");
+  };
+
+  const handleOpenDuplicates = (jobId: string | null = null) => {
+    setMergeStartJobId(jobId);
+    setIsMergeModalOpen(true);
+  };
+
+  const handleMergeJobs = async (group: Job[], primaryId: string) => {
+    const { merged, duplicateIds } = mergeJobGroup(group, primaryId);
+    try {
+        const token = await getToken();
+        if (!token) throw new Error("Not signed in");
+        await mergeJobsInDb(merged, duplicateIds, token);
+    } catch (e: any) {
+        showNotification(e.message || "Could not merge jobs.", "error");
+        return;
+    }
+    setJobs(prev => prev.filter(j => !duplicateIds.includes(j.id)).map(j => j.id === merged.id ? merged : j));
+    setInterviews(prev => prev.map(i => duplicateIds.includes(i.jobId) ? { ...i, jobId: merged.id } : i));
+    setReminders(prev => prev.filter(r => !duplicateIds.includes(r.jobId)));
+    if (selectedJobId && duplicateIds.includes(selectedJobId)) setSelectedJobId(merged.id);
+    showNotification(`Merged ${group.length} records of ${merged.title}.`, "success");
+  };
+
+  // Remembered on each job so the group isn't flagged again
+  const handleMarkDistinct = async (group: Job[]) => {
+    for (const job of group) {
+        const others = group.filter(j => j.id !== job.id).map(j => j.id);
+        await handleUpdateJob({ ...job, distinctFrom: Array.from(new Set([...(job.distinctFrom || []), ...others])) })
+            .catch(() => showNotification(`Couldn't save ${job.title}. Please try again.`, "error"));
+    }
+  };
+
+  const handleSaveInterview = async (interview: Interview) => {
+    setInterviews(prev => prev.some(i => i.id === interview.id) 
+        ? prev.map(i => i.id === interview.id ? interview : i) 
+        : [...prev, interview]);
+    const token = await getToken();
+    if (token) await saveInterviewToDb(interview, token);
+    showNotification(`Round ${interview.round} saved.`, "success");
+  };
+
+  const handleDeleteInterview = async (id: string) => {
+    setInterviews(prev => prev.filter(i => i.id !== id));
+    const token = await getToken();
+    if (token) await deleteInterviewFromDb(id, token);
+  };
+
+  const handleUpdateReminders = async (ids: string[], status: Reminder['status']) => {
+    if (ids.length === 0) return;
+    setReminders(prev => prev.map(r => ids.includes(r.id) ? { ...r, status } : r));
+    const token = await getToken();
+    if (token) await updateReminderStatus(ids, status, token);
+  };
+
+  const handleExportCalendar = async () => {
+    try {
+        const token = await getToken();
+        if (!token) return;
+        const content = await fetchInterviewFeed(token);
+        const blob = new Blob([content], { type: 'text/calendar' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'jobflow-interviews.ics';
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    } catch (e) {
+        console.error("Calendar export failed:", e);
+        showNotification("Could not export the interview calendar.", "error");
+    }
+  };
+
+  const handleSubscribeCalendar = async () => {
+    try {
+        const token = await getToken();
+        if (!token) return;
+        const url = await createInterviewFeedLink(token);
+        await navigator.clipboard.writeText(url);
+        showNotification("Calendar subscription link copied. Add it to your calendar app by URL; any earlier link no longer works.", "success");
+    } catch (e) {
+        console.error("Calendar subscription failed:", e);
+        showNotification("Could not create a calendar subscription link.", "error");
+    }
+  };
+
+  const handleRevokeCalendarLink = async () => {
+    try {
+        const token = await getToken();
+        if (!token) return;
+        await revokeInterviewFeedLink(token);
+        showNotification("Calendar subscription link revoked.", "success");
+    } catch (e) {
+        console.error("Revoking the calendar link failed:", e);
+        showNotification("Could not revoke the calendar subscription link.", "error");
+    }
   };
 
   if (!isLoaded) {
@@ -157,12 +525,21 @@ export const App: React.FC = () => {
 
   const currentSelectedJob = jobs.find(j => j.id === selectedJobId);
   const isResumeMissing = !userProfile?.resumeContent || userProfile.resumeContent.length < 50;
+  const unreadReminderCount = reminders.filter(r => r.status === 'unread').length;
 
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden" dir={isRtl ? 'rtl' : 'ltr'}>
       {notification && <NotificationToast message={notification.message} type={notification.type} onClose={() => setNotification(null)} />}
       
       <AddJobModal isOpen={isAddModalOpen} onClose={() => setIsAddModalOpen(false)} onAdd={handleAddJob} />
+      <MergeJobsModal 
+        isOpen={isMergeModalOpen} 
+        groups={duplicateGroups} 
+        startJobId={mergeStartJobId} 
+        onClose={() => setIsMergeModalOpen(false)} 
+        onMerge={handleMergeJobs} 
+        onMarkDistinct={handleMarkDistinct} 
+      />
 
       <aside className="w-64 bg-white border-e border-slate-200 flex flex-col shrink-0 z-20">
         <div className="p-6 flex items-center justify-between">
@@ -177,6 +554,7 @@ export const App: React.FC = () => {
           <button onClick={() => setCurrentView(ViewState.SELECTED_JOBS)} className={`w-full flex items-center px-3 py-2.5 rounded-lg mb-1 transition-all ${currentView === ViewState.SELECTED_JOBS ? 'bg-indigo-50 text-indigo-700 font-bold shadow-sm' : 'text-slate-600 hover:bg-slate-50'}`}><SearchIcon className="w-5 h-5 me-3" /> Scanned Jobs</button>
           <button onClick={() => setCurrentView(ViewState.TRACKER)} className={`w-full flex items-center px-3 py-2.5 rounded-lg mb-1 transition-all ${currentView === ViewState.TRACKER ? 'bg-indigo-50 text-indigo-700 font-bold shadow-sm' : 'text-slate-600 hover:bg-slate-50'}`}><List className="w-5 h-5 me-3" /> Applications</button>
           <button onClick={() => setCurrentView(ViewState.EMAILS)} className={`w-full flex items-center px-3 py-2.5 rounded-lg mb-1 transition-all ${currentView === ViewState.EMAILS ? 'bg-indigo-50 text-indigo-700 font-bold shadow-sm' : 'text-slate-600 hover:bg-slate-50'}`}><Mail className="w-5 h-5 me-3" /> Inbox Scanner</button>
+          <button onClick={() => setCurrentView(ViewState.REMINDERS)} className={`w-full flex items-center px-3 py-2.5 rounded-lg mb-1 transition-all ${currentView === ViewState.REMINDERS ? 'bg-indigo-50 text-indigo-700 font-bold shadow-sm' : 'text-slate-600 hover:bg-slate-50'}`}><Bell className="w-5 h-5 me-3" /> Reminders {unreadReminderCount > 0 && <span className="ms-auto text-[10px] font-black bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full">{unreadReminderCount}</span>}</button>
           <div className="my-2 border-t border-slate-100" />
           <button onClick={() => setCurrentView(ViewState.SETTINGS)} className={`w-full flex items-center px-3 py-2.5 rounded-lg mb-1 transition-all ${currentView === ViewState.SETTINGS ? 'bg-indigo-50 text-indigo-700 font-bold shadow-sm' : 'text-slate-600 hover:bg-slate-50'}`}><SettingsIcon className="w-5 h-5 me-3" /> Settings</button>
         </div>
@@ -205,7 +583,7 @@ export const App: React.FC = () => {
                 </button>
               </div>
             )}
-            <DashboardStats jobs={jobs} userProfile={userProfile!} />
+            <DashboardStats jobs={jobs} userProfile={userProfile!} interviews={interviews} onExportCalendar={handleExportCalendar} onSubscribeCalendar={handleSubscribeCalendar} onRevokeCalendarLink={handleRevokeCalendarLink} />
           </div>
         )}
         
@@ -220,6 +598,14 @@ export const App: React.FC = () => {
                  <Plus className="w-4 h-4" /> Add Manual Lead
                </button>
             </div>
+            {duplicateGroups.length > 0 && (
+              <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-2xl flex items-center justify-between">
+                <p className="text-sm font-bold text-amber-800 flex items-center gap-2">
+                  <Copy className="w-4 h-4" /> {duplicateGroups.length} {duplicateGroups.length === 1 ? 'job appears' : 'jobs appear'} more than once across your sources.
+                </p>
+                <button onClick={() => handleOpenDuplicates()} className="text-xs font-black uppercase tracking-widest text-amber-800 hover:text-amber-900">Review &amp; Merge</button>
+              </div>
+            )}
             {jobs.filter(j => j.status === JobStatus.DETECTED).length === 0 ? (
               <div className="h-64 flex flex-col items-center justify-center border-2 border-dashed border-slate-200 rounded-[2rem] text-slate-400">
                 <SearchIcon className="w-10 h-10 mb-4 opacity-20" />
@@ -230,26 +616,45 @@ export const App: React.FC = () => {
                 <JobCard 
                   key={j.id} 
                   job={j} 
+                  userProfile={userProfile!} 
                   onClick={(job) => setSelectedJobId(job.id)} 
                   isSelected={selectedJobId === j.id} 
                   isChecked={false} 
                   onToggleCheck={() => {}} 
                   onAutoApply={() => {}} 
+                  duplicateCount={duplicateCounts.get(j.id)}
+                  onReviewDuplicates={(job) => handleOpenDuplicates(job.id)}
+                  onExportError={(message) => showNotification(message, 'error')}
                 />
               ))
             )}
           </div>
         )}
 
-        {currentView === ViewState.TRACKER && <ApplicationTracker jobs={jobs} onUpdateStatus={async (id, s) => {
+        {currentView === ViewState.TRACKER && <ApplicationTracker jobs={jobs} interviews={interviews} onUpdateStatus={async (id, s) => {
             const job = jobs.find(j => j.id === id);
-            if (job) handleUpdateJob({...job, status: s});
+            if (!job) {
+                showNotification("That job isn't loaded yet. Please refresh and try again.", "error");
+                return;
+            }
+            await handleUpdateJob(applyStatusChange(job, s))
+                .catch(() => showNotification(`Couldn't save the status of ${job.title}. Please try again.`, "error"));
         }} onDelete={async (id) => {
             setJobs(prev => prev.filter(j => j.id !== id));
+            setInterviews(prev => prev.filter(i => i.jobId !== id));
             const token = await getToken();
             if (token) await deleteJobFromDb(id, token);
-        }} onSelect={(j) => setSelectedJobId(j.id)} />}
+        }} onSelect={(j) => { mergeLoadedJobs([j]); setSelectedJobId(j.id); }} onQueryJobs={handleQueryJobs} hasMoreJobs={!!jobsCursor} isLoadingMoreJobs={isLoadingMoreJobs} onLoadMoreJobs={handleLoadMoreJobs} />}
         
+        {currentView === ViewState.REMINDERS && (
+          <RemindersInbox 
+            reminders={reminders} 
+            jobs={jobs} 
+            onUpdateStatus={handleUpdateReminders} 
+            onSelectJob={(j) => setSelectedJobId(j.id)} 
+          />
+        )}
+
         {currentView === ViewState.SETTINGS && (
           <div className="h-full p-8 overflow-y-auto">
             <Settings 
@@ -268,18 +673,50 @@ export const App: React.FC = () => {
           <div className="h-full p-6">
             <InboxScanner 
               onImport={async (newJobs) => {
-                  setJobs(prev => [...newJobs, ...prev]);
+                  // A posting detected again keeps its status and documents instead of being reset
+                  const known = new Set(jobs.map(j => j.id));
+                  const fresh = newJobs.filter(j => !known.has(j.id));
+                  setJobs(prev => [...fresh, ...prev]);
                   const token = await getToken();
-                  if (token) for (const j of newJobs) await saveJobToDb(j, token);
+                  if (!token) return;
+                  for (const j of fresh) await saveJobToDb(j, token);
+                  resolveCanonicalUrls(fresh, token);
               }} 
-              sessionAccount={sessionAccount} 
+              sessionAccount={scannerAccount} 
               onConnectSession={setSessionAccount} 
-              onDisconnectSession={() => setSessionAccount(null)} 
+              onDisconnectSession={handleDisconnectScanner} 
+              onAuthorizeGmail={handleAuthorizeGmail}
+              onResolveAccessToken={handleResolveAccessToken}
+              onConnectImap={handleConnectImap}
+              onFetchBridgedMessages={handleFetchBridgedMessages}
+              onSyncCursor={handleSyncCursor}
+              onLoadProcessedMessages={handleLoadProcessedMessages}
+              onRecordProcessedMessages={handleRecordProcessedMessages}
+              onLoadScanStatus={handleLoadScanStatus}
+              onLoadScanRun={handleLoadScanRun}
+              onRecordScanRun={handleRecordScanRun}
+              onReplayMessage={handleReplayMessage}
               showNotification={showNotification} 
               userPreferences={userProfile?.preferences} 
             />
           </div>
         )}
+
+        {currentView === ViewState.DEBUG && (
+          <div className="h-full overflow-y-auto">
+            <DebugView 
+              replayTarget={replayTarget}
+              mailAccounts={[sessionAccount, ...(userProfile?.connectedAccounts || [])].filter((a): a is EmailAccount => !!a)}
+              providerContext={{
+                  resolveAccessToken: handleResolveAccessToken,
+                  fetchBridgedMessages: handleFetchBridgedMessages,
+                  fetchBridgedMessage: handleFetchBridgedMessage
+              }}
+              userPreferences={userProfile?.preferences}
+              onBack={() => setCurrentView(ViewState.EMAILS)}
+            />
+          </div>
+        )}
         
         {selectedJobId && currentSelectedJob && (
             <div className="absolute inset-0 z-50 bg-slate-50 overflow-hidden flex flex-col animate-in slide-in-from-right duration-300 shadow-2xl">
@@ -302,6 +739,9 @@ export const App: React.FC = () => {
                         onUpdateJob={handleUpdateJob} 
                         onClose={() => setSelectedJobId(null)} 
                         showNotification={showNotification} 
+                        interviews={interviews.filter(i => i.jobId === currentSelectedJob.id)}
+                        onSaveInterview={handleSaveInterview}
+                        onDeleteInterview={handleDeleteInterview}
                     />
                 </div>
             </div>
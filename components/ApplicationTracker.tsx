@@ -1,25 +1,123 @@
-import React, { useState, useMemo } from 'react';
-import { Job, JobStatus } from '../types';
-import { Search, ExternalLink, Trash2, ArrowUpDown, Archive, CheckCircle2, Clock, XCircle, Briefcase } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Job, JobStatus, Interview, JobQuery, JobPage } from '../types';
+import { Search, ExternalLink, Trash2, ArrowUpDown, Archive, CheckCircle2, Clock, XCircle, Briefcase, CalendarClock, Table2, Columns3, SlidersHorizontal, Loader2 } from 'lucide-react';
+import { getUpcomingInterviews, formatInTimeZone } from '../services/calendarService';
+import { KanbanBoard } from './KanbanBoard';
 
 interface ApplicationTrackerProps {
   jobs: Job[];
+  interviews?: Interview[];
   onUpdateStatus: (id: string, status: JobStatus) => void;
   onDelete: (id: string) => void;
   onSelect: (job: Job) => void;
+  // Runs filters on the server so they cover jobs beyond what is loaded locally
+  onQueryJobs?: (query: JobQuery, cursor?: string | null) => Promise<JobPage>;
+  // Only the newest jobs are loaded up front; these page in the older ones
+  hasMoreJobs?: boolean;
+  isLoadingMoreJobs?: boolean;
+  onLoadMoreJobs?: () => void;
 }
 
-export const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ jobs, onUpdateStatus, onDelete, onSelect }) => {
+interface TrackerFilters {
+  statuses: JobStatus[];
+  source: string;
+  from: string;
+  to: string;
+  minScore: number;
+}
+
+const EMPTY_FILTERS: TrackerFilters = { statuses: [], source: '', from: '', to: '', minScore: 0 };
+const SOURCES: Job['source'][] = ['Gmail', 'Outlook', 'IMAP', 'Demo', 'LinkedIn', 'Indeed', 'Imported Link'];
+
+export const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ jobs, interviews = [], onUpdateStatus, onDelete, onSelect, onQueryJobs, hasMoreJobs, isLoadingMoreJobs, onLoadMoreJobs }) => {
   const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<TrackerFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [serverPage, setServerPage] = useState<JobPage | null>(null);
+  const [isQuerying, setIsQuerying] = useState(false);
   const [activeTab, setActiveTab] = useState<'active' | 'archived'>('active');
+  const [viewMode, setViewMode] = useState<'table' | 'board'>('table');
   const [sortConfig, setSortConfig] = useState<{ key: keyof Job, direction: 'asc' | 'desc' }>({ key: 'detectedAt', direction: 'desc' });
 
+  const serverFiltered = !!onQueryJobs && (
+    search.trim() !== '' || filters.statuses.length > 0 || !!filters.source || !!filters.from || !!filters.to || filters.minScore > 0
+  );
+
+  const query = useMemo<JobQuery>(() => ({
+    statuses: filters.statuses,
+    source: filters.source || undefined,
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    minScore: filters.minScore || undefined,
+    q: search.trim() || undefined
+  }), [filters, search]);
+
+  // Debounced so typing in the search box doesn't issue a request per keystroke
+  useEffect(() => {
+    if (!serverFiltered || !onQueryJobs) {
+      setServerPage(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsQuerying(true);
+      try {
+        const page = await onQueryJobs(query);
+        if (!cancelled) setServerPage(page);
+      } catch (e) {
+        console.warn("[ApplicationTracker] Job query failed:", e);
+      } finally {
+        if (!cancelled) setIsQuerying(false);
+      }
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [serverFiltered, query, onQueryJobs]);
+
+  const loadMore = async () => {
+    if (!onQueryJobs || !serverPage?.nextCursor) return;
+    setIsQuerying(true);
+    try {
+      const page = await onQueryJobs(query, serverPage.nextCursor);
+      setServerPage(prev => ({ jobs: [...(prev?.jobs || []), ...page.jobs], nextCursor: page.nextCursor }));
+    } catch (e) {
+      console.warn("[ApplicationTracker] Job query failed:", e);
+    } finally {
+      setIsQuerying(false);
+    }
+  };
+
+  // Filtered views page through the server results, the unfiltered one through the app's job list
+  const canLoadMore = serverFiltered ? !!serverPage?.nextCursor : !!hasMoreJobs && !!onLoadMoreJobs;
+  const isLoadingMore = serverFiltered ? isQuerying : !!isLoadingMoreJobs;
+  const handleLoadMore = () => serverFiltered ? loadMore() : onLoadMoreJobs?.();
+
+  // Server results are snapshots; prefer the local copy so status changes show immediately
+  const sourceJobs = useMemo(() => {
+    if (!serverFiltered || !serverPage) return jobs;
+    const localById = new Map(jobs.map(j => [j.id, j]));
+    return serverPage.jobs.map(j => localById.get(j.id) || j);
+  }, [serverFiltered, serverPage, jobs]);
+
+  const handleDelete = (id: string) => {
+    setServerPage(prev => prev ? { ...prev, jobs: prev.jobs.filter(j => j.id !== id) } : prev);
+    onDelete(id);
+  };
+
+  const toggleStatusFilter = (status: JobStatus) => {
+    setFilters(prev => ({
+      ...prev,
+      statuses: prev.statuses.includes(status) ? prev.statuses.filter(s => s !== status) : [...prev.statuses, status]
+    }));
+  };
+
+  const activeFilterCount = filters.statuses.length + (filters.source ? 1 : 0) + (filters.from ? 1 : 0) + (filters.to ? 1 : 0) + (filters.minScore > 0 ? 1 : 0);
+
   // Categorize Jobs
   const { activeJobs, archivedJobs } = useMemo(() => {
     const active: Job[] = [];
     const archived: Job[] = [];
 
-    jobs.forEach(j => {
+    sourceJobs.forEach(j => {
         if (j.status === JobStatus.DETECTED) return; // Ignore scanner items
         
         if (j.status === JobStatus.REJECTED || j.status === JobStatus.OFFER) {
@@ -30,14 +128,28 @@ export const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ jobs, on
     });
     
     return { activeJobs: active, archivedJobs: archived };
-  }, [jobs]);
+  }, [sourceJobs]);
 
   const currentList = activeTab === 'active' ? activeJobs : archivedJobs;
 
+  const boardJobs = useMemo(() => {
+    if (!search || serverFiltered) return sourceJobs;
+    const q = search.toLowerCase();
+    return sourceJobs.filter(j => j.title.toLowerCase().includes(q) || j.company.toLowerCase().includes(q));
+  }, [sourceJobs, search, serverFiltered]);
+
+  const upcomingInterviews = useMemo(() => 
+    getUpcomingInterviews(interviews)
+      .map(interview => ({ interview, job: jobs.find(j => j.id === interview.jobId) }))
+      .filter((entry): entry is { interview: Interview, job: Job } => !!entry.job)
+      .slice(0, 4),
+  [interviews, jobs]);
+
   const filteredJobs = useMemo(() => {
     let result = currentList;
 
-    if (search) {
+    // The server already matched the query against title, company and description
+    if (search && !serverFiltered) {
       const q = search.toLowerCase();
       result = result.filter(j => 
         j.title.toLowerCase().includes(q) || 
@@ -45,14 +157,14 @@ export const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ jobs, on
       );
     }
 
-    return result.sort((a, b) => {
+    return [...result].sort((a, b) => {
       const aVal = a[sortConfig.key] || '';
       const bVal = b[sortConfig.key] || '';
       if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
       if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [currentList, search, sortConfig]);
+  }, [currentList, search, sortConfig, serverFiltered]);
 
   const handleSort = (key: keyof Job) => {
     setSortConfig(current => ({
@@ -79,11 +191,42 @@ export const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ jobs, on
       }
   };
 
+  const loadMoreButton = (
+    <div className="flex justify-center mt-4">
+        <button 
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+            className="px-4 py-2 rounded-lg text-sm font-medium border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40 flex items-center gap-2 transition-colors"
+        >
+            {isLoadingMore && <Loader2 className="w-4 h-4 animate-spin" />} Load more
+        </button>
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-full bg-slate-50">
       <div className="p-6 bg-white border-b border-slate-200">
-        <h1 className="text-2xl font-bold text-slate-900 mb-4">My Applications</h1>
+        <div className="flex items-center justify-between mb-4">
+            <h1 className="text-2xl font-bold text-slate-900">My Applications</h1>
+            <div className="flex items-center bg-slate-100 rounded-lg p-1 border border-slate-200" role="group" aria-label="View mode">
+                <button 
+                    onClick={() => setViewMode('table')}
+                    aria-pressed={viewMode === 'table'}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-1.5 transition-colors ${viewMode === 'table' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                    <Table2 className="w-4 h-4" /> Table
+                </button>
+                <button 
+                    onClick={() => setViewMode('board')}
+                    aria-pressed={viewMode === 'board'}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-1.5 transition-colors ${viewMode === 'board' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                    <Columns3 className="w-4 h-4" /> Board
+                </button>
+            </div>
+        </div>
         
+        {viewMode === 'table' && (
         <div className="flex items-center gap-4 mb-4">
              <button 
                 onClick={() => setActiveTab('active')}
@@ -98,19 +241,106 @@ export const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ jobs, on
                  Archived / Not Interested ({archivedJobs.length})
              </button>
         </div>
+        )}
+
+        {upcomingInterviews.length > 0 && (
+            <div className="mb-4">
+                <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center">
+                    <CalendarClock className="w-3 h-3 mr-1" /> Upcoming Interviews
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                    {upcomingInterviews.map(({ interview, job }) => (
+                        <button 
+                            key={interview.id}
+                            onClick={() => onSelect(job)}
+                            className="text-left p-3 bg-purple-50 border border-purple-100 rounded-lg hover:bg-purple-100 transition-colors"
+                        >
+                            <div className="text-sm font-medium text-slate-900 truncate">{job.company}</div>
+                            <div className="text-xs text-slate-500 truncate">Round {interview.round} · {interview.stage}</div>
+                            <div className="text-xs font-bold text-purple-700 mt-1">{formatInTimeZone(interview.startsAt, interview.timeZone)}</div>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
 
-        <div className="relative">
-            <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
-            <input 
-              type="text" 
-              placeholder="Search application history..." 
-              className="w-full pl-9 pr-4 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-            />
+        <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+                <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                <input 
+                  type="text" 
+                  placeholder="Search application history..." 
+                  className="w-full pl-9 pr-9 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+                {isQuerying && <Loader2 className="absolute right-3 top-2.5 w-4 h-4 text-indigo-500 animate-spin" />}
+            </div>
+            {onQueryJobs && (
+                <button 
+                    onClick={() => setShowFilters(prev => !prev)}
+                    aria-expanded={showFilters}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium border flex items-center gap-1.5 transition-colors ${showFilters || activeFilterCount > 0 ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                >
+                    <SlidersHorizontal className="w-4 h-4" /> Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                </button>
+            )}
         </div>
+
+        {showFilters && onQueryJobs && (
+            <div className="mt-3 p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                <div className="flex flex-wrap gap-2">
+                    {Object.values(JobStatus).map(status => (
+                        <button 
+                            key={status}
+                            onClick={() => toggleStatusFilter(status)}
+                            aria-pressed={filters.statuses.includes(status)}
+                            className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${filters.statuses.includes(status) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'}`}
+                        >
+                            {status}
+                        </button>
+                    ))}
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+                    <label className="text-xs text-slate-500">
+                        Source
+                        <select value={filters.source} onChange={(e) => setFilters({ ...filters, source: e.target.value })} className="mt-1 w-full px-2 py-1.5 border border-slate-200 rounded-md text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500">
+                            <option value="">Any</option>
+                            {SOURCES.map(s => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-xs text-slate-500">
+                        From
+                        <input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} className="mt-1 w-full px-2 py-1.5 border border-slate-200 rounded-md text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500" />
+                    </label>
+                    <label className="text-xs text-slate-500">
+                        To
+                        <input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} className="mt-1 w-full px-2 py-1.5 border border-slate-200 rounded-md text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500" />
+                    </label>
+                    <label className="text-xs text-slate-500">
+                        Min match: {filters.minScore}%
+                        <input type="range" min={0} max={100} step={5} value={filters.minScore} onChange={(e) => setFilters({ ...filters, minScore: Number(e.target.value) })} className="mt-2 w-full accent-indigo-600" />
+                    </label>
+                    <button 
+                        onClick={() => setFilters(EMPTY_FILTERS)}
+                        disabled={activeFilterCount === 0}
+                        className="px-3 py-1.5 rounded-md text-sm font-medium border border-slate-200 bg-white text-slate-600 hover:bg-slate-100 disabled:opacity-40 transition-colors"
+                    >
+                        Clear filters
+                    </button>
+                </div>
+            </div>
+        )}
       </div>
 
+      {viewMode === 'board' ? (
+      <div className="flex-1 overflow-hidden p-6 flex flex-col">
+        <div className="flex-1 min-h-0">
+          <KanbanBoard jobs={boardJobs} onUpdateStatus={onUpdateStatus} onSelect={onSelect} />
+        </div>
+        {canLoadMore && loadMoreButton}
+      </div>
+      ) : (
       <div className="flex-1 overflow-auto p-6">
         <div className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden min-w-[800px]">
           <table className="w-full text-left border-collapse">
@@ -176,7 +406,7 @@ export const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ jobs, on
                         <button 
                             onClick={() => {
                                 if(window.confirm('Permanently delete this record?')) {
-                                    onDelete(job.id);
+                                    handleDelete(job.id);
                                 }
                             }}
                             className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -204,7 +434,9 @@ export const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ jobs, on
             </tbody>
           </table>
         </div>
+        {canLoadMore && loadMoreButton}
       </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,17 +1,23 @@
 
 import React, { useMemo } from 'react';
-import { Job, JobStatus, UserProfile } from '../types';
-import { Send, Filter, Users, Star, BarChart3, TrendingUp, ShieldCheck, Activity, Search, Settings as SettingsIcon, AlertCircle } from 'lucide-react';
+import { Job, JobStatus, UserProfile, Interview } from '../types';
+import { Send, Filter, Users, Star, BarChart3, TrendingUp, ShieldCheck, Activity, Search, Settings as SettingsIcon, AlertCircle, CalendarClock, Download, Link2, Link2Off } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell } from 'recharts';
 import { translations } from '../services/localization';
+import { getUpcomingInterviews, formatInTimeZone } from '../services/calendarService';
 
 interface DashboardStatsProps {
   jobs: Job[];
   onFilterChange?: (status: string) => void;
   userProfile?: UserProfile;
+  interviews?: Interview[];
+  onExportCalendar?: () => void;
+  // Copies a secret feed URL for calendar apps; making a new one revokes the old
+  onSubscribeCalendar?: () => void;
+  onRevokeCalendarLink?: () => void;
 }
 
-export const DashboardStats: React.FC<DashboardStatsProps> = ({ jobs, onFilterChange, userProfile }) => {
+export const DashboardStats: React.FC<DashboardStatsProps> = ({ jobs, onFilterChange, userProfile, interviews = [], onExportCalendar, onSubscribeCalendar, onRevokeCalendarLink }) => {
   
   const lang = userProfile?.preferences.language || 'en';
   const t = (key: keyof typeof translations['en']) => translations[lang][key] || key;
@@ -37,6 +43,8 @@ export const DashboardStats: React.FC<DashboardStatsProps> = ({ jobs, onFilterCh
       { name: 'Interview', value: stats.interviews, color: '#10b981' },
   ];
 
+  const upcomingInterviews = useMemo(() => getUpcomingInterviews(interviews).slice(0, 5), [interviews]);
+
   const chartData = useMemo(() => {
     const days = [];
     for (let i = 6; i >= 0; i--) {
@@ -190,6 +198,61 @@ export const DashboardStats: React.FC<DashboardStatsProps> = ({ jobs, onFilterCh
             </div>
           </div>
       </div>
+
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+        <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center">
+                <CalendarClock className="w-4 h-4 me-2 text-purple-500" />
+                Upcoming Interviews
+            </h3>
+            <div className="flex items-center gap-2">
+                {onSubscribeCalendar && (
+                    <button 
+                        onClick={onSubscribeCalendar}
+                        title="Copy a private link that calendar apps can subscribe to"
+                        className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-purple-600 bg-purple-50 border border-purple-100 px-3 py-1.5 rounded-xl hover:bg-purple-100 transition-colors"
+                    >
+                        <Link2 className="w-3 h-3" /> Subscribe
+                    </button>
+                )}
+                {onRevokeCalendarLink && (
+                    <button 
+                        onClick={onRevokeCalendarLink}
+                        title="Stop the subscription link from working"
+                        className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-slate-500 bg-slate-50 border border-slate-200 px-3 py-1.5 rounded-xl hover:bg-slate-100 transition-colors"
+                    >
+                        <Link2Off className="w-3 h-3" /> Revoke Link
+                    </button>
+                )}
+                {onExportCalendar && interviews.length > 0 && (
+                    <button 
+                        onClick={onExportCalendar}
+                        className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-purple-600 bg-purple-50 border border-purple-100 px-3 py-1.5 rounded-xl hover:bg-purple-100 transition-colors"
+                    >
+                        <Download className="w-3 h-3" /> Export Calendar
+                    </button>
+                )}
+            </div>
+        </div>
+        {upcomingInterviews.length === 0 ? (
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">No interviews scheduled</p>
+        ) : (
+            <div className="divide-y divide-slate-100">
+                {upcomingInterviews.map(interview => {
+                    const job = jobs.find(j => j.id === interview.jobId);
+                    return (
+                        <div key={interview.id} className="py-3 flex items-center justify-between gap-4">
+                            <div className="min-w-0">
+                                <p className="text-sm font-bold text-slate-800 truncate">{job ? `${job.title} @ ${job.company}` : 'Interview'}</p>
+                                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Round {interview.round} · {interview.stage}</p>
+                            </div>
+                            <span className="text-xs font-black text-purple-600 whitespace-nowrap">{formatInTimeZone(interview.startsAt, interview.timeZone)}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -1,11 +1,32 @@
 
 import React, { useState } from 'react';
 import { useAuth, useUser } from '@clerk/clerk-react';
-import { Database, Terminal, Send, User as UserIcon, Briefcase, CheckCircle, AlertCircle, Loader2, Sparkles, RefreshCcw } from 'lucide-react';
+import { Database, Terminal, Send, User as UserIcon, Briefcase, CheckCircle, AlertCircle, Loader2, Sparkles, RefreshCcw, PlayCircle, ChevronLeft } from 'lucide-react';
 import { saveUserProfile, saveJobToDb } from '../services/dbService';
-import { UserProfile, Job, JobStatus } from '../types';
+import { UserProfile, Job, JobStatus, EmailAccount, ScanRun, UserPreferences } from '../types';
+import { MailProviderContext } from '../services/mailProvider';
+import { createMailProvider } from '../services/mailProviderRegistry';
+import { JobLinkVerdict, classifyJobLink, extractHtmlLinks, selectJobLinks } from '../services/localAiService';
+import { buildDetectedJobs } from '../services/jobMatchService';
 
-export const DebugView: React.FC = () => {
+interface DebugViewProps {
+    // Email of a recorded scan run to re-run through extraction
+    replayTarget?: { run: ScanRun, messageId: string } | null;
+    mailAccounts?: EmailAccount[];
+    providerContext?: MailProviderContext;
+    userPreferences?: UserPreferences;
+    onBack?: () => void;
+}
+
+const VERDICT_STYLES: Record<JobLinkVerdict, string> = {
+    job: 'text-green-400',
+    no_href: 'text-slate-500',
+    bad_length: 'text-slate-500',
+    blacklisted: 'text-amber-400',
+    no_title_match: 'text-slate-400'
+};
+
+export const DebugView: React.FC<DebugViewProps> = ({ replayTarget, mailAccounts = [], providerContext = {}, userPreferences, onBack }) => {
     const { getToken } = useAuth();
     const { user } = useUser();
     const [loading, setLoading] = useState<string | null>(null);
@@ -18,6 +39,9 @@ export const DebugView: React.FC = () => {
         resumeContent: 'Passionate software engineer with 5 years of experience in React and Node.js.'
     });
 
+    const [replayHtml, setReplayHtml] = useState('');
+    const [replayOutput, setReplayOutput] = useState<{ links: { href: string, text: string, verdict: JobLinkVerdict }[], jobs: Job[] } | null>(null);
+
     const [jobData, setJobData] = useState({
         title: 'Senior Frontend Engineer',
         company: 'CloudFlow Systems',
@@ -104,6 +128,47 @@ export const DebugView: React.FC = () => {
         finally { setLoading(null); }
     };
 
+    const replayMessage = replayTarget?.run.messages?.find(m => m.messageId === replayTarget.messageId);
+
+    // Same steps as a scan: links from the HTML, the job-link filter, then scoring and de-duplication
+    const runReplay = (html: string, source: Job['source'] = 'Imported Link') => {
+        const roles = userPreferences?.targetRoles || [];
+        const links = extractHtmlLinks(html).map(link => ({ ...link, verdict: classifyJobLink(link, roles) }));
+        const jobs = buildDetectedJobs(selectJobLinks(links, roles), userPreferences, source);
+        setReplayOutput({ links, jobs });
+        setResult({
+            status: 'REPLAYED',
+            links: links.length,
+            jobLinks: links.filter(link => link.verdict === 'job').length,
+            jobs: jobs.map(job => ({ title: job.title, matchScore: job.matchScore, applicationUrl: job.applicationUrl })),
+            recordedJobs: replayMessage?.jobs.length ?? null
+        });
+    };
+
+    const fetchAndReplay = async () => {
+        if (!replayTarget) return;
+        setLoading('replay');
+        setError(null);
+        try {
+            const { run, messageId } = replayTarget;
+            // Demo inboxes live in the browser and are never stored, so rebuild one from the run
+            const account = mailAccounts.find(a => a.id === run.accountId)
+                || (run.mailbox.startsWith('Demo:')
+                    ? { id: run.accountId, provider: 'Demo' as const, emailAddress: run.mailbox.slice(5), isConnected: true, lastSynced: run.startedAt }
+                    : null);
+            const provider = account ? createMailProvider(account, providerContext) : null;
+            if (!provider) throw new Error(`${run.mailbox} is not connected any more. Paste the email HTML to replay it.`);
+            await provider.authenticate();
+            const html = await provider.fetchBody(messageId);
+            setReplayHtml(html);
+            runReplay(html, provider.jobSource);
+        } catch (e: any) {
+            setError(e.message === 'TOKEN_EXPIRED' ? 'Mailbox access expired. Reconnect it in the Inbox Scanner.' : e.message);
+        } finally {
+            setLoading(null);
+        }
+    };
+
     return (
         <div className="max-w-6xl mx-auto p-8 space-y-8">
             <header className="flex items-center justify-between mb-8">
@@ -149,6 +214,65 @@ export const DebugView: React.FC = () => {
                     </div>
                 </div>
             </div>
+
+            <div className="bg-white rounded-[2rem] border border-slate-200 shadow-sm p-8 space-y-6">
+                <div className="flex items-center justify-between border-b border-slate-100 pb-4">
+                    <div className="flex items-center gap-3">
+                        <PlayCircle className="w-5 h-5 text-indigo-600" />
+                        <h2 className="font-black text-slate-800 uppercase text-sm tracking-widest">Extraction Replay</h2>
+                    </div>
+                    {onBack && replayTarget && (
+                        <button onClick={onBack} className="text-xs font-bold text-slate-400 hover:text-indigo-600 flex items-center gap-1">
+                            <ChevronLeft className="w-4 h-4" /> Back to scan history
+                        </button>
+                    )}
+                </div>
+
+                {replayTarget ? (
+                    <div className="flex items-center justify-between gap-4 bg-slate-50 border border-slate-200 rounded-xl p-4">
+                        <div className="min-w-0 text-xs">
+                            <p className="font-bold text-slate-800 truncate">{replayMessage?.subject || `Message ${replayTarget.messageId}`}</p>
+                            <p className="text-slate-500 truncate">
+                                {replayMessage?.from} · {replayTarget.run.mailbox} · scanned {new Date(replayTarget.run.startedAt).toLocaleString()}
+                                {replayMessage && ` · recorded ${replayMessage.jobs.length} jobs`}
+                            </p>
+                        </div>
+                        <button onClick={fetchAndReplay} disabled={loading !== null} className="shrink-0 px-6 py-3 bg-indigo-600 text-white rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-50">
+                            {loading === 'replay' ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlayCircle className="w-4 h-4" />}
+                            Fetch &amp; Replay
+                        </button>
+                    </div>
+                ) : (
+                    <p className="text-xs text-slate-500">Pick an email from a run in the Inbox Scanner's scan history, or paste email HTML below.</p>
+                )}
+
+                <textarea className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs font-mono h-32" placeholder="<html>…</html>" value={replayHtml} onChange={e => setReplayHtml(e.target.value)} />
+                <button onClick={() => runReplay(replayHtml)} disabled={!replayHtml.trim()} className="w-full py-4 bg-slate-900 text-white rounded-2xl font-black text-xs uppercase tracking-widest disabled:opacity-50">Replay Pasted HTML</button>
+
+                {replayOutput && (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                        <div className="bg-slate-900 rounded-xl p-6 font-mono text-xs max-h-80 overflow-auto custom-scrollbar">
+                            <p className="text-slate-400 uppercase tracking-widest font-bold mb-3">Links ({replayOutput.links.length})</p>
+                            {replayOutput.links.map((link, index) => (
+                                <div key={index} className="flex gap-3 py-1 border-b border-slate-800">
+                                    <span className={`shrink-0 w-28 ${VERDICT_STYLES[link.verdict]}`}>{link.verdict}</span>
+                                    <span className="text-slate-300 truncate" title={link.href}>{link.text.trim() || link.href}</span>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="space-y-2">
+                            <p className="text-xs text-slate-400 uppercase tracking-widest font-bold">Jobs ({replayOutput.jobs.length})</p>
+                            {replayOutput.jobs.length === 0 && <p className="text-xs text-slate-500 italic">No jobs after scoring and role filtering.</p>}
+                            {replayOutput.jobs.map(job => (
+                                <div key={job.id} className="p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs flex justify-between gap-3">
+                                    <a href={job.applicationUrl} target="_blank" rel="noopener noreferrer" className="font-bold text-slate-800 hover:text-indigo-600 truncate">{job.title}</a>
+                                    <span className="shrink-0 text-indigo-600 font-black">{job.matchScore}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
         </div>
     );
 };
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, Loader2, Wand, Target, CloudUpload } from 'lucide-react';
+import { Job, JobDocumentKind } from '../types';
+import { rewriteSelection } from '../services/geminiService';
+import { RewriteStyle } from '../services/prompts';
+import { scoreTextMatch } from '../services/resumeModel';
+
+interface DocumentEditorProps {
+  job: Job;
+  kind: JobDocumentKind;
+  initialText: string;
+  // Called with the text once typing pauses, and when the editor closes with unsaved changes
+  onSave: (text: string) => Promise<void>;
+  onClose: () => void;
+  onError?: (message: string) => void;
+}
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+const REWRITE_ACTIONS: { style: RewriteStyle, label: string }[] = [
+  { style: 'shorter', label: 'Shorter' },
+  { style: 'formal', label: 'More formal' },
+  { style: 'metrics', label: 'Add metrics' }
+];
+
+const countWords = (text: string) => text.trim() ? text.trim().split(/\s+/).length : 0;
+
+/**
+ * Editing surface for a job's tailored resume or cover letter. Saves on its own while typing pauses,
+ * can have the AI rewrite the selected passage, and shows which of the job's keywords the text covers.
+ */
+export const DocumentEditor: React.FC<DocumentEditorProps> = ({ job, kind, initialText, onSave, onClose, onError }) => {
+  const [text, setText] = useState(initialText);
+  const [saveState, setSaveState] = useState<'saved' | 'unsaved' | 'saving'>('saved');
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [rewriting, setRewriting] = useState<RewriteStyle | null>(null);
+
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const textRef = useRef(text);
+  const lastSavedRef = useRef(initialText);
+  const onSaveRef = useRef(onSave);
+  // Saves run one after another, so an older text never lands after a newer one
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  textRef.current = text;
+  onSaveRef.current = onSave;
+
+  const save = (value: string) => {
+    if (value === lastSavedRef.current || !value.trim()) return saveChainRef.current;
+    const previous = lastSavedRef.current;
+    lastSavedRef.current = value;
+    setSaveState('saving');
+    saveChainRef.current = saveChainRef.current
+      .then(() => onSaveRef.current(value))
+      .then(() => setSaveState(textRef.current === lastSavedRef.current ? 'saved' : 'unsaved'))
+      .catch((err: any) => {
+        console.error('[DocumentEditor] Autosave failed:', err);
+        // Forget the failed text unless a newer save has taken its place, so the next autosave or Done retries it
+        if (lastSavedRef.current === value) lastSavedRef.current = previous;
+        setSaveState('unsaved');
+        onError?.(`Autosave failed: ${err.message || err}`);
+      });
+    return saveChainRef.current;
+  };
+
+  useEffect(() => {
+    if (text === lastSavedRef.current) return;
+    setSaveState('unsaved');
+    const timer = setTimeout(() => save(text), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  // Leaving the job mid-pause still keeps the edit
+  useEffect(() => () => { save(textRef.current); }, []);
+
+  const handleDone = async () => {
+    await save(textRef.current);
+    onClose();
+  };
+
+  const updateSelection = () => {
+    const el = textareaRef.current;
+    if (el) setSelection({ start: el.selectionStart, end: el.selectionEnd });
+  };
+
+  const selectedText = text.slice(selection.start, selection.end);
+
+  const handleRewrite = async (style: RewriteStyle) => {
+    const { start, end } = selection;
+    if (!selectedText.trim()) return;
+    setRewriting(style);
+    try {
+      const result = await rewriteSelection(selectedText, style, text, kind === 'resume' ? 'resume' : 'cover letter', job.title, job.company);
+      // Whitespace around the selection stays where it was
+      const lead = selectedText.match(/^\s*/)![0];
+      const trail = selectedText.match(/\s*$/)![0];
+      const replacement = `${lead}${result.text}${trail}`;
+      setText(text.slice(0, start) + replacement + text.slice(end));
+      const newEnd = start + replacement.length;
+      setSelection({ start, end: newEnd });
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(start, newEnd);
+      });
+    } catch (err: any) {
+      console.error('[DocumentEditor] Rewrite failed:', err);
+      onError?.(`Rewrite failed: ${err.message || 'the AI is unavailable'}`);
+    } finally {
+      setRewriting(null);
+    }
+  };
+
+  const coverage = useMemo(() => scoreTextMatch(text, job), [text, job.title, job.description, job.requirements]);
+
+  return (
+    <div className="bg-white rounded-[3rem] border border-slate-200 overflow-hidden shadow-sm">
+      <div className="p-8 bg-slate-50/50 border-b border-slate-100 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h4 className="text-xs font-black uppercase tracking-widest text-slate-800">
+            Editing {kind === 'resume' ? 'Tailored Resume' : 'Cover Letter'}
+          </h4>
+          <p className="text-[10px] font-medium text-slate-400 mt-0.5">Changes are saved as a manual edit in the version history</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {saveState === 'saving' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : saveState === 'saved' ? <Check className="w-3.5 h-3.5 text-green-600" /> : <CloudUpload className="w-3.5 h-3.5" />}
+            {saveState === 'saving' ? 'Saving' : saveState === 'saved' ? 'Saved' : 'Unsaved'}
+          </span>
+          <button
+            onClick={handleDone}
+            className="px-5 py-2.5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+
+      <div className="px-8 py-3 border-b border-slate-100 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="flex items-center gap-1.5 text-[10px] font-black text-slate-400 uppercase tracking-widest me-1">
+            <Wand className="w-3.5 h-3.5" /> Rewrite selection
+          </span>
+          {REWRITE_ACTIONS.map(({ style, label }) => (
+            <button
+              key={style}
+              onClick={() => handleRewrite(style)}
+              disabled={!selectedText.trim() || !!rewriting}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border border-indigo-100 text-indigo-600 hover:bg-indigo-50 disabled:opacity-40 disabled:hover:bg-transparent transition-all"
+            >
+              {rewriting === style && <Loader2 className="w-3 h-3 animate-spin" />}
+              {label}
+            </button>
+          ))}
+        </div>
+        <span className="text-[10px] font-bold text-slate-400">
+          {countWords(text)} words · {text.length} characters
+          {selectedText && ` · ${countWords(selectedText)} selected`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_16rem]">
+        <textarea
+          ref={textareaRef}
+          value={text}
+          readOnly={!!rewriting}
+          onChange={e => setText(e.target.value)}
+          onSelect={updateSelection}
+          className={`w-full h-[650px] p-10 text-[12px] text-slate-700 leading-relaxed resize-none outline-none custom-scrollbar ${rewriting ? 'opacity-60' : ''}`}
+        />
+        <div className="border-t lg:border-t-0 lg:border-s border-slate-100 p-6 space-y-4 lg:h-[650px] overflow-y-auto custom-scrollbar">
+          <div>
+            <p className="flex items-center gap-1.5 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <Target className="w-3.5 h-3.5" /> Keyword Coverage
+            </p>
+            <p className="text-3xl font-black text-slate-900 mt-2">{coverage.score}%</p>
+            <div className="h-1.5 bg-slate-100 rounded-full mt-2 overflow-hidden">
+              <div className="h-full bg-indigo-600 rounded-full transition-all" style={{ width: `${coverage.score}%` }} />
+            </div>
+            <p className="text-[10px] text-slate-400 font-medium mt-2">Terms from the job description and requirements</p>
+          </div>
+          {coverage.missing.length > 0 && (
+            <div>
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Missing</p>
+              <div className="flex flex-wrap gap-1.5">
+                {coverage.missing.map(keyword => (
+                  <span key={keyword} className="px-2 py-1 rounded-md bg-slate-100 text-slate-500 text-[10px] font-bold">{keyword}</span>
+                ))}
+              </div>
+            </div>
+          )}
+          {coverage.matched.length > 0 && (
+            <div>
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Covered</p>
+              <div className="flex flex-wrap gap-1.5">
+                {coverage.matched.map(keyword => (
+                  <span key={keyword} className="px-2 py-1 rounded-md bg-green-50 text-green-700 text-[10px] font-bold">{keyword}</span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
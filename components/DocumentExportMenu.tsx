@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Job, JobDocumentKind, UserProfile } from '../types';
+import { Loader2, Check } from 'lucide-react';
+import { DOCUMENT_TEMPLATES, getDocumentTemplate } from '../services/documentTemplates';
+import { DocumentFormat, exportJobDocument } from '../services/documentExport';
+
+interface DocumentExportMenuProps {
+  job: Job;
+  kind: JobDocumentKind;
+  userProfile: UserProfile;
+  buttonClassName: string;
+  title: string;
+  children: React.ReactNode;
+  onError?: (message: string) => void;
+  // Which side of the button the menu lines up with
+  align?: 'left' | 'right';
+}
+
+/**
+ * Button that opens a small menu to pick a template and download the job's resume or cover letter
+ * as PDF or DOCX. Starts on the template chosen in Settings.
+ */
+export const DocumentExportMenu: React.FC<DocumentExportMenuProps> = ({ job, kind, userProfile, buttonClassName, title, children, onError, align = 'right' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templateId, setTemplateId] = useState(getDocumentTemplate(userProfile.preferences?.documentTemplate).id);
+  const [busyFormat, setBusyFormat] = useState<DocumentFormat | null>(null);
+
+  const handleExport = async (format: DocumentFormat) => {
+    setBusyFormat(format);
+    try {
+      await exportJobDocument(job, kind, userProfile, format, templateId);
+      setIsOpen(false);
+    } catch (err: any) {
+      console.error('[DocumentExportMenu] Export failed:', err);
+      onError?.(err.message || 'Export failed');
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    // Clicks inside never reach the surrounding card
+    <div className="relative" onClick={e => e.stopPropagation()}>
+      <button onClick={() => setIsOpen(!isOpen)} className={buttonClassName} title={title}>
+        {children}
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)} />
+          <div className={`absolute ${align === 'right' ? 'end-0' : 'start-0'} top-full mt-2 z-40 w-64 bg-white rounded-2xl border border-slate-200 shadow-2xl p-3 space-y-1 animate-in fade-in zoom-in-95 duration-150`}>
+            <p className="px-2 pt-1 pb-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">Template</p>
+            {DOCUMENT_TEMPLATES.map(template => (
+              <button
+                key={template.id}
+                onClick={() => setTemplateId(template.id)}
+                className={`w-full text-left px-3 py-2 rounded-xl transition-all flex items-start gap-2 ${templateId === template.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <Check className={`w-3.5 h-3.5 mt-0.5 shrink-0 ${templateId === template.id ? 'text-indigo-600' : 'text-transparent'}`} />
+                <span>
+                  <span className="block text-xs font-bold text-slate-800">{template.name}</span>
+                  <span className="block text-[10px] text-slate-500 leading-snug">{template.description}</span>
+                </span>
+              </button>
+            ))}
+            <div className="grid grid-cols-2 gap-2 pt-2">
+              {(['pdf', 'docx'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={!!busyFormat}
+                  className="flex items-center justify-center gap-1.5 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-50 transition-all"
+                >
+                  {busyFormat === format && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {format}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
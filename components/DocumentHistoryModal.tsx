@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, RotateCcw, Loader2 } from 'lucide-react';
+import { DocumentVersion, JobDocumentKind } from '../types';
+import { diffLines, summarizeDiff } from '../services/textDiff';
+import { DOCUMENT_VERSION_SOURCE_LABELS } from '../services/documentVersions';
+
+interface DocumentHistoryModalProps {
+  isOpen: boolean;
+  kind: JobDocumentKind;
+  // Every version of the job, oldest first; only those of `kind` are listed
+  versions: DocumentVersion[];
+  currentText: string;
+  isLoading: boolean;
+  onRestore: (version: DocumentVersion) => void;
+  onClose: () => void;
+}
+
+const SOURCE_STYLES: Record<DocumentVersion['source'], string> = {
+  ai: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  local: 'bg-amber-50 text-amber-700 border-amber-100',
+  manual: 'bg-slate-100 text-slate-600 border-slate-200'
+};
+
+/**
+ * Lists the versions of a job's resume or cover letter, shows a line diff of the selected one
+ * against the current document or the version before it, and restores it as a new version.
+ */
+export const DocumentHistoryModal: React.FC<DocumentHistoryModalProps> = ({ isOpen, kind, versions, currentText, isLoading, onRestore, onClose }) => {
+  const history = useMemo(() => versions.filter(v => v.kind === kind).reverse(), [versions, kind]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<'current' | 'previous'>('current');
+
+  useEffect(() => {
+    if (isOpen) setSelectedId(history[0]?.id || null);
+  }, [isOpen, kind, history.length]);
+
+  const selectedIndex = history.findIndex(v => v.id === selectedId);
+  const selected = selectedIndex >= 0 ? history[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? history[selectedIndex + 1] : undefined;
+  const baseText = compareWith === 'current' ? currentText : previous?.text || '';
+  const diff = useMemo(() => selected ? diffLines(baseText, selected.text) : [], [baseText, selected]);
+  const { added, removed } = summarizeDiff(diff);
+  // The newest version with the current text is the one in use
+  const currentId = history.find(v => v.text === currentText)?.id;
+
+  if (!isOpen) return null;
+
+  const label = kind === 'resume' ? 'Resume' : 'Cover Letter';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-6xl mx-4 max-h-[90vh] flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-8 border-b border-slate-200">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-50 rounded-2xl">
+              <History className="w-6 h-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-slate-900">{label} History</h2>
+              <p className="text-sm text-slate-500 font-medium mt-1">Every generated and edited version, newest first</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-16 flex justify-center">
+            <Loader2 className="w-6 h-6 text-indigo-600 animate-spin" />
+          </div>
+        ) : history.length === 0 ? (
+          <p className="p-16 text-center text-sm text-slate-400 font-medium">No versions yet. Generating or editing the {label.toLowerCase()} starts its history.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] min-h-0 flex-1">
+            <div className="border-e border-slate-100 overflow-y-auto p-4 space-y-2 max-h-[65vh]">
+              {history.map(version => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left p-4 rounded-2xl border transition-all ${version.id === selectedId ? 'border-indigo-500 ring-1 ring-indigo-500 bg-indigo-50/40' : 'border-slate-100 hover:border-indigo-200'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-bold text-slate-800">{new Date(version.createdAt).toLocaleString()}</span>
+                    {version.id === currentId && <span className="text-[9px] font-black text-green-600 uppercase tracking-widest">Current</span>}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                    <span className={`px-2 py-0.5 rounded-md border text-[9px] font-black uppercase tracking-widest ${SOURCE_STYLES[version.source]}`}>
+                      {DOCUMENT_VERSION_SOURCE_LABELS[version.source]}
+                    </span>
+                    {version.restoredFrom && <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Restored</span>}
+                  </div>
+                  {(version.model || version.promptVersion) && (
+                    <p className="text-[10px] font-mono text-slate-400 mt-1.5 truncate">
+                      {[version.model, version.promptVersion].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <div className="p-6 flex flex-col min-h-0 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex p-1 bg-slate-100 rounded-xl">
+                  {(['current', 'previous'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setCompareWith(mode)}
+                      className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${compareWith === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                      {mode === 'current' ? 'vs Current' : 'vs Previous'}
+                    </button>
+                  ))}
+                </div>
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  {compareWith === 'previous' && !previous ? 'First version' : `+${added} −${removed}`}
+                </span>
+              </div>
+              <div className="flex-1 min-h-[40vh] max-h-[50vh] overflow-y-auto p-5 bg-white border border-slate-200 rounded-2xl font-mono text-xs leading-relaxed">
+                {diff.map((line, i) => (
+                  <div
+                    key={i}
+                    className={`whitespace-pre-wrap px-2 ${line.type === 'added' ? 'bg-green-50 text-green-800' : line.type === 'removed' ? 'bg-red-50 text-red-700 line-through' : 'text-slate-500'}`}
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '− ' : '  '}{line.text || ' '}
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => selected && onRestore(selected)}
+                  disabled={!selected || selected.text === currentText}
+                  className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest flex items-center gap-2 hover:bg-indigo-700 shadow-xl shadow-indigo-100 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" /> Restore This Version
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { EmailAccount } from '../types';
-import { X, ShieldCheck, Loader2, ExternalLink, Copy, Check, Info, Key, Clock } from 'lucide-react';
-import { fetchGmailProfile } from '../services/gmailService';
+import { EmailAccount, ImapConnectRequest } from '../types';
+import { fetchOutlookProfile } from '../services/outlookService';
+import { X, ShieldCheck, Loader2, ExternalLink, Info, Key, Clock, Lock, Server } from 'lucide-react';
 
 interface EmailConnectModalProps {
   isOpen: boolean;
   onClose: () => void;
   onConnect: (account: EmailAccount) => void;
   currentUserEmail?: string;
+  // Gmail uses the OAuth redirect flow instead of a pasted token
+  onAuthorizeGmail?: () => void;
+  // Yahoo, Apple and generic IMAP are verified and stored server-side
+  onConnectImap?: (request: ImapConnectRequest) => Promise<EmailAccount>;
 }
 
-export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, onClose, onConnect, currentUserEmail }) => {
+const IMAP_PRESETS: Record<string, { host: string, port: number }> = {
+  Yahoo: { host: 'imap.mail.yahoo.com', port: 993 },
+  Apple: { host: 'imap.mail.me.com', port: 993 },
+  IMAP: { host: '', port: 993 }
+};
+
+const isImapProvider = (provider: string | null) => provider === 'Yahoo' || provider === 'Apple' || provider === 'IMAP';
+
+export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, onClose, onConnect, currentUserEmail, onAuthorizeGmail, onConnectImap }) => {
   const [isConnecting, setIsConnecting] = useState<string | null>(null);
   const [manualEmailInput, setManualEmailInput] = useState('');
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   
   // Token State
   const [accessToken, setAccessToken] = useState('');
-  const [copySuccess, setCopySuccess] = useState(false);
+  const [imapServer, setImapServer] = useState({ host: '', port: 993, secure: true, username: '' });
 
   // Pre-fill email when modal opens or currentUserEmail changes
   useEffect(() => {
@@ -31,16 +43,33 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
   const handleProviderClick = (provider: string) => {
     setSelectedProvider(provider);
     setAccessToken('');
+    if (IMAP_PRESETS[provider]) {
+        setImapServer({ ...IMAP_PRESETS[provider], secure: true, username: '' });
+    }
     // Keep the pre-filled email if valid
     if (!manualEmailInput && currentUserEmail) {
         setManualEmailInput(currentUserEmail);
     }
   };
 
-  const handleCopyScope = () => {
-      navigator.clipboard.writeText('https://www.googleapis.com/auth/gmail.readonly');
-      setCopySuccess(true);
-      setTimeout(() => setCopySuccess(false), 2000);
+  const handleAuthorizeGmail = () => {
+      if (!onAuthorizeGmail) return;
+      setIsConnecting('Gmail');
+      // The browser leaves the app here and comes back through /api/gmail-callback
+      onAuthorizeGmail();
+  };
+
+  // Sample mail served by the in-memory provider; nothing is stored
+  const handleConnectDemo = () => {
+      onConnect({
+          id: `demo-${Date.now()}`,
+          provider: 'Demo',
+          emailAddress: 'demo@jobflow.app',
+          isConnected: true,
+          lastSynced: new Date().toISOString(),
+          authType: 'session'
+      });
+      onClose();
   };
 
   const handleFinalizeConnection = async () => {
@@ -63,54 +92,64 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
     // Remove quotes
     cleanToken = cleanToken.replace(/^["'“”]+|["'“”]+$/g, '');
     
-    // Gmail requires token in this frontend-only version
-    if (selectedProvider === 'Gmail') {
-        if (!cleanToken) {
-            alert("Please paste a valid Access Token from Google.");
-            return;
-        }
-        if (!cleanToken.startsWith('ya29')) {
-             if(!window.confirm("The token doesn't look like a standard Google Access Token (usually starts with 'ya29'). Continue anyway?")) {
-                 return;
-             }
-        }
-    }
-    
     // Outlook also uses tokens in this simulation (via Graph Explorer)
     if (selectedProvider === 'Outlook' && !cleanToken) {
         alert("Please paste a valid Access Token from Microsoft Graph Explorer.");
         return;
     }
 
-    // Yahoo/Apple uses App Password
-    if ((selectedProvider === 'Yahoo' || selectedProvider === 'Apple') && !cleanToken) {
-        alert("Please paste your App Password.");
+    // Yahoo/Apple/IMAP use an App Password, which is verified and stored encrypted by the bridge
+    if (isImapProvider(selectedProvider)) {
+        if (!accessToken.trim() || !manualEmailInput || !imapServer.host) {
+            alert("Please enter your email, IMAP server and App Password.");
+            return;
+        }
+        if (!onConnectImap) return;
+        setIsConnecting(selectedProvider);
+        try {
+            const account = await onConnectImap({
+                provider: selectedProvider as ImapConnectRequest['provider'],
+                emailAddress: manualEmailInput.trim(),
+                host: imapServer.host.trim(),
+                port: Number(imapServer.port) || 993,
+                secure: imapServer.secure,
+                username: imapServer.username.trim() || undefined,
+                // App passwords are often shown in groups of four; IMAP expects them without spaces
+                password: selectedProvider === 'IMAP' ? accessToken : accessToken.replace(/\s+/g, '')
+            });
+            onConnect(account);
+            setSelectedProvider(null);
+            setAccessToken('');
+            onClose();
+        } catch (e: any) {
+            alert(e.message || "Could not connect mailbox.");
+        } finally {
+            setIsConnecting(null);
+        }
         return;
     }
 
-    if (selectedProvider !== 'Gmail' && !manualEmailInput) {
+    if (selectedProvider !== 'Outlook' && !manualEmailInput) {
         alert("Please enter your email address");
         return;
     }
 
     setIsConnecting(selectedProvider);
 
-    let emailToUse = manualEmailInput || 'user@gmail.com';
-    
-    // FETCH REAL PROFILE IF GMAIL
-    if (selectedProvider === 'Gmail') {
+    let emailToUse = manualEmailInput;
+
+    // Verify the Graph token and read the mailbox address from it
+    if (selectedProvider === 'Outlook') {
         try {
-            const profile = await fetchGmailProfile(cleanToken);
-            if (profile.emailAddress) {
-                emailToUse = profile.emailAddress;
-            }
+            const profile = await fetchOutlookProfile(cleanToken);
+            if (profile.emailAddress) emailToUse = profile.emailAddress;
         } catch (e) {
-            console.warn("Could not fetch Gmail profile", e);
-             if (!manualEmailInput) {
-                 alert("Could not verify token. Please ensure it is valid.");
-                 setIsConnecting(null);
-                 return;
-             }
+            console.warn("Could not fetch Outlook profile", e);
+            if (!manualEmailInput) {
+                alert("Could not verify token. Please ensure it is valid.");
+                setIsConnecting(null);
+                return;
+            }
         }
     }
     
@@ -120,7 +159,8 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
       emailAddress: emailToUse,
       isConnected: true,
       lastSynced: new Date().toISOString(),
-      accessToken: cleanToken
+      accessToken: cleanToken,
+      authType: 'session'
     };
     
     onConnect(newAccount);
@@ -138,10 +178,12 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
       <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in-95 duration-200 max-h-[90vh] flex flex-col">
         <div className="p-5 border-b border-slate-100 flex justify-between items-center shrink-0">
           <div>
-              <h2 className="text-lg font-bold text-slate-900">Start Scanning Session</h2>
-              <div className="flex items-center text-xs text-amber-600 mt-1 bg-amber-50 px-2 py-0.5 rounded border border-amber-100 w-fit">
-                  <Clock className="w-3 h-3 mr-1" /> Session Only (Token not saved)
-              </div>
+              <h2 className="text-lg font-bold text-slate-900">{selectedProvider === 'Gmail' || isImapProvider(selectedProvider) ? `Connect ${selectedProvider === 'IMAP' ? 'Mailbox' : selectedProvider}` : 'Start Scanning Session'}</h2>
+              {selectedProvider && !isImapProvider(selectedProvider) && selectedProvider !== 'Gmail' && (
+                  <div className="flex items-center text-xs text-amber-600 mt-1 bg-amber-50 px-2 py-0.5 rounded border border-amber-100 w-fit">
+                      <Clock className="w-3 h-3 mr-1" /> Session Only (Token not saved)
+                  </div>
+              )}
           </div>
           <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1 rounded-full hover:bg-slate-100">
             <X className="w-5 h-5" />
@@ -152,7 +194,7 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
           {!selectedProvider ? (
             <>
               <p className="text-sm text-slate-600 mb-5">
-                Select your email provider to start a scanning session. The token will be cleared when you refresh the page.
+                Select your email provider. Gmail, Yahoo, Apple and IMAP mailboxes stay connected securely; Outlook uses a session token that is cleared when you refresh the page.
               </p>
               
               <div className="space-y-3">
@@ -165,7 +207,7 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
                   </div>
                   <div className="text-left">
                     <div className="font-semibold text-slate-900">Gmail</div>
-                    <div className="text-xs text-slate-500">Direct API Connection</div>
+                    <div className="text-xs text-slate-500">Sign in with Google</div>
                   </div>
                 </button>
 
@@ -209,7 +251,27 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
                       </div>
                     </button>
                 </div>
+
+                <button 
+                  onClick={() => handleProviderClick('IMAP')}
+                  className="w-full flex items-center p-3 border border-slate-200 rounded-xl hover:border-slate-300 hover:bg-slate-50 transition-all group"
+                >
+                  <div className="w-8 h-8 bg-white rounded-full flex items-center justify-center shadow-sm border border-slate-100 mr-3 group-hover:scale-110 transition-transform">
+                     <Server className="w-4 h-4 text-slate-600" />
+                  </div>
+                  <div className="text-left">
+                    <div className="font-semibold text-slate-900 text-sm">Other (IMAP)</div>
+                    <div className="text-[10px] text-slate-500">Any mail server with IMAP access</div>
+                  </div>
+                </button>
               </div>
+
+              <button
+                onClick={handleConnectDemo}
+                className="w-full mt-4 text-xs text-slate-500 hover:text-indigo-600 underline"
+              >
+                No mailbox handy? Try the scanner on a demo inbox
+              </button>
             </>
           ) : (
             <div className="animate-in fade-in slide-in-from-right-4">
@@ -220,55 +282,35 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
                    <h3 className="font-bold text-slate-900">Authenticate with {selectedProvider}</h3>
                 </div>
 
-                {/* GMAIL INSTRUCTIONS */}
+                {/* GMAIL: OAUTH REDIRECT */}
                 {selectedProvider === 'Gmail' && (
                     <div className="space-y-6">
                          <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 text-xs text-blue-800">
                             <div className="font-semibold flex items-center mb-1 text-blue-900">
                                 <Info className="w-4 h-4 mr-1"/>
-                                Secure Connection Guide
+                                Sign in with Google
                             </div>
                             <p className="leading-relaxed">
-                                Since this is a secure client-side app, we cannot redirect you to Google. 
-                                Please generate a temporary <strong>Access Token</strong> using Google's official developer tool.
+                                You'll be sent to Google to grant <strong>read-only</strong> access to your inbox. 
+                                JobFlow stores an encrypted refresh token so scans keep working without reconnecting.
+                                You can disconnect at any time, which also revokes access.
                             </p>
                         </div>
 
-                        <div className="space-y-4 border-l-2 border-slate-200 pl-4 ml-2">
-                             <div className="relative">
-                                <div className="absolute -left-[21px] top-0 w-4 h-4 bg-indigo-600 rounded-full border-2 border-white ring-1 ring-slate-200"></div>
-                                <p className="text-sm font-bold text-slate-900 mb-1">Step 1: Open Google Playground</p>
-                                <a 
-                                    href="https://developers.google.com/oauthplayground" 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    className="inline-flex items-center text-xs bg-white border border-slate-300 px-3 py-1.5 rounded-md hover:bg-slate-50 font-medium text-indigo-600 transition-colors shadow-sm"
-                                >
-                                    Launch Tool <ExternalLink className="w-3 h-3 ml-1"/>
-                                </a>
-                             </div>
-
-                             <div className="relative pt-2">
-                                <div className="absolute -left-[21px] top-2 w-4 h-4 bg-white rounded-full border-2 border-slate-300"></div>
-                                <p className="text-sm font-bold text-slate-900 mb-1">Step 2: Input Scope</p>
-                                <div className="flex space-x-2">
-                                    <code className="flex-1 bg-slate-100 p-2 rounded text-[10px] border border-slate-200 truncate font-mono text-slate-600">
-                                        https://www.googleapis.com/auth/gmail.readonly
-                                    </code>
-                                    <button 
-                                        onClick={handleCopyScope}
-                                        className="px-3 py-1 text-slate-600 hover:text-indigo-600 bg-slate-100 border border-slate-200 rounded-md transition-colors flex items-center" 
-                                        title="Copy to clipboard"
-                                    >
-                                         {copySuccess ? <Check className="w-3 h-3"/> : <Copy className="w-3 h-3"/>}
-                                    </button>
-                                </div>
-                             </div>
-
-                             <div className="relative pt-2">
-                                <div className="absolute -left-[21px] top-2 w-4 h-4 bg-white rounded-full border-2 border-slate-300"></div>
-                                <p className="text-sm font-bold text-slate-900 mb-1">Step 3: Authorize & Copy Token</p>
-                             </div>
+                        <div className="flex space-x-3 pt-4 border-t border-slate-100">
+                            <button 
+                                onClick={() => setSelectedProvider(null)}
+                                className="flex-1 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-lg font-medium text-sm hover:bg-slate-50 transition-colors"
+                            >
+                                Back
+                            </button>
+                            <button 
+                                onClick={handleAuthorizeGmail}
+                                disabled={!onAuthorizeGmail || !!isConnecting}
+                                className="flex-1 py-2.5 bg-indigo-600 text-white rounded-lg font-medium text-sm hover:bg-indigo-700 disabled:opacity-50 flex justify-center items-center shadow-sm transition-all"
+                            >
+                                {isConnecting ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Lock className="w-4 h-4 mr-2" /> Continue with Google</>}
+                            </button>
                         </div>
                     </div>
                 )}
@@ -282,7 +324,7 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
                                 Microsoft Graph API
                             </div>
                             <p className="leading-relaxed">
-                                Use the Microsoft Graph Explorer to get a temporary token for reading mail.
+                                Use the Microsoft Graph Explorer to get a temporary token with the <strong>Mail.Read</strong> permission.
                             </p>
                         </div>
 
@@ -307,7 +349,7 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
                         </div>
                         
                         <div className="pt-2">
-                            <label className="block text-xs font-bold text-slate-700 mb-1">Your Outlook Email</label>
+                            <label className="block text-xs font-bold text-slate-700 mb-1">Your Outlook Email <span className="font-normal text-slate-400">(optional, read from the token)</span></label>
                             <input 
                                 type="email"
                                 placeholder="name@outlook.com"
@@ -319,8 +361,8 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
                     </div>
                 )}
 
-                {/* YAHOO / APPLE INSTRUCTIONS */}
-                {(selectedProvider === 'Yahoo' || selectedProvider === 'Apple') && (
+                {/* YAHOO / APPLE / IMAP INSTRUCTIONS */}
+                {isImapProvider(selectedProvider) && selectedProvider && (
                     <div className="space-y-6">
                          <div className="bg-purple-50 p-4 rounded-lg border border-purple-100 text-xs text-purple-800">
                             <div className="font-semibold flex items-center mb-1 text-purple-900">
@@ -328,43 +370,106 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
                                 App Password Required
                             </div>
                             <p className="leading-relaxed">
-                                {selectedProvider} requires a generated "App Password" for third-party apps.
+                                {selectedProvider === 'IMAP' 
+                                    ? 'Enter your mail server details. Your password is verified once and stored encrypted.' 
+                                    : `${selectedProvider} requires a generated "App Password" for third-party apps. It is stored encrypted so scans keep working.`}
                             </p>
                         </div>
 
+                        {selectedProvider !== 'IMAP' && (
                         <ol className="list-decimal list-inside text-xs text-slate-600 space-y-2 bg-slate-50 p-4 rounded-lg border border-slate-200">
                             <li>Go to <strong>{selectedProvider} Account Security</strong>.</li>
                             <li>Click <strong>Generate App Password</strong>.</li>
                             <li>Name it "JobFlow" and copy the code.</li>
                         </ol>
+                        )}
                         
                         <div className="pt-2">
-                            <label className="block text-xs font-bold text-slate-700 mb-1">Your {selectedProvider} Email</label>
+                            <label className="block text-xs font-bold text-slate-700 mb-1">Your {selectedProvider === 'IMAP' ? '' : `${selectedProvider} `}Email</label>
                             <input 
                                 type="email"
-                                placeholder={`name@${selectedProvider.toLowerCase()}.com`}
+                                placeholder={selectedProvider === 'IMAP' ? 'name@example.com' : `name@${selectedProvider.toLowerCase()}.com`}
                                 className="w-full p-2 bg-white border border-slate-300 rounded text-sm outline-none focus:border-indigo-500"
                                 value={manualEmailInput}
                                 onChange={(e) => setManualEmailInput(e.target.value)}
                             />
                         </div>
+
+                        <div className="grid grid-cols-3 gap-2">
+                            <div className="col-span-2">
+                                <label className="block text-xs font-bold text-slate-700 mb-1">IMAP Server</label>
+                                <input 
+                                    type="text"
+                                    placeholder="imap.example.com"
+                                    className="w-full p-2 bg-white border border-slate-300 rounded text-sm outline-none focus:border-indigo-500"
+                                    value={imapServer.host}
+                                    onChange={(e) => setImapServer({ ...imapServer, host: e.target.value })}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-700 mb-1">Port</label>
+                                <input 
+                                    type="number"
+                                    className="w-full p-2 bg-white border border-slate-300 rounded text-sm outline-none focus:border-indigo-500"
+                                    value={imapServer.port}
+                                    onChange={(e) => setImapServer({ ...imapServer, port: Number(e.target.value) })}
+                                />
+                            </div>
+                        </div>
+                        {selectedProvider === 'IMAP' && (
+                            <div className="grid grid-cols-2 gap-2 items-end">
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-700 mb-1">Username <span className="font-normal text-slate-400">(if not your email)</span></label>
+                                    <input 
+                                        type="text"
+                                        className="w-full p-2 bg-white border border-slate-300 rounded text-sm outline-none focus:border-indigo-500"
+                                        value={imapServer.username}
+                                        onChange={(e) => setImapServer({ ...imapServer, username: e.target.value })}
+                                    />
+                                </div>
+                                <label className="flex items-center text-xs text-slate-600 pb-2">
+                                    <input 
+                                        type="checkbox"
+                                        className="mr-2"
+                                        checked={imapServer.secure}
+                                        onChange={(e) => setImapServer({ ...imapServer, secure: e.target.checked })}
+                                    />
+                                    Use SSL/TLS (port 993)
+                                </label>
+                            </div>
+                        )}
                     </div>
                 )}
 
+                {selectedProvider !== 'Gmail' && (
+                <>
                 <div className="pt-4">
                         <label className="block text-sm text-slate-800 font-bold mb-2 flex items-center">
                         <Key className="w-4 h-4 mr-2 text-indigo-600"/>
-                        {(selectedProvider === 'Yahoo' || selectedProvider === 'Apple') ? 'Paste App Password' : 'Paste Access Token'}
+                        {isImapProvider(selectedProvider) ? (selectedProvider === 'IMAP' ? 'Password' : 'Paste App Password') : 'Paste Access Token'}
                         </label>
+                        {isImapProvider(selectedProvider) ? (
+                        <input 
+                            type="password"
+                            autoComplete="off"
+                            placeholder={selectedProvider === 'IMAP' ? '' : "abcd efgh ijkl mnop"}
+                            className="w-full p-3 bg-white border border-slate-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none shadow-sm transition-shadow"
+                            value={accessToken}
+                            onChange={(e) => setAccessToken(e.target.value)}
+                        />
+                        ) : (
                         <textarea 
-                            placeholder={(selectedProvider === 'Yahoo' || selectedProvider === 'Apple') ? "abcd efgh ijkl mnop" : "Paste token starting with ya29... (Gmail) or eyJ... (Outlook)"}
+                            placeholder="Paste token starting with eyJ..." 
                             className="w-full p-3 bg-white border border-slate-300 rounded-lg text-xs font-mono h-24 resize-none focus:ring-2 focus:ring-indigo-500 outline-none shadow-sm transition-shadow"
                             value={accessToken}
                             onChange={(e) => setAccessToken(e.target.value)}
                         />
+                        )}
+                        {!isImapProvider(selectedProvider) && (
                         <p className="text-[10px] text-slate-400 mt-1">
                             We sanitize input automatically (removing 'Bearer', quotes, etc).
                         </p>
+                        )}
                 </div>
 
                 <div className="flex space-x-3 mt-6 pt-4 border-t border-slate-100">
@@ -376,12 +481,14 @@ export const EmailConnectModal: React.FC<EmailConnectModalProps> = ({ isOpen, on
                     </button>
                     <button 
                         onClick={handleFinalizeConnection}
-                        disabled={!accessToken || (selectedProvider !== 'Gmail' && !manualEmailInput) || !!isConnecting}
+                        disabled={!accessToken || (selectedProvider !== 'Outlook' && !manualEmailInput) || !!isConnecting}
                         className="flex-1 py-2.5 bg-indigo-600 text-white rounded-lg font-medium text-sm hover:bg-indigo-700 disabled:opacity-50 flex justify-center items-center shadow-sm transition-all"
                     >
-                        {isConnecting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Start Session'}
+                        {isConnecting ? <Loader2 className="w-4 h-4 animate-spin" /> : isImapProvider(selectedProvider) ? 'Connect Mailbox' : 'Start Session'}
                     </button>
                 </div>
+                </>
+                )}
             </div>
           )}
         </div>
@@ -1,12 +1,16 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Job, JobStatus, EmailAccount, UserPreferences, isSubscriptionValid, UserProfile } from '../types';
+import { Job, JobStatus, EmailAccount, UserPreferences, isSubscriptionValid, UserProfile, ImapConnectRequest, BridgedMessage, ScanRun } from '../types';
 import { Mail, Search, Trash2, AlertCircle, Settings, RefreshCw, Calendar, Link, X, Loader2, StopCircle } from 'lucide-react';
 import { extractJobsFromEmailHtml } from '../services/geminiService';
 import { localExtractJobs } from '../services/localAiService'; // Direct Import
-import { listMessages, getMessageBody, decodeEmailBody } from '../services/gmailService';
+import { buildDetectedJobs } from '../services/jobMatchService';
+import { MailMessage, MailProvider, MailProviderContext, MailSearchOptions, describeMailQuery, getMailboxKey } from '../services/mailProvider';
+import { createMailProvider } from '../services/mailProviderRegistry';
+import { MessageExtraction, summarizeScanMessages } from '../services/scanRunService';
 import { NotificationType } from './NotificationToast';
 import { EmailConnectModal } from './EmailConnectModal';
+import { ScanHistory } from './ScanHistory';
 
 interface InboxScannerProps {
   onImport: (jobs: Job[]) => void;
@@ -17,19 +21,31 @@ interface InboxScannerProps {
   sessionAccount: EmailAccount | null;
   onConnectSession?: (account: EmailAccount) => void;
   onDisconnectSession?: () => void;
+  onAuthorizeGmail?: () => void;
+  // Exchanges an OAuth-connected account for a current access token
+  onResolveAccessToken?: (account: EmailAccount) => Promise<string>;
+  onConnectImap?: (request: ImapConnectRequest) => Promise<EmailAccount>;
+  // Reads job-related messages of an IMAP account through the server-side bridge
+  onFetchBridgedMessages?: (account: EmailAccount, days: number) => Promise<BridgedMessage[]>;
+  // Persists where a completed scan stopped, so the next one only reads newer mail
+  onSyncCursor?: (account: EmailAccount, cursor: string) => void;
+  // Processed-message ledger, keyed by getMailboxKey()
+  onLoadProcessedMessages?: (mailbox: string) => Promise<string[]>;
+  onRecordProcessedMessages?: (mailbox: string, messageIds: string[]) => Promise<void>;
+  // Scan history: manual runs and background scans of stored mailboxes (OAuth and IMAP accounts)
+  onLoadScanStatus?: () => Promise<{ runs: ScanRun[], nextScanAt: string | null }>;
+  onLoadScanRun?: (id: string) => Promise<ScanRun | null>;
+  onRecordScanRun?: (run: Omit<ScanRun, 'id'>) => Promise<ScanRun | null>;
+  onReplayMessage?: (run: ScanRun, messageId: string) => void;
 }
 
-// Helper to safely encode Unicode strings to Base64
-const safeBase64 = (str: string) => {
-    try {
-        return btoa(str);
-    } catch (e) {
-        // Fallback for Unicode characters
-        return btoa(encodeURIComponent(str).replace(/%([0-9A-F]{2})/g, (match, p1) => 
-            String.fromCharCode(parseInt(p1, 16))
-        ));
-    }
-};
+interface BatchResult {
+  // Messages whose jobs were imported
+  analyzedIds: string[];
+  extractions: MessageExtraction[];
+  jobs: Job[];
+  error?: string;
+}
 
 export const InboxScanner: React.FC<InboxScannerProps> = ({ 
     onImport, 
@@ -38,7 +54,18 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
     onOpenSettings,
     sessionAccount,
     onConnectSession = (_: EmailAccount) => {},
-    onDisconnectSession = () => {}
+    onDisconnectSession = () => {},
+    onAuthorizeGmail,
+    onResolveAccessToken,
+    onConnectImap,
+    onFetchBridgedMessages,
+    onSyncCursor,
+    onLoadProcessedMessages,
+    onRecordProcessedMessages,
+    onLoadScanStatus,
+    onLoadScanRun,
+    onRecordScanRun,
+    onReplayMessage
 }) => {
   const [emails, setEmails] = useState<any[]>([]); 
   const [isScanning, setIsScanning] = useState(false);
@@ -49,9 +76,18 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
   const [isBatchProcessing, setIsBatchProcessing] = useState(false);
   const [progress, setProgress] = useState('');
   const [dateRange, setDateRange] = useState('3'); // Default 3 days
+  const [scanStatus, setScanStatus] = useState<{ runs: ScanRun[], nextScanAt: string | null } | null>(null);
 
   const isMounted = useRef(true);
   const abortController = useRef<AbortController | null>(null);
+  const isInitialRange = useRef(true);
+
+  const providerContext: MailProviderContext = {
+      resolveAccessToken: onResolveAccessToken,
+      fetchBridgedMessages: onFetchBridgedMessages
+  };
+  const canScan = (account: EmailAccount | null): account is EmailAccount =>
+      !!account && !!createMailProvider(account, providerContext);
 
   // Safety Timeout to prevent infinite spinning
   useEffect(() => {
@@ -67,49 +103,6 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
     return () => clearTimeout(safetyTimer);
   }, [isScanning, isBatchProcessing]);
 
-  const calculateMatch = (job: Partial<Job>): { score: number, isMatch: boolean } => {
-      if (!userPreferences) return { score: 100, isMatch: true };
-
-      const { targetRoles, targetLocations, remoteOnly } = userPreferences;
-      const title = (job.title || '').toLowerCase();
-      const location = (job.location || '').toLowerCase();
-      
-      let roleMatch = targetRoles.length === 0;
-      let locMatch = targetLocations.length === 0;
-      let score = 0;
-
-      // Check Roles using Regex for Whole Word Matching
-      if (targetRoles.length > 0) {
-          roleMatch = targetRoles.some(r => {
-              const escaped = r.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-              const regex = new RegExp(`(?:^|[\\s\\W])${escaped}(?:$|[\\s\\W])`, 'i');
-              return regex.test(title);
-          });
-          if (roleMatch) score += 50;
-      } else {
-          score += 50;
-      }
-
-      // Check Location
-      if (targetLocations.length > 0) {
-          locMatch = targetLocations.some(l => location.includes(l.toLowerCase()));
-          if (locMatch) score += 50;
-      } else {
-          score += 50;
-      }
-      
-      // Check Remote
-      if (remoteOnly) {
-          if (location.includes('remote') || title.includes('remote')) {
-              score += 10;
-          } else {
-              locMatch = false; 
-          }
-      }
-
-      return { score, isMatch: roleMatch && locMatch };
-  };
-
   const handleStopScan = () => {
       if (abortController.current) {
           abortController.current.abort();
@@ -119,56 +112,38 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
       setProgress('Stopped by user');
   };
 
-  const handleBatchAnalyze = async (emailList = emails) => {
-      if (emailList.length === 0) return;
+  // Null when the run was stopped early; imported nothing (no analyzedIds) when it failed
+  const handleBatchAnalyze = async (emailList: MailMessage[], provider: MailProvider): Promise<BatchResult | null> => {
+      if (emailList.length === 0) return { analyzedIds: [], extractions: [], jobs: [] };
       setIsBatchProcessing(true);
       abortController.current = new AbortController();
       
-      const uniqueJobsMap = new Map<string, Partial<Job>>();
+      const extractions: MessageExtraction[] = [];
       const batchSize = 5; 
       
       let processedCount = 0;
+      const analyzedIds: string[] = [];
 
       try {
           for (let i = 0; i < emailList.length; i += batchSize) {
-              if (abortController.current?.signal.aborted || !isMounted.current) return;
+              if (abortController.current?.signal.aborted || !isMounted.current) return null;
 
               const chunk = emailList.slice(i, i + batchSize);
               
               await Promise.all(chunk.map(async (email) => {
-                  if (!email.isRealGmail || !email.accessToken) return;
                   try {
-                      const bodyData = await getMessageBody(email.accessToken, email.id);
-                      const htmlContent = decodeEmailBody(bodyData);
+                      const htmlContent = await provider.fetchBody(email.id);
                       
                       // USE DIRECT LOCAL EXTRACTION FOR SPEED AND RELIABILITY
                       // Pass target roles to filter immediately
-                      const extracted = localExtractJobs(htmlContent, userPreferences?.targetRoles || []);
-                      
-                      extracted.forEach(job => {
-                          const { score, isMatch } = calculateMatch(job);
-                          
-                          // Filter out low scores if preferences are set
-                          if (userPreferences?.targetRoles?.length && !isMatch) return;
-
-                          const stableId = job.applicationUrl 
-                            ? safeBase64(job.applicationUrl) 
-                            : `job-${Date.now()}-${Math.random()}`;
-                             
-                          if (job.applicationUrl && !uniqueJobsMap.has(job.applicationUrl)) {
-                                 uniqueJobsMap.set(job.applicationUrl, { 
-                                     ...job, 
-                                     id: stableId, 
-                                     source: 'Gmail', 
-                                     matchScore: score 
-                                 });
-                          }
-                      });
+                      extractions.push({ message: email, candidates: localExtractJobs(htmlContent, userPreferences?.targetRoles || []) });
+                      analyzedIds.push(email.id);
                   } catch (e: any) {
                       if (e.message === 'TOKEN_EXPIRED') {
                            setTokenExpired(true);
                       }
                       console.warn(`Error processing email ${email.id}`, e);
+                      extractions.push({ message: email, candidates: [], error: e.message || 'Could not read message' });
                   }
               }));
 
@@ -179,42 +154,29 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
               await new Promise(r => setTimeout(r, 100));
           }
           
-          if (abortController.current?.signal.aborted || !isMounted.current) return;
+          if (abortController.current?.signal.aborted || !isMounted.current) return null;
 
-          const allJobs = Array.from(uniqueJobsMap.values()).sort((a, b) => (b.matchScore || 0) - (a.matchScore || 0));
+          const newJobs = buildDetectedJobs(extractions.flatMap(e => e.candidates), userPreferences, provider.jobSource);
           
-          if (allJobs.length === 0) {
-              if (emailList[0]?.isRealGmail) {
-                 showNotification("No matching jobs found. Try adjusting settings.", 'error');
-              }
+          if (newJobs.length === 0) {
+              showNotification("No matching jobs found. Try adjusting settings.", 'error');
           } else {
-              const newJobs: Job[] = allJobs.map((job, index) => ({
-                  id: job.id || `imported-${Date.now()}-${index}`, 
-                  title: job.title || 'Unknown Role',
-                  company: job.company || 'Unknown Company',
-                  location: job.location || 'Remote',
-                  salaryRange: job.salaryRange,
-                  description: job.description || '',
-                  source: 'Gmail',
-                  detectedAt: new Date().toISOString(),
-                  status: JobStatus.DETECTED,
-                  matchScore: job.matchScore || 50,
-                  requirements: [],
-                  applicationUrl: job.applicationUrl
-              }));
-
               try {
                   onImport(newJobs);
               } catch (e) {
                   console.error("Import failed", e);
                   showNotification("Failed to import jobs to list.", 'error');
+                  return { analyzedIds: [], extractions, jobs: newJobs, error: 'Failed to import jobs to list.' };
               }
           }
+          return { analyzedIds, extractions, jobs: newJobs };
 
       } catch (e: any) {
-          if (isMounted.current && !abortController.current?.signal.aborted) {
+          if (abortController.current?.signal.aborted) return null;
+          if (isMounted.current) {
              showNotification("Batch processing interrupted.", 'error');
           }
+          return { analyzedIds: [], extractions, jobs: [], error: `Batch processing interrupted: ${e.message || e}` };
       } finally {
           if (isMounted.current) {
               setIsBatchProcessing(false);
@@ -223,10 +185,49 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
       }
   };
 
-  const handleScanRealInbox = async () => {
+  const recordManualRun = async (
+      account: EmailAccount,
+      startedAt: Date,
+      query: string,
+      messages: MailMessage[],
+      result: BatchResult,
+      error: string | undefined = result.error
+  ) => {
+      if (!onRecordScanRun) return;
+      const summary = summarizeScanMessages(messages, result.extractions, result.jobs);
+      const finishedAt = new Date();
+      const run = await onRecordScanRun({
+          accountId: account.id,
+          mailbox: getMailboxKey(account),
+          trigger: 'manual',
+          status: error ? 'error' : 'success',
+          query,
+          messagesFound: messages.length,
+          messagesProcessed: result.analyzedIds.length,
+          jobsFound: result.jobs.length,
+          jobsCreated: error ? 0 : result.jobs.length,
+          duplicatesSkipped: summary.duplicatesSkipped,
+          error,
+          startedAt: startedAt.toISOString(),
+          finishedAt: finishedAt.toISOString(),
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+          messages: summary.messages
+      });
+      if (run && isMounted.current) {
+          setScanStatus(prev => ({ runs: [run, ...(prev?.runs || [])], nextScanAt: prev?.nextScanAt || null }));
+      }
+  };
+
+  // fullRange ignores the sync cursor and re-lists the whole date range; the ledger still skips known messages
+  const handleScanRealInbox = async (fullRange: boolean = false) => {
       setTokenExpired(false);
       
-      if (!sessionAccount || !sessionAccount.accessToken) {
+      const provider = sessionAccount ? createMailProvider(sessionAccount, providerContext) : null;
+      if (!sessionAccount || !provider) {
+          if (sessionAccount) {
+              // No reader for this account type; it has to be connected through the IMAP bridge
+              showNotification(`Reconnect ${sessionAccount.provider} with an App Password to scan it.`, 'error');
+          }
           setIsConnectModalOpen(true);
           return;
       }
@@ -238,74 +239,58 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
 
       setEmails([]);
 
+      const startedAt = new Date();
+      const mailbox = getMailboxKey(sessionAccount);
+      const cursor = fullRange ? null : sessionAccount.syncCursor || null;
+      const searchOptions: MailSearchOptions = { days: Number(dateRange), limit: 30 };
+      const query = describeMailQuery(cursor, searchOptions);
+
       try {
-          if (sessionAccount.provider === 'Gmail') {
-              // Fetch logic
-              const query = `subject:(job OR jobs OR vacancy OR career OR hiring OR opportunity) newer_than:${dateRange}d`;
-              const messages = await listMessages(sessionAccount.accessToken, 30, query);
-              
-              if (isMounted.current) {
-                  const realEmails = messages.map((msg: any) => ({
-                      id: msg.id,
-                      from: 'Gmail API',
-                      subject: `Email ID: ${msg.id}`, 
-                      date: 'Recent',
-                      read: false,
-                      bodySnippet: 'Ready to analyze',
-                      isRealGmail: true,
-                      accessToken: sessionAccount.accessToken
-                  }));
-                  setEmails(realEmails);
-                  
-                  if (realEmails.length === 0) {
-                      showNotification(`No job emails found in the last ${dateRange} days.`, 'error');
-                  } else {
-                      await handleBatchAnalyze(realEmails); 
-                  }
+          await provider.authenticate();
+          const [{ messages, cursor: nextCursor }, processedIds] = await Promise.all([
+              provider.sync(cursor, searchOptions),
+              onLoadProcessedMessages ? onLoadProcessedMessages(mailbox) : Promise.resolve([] as string[])
+          ]);
+          const processed = new Set(processedIds);
+
+          if (isMounted.current) {
+              const realEmails = messages.map(msg => ({
+                  id: msg.id,
+                  from: msg.from,
+                  subject: msg.subject,
+                  date: msg.date ? new Date(msg.date).toLocaleDateString() : 'Recent',
+                  read: false,
+                  bodySnippet: msg.snippet,
+                  alreadyScanned: processed.has(msg.id)
+              }));
+              setEmails(realEmails);
+              const pending = messages.filter(msg => !processed.has(msg.id));
+
+              if (realEmails.length === 0) {
+                  showNotification(cursor ? "No new job emails since the last scan." : `No job emails found in the last ${dateRange} days.`, 'error');
+              } else if (pending.length === 0) {
+                  showNotification(`All ${realEmails.length} job emails were already scanned.`, 'success');
               }
-          } else {
-              // Simulation Logic for Outlook/Yahoo
-              await new Promise(r => setTimeout(r, 2000)); 
-
-              const mockEmails = [
-                  { 
-                      id: 'msg-1', 
-                      from: 'LinkedIn Job Alerts', 
-                      subject: '30 new jobs for "React Developer"', 
-                      date: 'Today', 
-                      read: false, 
-                      bodySnippet: '... click to view jobs ...',
-                      isRealGmail: false,
-                      accessToken: 'simulated'
-                  }
-              ];
-              
-              if (isMounted.current) {
-                  setEmails(mockEmails);
-                  
-                  const mockJob: Job = {
-                      id: `imported-${sessionAccount.provider}-${Date.now()}`,
-                      title: `Software Engineer (${sessionAccount.provider})`,
-                      company: `Tech Co via ${sessionAccount.provider}`,
-                      location: 'Remote',
-                      description: `This job was detected from your ${sessionAccount.provider} connection.`,
-                      source: sessionAccount.provider as any,
-                      detectedAt: new Date().toISOString(),
-                      status: JobStatus.DETECTED,
-                      matchScore: 85,
-                      requirements: ['Experience with API', 'React'],
-                      applicationUrl: 'https://www.linkedin.com/jobs/',
-                      salaryRange: '$120k - $160k'
-                  };
-                  
-                  setTimeout(() => onImport([mockJob]), 1500);
+
+              const result = await handleBatchAnalyze(pending, provider);
+              // Runs stopped by the user aren't recorded
+              if (!result) return;
+              if (result.analyzedIds.length > 0 && onRecordProcessedMessages) {
+                  await onRecordProcessedMessages(mailbox, result.analyzedIds);
               }
+              // Leave the cursor alone after a partial run; the ledger already covers what was done
+              if (result.analyzedIds.length === pending.length && onSyncCursor) onSyncCursor(sessionAccount, nextCursor);
+              await recordManualRun(sessionAccount, startedAt, query, messages, result);
           }
       } catch (e: any) {
+          recordManualRun(sessionAccount, startedAt, query, [], { analyzedIds: [], extractions: [], jobs: [] }, e.message || 'Failed to fetch');
           if (isMounted.current) {
               if (e.message === 'TOKEN_EXPIRED') {
                   setTokenExpired(true);
-                  showNotification("Session Token Expired. Please reconnect.", 'error');
+                  showNotification(
+                      sessionAccount.authType === 'oauth' ? "Gmail access was revoked. Please reconnect."
+                      : sessionAccount.authType === 'imap' ? "The mail server rejected the saved password. Please reconnect."
+                      : "Session Token Expired. Please reconnect.", 'error');
               } else {
                   console.error("Scan Error:", e);
                   showNotification(`Connection Error: ${e.message || "Failed to fetch"}`, 'error');
@@ -321,11 +306,28 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
     return () => { isMounted.current = false; };
   }, []);
 
-  // Handle Date Range Change - Only trigger if connected
+  // Only stored mailboxes are scanned in the background
+  const isStoredAccount = sessionAccount?.authType === 'oauth' || sessionAccount?.authType === 'imap';
   useEffect(() => {
-      if (sessionAccount && sessionAccount.accessToken) {
+      if (!onLoadScanStatus) return;
+      onLoadScanStatus().then(status => {
+          if (isMounted.current) setScanStatus(status);
+      });
+  }, [sessionAccount?.id]);
+
+  const lastRun = sessionAccount ? scanStatus?.runs.find(run => run.accountId === sessionAccount.id && run.trigger === 'scheduled') : undefined;
+  const lastScannedAt = [sessionAccount?.syncCursor ? sessionAccount.lastSynced : undefined, lastRun?.finishedAt]
+      .filter((date): date is string => !!date)
+      .sort()
+      .pop();
+
+  // Handle Date Range Change - Only trigger if connected. The first run is the incremental scan on open.
+  useEffect(() => {
+      const fullRange = !isInitialRange.current;
+      isInitialRange.current = false;
+      if (canScan(sessionAccount)) {
          if (!isScanning && !isBatchProcessing) {
-             handleScanRealInbox();
+             handleScanRealInbox(fullRange);
          }
       }
   }, [dateRange]);
@@ -337,9 +339,10 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
   };
 
   const handleDisconnectSession = () => {
+      const wasPersisted = sessionAccount?.authType === 'oauth' || sessionAccount?.authType === 'imap';
       onDisconnectSession();
       setEmails([]);
-      showNotification("Session disconnected. No data saved.", 'success');
+      showNotification(wasPersisted ? `${sessionAccount?.emailAddress} disconnected and its credentials deleted.` : "Session disconnected. No data saved.", 'success');
   };
 
   return (
@@ -364,13 +367,25 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
                 <div className="bg-green-50 border border-green-200 rounded-lg p-3">
                     <div className="flex justify-between items-start">
                         <div>
-                            <p className="text-xs font-bold text-green-800 uppercase mb-1">Active Session</p>
+                            <p className="text-xs font-bold text-green-800 uppercase mb-1">{sessionAccount.authType === 'oauth' || sessionAccount.authType === 'imap' ? 'Connected' : 'Active Session'}</p>
                             <p className="text-sm font-medium text-slate-900 truncate max-w-[180px]">{sessionAccount.emailAddress}</p>
+                            {lastScannedAt && (
+                                <p className="text-[10px] text-green-700 mt-0.5">
+                                    Last scanned {new Date(lastScannedAt).toLocaleString()}
+                                    {lastRun && lastRun.finishedAt === lastScannedAt && lastRun.status === 'success' && ` · ${lastRun.jobsCreated} new jobs`}
+                                </p>
+                            )}
+                            {lastRun && lastRun.finishedAt === lastScannedAt && lastRun.status === 'error' && (
+                                <p className="text-[10px] text-red-600 mt-0.5 max-w-[180px]" title={lastRun.error}>Background scan failed</p>
+                            )}
+                            {isStoredAccount && scanStatus?.nextScanAt && (
+                                <p className="text-[10px] text-slate-500 mt-0.5">Next scan {new Date(scanStatus.nextScanAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}</p>
+                            )}
                         </div>
                         <button 
                             onClick={handleDisconnectSession}
                             className="text-slate-400 hover:text-red-500 p-1"
-                            title="Disconnect Session"
+                            title={sessionAccount.authType === 'oauth' || sessionAccount.authType === 'imap' ? 'Disconnect' : 'Disconnect Session'}
                         >
                             <X className="w-4 h-4" />
                         </button>
@@ -418,7 +433,7 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
         {tokenExpired && (
             <div className="p-4 bg-red-50 border-b border-red-100 text-red-700 text-xs flex flex-col items-center text-center">
                 <span className="flex items-center font-bold mb-1"><AlertCircle className="w-3 h-3 mr-1"/> Token Expired</span>
-                <span className="mb-2">The session token is no longer valid.</span>
+                <span className="mb-2">{sessionAccount?.authType === 'oauth' ? 'Gmail access was revoked or expired.' : sessionAccount?.authType === 'imap' ? 'The saved mailbox password no longer works.' : 'The session token is no longer valid.'}</span>
                 <button onClick={() => setIsConnectModalOpen(true)} className="bg-red-100 border border-red-200 px-3 py-1 rounded flex items-center hover:bg-red-200">
                     <Settings className="w-3 h-3 mr-1"/> Reconnect
                 </button>
@@ -447,7 +462,10 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
                                 <span className="text-xs font-bold text-slate-700">
                                   {email.from}
                                 </span>
-                                <span className="text-[10px] text-slate-400">{email.date}</span>
+                                <span className="text-[10px] text-slate-400">
+                                  {email.alreadyScanned && <span className="mr-1 text-slate-300">Already scanned ·</span>}
+                                  {email.date}
+                                </span>
                             </div>
                             <div className="text-xs text-slate-500 truncate group-hover:text-slate-800 transition-colors">{email.subject}</div>
                         </div>
@@ -462,26 +480,30 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
         </div>
       </div>
 
-      {/* Right Panel: Placeholder or Results */}
+      {/* Right Panel: Progress, Scan History or Placeholder */}
       <div className="flex-1 flex flex-col bg-slate-50/50">
-         <div className="flex flex-col h-full animate-in fade-in">
-             <div className="flex flex-col items-center justify-center h-full text-slate-400">
-                 {isScanning || isBatchProcessing ? (
-                     <Loader2 className="w-16 h-16 mb-4 text-indigo-600 animate-spin" />
-                 ) : (
-                     <Search className="w-16 h-16 mb-4 opacity-20" />
-                 )}
-                 <h3 className="text-lg font-medium text-slate-500 mb-2">{isBatchProcessing ? 'Analyzing content...' : 'Inbox Scanner'}</h3>
-                 <p className="text-sm opacity-60 max-w-xs text-center">
-                     {isBatchProcessing 
-                        ? 'Applying strict filters to remove spam...' 
-                        : sessionAccount 
-                            ? 'Scanner is connected. Use "Scan Now" to find valid job opportunities.'
-                            : 'Connect a session to scan for jobs.'
-                     }
-                 </p>
+         {!isScanning && !isBatchProcessing && onLoadScanRun && scanStatus && scanStatus.runs.length > 0 ? (
+             <ScanHistory runs={scanStatus.runs} onLoadRun={onLoadScanRun} onReplayMessage={onReplayMessage} />
+         ) : (
+             <div className="flex flex-col h-full animate-in fade-in">
+                 <div className="flex flex-col items-center justify-center h-full text-slate-400">
+                     {isScanning || isBatchProcessing ? (
+                         <Loader2 className="w-16 h-16 mb-4 text-indigo-600 animate-spin" />
+                     ) : (
+                         <Search className="w-16 h-16 mb-4 opacity-20" />
+                     )}
+                     <h3 className="text-lg font-medium text-slate-500 mb-2">{isBatchProcessing ? 'Analyzing content...' : 'Inbox Scanner'}</h3>
+                     <p className="text-sm opacity-60 max-w-xs text-center">
+                         {isBatchProcessing 
+                            ? 'Applying strict filters to remove spam...' 
+                            : sessionAccount 
+                                ? 'Scanner is connected. Use "Scan Now" to find valid job opportunities.'
+                                : 'Connect a session to scan for jobs.'
+                         }
+                     </p>
+                 </div>
              </div>
-         </div>
+         )}
       </div>
 
       <EmailConnectModal 
@@ -491,6 +513,8 @@ export const InboxScanner: React.FC<InboxScannerProps> = ({
               handleConnectSession(acc);
               setIsConnectModalOpen(false);
           }}
+          onAuthorizeGmail={onAuthorizeGmail}
+          onConnectImap={onConnectImap}
       />
     </div>
   );
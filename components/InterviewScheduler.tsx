@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { Interview, Job } from '../types';
+import { CalendarPlus, Download, Edit3, Link as LinkIcon, MapPin, Trash2, Users, Video, X } from 'lucide-react';
+import {
+  buildInterviewCalendar,
+  formatInTimeZone,
+  getLocalTimeZone,
+  getSupportedTimeZones,
+  utcToZonedInput,
+  zonedTimeToUtc
+} from '../services/calendarService';
+
+interface InterviewSchedulerProps {
+  job: Job;
+  interviews: Interview[];
+  onSave: (interview: Interview) => void;
+  onDelete: (id: string) => void;
+}
+
+const STAGES = ['Phone Screen', 'Recruiter Call', 'Technical', 'System Design', 'Hiring Manager', 'Onsite', 'Final'];
+
+const emptyForm = () => ({
+  stage: STAGES[0],
+  localStart: '',
+  timeZone: getLocalTimeZone(),
+  durationMinutes: 60,
+  interviewers: '',
+  meetingLink: '',
+  location: '',
+  prepNotes: ''
+});
+
+export const InterviewScheduler: React.FC<InterviewSchedulerProps> = ({ job, interviews, onSave, onDelete }) => {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm());
+  const [timeZones] = useState(getSupportedTimeZones);
+
+  const rounds = [...interviews].sort((a, b) => a.round - b.round || a.startsAt.localeCompare(b.startsAt));
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (interview: Interview) => {
+    setEditingId(interview.id);
+    setForm({
+      stage: interview.stage,
+      localStart: utcToZonedInput(interview.startsAt, interview.timeZone),
+      timeZone: interview.timeZone,
+      durationMinutes: interview.durationMinutes,
+      interviewers: interview.interviewers.join(', '),
+      meetingLink: interview.meetingLink || '',
+      location: interview.location || '',
+      prepNotes: interview.prepNotes || ''
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = () => {
+    if (!form.localStart) return;
+    const existing = interviews.find(i => i.id === editingId);
+
+    onSave({
+      id: existing?.id || `interview-${Date.now()}`,
+      jobId: job.id,
+      round: existing?.round || Math.max(0, ...interviews.map(i => i.round)) + 1,
+      stage: form.stage,
+      startsAt: zonedTimeToUtc(form.localStart, form.timeZone),
+      timeZone: form.timeZone,
+      durationMinutes: Number(form.durationMinutes) || 60,
+      interviewers: form.interviewers.split(',').map(s => s.trim()).filter(s => s),
+      meetingLink: form.meetingLink.trim() || undefined,
+      location: form.location.trim() || undefined,
+      prepNotes: form.prepNotes.trim() || undefined
+    });
+    setIsFormOpen(false);
+    setEditingId(null);
+  };
+
+  const handleDownload = (interview: Interview) => {
+    const content = buildInterviewCalendar([{ interview, job }], `${job.company} Interview`);
+    const blob = new Blob([content], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${job.company}_Round${interview.round}.ics`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-8">
+        <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <Users className="w-4 h-4 text-purple-600" /> Interview Rounds
+        </h3>
+        {!isFormOpen && (
+          <button
+            onClick={openNew}
+            className="px-5 py-3 bg-purple-50 text-purple-600 border border-purple-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-purple-100 transition-all flex items-center gap-2"
+          >
+            <CalendarPlus className="w-4 h-4" /> Add Round
+          </button>
+        )}
+      </div>
+
+      {rounds.length === 0 && !isFormOpen && (
+        <p className="text-xs text-slate-400 font-medium">No interviews scheduled yet. Add a round to record when, where and with whom.</p>
+      )}
+
+      <div className="space-y-4">
+        {rounds.map(interview => (
+          <div key={interview.id} className="p-5 bg-slate-50 border border-slate-100 rounded-2xl flex flex-col md:flex-row md:items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded-lg bg-purple-100 text-purple-700">Round {interview.round}</span>
+                <span className="text-xs font-black text-slate-800">{interview.stage}</span>
+              </div>
+              <p className="text-xs font-bold text-slate-600">{formatInTimeZone(interview.startsAt, interview.timeZone)} · {interview.durationMinutes} min</p>
+              {interview.timeZone !== getLocalTimeZone() && (
+                <p className="text-[10px] text-slate-400 mt-0.5">Your time: {formatInTimeZone(interview.startsAt, getLocalTimeZone())}</p>
+              )}
+              {interview.interviewers.length > 0 && (
+                <p className="text-xs text-slate-500 mt-2 flex items-center gap-1.5"><Users className="w-3 h-3" /> {interview.interviewers.join(', ')}</p>
+              )}
+              {interview.meetingLink && (
+                <a href={interview.meetingLink} target="_blank" rel="noopener noreferrer" className="text-xs text-indigo-600 mt-1 flex items-center gap-1.5 truncate hover:underline">
+                  <Video className="w-3 h-3 shrink-0" /> {interview.meetingLink}
+                </a>
+              )}
+              {interview.location && (
+                <p className="text-xs text-slate-500 mt-1 flex items-center gap-1.5"><MapPin className="w-3 h-3" /> {interview.location}</p>
+              )}
+              {interview.prepNotes && (
+                <p className="text-xs text-slate-600 mt-3 whitespace-pre-wrap bg-white border border-slate-100 rounded-xl px-3 py-2">{interview.prepNotes}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button onClick={() => handleDownload(interview)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors" title="Export .ics">
+                <Download className="w-4 h-4" />
+              </button>
+              <button onClick={() => openEdit(interview)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors" title="Edit">
+                <Edit3 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => { if (window.confirm('Remove this interview round?')) onDelete(interview.id); }}
+                className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isFormOpen && (
+        <div className="mt-6 p-6 border border-purple-100 bg-purple-50/40 rounded-2xl space-y-4 animate-in fade-in">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-black text-purple-600 uppercase tracking-widest">{editingId ? 'Edit Round' : 'New Round'}</p>
+            <button onClick={() => setIsFormOpen(false)} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <select value={form.stage} onChange={(e) => setForm({ ...form, stage: e.target.value })} className="p-3 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none focus:ring-2 focus:ring-purple-500">
+              {STAGES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <input type="number" min={15} step={15} value={form.durationMinutes} onChange={(e) => setForm({ ...form, durationMinutes: Number(e.target.value) })} className="p-3 bg-white border border-slate-200 rounded-xl text-xs text-slate-700 outline-none focus:ring-2 focus:ring-purple-500" placeholder="Duration (min)" />
+            <input type="datetime-local" value={form.localStart} onChange={(e) => setForm({ ...form, localStart: e.target.value })} className="p-3 bg-white border border-slate-200 rounded-xl text-xs text-slate-700 outline-none focus:ring-2 focus:ring-purple-500" />
+            <select value={form.timeZone} onChange={(e) => setForm({ ...form, timeZone: e.target.value })} className="p-3 bg-white border border-slate-200 rounded-xl text-xs text-slate-700 outline-none focus:ring-2 focus:ring-purple-500">
+              {timeZones.map(tz => <option key={tz} value={tz}>{tz}</option>)}
+            </select>
+            <input type="text" value={form.interviewers} onChange={(e) => setForm({ ...form, interviewers: e.target.value })} className="p-3 bg-white border border-slate-200 rounded-xl text-xs text-slate-700 outline-none focus:ring-2 focus:ring-purple-500" placeholder="Interviewers (comma separated)" />
+            <div className="relative">
+              <LinkIcon className="absolute left-3 top-3.5 w-3 h-3 text-slate-400" />
+              <input type="url" value={form.meetingLink} onChange={(e) => setForm({ ...form, meetingLink: e.target.value })} className="w-full p-3 pl-8 bg-white border border-slate-200 rounded-xl text-xs text-slate-700 outline-none focus:ring-2 focus:ring-purple-500" placeholder="Meeting link" />
+            </div>
+            <input type="text" value={form.location} onChange={(e) => setForm({ ...form, location: e.target.value })} className="md:col-span-2 p-3 bg-white border border-slate-200 rounded-xl text-xs text-slate-700 outline-none focus:ring-2 focus:ring-purple-500" placeholder="Location (for onsite rounds)" />
+            <textarea value={form.prepNotes} onChange={(e) => setForm({ ...form, prepNotes: e.target.value })} className="md:col-span-2 p-3 h-24 bg-white border border-slate-200 rounded-xl text-xs text-slate-700 resize-none outline-none focus:ring-2 focus:ring-purple-500" placeholder="Prep notes" />
+          </div>
+          <button
+            onClick={handleSubmit}
+            disabled={!form.localStart}
+            className="w-full py-3 bg-purple-600 text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-purple-700 disabled:opacity-40 transition-all"
+          >
+            {editingId ? 'Update Round' : 'Save Round'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,25 @@
 
 import React from 'react';
-import { Job, JobStatus } from '../types';
-import { Building2, MapPin, Calendar, StickyNote, FileText, Sparkles, ExternalLink, Eye } from 'lucide-react';
+import { Job, JobStatus, UserProfile } from '../types';
+import { Building2, MapPin, Calendar, StickyNote, FileText, Sparkles, ExternalLink, Eye, Copy } from 'lucide-react';
 import { openSafeApplicationUrl } from '../services/automationService';
+import { DocumentExportMenu } from './DocumentExportMenu';
 
 interface JobCardProps {
   job: Job;
+  userProfile: UserProfile;
   onClick: (job: Job) => void;
   isSelected: boolean;
   isChecked: boolean;
   onToggleCheck: (id: string) => void;
   onAutoApply: (e: React.MouseEvent, job: Job) => void;
+  // Other jobs that look like the same posting
+  duplicateCount?: number;
+  onReviewDuplicates?: (job: Job) => void;
+  onExportError?: (message: string) => void;
 }
 
-export const JobCard: React.FC<JobCardProps> = ({ job, onClick, isSelected, isChecked, onToggleCheck, onAutoApply }) => {
+export const JobCard: React.FC<JobCardProps> = ({ job, userProfile, onClick, isSelected, isChecked, onToggleCheck, onAutoApply, duplicateCount = 0, onReviewDuplicates, onExportError }) => {
   const getStatusColor = (status: JobStatus) => {
     switch (status) {
       case JobStatus.DETECTED: return 'bg-blue-100 text-blue-700 border-blue-200';
@@ -31,19 +37,6 @@ export const JobCard: React.FC<JobCardProps> = ({ job, onClick, isSelected, isCh
     onToggleCheck(job.id);
   };
 
-  const handleDownload = (e: React.MouseEvent, content: string, filename: string) => {
-    e.stopPropagation();
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
   const handleApply = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (job.applicationUrl) {
@@ -106,6 +99,15 @@ export const JobCard: React.FC<JobCardProps> = ({ job, onClick, isSelected, isCh
         <span className="flex items-center shrink-0">
           <Calendar className="w-3.5 h-3.5 me-1.5 shrink-0 text-slate-300" /> {new Date(job.detectedAt).toLocaleDateString()}
         </span>
+        {duplicateCount > 0 && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onReviewDuplicates?.(job); }}
+            className="flex items-center shrink-0 text-amber-600 hover:text-amber-700"
+            title="Review possible duplicates"
+          >
+            <Copy className="w-3.5 h-3.5 me-1.5 shrink-0" /> {duplicateCount === 1 ? 'Possible duplicate' : `${duplicateCount} possible duplicates`}
+          </button>
+        )}
       </div>
 
       <div className="mt-5 flex items-center justify-between ms-9">
@@ -119,21 +121,27 @@ export const JobCard: React.FC<JobCardProps> = ({ job, onClick, isSelected, isCh
          <div className="flex gap-2">
             {docsReady ? (
                 <div className="flex gap-1.5">
-                    <button 
-                        onClick={(e) => handleDownload(e, job.customizedResume!, `${job.company}_Resume.txt`)}
-                        className="text-[10px] font-black uppercase tracking-wider bg-white text-indigo-600 hover:bg-indigo-50 border border-indigo-200 px-2.5 py-1.5 rounded-xl flex items-center transition-all shadow-sm"
+                    <DocumentExportMenu
+                        job={job}
+                        kind="resume"
+                        userProfile={userProfile}
+                        onError={onExportError}
+                        buttonClassName="text-[10px] font-black uppercase tracking-wider bg-white text-indigo-600 hover:bg-indigo-50 border border-indigo-200 px-2.5 py-1.5 rounded-xl flex items-center transition-all shadow-sm"
                         title="Export Tailored Resume"
                     >
                         <FileText className="w-3.5 h-3.5" />
-                    </button>
+                    </DocumentExportMenu>
                     {letterReady && (
-                        <button 
-                            onClick={(e) => handleDownload(e, job.coverLetter!, `${job.company}_Letter.txt`)}
-                            className="text-[10px] font-black uppercase tracking-wider bg-white text-purple-600 hover:bg-purple-50 border border-purple-200 px-2.5 py-1.5 rounded-xl flex items-center transition-all shadow-sm"
+                        <DocumentExportMenu
+                            job={job}
+                            kind="coverLetter"
+                            userProfile={userProfile}
+                            onError={onExportError}
+                            buttonClassName="text-[10px] font-black uppercase tracking-wider bg-white text-purple-600 hover:bg-purple-50 border border-purple-200 px-2.5 py-1.5 rounded-xl flex items-center transition-all shadow-sm"
                             title="Export Cover Letter"
                         >
                             <StickyNote className="w-3.5 h-3.5" />
-                        </button>
+                        </DocumentExportMenu>
                     )}
                     <button 
                         onClick={() => onClick(job)}
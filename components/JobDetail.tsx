@@ -1,7 +1,14 @@
 
-import React, { useState } from 'react';
-import { Job, JobStatus, UserProfile } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '@clerk/clerk-react';
+import { Job, JobStatus, UserProfile, Interview, DocumentVersion, JobDocumentKind } from '../types';
 import { generateCoverLetter, customizeResume } from '../services/geminiService';
+import { localCustomizeResume, localGenerateCoverLetter } from '../services/localAiService';
+import { applyStatusChange, getStatusTimeline, getTimeToStatus } from '../services/statusHistoryService';
+import { isResumeEmpty, resumeToText } from '../services/resumeModel';
+import { findMasterResume, getMasterResumes, masterResumeStructure, pickMasterResume } from '../services/masterResumes';
+import { DOCUMENT_VERSION_SOURCE_LABELS, applyDocumentVersions, createDocumentVersion, jobDocumentText, manualVersion, mergeDocumentVersions, restoredVersion } from '../services/documentVersions';
+import { fetchDocumentVersions } from '../services/dbService';
 import { 
     FileText, 
     Loader2, 
@@ -12,30 +19,116 @@ import {
     Building2,
     MapPin,
     Calendar,
-    CheckCircle2
+    CheckCircle2,
+    History,
+    Briefcase,
+    Globe,
+    Clock,
+    Download,
+    Pencil
 } from 'lucide-react';
 import { NotificationType } from './NotificationToast';
 import { openSafeApplicationUrl } from '../services/automationService';
+import { InterviewScheduler } from './InterviewScheduler';
+import { DocumentExportMenu } from './DocumentExportMenu';
+import { DocumentHistoryModal } from './DocumentHistoryModal';
+import { DocumentEditor } from './DocumentEditor';
 
 interface JobDetailProps {
   job: Job;
   userProfile: UserProfile;
   onUpdateStatus: (id: string, status: JobStatus) => void;
-  onUpdateJob: (job: Job) => void;
+  // Rejects when the job couldn't be saved
+  onUpdateJob: (job: Job) => Promise<void>;
   onClose: () => void;
   showNotification?: (msg: string, type: NotificationType) => void;
+  interviews?: Interview[];
+  onSaveInterview?: (interview: Interview) => void;
+  onDeleteInterview?: (id: string) => void;
 }
 
-export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdateJob, showNotification }) => {
+// How long after being tracked the job first moved to Interview
+const formatTimeToInterview = (ms: number) => {
+  const days = Math.round(ms / 86400000);
+  return days === 0 ? 'Reached interview the same day' : `Reached interview after ${days} day${days === 1 ? '' : 's'}`;
+};
+
+export const JobDetail: React.FC<JobDetailProps> = ({ 
+  job, 
+  userProfile, 
+  onUpdateJob, 
+  showNotification, 
+  interviews = [], 
+  onSaveInterview = () => {}, 
+  onDeleteInterview = () => {} 
+}) => {
+  const { getToken } = useAuth();
   const [isGenerating, setIsGenerating] = useState(false);
+  const [nextStatus, setNextStatus] = useState<JobStatus>(job.status);
+  const [statusNote, setStatusNote] = useState('');
+  // Base resume for generation: the one used last time, else the best match for the job title
+  const [baseResumeId, setBaseResumeId] = useState(() => (findMasterResume(userProfile, job.baseResumeId) || pickMasterResume(userProfile, job)).id);
+
+  useEffect(() => {
+    setNextStatus(job.status);
+  }, [job.id, job.status]);
+
+  useEffect(() => {
+    setBaseResumeId((findMasterResume(userProfile, job.baseResumeId) || pickMasterResume(userProfile, job)).id);
+  }, [job.id, userProfile]);
+
+  const masterResumes = getMasterResumes(userProfile);
+  const usedResume = findMasterResume(userProfile, job.baseResumeId);
+
+  // Stored document history, null until loaded; versions added since then are on job.documentVersions
+  const [storedVersions, setStoredVersions] = useState<DocumentVersion[] | null>(null);
+  const [historyKind, setHistoryKind] = useState<JobDocumentKind | null>(null);
+  const [editingKind, setEditingKind] = useState<JobDocumentKind | null>(null);
+  // The open editing session: its job, kept current while shown, so a save that lands after moving
+  // to another job still goes to the right one; and its manual version, which autosaves update
+  const editSessionRef = useRef<{ job: Job, history: DocumentVersion[], version?: DocumentVersion } | null>(null);
+  if (editSessionRef.current && editSessionRef.current.job.id === job.id) {
+    editSessionRef.current.job = job;
+    editSessionRef.current.history = storedVersions || [];
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    setStoredVersions(null);
+    setEditingKind(null);
+    getToken()
+      .then(token => token ? fetchDocumentVersions(job.id, token) : [])
+      .catch(err => {
+        console.error("Document history failed to load:", err);
+        return [];
+      })
+      .then(versions => { if (!cancelled) setStoredVersions(versions); });
+    return () => { cancelled = true; };
+  }, [job.id]);
+
+  // Versions App drops from the job once the server has them join the stored history
+  const queuedVersionsRef = useRef(job.documentVersions);
+  useEffect(() => {
+    const previous = queuedVersionsRef.current || [];
+    queuedVersionsRef.current = job.documentVersions;
+    const stored = previous.filter(version => !(job.documentVersions || []).some(queued => queued.id === version.id));
+    if (stored.length > 0) setStoredVersions(prev => prev && mergeDocumentVersions(prev, stored));
+  }, [job.documentVersions]);
+
+  const allVersions = mergeDocumentVersions(storedVersions || [], job.documentVersions);
+
+  const timeline = getStatusTimeline(job);
+  const timeToInterview = getTimeToStatus(job, JobStatus.INTERVIEW);
   
   const notify = (msg: string, type: NotificationType) => {
       if (showNotification) showNotification(msg, type);
   };
 
   const handleGenerateDocuments = async () => {
-    if (!userProfile.resumeContent || userProfile.resumeContent.length < 50) {
-        notify("Please update your master resume in Settings first (minimum 50 chars).", "error");
+    const base = findMasterResume(userProfile, baseResumeId) || pickMasterResume(userProfile, job);
+    const masterResume = masterResumeStructure(base, userProfile);
+    if (isResumeEmpty(masterResume) || !base.resumeContent || base.resumeContent.length < 50) {
+        notify(`Please update the resume "${base.name}" in Settings first (minimum 50 chars).`, "error");
         return;
     }
     
@@ -45,24 +138,34 @@ export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdate
     try {
         // Run parallel generations
         const [finalResume, finalLetter] = await Promise.all([
-            customizeResume(job.title, job.company, job.description, userProfile.resumeContent, userProfile.email),
-            generateCoverLetter(job.title, job.company, job.description, userProfile.resumeContent, userProfile.fullName, userProfile.email)
+            customizeResume(job.title, job.company, job.description, masterResume, userProfile.email),
+            generateCoverLetter(job.title, job.company, job.description, base.resumeContent, userProfile.fullName, userProfile.email)
         ]);
-        
-        if (!finalResume || !finalLetter) {
-            throw new Error("AI returned empty content");
+
+        // A failed generation has no prompt version; the keyword-based local generator stands in
+        let resumeVersion: DocumentVersion;
+        if (finalResume.promptVersion && finalResume.resume && finalResume.text) {
+            resumeVersion = createDocumentVersion('resume', finalResume.text, { source: 'ai', resume: finalResume.resume, model: finalResume.model, promptVersion: finalResume.promptVersion, baseResumeId: base.id });
+        } else {
+            const local = await localCustomizeResume(job.title, job.company, job.description, masterResume, userProfile.email);
+            resumeVersion = createDocumentVersion('resume', resumeToText(local), { source: 'local', resume: local, baseResumeId: base.id });
         }
+        const letterVersion = finalLetter.promptVersion && finalLetter.text
+            ? createDocumentVersion('coverLetter', finalLetter.text, { source: 'ai', model: finalLetter.model, promptVersion: finalLetter.promptVersion, baseResumeId: base.id })
+            : createDocumentVersion('coverLetter', await localGenerateCoverLetter(job.title, job.company, job.description, base.resumeContent, userProfile.fullName, userProfile.email), { source: 'local', baseResumeId: base.id });
 
-        const updatedJob: Job = { 
-            ...job, 
-            customizedResume: finalResume, 
-            coverLetter: finalLetter, 
-            status: job.status === JobStatus.DETECTED ? JobStatus.SAVED : job.status 
-        };
+        const withAssets = applyDocumentVersions(job, [resumeVersion, letterVersion], storedVersions || []);
+        const updatedJob = job.status === JobStatus.DETECTED 
+            ? applyStatusChange(withAssets, JobStatus.SAVED, 'Application assets generated') 
+            : withAssets;
         
         // Push update to parent and database
         await onUpdateJob(updatedJob);
-        notify("Application assets ready for review!", "success");
+        if (resumeVersion.source === 'local' || letterVersion.source === 'local') {
+            notify("AI generation failed, so a basic local version was created. Regenerate once the AI is reachable.", "error");
+        } else {
+            notify("Application assets ready for review!", "success");
+        }
     } catch (e) {
         console.error("Asset generation failed:", e);
         notify("Generation failed. Please verify your connection or API key.", "error");
@@ -71,6 +174,81 @@ export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdate
     }
   };
 
+  const startEditing = (kind: JobDocumentKind) => {
+    editSessionRef.current = { job, history: storedVersions || [] };
+    setEditingKind(kind);
+  };
+
+  const handleAutosave = async (kind: JobDocumentKind, text: string) => {
+    const session = editSessionRef.current;
+    if (!session) return;
+    session.version = manualVersion(session.job, kind, text, session.version);
+    session.job = applyDocumentVersions(session.job, [session.version], session.history);
+    await onUpdateJob(session.job);
+  };
+
+  const handleCloseEditor = () => {
+    editSessionRef.current = null;
+    setEditingKind(null);
+  };
+
+  const handleRestoreVersion = async (version: DocumentVersion) => {
+    try {
+      await onUpdateJob(applyDocumentVersions(job, [restoredVersion(version)], storedVersions || []));
+    } catch (e) {
+      notify("The restored version couldn't be saved. Please try again.", 'error');
+      return;
+    }
+    setHistoryKind(null);
+    notify(`Restored the version from ${new Date(version.createdAt).toLocaleString()}.`, 'success');
+  };
+
+  // Where the current document came from, when it isn't the AI (whose prompt version is shown instead)
+  const renderProvenance = (kind: JobDocumentKind) => {
+    const text = jobDocumentText(job, kind);
+    const current = [...allVersions].reverse().find(v => v.kind === kind && v.text === text);
+    if (!current || current.source === 'ai') return null;
+    return (
+      <span className="px-2 py-0.5 rounded-md bg-slate-100 text-slate-500 text-[9px] font-black uppercase tracking-widest" title={`Changed ${new Date(current.createdAt).toLocaleString()}`}>
+        {DOCUMENT_VERSION_SOURCE_LABELS[current.source]}
+      </span>
+    );
+  };
+
+  // Edit and History buttons of a document card
+  const renderDocumentActions = (kind: JobDocumentKind, buttonClassName: string) => (
+    <>
+      <button onClick={() => setHistoryKind(kind)} className={buttonClassName} title="Version history">
+        <History className="w-3.5 h-3.5" />
+      </button>
+      {jobDocumentText(job, kind) && (
+        <button onClick={() => startEditing(kind)} className={buttonClassName} title="Edit">
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </>
+  );
+
+  const renderDocumentBody = (kind: JobDocumentKind) => (
+    <div className="p-10 h-[650px] overflow-y-auto bg-white custom-scrollbar">
+      <pre className="text-[11px] font-mono text-slate-600 leading-relaxed whitespace-pre-wrap font-sans">
+        {jobDocumentText(job, kind)}
+      </pre>
+    </div>
+  );
+
+  const handleLogStatus = async () => {
+    if (nextStatus === job.status) return;
+    try {
+      await onUpdateJob(applyStatusChange(job, nextStatus, statusNote));
+    } catch (e) {
+      notify("The status change couldn't be saved. Please try again.", 'error');
+      return;
+    }
+    setStatusNote('');
+    notify(`Status updated to ${nextStatus}.`, 'success');
+  };
+
   return (
     <div className="flex flex-col h-full bg-slate-50 overflow-y-auto pb-24">
       <div className="p-8 max-w-5xl mx-auto w-full space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -95,6 +273,24 @@ export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdate
                         <div className="flex items-center gap-1.5 text-xs font-medium text-slate-500">
                             <Calendar className="w-4 h-4" /> {new Date(job.detectedAt).toLocaleDateString()}
                         </div>
+                        {job.employmentType && (
+                            <div className="flex items-center gap-1.5 text-xs font-medium text-slate-500">
+                                <Briefcase className="w-4 h-4" /> {job.employmentType}
+                            </div>
+                        )}
+                        {job.isRemote && (
+                            <div className="flex items-center gap-1.5 text-xs font-bold text-emerald-600">
+                                <Globe className="w-4 h-4" /> Remote
+                            </div>
+                        )}
+                        {(job.postedAt || job.expiresAt) && (
+                            <div className={`flex items-center gap-1.5 text-xs font-medium ${job.expiresAt && new Date(job.expiresAt) < new Date() ? 'text-red-500' : 'text-slate-500'}`}>
+                                <Clock className="w-4 h-4" />
+                                {job.postedAt && `Posted ${new Date(job.postedAt).toLocaleDateString()}`}
+                                {job.postedAt && job.expiresAt && ' · '}
+                                {job.expiresAt && `${new Date(job.expiresAt) < new Date() ? 'Closed' : 'Closes'} ${new Date(job.expiresAt).toLocaleDateString()}`}
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
@@ -108,12 +304,24 @@ export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdate
                 </button>
                 <button 
                   onClick={handleGenerateDocuments} 
-                  disabled={isGenerating} 
+                  disabled={isGenerating || !!editingKind} 
+                  title={editingKind ? 'Close the editor to regenerate' : undefined}
                   className="w-full md:w-56 bg-indigo-600 text-white py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center gap-2 shadow-xl shadow-indigo-100"
                 >
                   {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />} 
                   {job.customizedResume ? 'Regenerate Assets' : 'Generate Assets'}
                 </button>
+                {masterResumes.length > 1 && (
+                    <select
+                      value={baseResumeId}
+                      onChange={(e) => setBaseResumeId(e.target.value)}
+                      disabled={isGenerating}
+                      title="Master resume to tailor from"
+                      className="w-full md:w-56 px-4 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black text-slate-600 uppercase tracking-widest outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                        {masterResumes.map(r => <option key={r.id} value={r.id}>From: {r.name}</option>)}
+                    </select>
+                )}
             </div>
         </div>
 
@@ -131,6 +339,69 @@ export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdate
                </div>
             </div>
 
+            {/* Status Timeline */}
+            <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+               <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+                   <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+                     <History className="w-4 h-4 text-indigo-600" /> Status Timeline
+                   </h3>
+                   {timeToInterview !== null && (
+                       <span className="text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full bg-purple-50 text-purple-600 border border-purple-100">
+                           {formatTimeToInterview(timeToInterview)}
+                       </span>
+                   )}
+               </div>
+
+               <ol className="relative border-s-2 border-slate-100 ms-2 space-y-6">
+                   {timeline.map((entry, index) => (
+                       <li key={`${entry.changedAt}-${index}`} className="ms-6">
+                           <span className={`absolute -start-[9px] w-4 h-4 rounded-full border-2 border-white ring-1 ${index === timeline.length - 1 ? 'bg-indigo-600 ring-indigo-200' : 'bg-slate-300 ring-slate-200'}`}></span>
+                           <div className="flex flex-wrap items-center gap-2">
+                               <span className="text-xs font-black text-slate-800 uppercase tracking-widest">{entry.status}</span>
+                               {entry.previousStatus && (
+                                   <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">from {entry.previousStatus}</span>
+                               )}
+                           </div>
+                           <p className="text-[10px] font-medium text-slate-400 mt-1">{new Date(entry.changedAt).toLocaleString()}</p>
+                           {entry.note && <p className="text-xs text-slate-600 mt-2 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2">{entry.note}</p>}
+                       </li>
+                   ))}
+               </ol>
+
+               <div className="mt-8 pt-6 border-t border-slate-100 flex flex-col md:flex-row gap-3">
+                   <select 
+                     value={nextStatus}
+                     onChange={(e) => setNextStatus(e.target.value as JobStatus)}
+                     className="md:w-56 p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                   >
+                       {Object.values(JobStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                   </select>
+                   <input 
+                     type="text"
+                     value={statusNote}
+                     onChange={(e) => setStatusNote(e.target.value)}
+                     placeholder="Optional note (e.g. recruiter call scheduled)"
+                     className="flex-1 p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                   />
+                   <button 
+                     onClick={handleLogStatus}
+                     disabled={nextStatus === job.status}
+                     className="px-6 py-3 bg-slate-900 text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-800 disabled:opacity-40 transition-all"
+                   >
+                       Log Update
+                   </button>
+               </div>
+            </div>
+
+            {(job.status === JobStatus.INTERVIEW || interviews.length > 0) && (
+                <InterviewScheduler 
+                  job={job} 
+                  interviews={interviews} 
+                  onSave={onSaveInterview} 
+                  onDelete={onDeleteInterview} 
+                />
+            )}
+
             {/* Tailored AI Assets Flow */}
             {(job.customizedResume || job.coverLetter) ? (
               <div className="space-y-12 py-8 animate-in fade-in slide-in-from-bottom-10 duration-700">
@@ -143,6 +414,17 @@ export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdate
                     <div className="h-[1px] flex-1 bg-slate-200"></div>
                  </div>
 
+                 {editingKind ? (
+                    <DocumentEditor
+                        key={`${job.id}:${editingKind}`}
+                        job={job}
+                        kind={editingKind}
+                        initialText={jobDocumentText(job, editingKind)}
+                        onSave={text => handleAutosave(editingKind, text)}
+                        onClose={handleCloseEditor}
+                        onError={message => notify(message, 'error')}
+                    />
+                 ) : (
                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                     {/* Custom Resume View */}
                     <div className="flex flex-col bg-white rounded-[3rem] border border-slate-200 overflow-hidden shadow-sm hover:shadow-md transition-shadow">
@@ -151,14 +433,34 @@ export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdate
                                 <div className="p-2 bg-indigo-100 rounded-lg">
                                     <FileText className="w-5 h-5 text-indigo-600" />
                                 </div>
-                                <h4 className="text-xs font-black uppercase tracking-widest text-slate-800">Tailored Resume</h4>
+                                <div>
+                                    <h4 className="text-xs font-black uppercase tracking-widest text-slate-800">Tailored Resume</h4>
+                                    {usedResume && masterResumes.length > 1 && (
+                                        <p className="text-[10px] font-medium text-slate-400 mt-0.5">Based on {usedResume.name}</p>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                {renderDocumentActions('resume', "flex items-center gap-1.5 px-3 py-2 bg-white text-indigo-600 rounded-xl text-[10px] font-black uppercase tracking-widest border border-indigo-100 hover:bg-indigo-50 transition-all")}
+                                {renderProvenance('resume')}
+                                {job.customizedResumePromptVersion && (
+                                    <span className="text-[10px] font-mono text-slate-400" title="Prompt version that generated this resume">{job.customizedResumePromptVersion}</span>
+                                )}
+                                {job.customizedResume && (
+                                    <DocumentExportMenu
+                                        job={job}
+                                        kind="resume"
+                                        userProfile={userProfile}
+                                        onError={message => notify(message, 'error')}
+                                        buttonClassName="flex items-center gap-1.5 px-3 py-2 bg-white text-indigo-600 rounded-xl text-[10px] font-black uppercase tracking-widest border border-indigo-100 hover:bg-indigo-50 transition-all"
+                                        title="Export as PDF or DOCX"
+                                    >
+                                        <Download className="w-3.5 h-3.5" /> Export
+                                    </DocumentExportMenu>
+                                )}
                             </div>
                         </div>
-                        <div className="p-10 h-[650px] overflow-y-auto bg-white custom-scrollbar">
-                           <pre className="text-[11px] font-mono text-slate-600 leading-relaxed whitespace-pre-wrap font-sans">
-                             {job.customizedResume}
-                           </pre>
-                        </div>
+                        {renderDocumentBody('resume')}
                     </div>
 
                     {/* Cover Letter View */}
@@ -170,14 +472,30 @@ export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdate
                                 </div>
                                 <h4 className="text-xs font-black uppercase tracking-widest text-slate-800">Generated Letter</h4>
                             </div>
+                            <div className="flex items-center gap-3">
+                                {renderDocumentActions('coverLetter', "flex items-center gap-1.5 px-3 py-2 bg-white text-purple-600 rounded-xl text-[10px] font-black uppercase tracking-widest border border-purple-100 hover:bg-purple-50 transition-all")}
+                                {renderProvenance('coverLetter')}
+                                {job.coverLetterPromptVersion && (
+                                    <span className="text-[10px] font-mono text-slate-400" title="Prompt version that generated this letter">{job.coverLetterPromptVersion}</span>
+                                )}
+                                {job.coverLetter && (
+                                    <DocumentExportMenu
+                                        job={job}
+                                        kind="coverLetter"
+                                        userProfile={userProfile}
+                                        onError={message => notify(message, 'error')}
+                                        buttonClassName="flex items-center gap-1.5 px-3 py-2 bg-white text-purple-600 rounded-xl text-[10px] font-black uppercase tracking-widest border border-purple-100 hover:bg-purple-50 transition-all"
+                                        title="Export as PDF or DOCX"
+                                    >
+                                        <Download className="w-3.5 h-3.5" /> Export
+                                    </DocumentExportMenu>
+                                )}
+                            </div>
                         </div>
-                        <div className="p-10 h-[650px] overflow-y-auto bg-white custom-scrollbar">
-                           <pre className="text-[11px] font-mono text-slate-600 leading-relaxed whitespace-pre-wrap font-sans">
-                             {job.coverLetter}
-                           </pre>
-                        </div>
+                        {renderDocumentBody('coverLetter')}
                     </div>
                  </div>
+                 )}
               </div>
             ) : (
                 <div className="p-16 text-center bg-slate-100/50 rounded-[2.5rem] border border-dashed border-slate-200">
@@ -188,6 +506,16 @@ export const JobDetail: React.FC<JobDetailProps> = ({ job, userProfile, onUpdate
             )}
         </div>
       </div>
+
+      <DocumentHistoryModal
+        isOpen={!!historyKind}
+        kind={historyKind || 'resume'}
+        versions={allVersions}
+        currentText={historyKind ? jobDocumentText(job, historyKind) : ''}
+        isLoading={storedVersions === null}
+        onRestore={handleRestoreVersion}
+        onClose={() => setHistoryKind(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,150 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Job, JobStatus } from '../types';
+import { GripVertical, MapPin } from 'lucide-react';
+
+interface KanbanBoardProps {
+  jobs: Job[];
+  onUpdateStatus: (id: string, status: JobStatus) => void;
+  onSelect: (job: Job) => void;
+}
+
+type ColumnSort = 'newest' | 'oldest' | 'company' | 'match';
+
+const COLUMNS: { status: JobStatus, accent: string }[] = [
+  { status: JobStatus.DETECTED, accent: 'bg-blue-500' },
+  { status: JobStatus.REVIEW, accent: 'bg-sky-500' },
+  { status: JobStatus.SAVED, accent: 'bg-slate-500' },
+  { status: JobStatus.APPLIED_MANUAL, accent: 'bg-blue-600' },
+  { status: JobStatus.APPLIED_AUTO, accent: 'bg-indigo-600' },
+  { status: JobStatus.INTERVIEW, accent: 'bg-purple-600' },
+  { status: JobStatus.OFFER, accent: 'bg-green-600' },
+  { status: JobStatus.REJECTED, accent: 'bg-red-500' }
+];
+
+const sortJobs = (jobs: Job[], sort: ColumnSort) => [...jobs].sort((a, b) => {
+  switch (sort) {
+    case 'oldest': return a.detectedAt.localeCompare(b.detectedAt);
+    case 'company': return a.company.localeCompare(b.company);
+    case 'match': return (b.matchScore || 0) - (a.matchScore || 0);
+    default: return b.detectedAt.localeCompare(a.detectedAt);
+  }
+});
+
+export const KanbanBoard: React.FC<KanbanBoardProps> = ({ jobs, onUpdateStatus, onSelect }) => {
+  const [columnSort, setColumnSort] = useState<Partial<Record<JobStatus, ColumnSort>>>({});
+  const [dragOver, setDragOver] = useState<JobStatus | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [focusJobId, setFocusJobId] = useState<string | null>(null);
+  const cardRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+
+  // Keep keyboard focus on a card after it moves to another column
+  useEffect(() => {
+    if (!focusJobId) return;
+    cardRefs.current.get(focusJobId)?.focus();
+    setFocusJobId(null);
+  }, [jobs, focusJobId]);
+
+  const moveJob = (job: Job, status: JobStatus) => {
+    if (job.status === status) return;
+    onUpdateStatus(job.id, status);
+    setAnnouncement(`${job.title} at ${job.company} moved to ${status}.`);
+  };
+
+  const handleDrop = (e: React.DragEvent, status: JobStatus) => {
+    e.preventDefault();
+    setDragOver(null);
+    const job = jobs.find(j => j.id === e.dataTransfer.getData('text/plain'));
+    if (job) moveJob(job, status);
+  };
+
+  const handleCardKeyDown = (e: React.KeyboardEvent, job: Job) => {
+    const index = COLUMNS.findIndex(c => c.status === job.status);
+    if (e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+      e.preventDefault();
+      const target = COLUMNS[index + (e.key === 'ArrowRight' ? 1 : -1)];
+      if (!target) return;
+      setFocusJobId(job.id);
+      moveJob(job, target.status);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      onSelect(job);
+    }
+  };
+
+  return (
+    <div className="flex gap-4 h-full overflow-x-auto pb-4 custom-scrollbar">
+      <p id="kanban-instructions" className="sr-only">Use the left and right arrow keys to move a card between columns. Press Enter to open it.</p>
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+
+      {COLUMNS.map(({ status, accent }) => {
+        const sort = columnSort[status] || 'newest';
+        const columnJobs = sortJobs(jobs.filter(j => j.status === status), sort);
+
+        return (
+          <section
+            key={status}
+            aria-label={`${status} column, ${columnJobs.length} jobs`}
+            onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'move'; setDragOver(status); }}
+            onDragLeave={() => setDragOver(current => current === status ? null : current)}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`w-72 shrink-0 flex flex-col rounded-xl border transition-colors ${dragOver === status ? 'bg-indigo-50 border-indigo-300' : 'bg-slate-100/60 border-slate-200'}`}
+          >
+            <div className="p-3 border-b border-slate-200 bg-white rounded-t-xl">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className={`w-2 h-2 rounded-full shrink-0 ${accent}`}></span>
+                  <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider truncate">{status}</h3>
+                </div>
+                <span className="text-xs font-bold text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full" title="Work in progress">{columnJobs.length}</span>
+              </div>
+              <select
+                value={sort}
+                onChange={(e) => setColumnSort(prev => ({ ...prev, [status]: e.target.value as ColumnSort }))}
+                aria-label={`Sort ${status} column`}
+                className="mt-2 w-full text-[11px] text-slate-500 bg-slate-50 border border-slate-200 rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer"
+              >
+                <option value="newest">Newest first</option>
+                <option value="oldest">Oldest first</option>
+                <option value="company">Company A-Z</option>
+                <option value="match">Best match</option>
+              </select>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+              {columnJobs.map(job => (
+                <div
+                  key={job.id}
+                  ref={(el) => { if (el) cardRefs.current.set(job.id, el); else cardRefs.current.delete(job.id); }}
+                  draggable
+                  tabIndex={0}
+                  role="button"
+                  aria-describedby="kanban-instructions"
+                  onDragStart={(e) => { e.dataTransfer.setData('text/plain', job.id); e.dataTransfer.effectAllowed = 'move'; }}
+                  onDragEnd={() => setDragOver(null)}
+                  onKeyDown={(e) => handleCardKeyDown(e, job)}
+                  onClick={() => onSelect(job)}
+                  className="p-3 bg-white border border-slate-200 rounded-lg shadow-sm cursor-grab active:cursor-grabbing hover:border-indigo-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-colors group"
+                >
+                  <div className="flex items-start gap-2">
+                    <GripVertical className="w-4 h-4 text-slate-300 shrink-0 mt-0.5 group-hover:text-slate-400" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-medium text-slate-900 truncate">{job.title}</div>
+                      <div className="text-xs text-slate-500 truncate">{job.company}</div>
+                      <div className="flex items-center justify-between mt-2 text-[10px] text-slate-400">
+                        <span className="flex items-center truncate"><MapPin className="w-3 h-3 mr-1 shrink-0" />{job.location}</span>
+                        <span className="font-bold shrink-0 ml-2">{job.matchScore}%</span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              {columnJobs.length === 0 && (
+                <div className="text-[11px] text-slate-400 text-center py-6 border border-dashed border-slate-200 rounded-lg">Drop jobs here</div>
+              )}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Job } from '../types';
+import { X, Copy, Loader2, FileText, StickyNote, MapPin, Building2, Check } from 'lucide-react';
+import { canonicalJobUrl, mergeJobGroup } from '../services/jobDedupService';
+
+interface MergeJobsModalProps {
+  isOpen: boolean;
+  groups: Job[][];
+  // Opens on the group containing this job
+  startJobId?: string | null;
+  onClose: () => void;
+  onMerge: (group: Job[], primaryId: string) => Promise<void>;
+  onMarkDistinct: (group: Job[]) => Promise<void>;
+}
+
+export const MergeJobsModal: React.FC<MergeJobsModalProps> = ({ isOpen, groups, startJobId, onClose, onMerge, onMarkDistinct }) => {
+  const [index, setIndex] = useState(0);
+  const [primaryId, setPrimaryId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const start = startJobId ? groups.findIndex(group => group.some(job => job.id === startJobId)) : -1;
+    setIndex(Math.max(start, 0));
+  }, [isOpen, startJobId]);
+
+  // Merging or dismissing removes the group from `groups`, so the same index shows the next one
+  const group = groups[Math.min(index, groups.length - 1)];
+  useEffect(() => {
+    if (isOpen && groups.length === 0) onClose();
+  }, [isOpen, groups.length]);
+
+  useEffect(() => {
+    setPrimaryId(group ? mergeJobGroup(group).merged.id : null);
+  }, [group?.map(job => job.id).join(',')]);
+
+  if (!isOpen || !group) return null;
+
+  const { merged, duplicateIds } = mergeJobGroup(group, primaryId || undefined);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-8 border-b border-slate-200 sticky top-0 bg-white z-10">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-amber-50 rounded-2xl">
+              <Copy className="w-6 h-6 text-amber-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-slate-900">Possible Duplicates</h2>
+              <p className="text-sm text-slate-500 font-medium mt-1">
+                Group {Math.min(index, groups.length - 1) + 1} of {groups.length} · pick the record to keep
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors" disabled={isSaving}>
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {group.map(job => {
+              const isPrimary = job.id === merged.id;
+              return (
+                <button
+                  key={job.id}
+                  onClick={() => setPrimaryId(job.id)}
+                  className={`text-left p-5 rounded-2xl border transition-all ${isPrimary ? 'border-indigo-500 ring-1 ring-indigo-500 bg-indigo-50/40' : 'border-slate-200 hover:border-indigo-300'}`}
+                >
+                  <div className="flex justify-between items-start gap-3 mb-2">
+                    <h3 className="font-bold text-slate-900 leading-tight">{job.title}</h3>
+                    {isPrimary && (
+                      <span className="text-[10px] font-black uppercase tracking-widest px-2 py-1 rounded-lg bg-indigo-600 text-white flex items-center shrink-0">
+                        <Check className="w-3 h-3 me-1" /> Keep
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500 flex items-center"><Building2 className="w-3 h-3 me-1.5" /> {job.company}</p>
+                  <p className="text-xs text-slate-500 flex items-center mt-1"><MapPin className="w-3 h-3 me-1.5" /> {job.location || '—'}</p>
+                  <div className="flex flex-wrap gap-2 mt-3 text-[10px] font-black uppercase tracking-widest">
+                    <span className="px-2 py-1 rounded-lg bg-slate-100 text-slate-600">{job.status}</span>
+                    <span className="px-2 py-1 rounded-lg bg-slate-100 text-slate-500">{job.source}</span>
+                    {job.customizedResume && <span className="px-2 py-1 rounded-lg bg-indigo-50 text-indigo-600 flex items-center"><FileText className="w-3 h-3 me-1" /> Resume</span>}
+                    {job.coverLetter && <span className="px-2 py-1 rounded-lg bg-purple-50 text-purple-600 flex items-center"><StickyNote className="w-3 h-3 me-1" /> Letter</span>}
+                  </div>
+                  {job.notes && <p className="text-xs text-slate-600 mt-3 line-clamp-2 italic">{job.notes}</p>}
+                  <p className="text-[10px] text-slate-400 mt-3 truncate">
+                    Added {new Date(job.detectedAt).toLocaleDateString()} · {canonicalJobUrl(job.canonicalUrl) || canonicalJobUrl(job.applicationUrl) || 'no link'}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="bg-slate-50 border border-slate-200 rounded-2xl p-5 text-xs text-slate-600 space-y-1">
+            <p className="font-black text-slate-800 uppercase tracking-widest text-[10px] mb-2">After merging</p>
+            <p><span className="font-bold">{merged.title}</span> at {merged.company} · {merged.location} · {merged.status}</p>
+            <p>
+              {merged.customizedResume ? 'Tailored resume kept' : 'No tailored resume'} · {merged.coverLetter ? 'cover letter kept' : 'no cover letter'}
+              {merged.notes ? ` · notes from ${group.filter(job => job.notes?.trim()).length} records` : ''}
+            </p>
+            <p>{duplicateIds.length} other record{duplicateIds.length === 1 ? '' : 's'} will be deleted; their interviews move to the kept job.</p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-8 border-t border-slate-200">
+          <button
+            onClick={() => run(() => onMarkDistinct(group))}
+            disabled={isSaving}
+            className="px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest text-slate-500 hover:bg-slate-100 disabled:opacity-50"
+          >
+            Not duplicates
+          </button>
+          <div className="flex gap-3">
+            {groups.length > 1 && (
+              <button
+                onClick={() => setIndex((index + 1) % groups.length)}
+                disabled={isSaving}
+                className="px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest text-slate-600 border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Skip
+              </button>
+            )}
+            <button
+              onClick={() => run(() => onMerge(group, merged.id))}
+              disabled={isSaving}
+              className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest flex items-center gap-2 hover:bg-indigo-700 shadow-xl shadow-indigo-100 disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Merge {group.length} Jobs
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,14 @@
 
 import React, { useEffect } from 'react';
-import { X, CheckCircle, AlertCircle } from 'lucide-react';
+import { X, CheckCircle, AlertCircle, Bell } from 'lucide-react';
 
-export type NotificationType = 'success' | 'error';
+export type NotificationType = 'success' | 'error' | 'reminder';
+
+const TOAST_STYLES: Record<NotificationType, { border: string, badge: string, title: string, label: string }> = {
+  success: { border: 'border-green-500', badge: 'bg-green-100 text-green-600', title: 'text-green-800', label: 'Success' },
+  error: { border: 'border-red-500', badge: 'bg-red-100 text-red-600', title: 'text-red-800', label: 'Error' },
+  reminder: { border: 'border-amber-500', badge: 'bg-amber-100 text-amber-600', title: 'text-amber-800', label: 'Reminder' }
+};
 
 interface NotificationToastProps {
   message: string;
@@ -18,16 +24,16 @@ export const NotificationToast: React.FC<NotificationToastProps> = ({ message, t
     return () => clearTimeout(timer);
   }, [onClose]);
 
+  const style = TOAST_STYLES[type];
+
   return (
-    <div className={`fixed top-20 right-6 z-50 max-w-sm w-full bg-white rounded-xl shadow-2xl border-l-4 flex items-start p-4 animate-in slide-in-from-right-10 fade-in duration-300 ${
-        type === 'success' ? 'border-green-500' : 'border-red-500'
-    }`}>
-      <div className={`p-1 rounded-full mr-3 shrink-0 ${type === 'success' ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
-        {type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+    <div className={`fixed top-20 right-6 z-50 max-w-sm w-full bg-white rounded-xl shadow-2xl border-l-4 flex items-start p-4 animate-in slide-in-from-right-10 fade-in duration-300 ${style.border}`}>
+      <div className={`p-1 rounded-full mr-3 shrink-0 ${style.badge}`}>
+        {type === 'success' ? <CheckCircle className="w-5 h-5" /> : type === 'reminder' ? <Bell className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
       </div>
       <div className="flex-1 mr-2">
-        <h4 className={`text-sm font-bold ${type === 'success' ? 'text-green-800' : 'text-red-800'}`}>
-            {type === 'success' ? 'Success' : 'Error'}
+        <h4 className={`text-sm font-bold ${style.title}`}>
+            {style.label}
         </h4>
         <p className="text-sm text-slate-600 mt-0.5 leading-snug">{message}</p>
       </div>
@@ -5,7 +5,11 @@ import { Upload, User, Briefcase, Check, Globe, Loader2, FileText } from 'lucide
 import { createVirtualDirectory } from '../services/fileSystemService';
 import { NotificationType } from './NotificationToast';
 import { translations, LanguageCode } from '../services/localization';
-import { saveUserProfile } from '../services/dbService';
+import { saveUserProfile, uploadResumeFile } from '../services/dbService';
+import { PRIMARY_RESUME_ID } from '../services/masterResumes';
+import { resumeFromProfile } from '../services/resumeParser';
+import { ExtractedResume, RESUME_FILE_ACCEPT, RESUME_MIME_TYPES, extractResumeText } from '../services/resumeImport';
+import { ResumeImportModal } from './ResumeImportModal';
 
 interface OnboardingProps {
   onComplete: (profile: UserProfile) => void;
@@ -19,6 +23,9 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onDirHandleC
   const { getToken } = useAuth();
   const [step, setStep] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ file: File, extracted: ExtractedResume } | null>(null);
+  const [resumeFile, setResumeFile] = useState<{ file: File, mimeType: string } | null>(null);
   
   const [currentLang, setCurrentLang] = useState<LanguageCode>('en');
 
@@ -44,26 +51,30 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onDirHandleC
       }
   }, [step, dirHandle, onDirHandleChange]);
 
-  const handleFileRead = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileRead = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
-    if (file.type === "text/plain") {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-            setFormData(prev => ({
-                ...prev,
-                resumeContent: event.target?.result as string,
-                resumeFileName: file.name
-            }));
-            showNotification("Resume loaded successfully", 'success');
-        };
-        reader.readAsText(file);
-    } else {
-        showNotification("Please upload a .txt file", 'error');
+    setIsExtracting(true);
+    try {
+        setPendingImport({ file, extracted: await extractResumeText(file) });
+    } catch (err: any) {
+        showNotification(err.message || "Failed to read the file", 'error');
+    } finally {
+        setIsExtracting(false);
     }
   };
 
+  const handleImportApply = (text: string) => {
+    if (!pendingImport) return;
+    const { file, extracted } = pendingImport;
+    setFormData(prev => ({ ...prev, resumeContent: text, resumeFileName: file.name }));
+    setResumeFile({ file, mimeType: RESUME_MIME_TYPES[extracted.kind] });
+    setPendingImport(null);
+    showNotification("Resume loaded successfully", 'success');
+  };
+
   const handleSubmit = async () => {
     setIsLoading(true);
 
@@ -71,13 +82,15 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onDirHandleC
         const token = await getToken();
         if (!token) throw new Error("Authentication required");
 
+        const email = user!.primaryEmailAddress?.emailAddress || '';
         const profile: UserProfile = {
             id: user!.id,
             fullName: formData.fullName,
-            email: user!.primaryEmailAddress?.emailAddress || '',
+            email,
             // Fix: Removed password field as it is not present in UserProfile type
             phone: formData.phone,
             resumeContent: formData.resumeContent,
+            resume: resumeFromProfile({ fullName: formData.fullName, email, phone: formData.phone, resumeContent: formData.resumeContent }),
             resumeFileName: formData.resumeFileName,
             onboardedAt: new Date().toISOString(),
             preferences: {
@@ -92,6 +105,11 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onDirHandleC
         };
 
         await saveUserProfile(profile, token);
+        if (resumeFile) {
+            // The extracted text is what the app uses; a failed upload of the original shouldn't block setup
+            await uploadResumeFile(resumeFile.file, resumeFile.mimeType, PRIMARY_RESUME_ID, token)
+                .catch((err: any) => showNotification(`Your original resume file couldn't be stored: ${err.message}`, 'error'));
+        }
         onComplete(profile);
         
     } catch (err: any) {
@@ -205,13 +223,13 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onDirHandleC
                     </div>
                     
                     <div className="relative group">
-                        <input type="file" accept=".txt" onChange={handleFileRead} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
+                        <input type="file" accept={RESUME_FILE_ACCEPT} onChange={handleFileRead} disabled={isExtracting} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
                         <div className="border-2 border-dashed border-slate-200 rounded-[2rem] p-10 text-center bg-slate-50/50 group-hover:border-indigo-500 group-hover:bg-indigo-50 transition-all duration-300">
                              <div className="bg-white p-4 rounded-3xl shadow-lg border border-slate-100 mb-4 inline-block transform group-hover:scale-110 transition-transform">
-                                <FileText className="w-10 h-10 text-indigo-600" />
+                                {isExtracting ? <Loader2 className="w-10 h-10 text-indigo-600 animate-spin" /> : <FileText className="w-10 h-10 text-indigo-600" />}
                             </div>
                             <h3 className="text-slate-900 font-black text-sm uppercase tracking-widest mb-2">{t('click_upload')}</h3>
-                            <span className="text-slate-400 text-[10px] font-bold uppercase">Standard Text Format (.txt)</span>
+                            <span className="text-slate-400 text-[10px] font-bold uppercase">{formData.resumeFileName || 'PDF, Word (.docx) or Text (.txt)'}</span>
                         </div>
                     </div>
 
@@ -228,6 +246,14 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete, onDirHandleC
             )}
         </div>
       </div>
+      <ResumeImportModal
+        isOpen={!!pendingImport}
+        fileName={pendingImport?.file.name || ''}
+        extracted={pendingImport?.extracted || null}
+        currentText={formData.resumeContent}
+        onApply={handleImportApply}
+        onCancel={() => setPendingImport(null)}
+      />
       <div className="mt-12 text-center">
         <p className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-400">&copy; 2025 JobFlow Platform</p>
       </div>
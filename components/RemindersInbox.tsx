@@ -0,0 +1,106 @@
+import React, { useState, useMemo } from 'react';
+import { Job, Reminder } from '../types';
+import { Bell, BellOff, CheckCheck, ExternalLink, Inbox, X } from 'lucide-react';
+
+interface RemindersInboxProps {
+  reminders: Reminder[];
+  jobs: Job[];
+  onUpdateStatus: (ids: string[], status: Reminder['status']) => void;
+  onSelectJob: (job: Job) => void;
+}
+
+export const RemindersInbox: React.FC<RemindersInboxProps> = ({ reminders, jobs, onUpdateStatus, onSelectJob }) => {
+  const [filter, setFilter] = useState<'unread' | 'all'>('unread');
+
+  const visible = useMemo(() =>
+    reminders
+      .filter(r => r.status !== 'dismissed' && (filter === 'all' || r.status === 'unread'))
+      .sort((a, b) => b.dueAt.localeCompare(a.dueAt)),
+  [reminders, filter]);
+
+  const unreadIds = reminders.filter(r => r.status === 'unread').map(r => r.id);
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50">
+      <div className="p-6 bg-white border-b border-slate-200">
+        <div className="flex items-center justify-between mb-4">
+            <h1 className="text-2xl font-bold text-slate-900">Reminders</h1>
+            <button
+                onClick={() => onUpdateStatus(unreadIds, 'read')}
+                disabled={unreadIds.length === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40 transition-colors"
+            >
+                <CheckCheck className="w-4 h-4" /> Mark all read
+            </button>
+        </div>
+        <div className="flex items-center gap-4">
+             <button
+                onClick={() => setFilter('unread')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors border ${filter === 'unread' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+             >
+                 Unread ({unreadIds.length})
+             </button>
+             <button
+                onClick={() => setFilter('all')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors border ${filter === 'all' ? 'bg-slate-600 text-white border-slate-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+             >
+                 All
+             </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        {visible.length === 0 ? (
+            <div className="h-64 flex flex-col items-center justify-center border-2 border-dashed border-slate-200 rounded-[2rem] text-slate-400">
+                <Inbox className="w-10 h-10 mb-4 opacity-20" />
+                <p className="font-bold text-xs uppercase tracking-widest text-center">No {filter === 'unread' ? 'unread ' : ''}reminders.<br/>Rules are configured in Settings.</p>
+            </div>
+        ) : (
+            <div className="bg-white border border-slate-200 rounded-xl shadow-sm divide-y divide-slate-100">
+                {visible.map(reminder => {
+                    const job = jobs.find(j => j.id === reminder.jobId);
+                    return (
+                        <div key={reminder.id} className={`p-4 flex items-start gap-4 ${reminder.status === 'unread' ? 'bg-amber-50/40' : ''}`}>
+                            <div className={`p-2 rounded-lg shrink-0 ${reminder.status === 'unread' ? 'bg-amber-100 text-amber-600' : 'bg-slate-100 text-slate-400'}`}>
+                                {reminder.status === 'unread' ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <p className={`text-sm ${reminder.status === 'unread' ? 'font-bold text-slate-900' : 'text-slate-600'}`}>{reminder.message}</p>
+                                <p className="text-xs text-slate-400 mt-1">Due {new Date(reminder.dueAt).toLocaleString()}</p>
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                                {job && (
+                                    <button
+                                        onClick={() => { onSelectJob(job); if (reminder.status === 'unread') onUpdateStatus([reminder.id], 'read'); }}
+                                        className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                                        title="Open Job"
+                                    >
+                                        <ExternalLink className="w-4 h-4" />
+                                    </button>
+                                )}
+                                {reminder.status === 'unread' && (
+                                    <button
+                                        onClick={() => onUpdateStatus([reminder.id], 'read')}
+                                        className="p-2 text-slate-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                                        title="Mark Read"
+                                    >
+                                        <CheckCheck className="w-4 h-4" />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => onUpdateStatus([reminder.id], 'dismissed')}
+                                    className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                    title="Dismiss"
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Resume } from '../types';
+import { Plus, Trash2 } from 'lucide-react';
+import { createResumeId } from '../services/resumeModel';
+
+interface ResumeEditorProps {
+  resume: Resume;
+  onChange: (resume: Resume) => void;
+}
+
+const inputClass = "w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500 transition-all";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest";
+
+type ListKey = 'experience' | 'education' | 'certifications' | 'projects' | 'extraSections';
+type ListEntry<K extends ListKey> = Resume[K][number];
+
+const splitList = (text: string, separator: RegExp) => text.split(separator).map(item => item.trim()).filter(Boolean);
+
+/**
+ * Textarea or input for a string list (bullets, skills). Keeps the raw text while typing, so a new
+ * empty line or a trailing comma isn't swallowed by the round trip through the list.
+ */
+const ListField: React.FC<{ value: string[], onChange: (value: string[]) => void, multiline?: boolean, placeholder?: string }> = ({ value, onChange, multiline, placeholder }) => {
+  const separator = multiline ? /\n/ : /,/;
+  const joiner = multiline ? '\n' : ', ';
+  const [draft, setDraft] = useState(value.join(joiner));
+
+  // Only resync when the list changed from outside, not when it is the parse of what was typed
+  useEffect(() => {
+    if (splitList(draft, separator).join('\u0000') !== value.join('\u0000')) setDraft(value.join(joiner));
+  }, [value]);
+
+  const update = (text: string) => {
+    setDraft(text);
+    onChange(splitList(text, separator));
+  };
+
+  return multiline
+    ? <textarea className={`${inputClass} h-28 resize-y font-medium leading-relaxed`} value={draft} placeholder={placeholder} onChange={e => update(e.target.value)} />
+    : <input type="text" className={inputClass} value={draft} placeholder={placeholder} onChange={e => update(e.target.value)} />;
+};
+
+const TextField: React.FC<{ label: string, value: string, onChange: (value: string) => void, placeholder?: string }> = ({ label, value, onChange, placeholder }) => (
+  <label className="space-y-2 block">
+    <span className={labelClass}>{label}</span>
+    <input type="text" className={inputClass} value={value} placeholder={placeholder} onChange={e => onChange(e.target.value)} />
+  </label>
+);
+
+const SectionHeader: React.FC<{ title: string, onAdd?: () => void }> = ({ title, onAdd }) => (
+  <div className="flex items-center justify-between">
+    <h4 className="text-xs font-black uppercase tracking-widest text-slate-800">{title}</h4>
+    {onAdd && (
+      <button onClick={onAdd} className="flex items-center gap-1 px-3 py-1.5 bg-indigo-50 text-indigo-600 rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition-all border border-indigo-100">
+        <Plus className="w-3 h-3" /> Add
+      </button>
+    )}
+  </div>
+);
+
+const EntryCard: React.FC<{ onRemove: () => void, children: React.ReactNode }> = ({ onRemove, children }) => (
+  <div className="relative p-5 bg-white rounded-2xl border border-slate-200 space-y-3">
+    <button onClick={onRemove} className="absolute top-4 right-4 p-1.5 text-slate-300 hover:text-red-500 transition-colors" title="Remove">
+      <Trash2 className="w-4 h-4" />
+    </button>
+    {children}
+  </div>
+);
+
+/**
+ * Form editor for the structured master resume: contact, summary, experience, education, skills,
+ * certifications, projects and any extra sections the parser kept.
+ */
+export const ResumeEditor: React.FC<ResumeEditorProps> = ({ resume, onChange }) => {
+  const set = <K extends keyof Resume>(key: K, value: Resume[K]) => onChange({ ...resume, [key]: value });
+
+  // Updates, removes and appends entries of one of the list sections; the entry type follows the key
+  const listOps = <K extends ListKey>(key: K, blank: (id: string) => ListEntry<K>, prefix: string) => {
+    const entries: ListEntry<K>[] = resume[key];
+    const setEntries = (next: ListEntry<K>[]) => onChange({ ...resume, [key]: next });
+    return {
+      update: (id: string, patch: Partial<ListEntry<K>>) => setEntries(entries.map(entry => entry.id === id ? { ...entry, ...patch } : entry)),
+      remove: (id: string) => setEntries(entries.filter(entry => entry.id !== id)),
+      add: () => setEntries([...entries, blank(createResumeId(prefix))])
+    };
+  };
+
+  const experience = listOps('experience', id => ({ id, title: '', company: '', location: '', startDate: '', endDate: '', bullets: [] }), 'exp');
+  const education = listOps('education', id => ({ id, institution: '', degree: '', location: '', startDate: '', endDate: '', details: [] }), 'edu');
+  const certifications = listOps('certifications', id => ({ id, name: '', issuer: '', date: '' }), 'cert');
+  const projects = listOps('projects', id => ({ id, name: '', url: '', description: '', bullets: [] }), 'proj');
+  const extraSections = listOps('extraSections', id => ({ id, title: '', lines: [] }), 'sec');
+
+  const setContact = (patch: Partial<Resume['contact']>) => set('contact', { ...resume.contact, ...patch });
+
+  return (
+    <div className="space-y-10">
+      <div className="space-y-4">
+        <SectionHeader title="Contact" />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <TextField label="Name" value={resume.contact.name} onChange={name => setContact({ name })} />
+          <TextField label="Email" value={resume.contact.email} onChange={email => setContact({ email })} />
+          <TextField label="Phone" value={resume.contact.phone} onChange={phone => setContact({ phone })} />
+          <TextField label="Location" value={resume.contact.location} onChange={location => setContact({ location })} placeholder="e.g. Austin, TX" />
+        </div>
+        <div className="space-y-2">
+          <span className={labelClass}>Links</span>
+          <ListField value={resume.contact.links} onChange={links => setContact({ links })} placeholder="linkedin.com/in/you, github.com/you" />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <SectionHeader title="Summary" />
+        <textarea className={`${inputClass} h-24 resize-y font-medium leading-relaxed`} value={resume.summary} onChange={e => set('summary', e.target.value)} />
+      </div>
+
+      <div className="space-y-4">
+        <SectionHeader title="Experience" onAdd={experience.add} />
+        {resume.experience.map(entry => (
+          <EntryCard key={entry.id} onRemove={() => experience.remove(entry.id)}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pr-8">
+              <TextField label="Title" value={entry.title} onChange={title => experience.update(entry.id, { title })} />
+              <TextField label="Company" value={entry.company} onChange={company => experience.update(entry.id, { company })} />
+              <TextField label="Location" value={entry.location} onChange={location => experience.update(entry.id, { location })} />
+              <div className="grid grid-cols-2 gap-3">
+                <TextField label="Start" value={entry.startDate} onChange={startDate => experience.update(entry.id, { startDate })} placeholder="Jan 2020" />
+                <TextField label="End" value={entry.endDate} onChange={endDate => experience.update(entry.id, { endDate })} placeholder="Present" />
+              </div>
+            </div>
+            <span className={labelClass}>Bullets, one per line</span>
+            <ListField multiline value={entry.bullets} onChange={bullets => experience.update(entry.id, { bullets })} />
+          </EntryCard>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <SectionHeader title="Education" onAdd={education.add} />
+        {resume.education.map(entry => (
+          <EntryCard key={entry.id} onRemove={() => education.remove(entry.id)}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pr-8">
+              <TextField label="Institution" value={entry.institution} onChange={institution => education.update(entry.id, { institution })} />
+              <TextField label="Degree" value={entry.degree} onChange={degree => education.update(entry.id, { degree })} />
+              <TextField label="Location" value={entry.location} onChange={location => education.update(entry.id, { location })} />
+              <div className="grid grid-cols-2 gap-3">
+                <TextField label="Start" value={entry.startDate} onChange={startDate => education.update(entry.id, { startDate })} />
+                <TextField label="End" value={entry.endDate} onChange={endDate => education.update(entry.id, { endDate })} />
+              </div>
+            </div>
+            <span className={labelClass}>Details, one per line</span>
+            <ListField multiline value={entry.details} onChange={details => education.update(entry.id, { details })} />
+          </EntryCard>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <SectionHeader title="Skills" />
+        <ListField value={resume.skills} onChange={skills => set('skills', skills)} placeholder="TypeScript, React, Node.js" />
+      </div>
+
+      <div className="space-y-4">
+        <SectionHeader title="Certifications" onAdd={certifications.add} />
+        {resume.certifications.map(cert => (
+          <EntryCard key={cert.id} onRemove={() => certifications.remove(cert.id)}>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 pr-8">
+              <TextField label="Name" value={cert.name} onChange={name => certifications.update(cert.id, { name })} />
+              <TextField label="Issuer" value={cert.issuer} onChange={issuer => certifications.update(cert.id, { issuer })} />
+              <TextField label="Date" value={cert.date} onChange={date => certifications.update(cert.id, { date })} />
+            </div>
+          </EntryCard>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <SectionHeader title="Projects" onAdd={projects.add} />
+        {resume.projects.map(project => (
+          <EntryCard key={project.id} onRemove={() => projects.remove(project.id)}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pr-8">
+              <TextField label="Name" value={project.name} onChange={name => projects.update(project.id, { name })} />
+              <TextField label="URL" value={project.url} onChange={url => projects.update(project.id, { url })} />
+            </div>
+            <TextField label="Description" value={project.description} onChange={description => projects.update(project.id, { description })} />
+            <span className={labelClass}>Bullets, one per line</span>
+            <ListField multiline value={project.bullets} onChange={bullets => projects.update(project.id, { bullets })} />
+          </EntryCard>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <SectionHeader title="Other Sections" onAdd={extraSections.add} />
+        {resume.extraSections.map(section => (
+          <EntryCard key={section.id} onRemove={() => extraSections.remove(section.id)}>
+            <div className="pr-8">
+              <TextField label="Heading" value={section.title} onChange={title => extraSections.update(section.id, { title })} placeholder="e.g. Languages" />
+            </div>
+            <ListField multiline value={section.lines} onChange={lines => extraSections.update(section.id, { lines })} />
+          </EntryCard>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, FileUp, AlertTriangle, Check } from 'lucide-react';
+import { ExtractedResume } from '../services/resumeImport';
+import { diffLines, summarizeDiff } from '../services/textDiff';
+import { parseResumeText } from '../services/resumeParser';
+
+interface ResumeImportModalProps {
+  isOpen: boolean;
+  fileName: string;
+  extracted: ExtractedResume | null;
+  // The resume text the import replaces; empty on first upload
+  currentText: string;
+  onApply: (text: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Review step for an uploaded resume: the extracted text can be corrected before it replaces the
+ * current resume, with a line diff against the current text and the sections the parser recognises.
+ */
+export const ResumeImportModal: React.FC<ResumeImportModalProps> = ({ isOpen, fileName, extracted, currentText, onApply, onCancel }) => {
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    if (isOpen && extracted) setDraft(extracted.text);
+  }, [isOpen, extracted]);
+
+  const diff = useMemo(() => diffLines(currentText, draft), [currentText, draft]);
+  const { added, removed } = summarizeDiff(diff);
+  const parsed = useMemo(() => parseResumeText(draft), [draft]);
+
+  if (!isOpen || !extracted) return null;
+
+  const sections = [
+    parsed.summary && 'Summary',
+    parsed.experience.length > 0 && `${parsed.experience.length} experience`,
+    parsed.education.length > 0 && `${parsed.education.length} education`,
+    parsed.skills.length > 0 && `${parsed.skills.length} skills`,
+    parsed.certifications.length > 0 && `${parsed.certifications.length} certifications`,
+    parsed.projects.length > 0 && `${parsed.projects.length} projects`,
+    ...parsed.extraSections.map(section => section.title)
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-6xl mx-4 max-h-[90vh] flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-8 border-b border-slate-200">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-50 rounded-2xl">
+              <FileUp className="w-6 h-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-slate-900">Review Imported Resume</h2>
+              <p className="text-sm text-slate-500 font-medium mt-1">
+                {fileName} · fix anything the extraction got wrong before saving
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-4 overflow-y-auto">
+          {extracted.warnings.length > 0 && (
+            <div className="bg-amber-50 border border-amber-100 rounded-2xl p-4 text-xs text-amber-800 font-medium space-y-1">
+              {extracted.warnings.map((warning, i) => (
+                <p key={i} className="flex items-start gap-2"><AlertTriangle className="w-4 h-4 shrink-0" /> {warning}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Extracted text</p>
+              <textarea
+                className="w-full h-[50vh] p-5 bg-slate-50 border border-slate-200 rounded-2xl font-mono text-xs leading-relaxed text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                {currentText ? `Changes from current resume · +${added} −${removed}` : 'New resume'}
+              </p>
+              <div className="h-[50vh] overflow-y-auto p-5 bg-white border border-slate-200 rounded-2xl font-mono text-xs leading-relaxed">
+                {diff.map((line, i) => (
+                  <div
+                    key={i}
+                    className={`whitespace-pre-wrap px-2 ${line.type === 'added' ? 'bg-green-50 text-green-800' : line.type === 'removed' ? 'bg-red-50 text-red-700 line-through' : 'text-slate-500'}`}
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '− ' : '  '}{line.text || ' '}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500 font-medium">
+            <span className="font-black text-slate-700 uppercase tracking-widest text-[10px] me-2">Detected</span>
+            {sections.length > 0 ? sections.join(' · ') : 'No sections recognised yet. Put headings like EXPERIENCE and SKILLS on their own lines.'}
+          </p>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-8 border-t border-slate-200">
+          <button
+            onClick={onCancel}
+            className="px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest text-slate-500 hover:bg-slate-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(draft.trim())}
+            disabled={!draft.trim()}
+            className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest flex items-center gap-2 hover:bg-indigo-700 shadow-xl shadow-indigo-100 disabled:opacity-50"
+          >
+            <Check className="w-4 h-4" /> Use This Text
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { ScanRun, ScanRunMessage } from '../types';
+import { History, ChevronLeft, CheckCircle, AlertCircle, Loader2, PlayCircle, ExternalLink } from 'lucide-react';
+
+interface ScanHistoryProps {
+  runs: ScanRun[];
+  // Loads a run with its per-email breakdown
+  onLoadRun: (id: string) => Promise<ScanRun | null>;
+  // Re-runs extraction on one email of a run (DebugView)
+  onReplayMessage?: (run: ScanRun, messageId: string) => void;
+}
+
+const OUTCOME_LABELS: Record<ScanRunMessage['outcome'], { label: string, className: string }> = {
+  jobs: { label: 'Jobs found', className: 'bg-green-50 text-green-700 border-green-200' },
+  no_jobs: { label: 'No jobs', className: 'bg-slate-50 text-slate-500 border-slate-200' },
+  skipped: { label: 'Already scanned', className: 'bg-slate-50 text-slate-400 border-slate-200' },
+  error: { label: 'Error', className: 'bg-red-50 text-red-600 border-red-200' }
+};
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const mailboxAddress = (mailbox: string) => mailbox.slice(mailbox.indexOf(':') + 1);
+
+export const ScanHistory: React.FC<ScanHistoryProps> = ({ runs, onLoadRun, onReplayMessage }) => {
+  const [selectedRun, setSelectedRun] = useState<ScanRun | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+
+  const handleSelect = async (run: ScanRun) => {
+    setLoadingId(run.id);
+    const detailed = await onLoadRun(run.id);
+    setLoadingId(null);
+    setSelectedRun(detailed || run);
+  };
+
+  if (selectedRun) {
+    const run = selectedRun;
+    return (
+      <div className="flex flex-col h-full">
+        <div className="p-4 border-b border-slate-200 bg-white flex items-center gap-2">
+          <button onClick={() => setSelectedRun(null)} className="p-1 text-slate-400 hover:text-slate-700" title="Back to history">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <div className="min-w-0">
+            <h3 className="font-semibold text-slate-700 text-sm truncate">{mailboxAddress(run.mailbox)}</h3>
+            <p className="text-[10px] text-slate-400">
+              {run.trigger === 'scheduled' ? 'Scheduled' : 'Manual'} scan · {new Date(run.startedAt).toLocaleString()} · {formatDuration(run.durationMs)}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+          {run.query && (
+            <div className="text-[10px] font-mono bg-slate-900 text-indigo-300 rounded-lg p-2 break-all">{run.query}</div>
+          )}
+          {run.error && (
+            <div className="text-xs bg-red-50 border border-red-200 text-red-700 rounded-lg p-2 flex items-start">
+              <AlertCircle className="w-3 h-3 mr-1 mt-0.5 shrink-0" /> {run.error}
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-2 text-center">
+            {[
+              ['Emails examined', run.messagesFound],
+              ['Analyzed', run.messagesProcessed],
+              ['Jobs extracted', run.jobsFound],
+              ['New jobs', run.jobsCreated],
+              ['Duplicates skipped', run.duplicatesSkipped],
+              ['Errors', (run.messages || []).filter(m => m.outcome === 'error').length]
+            ].map(([label, value]) => (
+              <div key={label} className="bg-white border border-slate-200 rounded-lg p-2">
+                <p className="text-lg font-bold text-slate-800">{value}</p>
+                <p className="text-[10px] text-slate-400 uppercase tracking-wide">{label}</p>
+              </div>
+            ))}
+          </div>
+
+          {!run.messages || run.messages.length === 0 ? (
+            <p className="text-xs text-slate-400 text-center py-6">No emails were examined in this run.</p>
+          ) : (
+            <div className="bg-white border border-slate-200 rounded-lg divide-y divide-slate-100">
+              {run.messages.map(message => (
+                <div key={message.messageId} className="p-3">
+                  <div className="flex justify-between items-start gap-2 mb-1">
+                    <div className="min-w-0">
+                      <p className="text-xs font-bold text-slate-700 truncate">{message.from || 'Unknown sender'}</p>
+                      <p className="text-xs text-slate-500 truncate">{message.subject || '(no subject)'}</p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className={`text-[10px] font-medium px-2 py-0.5 rounded-full border ${OUTCOME_LABELS[message.outcome].className}`}>
+                        {OUTCOME_LABELS[message.outcome].label}
+                      </span>
+                      {onReplayMessage && (
+                        <button
+                          onClick={() => onReplayMessage(run, message.messageId)}
+                          className="text-slate-400 hover:text-indigo-600"
+                          title="Replay this email through extraction"
+                        >
+                          <PlayCircle className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {message.error && <p className="text-[10px] text-red-600 mt-1">{message.error}</p>}
+                  {message.outcome !== 'skipped' && message.outcome !== 'error' && (
+                    <p className="text-[10px] text-slate-400">{message.linksMatched} job links matched</p>
+                  )}
+                  {message.jobs.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {message.jobs.map(job => (
+                        <li key={job.id} className="text-xs text-slate-700 flex items-center">
+                          <a href={job.applicationUrl} target="_blank" rel="noopener noreferrer" className="hover:text-indigo-600 flex items-center truncate">
+                            <ExternalLink className="w-3 h-3 mr-1 shrink-0" /> {job.title}
+                            <span className="text-slate-400 ml-1">· {job.company}</span>
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-slate-200 bg-white">
+        <h3 className="font-semibold text-slate-700 flex items-center">
+          <History className="w-4 h-4 mr-2" /> Scan History
+        </h3>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+        {runs.map(run => (
+          <button
+            key={run.id}
+            onClick={() => handleSelect(run)}
+            disabled={loadingId !== null}
+            className="w-full text-left p-3 px-4 hover:bg-white transition-colors flex items-center gap-3"
+          >
+            {loadingId === run.id ? (
+              <Loader2 className="w-4 h-4 text-indigo-600 animate-spin shrink-0" />
+            ) : run.status === 'success' ? (
+              <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+            ) : (
+              <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between">
+                <span className="text-xs font-bold text-slate-700 truncate">{mailboxAddress(run.mailbox)}</span>
+                <span className="text-[10px] text-slate-400 shrink-0 ml-2">{new Date(run.startedAt).toLocaleString()}</span>
+              </div>
+              <p className="text-[10px] text-slate-500 truncate">
+                {run.trigger === 'scheduled' ? 'Scheduled' : 'Manual'} · {run.messagesFound} emails · {run.jobsFound} jobs
+                {run.duplicatesSkipped > 0 && ` · ${run.duplicatesSkipped} duplicates`} · {formatDuration(run.durationMs)}
+                {run.error && <span className="text-red-600"> · {run.error}</span>}
+              </p>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
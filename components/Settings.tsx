@@ -1,9 +1,19 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { UserProfile, Job } from '../types';
-import { User, Briefcase, FileText, CheckCircle2, Upload, Loader2, Save, RotateCcw } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useAuth } from '@clerk/clerk-react';
+import { UserProfile, Job, JobStatus, ReminderRule, Resume, MasterResume } from '../types';
+import { User, Briefcase, FileText, CheckCircle2, Upload, Loader2, Save, RotateCcw, Bell, Download, LayoutTemplate, Plus, Copy, Star, Trash2 } from 'lucide-react';
 import { NotificationType } from './NotificationToast';
 import { translations, LanguageCode } from '../services/localization';
+import { getReminderRules } from '../services/reminderService';
+import { resumeToText } from '../services/resumeModel';
+import { createMasterResume, getDefaultResume, getMasterResumes, masterResumeStructure, setMasterResumes } from '../services/masterResumes';
+import { ResumeEditor } from './ResumeEditor';
+import { ResumeImportModal } from './ResumeImportModal';
+import { ExtractedResume, RESUME_FILE_ACCEPT, RESUME_MIME_TYPES, extractResumeText } from '../services/resumeImport';
+import { deleteResumeFile, downloadResumeFile, uploadResumeFile } from '../services/dbService';
+import { DOCUMENT_TEMPLATES, getDocumentTemplate } from '../services/documentTemplates';
+import { downloadBlob } from '../services/documentExport';
 
 interface SettingsProps {
   userProfile: UserProfile;
@@ -16,11 +26,17 @@ interface SettingsProps {
 }
 
 export const Settings: React.FC<SettingsProps> = ({ userProfile, onUpdate, showNotification }) => {
+  const { getToken } = useAuth();
   const [formData, setFormData] = useState<UserProfile>(userProfile);
   const [rolesInput, setRolesInput] = useState((userProfile?.preferences?.targetRoles || []).join(', '));
   const [locationsInput, setLocationsInput] = useState((userProfile?.preferences?.targetLocations || []).join(', '));
   const [isDirty, setIsDirty] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [resumeView, setResumeView] = useState<'structured' | 'text'>('structured');
+  const [selectedResumeId, setSelectedResumeId] = useState(getDefaultResume(userProfile).id);
+  // An upload waiting for review in ResumeImportModal, then the accepted files by resume id until the profile is saved
+  const [pendingImport, setPendingImport] = useState<{ file: File, extracted: ExtractedResume } | null>(null);
+  const [resumeFiles, setResumeFiles] = useState<Record<string, { file: File, mimeType: string }>>({});
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -32,56 +48,145 @@ export const Settings: React.FC<SettingsProps> = ({ userProfile, onUpdate, showN
     setFormData(userProfile);
     setRolesInput((userProfile?.preferences?.targetRoles || []).join(', '));
     setLocationsInput((userProfile?.preferences?.targetLocations || []).join(', '));
+    setSelectedResumeId(prev => getMasterResumes(userProfile).some(r => r.id === prev) ? prev : getDefaultResume(userProfile).id);
     setIsDirty(false);
   }, [userProfile]);
 
+  const resumes = getMasterResumes(formData);
+  const selectedResume = resumes.find(r => r.id === selectedResumeId) || getDefaultResume(formData);
+  const defaultResumeId = getDefaultResume(formData).id;
+  const roleOptions = rolesInput.split(',').map(s => s.trim()).filter(s => s);
+
+  // Text-only resumes (and text edits) are parsed here; parsed once per text so editor ids stay stable
+  const structuredResume = useMemo(
+      () => masterResumeStructure(selectedResume, formData),
+      [selectedResume.resume, selectedResume.resumeContent, formData.fullName, formData.email, formData.phone]
+  );
+
+  const updateResumes = (update: (resumes: MasterResume[]) => MasterResume[], defaultId?: string) => {
+      setFormData(prev => setMasterResumes(prev, update(getMasterResumes(prev)), defaultId ?? prev.defaultResumeId));
+      setIsDirty(true);
+  };
+
+  const updateSelectedResume = (patch: Partial<MasterResume>) =>
+      updateResumes(list => list.map(r => r.id === selectedResume.id ? { ...r, ...patch } : r));
+
+  const handleResumeChange = (resume: Resume) => updateSelectedResume({ resume, resumeContent: resumeToText(resume) });
+
+  const addResume = (from?: MasterResume) => {
+      const created = createMasterResume(from ? `${from.name} (copy)` : `Resume ${resumes.length + 1}`, from);
+      updateResumes(list => [...list, created]);
+      setSelectedResumeId(created.id);
+  };
+
+  const removeSelectedResume = () => {
+      if (resumes.length < 2 || !window.confirm(`Delete the resume "${selectedResume.name}"?`)) return;
+      const removedId = selectedResume.id;
+      updateResumes(list => list.filter(r => r.id !== removedId));
+      setResumeFiles(({ [removedId]: _removed, ...rest }) => rest);
+      setSelectedResumeId(resumes.find(r => r.id !== removedId)!.id);
+  };
+
+  const toggleResumeRole = (role: string) => {
+      const roles = selectedResume.targetRoles;
+      updateSelectedResume({ targetRoles: roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role] });
+  };
+
   const handleSave = () => {
-      const updatedProfile: UserProfile = {
+      const targetRoles = roleOptions;
+      // Every resume is stored structured, linked only to roles still in the preferences
+      const savedResumes = resumes.map(r => ({
+          ...r,
+          resume: masterResumeStructure(r, formData),
+          targetRoles: r.targetRoles.filter(role => targetRoles.includes(role))
+      }));
+      const updatedProfile: UserProfile = setMasterResumes({
           ...formData,
           preferences: {
               ...formData.preferences,
-              targetRoles: rolesInput.split(',').map(s => s.trim()).filter(s => s),
+              targetRoles,
               targetLocations: locationsInput.split(',').map(s => s.trim()).filter(s => s),
           }
-      };
+      }, savedResumes);
       
       onUpdate(updatedProfile);
       setIsDirty(false);
       showNotification("Settings synced successfully.", 'success');
+
+      const uploads = Object.entries(resumeFiles);
+      const removedFiles = getMasterResumes(userProfile).filter(r => r.resumeFileName && !savedResumes.some(saved => saved.id === r.id));
+      if (uploads.length === 0 && removedFiles.length === 0) return;
+      setResumeFiles({});
+      getToken()
+          .then(async token => {
+              if (!token) throw new Error("Authentication required");
+              await Promise.all(removedFiles.map(r => deleteResumeFile(r.id, token)));
+              await Promise.all(uploads.map(([resumeId, { file, mimeType }]) => uploadResumeFile(file, mimeType, resumeId, token)));
+          })
+          .catch((err: any) => showNotification(`The resume text was saved, but the original file wasn't: ${err.message}`, 'error'));
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Lets the same file be picked again after cancelling the review
+    e.target.value = '';
     if (!file) return;
 
-    if (file.type === "text/plain" || file.name.endsWith('.txt')) {
-        setIsUploading(true);
-        const reader = new FileReader();
-        reader.onload = (event) => {
-            const content = event.target?.result as string;
-            setFormData(prev => ({
-                ...prev,
-                resumeContent: content,
-                resumeFileName: file.name
-            }));
-            setIsDirty(true);
-            setIsUploading(false);
-            showNotification(`Resume "${file.name}" loaded successfully. Don't forget to save.`, 'success');
-        };
-        reader.onerror = () => {
-            setIsUploading(false);
-            showNotification("Failed to read the file.", 'error');
-        };
-        reader.readAsText(file);
-    } else {
-        showNotification("Please upload a standard text file (.txt).", 'error');
+    setIsUploading(true);
+    try {
+        setPendingImport({ file, extracted: await extractResumeText(file) });
+    } catch (err: any) {
+        showNotification(err.message || "Failed to read the file.", 'error');
+    } finally {
+        setIsUploading(false);
     }
   };
 
+  const handleImportApply = (text: string) => {
+    if (!pendingImport) return;
+    const { file, extracted } = pendingImport;
+    updateSelectedResume({ resumeContent: text, resume: undefined, resumeFileName: file.name });
+    setResumeFiles(prev => ({ ...prev, [selectedResume.id]: { file, mimeType: RESUME_MIME_TYPES[extracted.kind] } }));
+    setPendingImport(null);
+    showNotification(`Resume "${file.name}" loaded successfully. Don't forget to save.`, 'success');
+  };
+
+  const handleDownloadOriginal = async () => {
+    const token = await getToken();
+    const stored = token ? await downloadResumeFile(selectedResume.id, token) : null;
+    if (!stored) {
+        showNotification("No original file is stored for this resume.", 'error');
+        return;
+    }
+    downloadBlob(stored.blob, stored.info.fileName);
+  };
+
+  const reminderRules = getReminderRules(formData.preferences?.reminderRules);
+
+  const updateReminderRule = (id: string, patch: Partial<ReminderRule>) => {
+    setFormData(prev => ({
+        ...prev,
+        preferences: {
+            ...prev.preferences,
+            reminderRules: reminderRules.map(r => r.id === id ? { ...r, ...patch } : r)
+        }
+    }));
+    setIsDirty(true);
+  };
+
+  const toggleRuleStatus = (rule: ReminderRule, status: JobStatus) => {
+    const statuses = rule.statuses.includes(status) 
+        ? rule.statuses.filter(s => s !== status) 
+        : [...rule.statuses, status];
+    updateReminderRule(rule.id, { statuses });
+  };
+
   const resetForm = () => {
     setFormData(userProfile);
     setRolesInput((userProfile?.preferences?.targetRoles || []).join(', '));
     setLocationsInput((userProfile?.preferences?.targetLocations || []).join(', '));
+    setSelectedResumeId(getDefaultResume(userProfile).id);
+    setResumeFiles({});
     setIsDirty(false);
   };
 
@@ -146,43 +251,211 @@ export const Settings: React.FC<SettingsProps> = ({ userProfile, onUpdate, showN
         </div>
       </div>
 
+      {/* Reminder Rules */}
+      <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest mb-4 flex items-center">
+            <Bell className="w-5 h-5 mr-4 text-indigo-600" /> Follow-up Reminders
+        </h3>
+        <p className="text-[10px] text-slate-400 font-medium mb-8">Rules are checked hourly on the server. New reminders appear in the Reminders inbox.</p>
+        <div className="space-y-4">
+            {reminderRules.map(rule => (
+                <div key={rule.id} className={`p-5 rounded-2xl border transition-all ${rule.enabled ? 'bg-slate-50 border-slate-200' : 'bg-white border-slate-100 opacity-60'}`}>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                        <label className="flex items-center gap-3 cursor-pointer">
+                            <input 
+                              type="checkbox" 
+                              checked={rule.enabled} 
+                              onChange={(e) => updateReminderRule(rule.id, { enabled: e.target.checked })} 
+                              className="w-4 h-4 accent-indigo-600"
+                            />
+                            <span className="text-sm font-bold text-slate-700">{rule.name}</span>
+                        </label>
+                        <div className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                            {rule.trigger === 'stale_status' ? 'After' : 'Remind'}
+                            <input 
+                              type="number" 
+                              min={1} 
+                              value={rule.offsetDays} 
+                              onChange={(e) => updateReminderRule(rule.id, { offsetDays: Math.max(1, Number(e.target.value) || 1) })} 
+                              className="w-16 p-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 text-center outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                            {rule.trigger === 'stale_status' ? 'days unchanged' : 'day(s) before interview'}
+                        </div>
+                    </div>
+                    {rule.trigger === 'stale_status' && (
+                        <div className="flex flex-wrap gap-2 mt-4">
+                            {[JobStatus.SAVED, JobStatus.APPLIED_MANUAL, JobStatus.APPLIED_AUTO, JobStatus.INTERVIEW, JobStatus.OFFER].map(status => (
+                                <button 
+                                  key={status}
+                                  onClick={() => toggleRuleStatus(rule, status)}
+                                  className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${rule.statuses.includes(status) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-400 border-slate-200 hover:border-indigo-300'}`}
+                                >
+                                    {status}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+      </div>
+
       {/* Resume Section */}
       <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-10">
             <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center">
-                <FileText className="w-5 h-5 mr-4 text-indigo-600" /> Master Resume
+                <FileText className="w-5 h-5 mr-4 text-indigo-600" /> Master Resumes
             </h3>
             <div className="flex items-center gap-3">
+                 <div className="flex p-1 bg-slate-100 rounded-xl">
+                    {(['structured', 'text'] as const).map(view => (
+                        <button 
+                          key={view}
+                          onClick={() => setResumeView(view)}
+                          className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${resumeView === view ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                            {view === 'structured' ? 'Editor' : 'Plain Text'}
+                        </button>
+                    ))}
+                 </div>
                  <button 
                     onClick={() => fileInputRef.current?.click()}
                     className="flex items-center gap-2 px-5 py-3 bg-indigo-50 text-indigo-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition-all border border-indigo-100"
                 >
                     {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
-                    Upload Resume (.txt)
+                    Upload Resume (PDF, DOCX, TXT)
                 </button>
                 <input 
                     type="file" 
                     ref={fileInputRef} 
                     onChange={handleFileUpload} 
-                    accept=".txt" 
+                    accept={RESUME_FILE_ACCEPT} 
                     className="hidden" 
                 />
             </div>
         </div>
         <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+                {resumes.map(r => (
+                    <button
+                      key={r.id}
+                      onClick={() => setSelectedResumeId(r.id)}
+                      className={`flex items-center gap-1.5 px-4 py-2 rounded-xl text-xs font-bold border transition-all ${r.id === selectedResume.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300'}`}
+                    >
+                        {r.id === defaultResumeId && <Star className="w-3 h-3 fill-current" />}
+                        {r.name}
+                    </button>
+                ))}
+                <button onClick={() => addResume()} className="flex items-center gap-1 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 transition-all">
+                    <Plus className="w-3 h-3" /> New
+                </button>
+                <button onClick={() => addResume(selectedResume)} className="flex items-center gap-1 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 transition-all">
+                    <Copy className="w-3 h-3" /> Duplicate
+                </button>
+            </div>
+            <div className="p-5 bg-slate-50 rounded-2xl border border-slate-100 space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <input
+                      type="text"
+                      value={selectedResume.name}
+                      onChange={(e) => updateSelectedResume({ name: e.target.value })}
+                      className="flex-1 p-3 bg-white border border-slate-200 rounded-xl text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                      placeholder="Resume name"
+                    />
+                    <div className="flex items-center gap-2">
+                        {selectedResume.id !== defaultResumeId && (
+                            <button onClick={() => updateResumes(list => list, selectedResume.id)} className="flex items-center gap-1 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:bg-white transition-all">
+                                <Star className="w-3 h-3" /> Make Default
+                            </button>
+                        )}
+                        <button
+                          onClick={removeSelectedResume}
+                          disabled={resumes.length < 2}
+                          className="flex items-center gap-1 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-600 hover:bg-white disabled:opacity-40 disabled:hover:text-slate-500 disabled:hover:bg-transparent transition-all"
+                        >
+                            <Trash2 className="w-3 h-3" /> Delete
+                        </button>
+                    </div>
+                </div>
+                <div>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Used for roles</p>
+                    {roleOptions.length > 0 ? (
+                        <div className="flex flex-wrap gap-2">
+                            {roleOptions.map(role => (
+                                <button
+                                  key={role}
+                                  onClick={() => toggleResumeRole(role)}
+                                  className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${selectedResume.targetRoles.includes(role) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-400 border-slate-200 hover:border-indigo-300'}`}
+                                >
+                                    {role}
+                                </button>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-[10px] text-slate-400 font-medium">Add target roles under Job Preferences to link them to this resume.</p>
+                    )}
+                    <p className="text-[10px] text-slate-400 font-medium mt-2">Jobs matching these roles are tailored from this resume; all others use the default.</p>
+                </div>
+            </div>
             <p className="text-xs text-slate-500 leading-relaxed font-medium bg-slate-50 p-4 rounded-xl border border-slate-100">
-                This content acts as your <strong>Source of Truth</strong>. AI uses this text to regenerate customized documents.
-                {formData.resumeFileName && <span className="block mt-2 text-indigo-600">Active File: {formData.resumeFileName}</span>}
+                This content acts as your <strong>Source of Truth</strong>. AI tailors each section of it to regenerate customized documents.
+                Plain text is split into sections automatically; check the result in the editor.
+                {selectedResume.resumeFileName && (
+                    <span className="flex items-center gap-3 mt-2 text-indigo-600">
+                        Active File: {selectedResume.resumeFileName}
+                        {!resumeFiles[selectedResume.id] && (
+                            <button onClick={handleDownloadOriginal} className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest hover:text-indigo-800">
+                                <Download className="w-3 h-3" /> Original
+                            </button>
+                        )}
+                    </span>
+                )}
             </p>
-            <textarea 
-                className="w-full h-96 p-8 bg-slate-50 border border-slate-200 rounded-3xl font-mono text-[11px] text-slate-600 resize-none leading-relaxed outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
-                value={formData.resumeContent}
-                placeholder="Paste your resume content or use the upload button above..."
-                onChange={(e) => { setFormData({...formData, resumeContent: e.target.value}); setIsDirty(true); }}
-            />
+            {resumeView === 'structured' ? (
+                <ResumeEditor resume={structuredResume} onChange={handleResumeChange} />
+            ) : (
+                <textarea 
+                    className="w-full h-96 p-8 bg-slate-50 border border-slate-200 rounded-3xl font-mono text-[11px] text-slate-600 resize-none leading-relaxed outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                    value={selectedResume.resumeContent}
+                    placeholder="Paste your resume content or use the upload button above..."
+                    onChange={(e) => updateSelectedResume({ resumeContent: e.target.value, resume: undefined })}
+                />
+            )}
         </div>
       </div>
 
+      {/* Export Template */}
+      <div className="bg-white p-10 rounded-[2.5rem] border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest mb-4 flex items-center">
+            <LayoutTemplate className="w-5 h-5 mr-4 text-indigo-600" /> Document Template
+        </h3>
+        <p className="text-[10px] text-slate-400 font-medium mb-8">Default layout for tailored resumes and cover letters exported as PDF or DOCX. You can pick another one on each export.</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {DOCUMENT_TEMPLATES.map(template => {
+                const isActive = getDocumentTemplate(formData.preferences?.documentTemplate).id === template.id;
+                return (
+                    <button
+                      key={template.id}
+                      onClick={() => { setFormData(prev => ({ ...prev, preferences: { ...prev.preferences, documentTemplate: template.id } })); setIsDirty(true); }}
+                      className={`text-left p-5 rounded-2xl border transition-all ${isActive ? 'border-indigo-500 ring-1 ring-indigo-500 bg-indigo-50/40' : 'border-slate-200 hover:border-indigo-300'}`}
+                    >
+                        <span className="block text-sm font-bold text-slate-800">{template.name}</span>
+                        <span className="block text-[10px] text-slate-500 font-medium mt-1">{template.description}</span>
+                    </button>
+                );
+            })}
+        </div>
+      </div>
+
+      <ResumeImportModal
+        isOpen={!!pendingImport}
+        fileName={pendingImport?.file.name || ''}
+        extracted={pendingImport?.extracted || null}
+        currentText={selectedResume.resumeContent}
+        onApply={handleImportApply}
+        onCancel={() => setPendingImport(null)}
+      />
+
       {/* Floating Action Bar */}
       {isDirty && (
           <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-[60] w-[90%] max-w-2xl pointer-events-none animate-in slide-in-from-bottom-10 duration-500">
@@ -31,16 +31,18 @@ export const simulateBrowserAutomation = async (
 
     // --- CHECK FOR TRACKING / COMPLEX LINKS ---
     // awstrack.me, wuzzuf.net, and other tracking domains often block direct automation or behave unpredictably (400 errors).
-    // We immediately direct these to manual mode for better UX.
+    // Once /api/resolve-url has found the posting behind the link we go there instead;
+    // unresolved tracking links still go straight to manual mode for better UX.
+    const targetUrl = job.canonicalUrl || job.applicationUrl;
     const complexDomains = ['awstrack.me', 'wuzzuf.net', 'click', 'track', 'redirect'];
-    if (complexDomains.some(d => job.applicationUrl?.includes(d))) {
+    if (!job.canonicalUrl && complexDomains.some(d => job.applicationUrl?.includes(d))) {
         onStep('AI Agent: Complex redirect detected. Switching to manual mode for reliability...');
         await delay(1000);
         return { success: false, requiresManual: true };
     }
 
     // 2. Connectivity Check
-    onStep(`AI Agent: Establishing connection to ${new URL(job.applicationUrl).hostname}...`);
+    onStep(`AI Agent: Establishing connection to ${new URL(targetUrl).hostname}...`);
     await delay(1000);
 
     // 3. Security Check Simulation
@@ -125,9 +127,10 @@ export const openSafeApplicationUrl = async (job: Job, explicitUrl?: string) =>
     let url = explicitUrl;
     
     if (!url) {
-        // If no explicit URL, try to process the job's URL
-        if (job.applicationUrl) {
-             url = getSmartApplicationUrl(job.applicationUrl, title, company);
+        // If no explicit URL, try to process the job's URL (the resolved posting when we have it)
+        const jobUrl = job.canonicalUrl || job.applicationUrl;
+        if (jobUrl) {
+             url = getSmartApplicationUrl(jobUrl, title, company);
         }
     }
     
@@ -0,0 +1,143 @@
+import { Interview } from '../types';
+
+/**
+ * iCalendar (RFC 5545) export and timezone helpers for interviews.
+ * Runs in both the browser and the serverless feed, so it avoids DOM and Node APIs.
+ */
+
+export interface CalendarJobInfo {
+    title: string;
+    company: string;
+}
+
+const escapeText = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const toIcsDate = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 characters must be folded with a leading space on continuation lines
+const foldLine = (line: string) => {
+    if (line.length <= 75) return line;
+    const chunks: string[] = [line.slice(0, 75)];
+    for (let i = 75; i < line.length; i += 74) {
+        chunks.push(' ' + line.slice(i, i + 74));
+    }
+    return chunks.join('\r\n');
+};
+
+export const getInterviewEndsAt = (interview: Interview): string =>
+    new Date(new Date(interview.startsAt).getTime() + interview.durationMinutes * 60000).toISOString();
+
+const buildEventLines = (interview: Interview, job: CalendarJobInfo): string[] => {
+    const details = [
+        `Stage: ${interview.stage} (Round ${interview.round})`,
+        interview.interviewers.length > 0 ? `Interviewers: ${interview.interviewers.join(', ')}` : '',
+        interview.meetingLink ? `Join: ${interview.meetingLink}` : '',
+        interview.prepNotes ? `Prep Notes:\n${interview.prepNotes}` : ''
+    ].filter(Boolean).join('\n');
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${interview.id}@jobflow-ai`,
+        `DTSTAMP:${toIcsDate(new Date().toISOString())}`,
+        `DTSTART:${toIcsDate(interview.startsAt)}`,
+        `DTEND:${toIcsDate(getInterviewEndsAt(interview))}`,
+        `SUMMARY:${escapeText(`Interview: ${job.title} @ ${job.company} (Round ${interview.round})`)}`,
+        `DESCRIPTION:${escapeText(details)}`
+    ];
+    if (interview.location || interview.meetingLink) {
+        lines.push(`LOCATION:${escapeText(interview.location || interview.meetingLink || '')}`);
+    }
+    if (interview.meetingLink) {
+        lines.push(`URL:${interview.meetingLink}`);
+    }
+    lines.push(
+        'BEGIN:VALARM',
+        'TRIGGER:-PT30M',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(`Interview with ${job.company} in 30 minutes`)}`,
+        'END:VALARM',
+        'END:VEVENT'
+    );
+    return lines;
+};
+
+/**
+ * Builds a VCALENDAR document. Pass one entry for a single-interview export or many for a feed.
+ */
+export const buildInterviewCalendar = (
+    entries: { interview: Interview; job: CalendarJobInfo }[],
+    calendarName = 'JobFlow Interviews'
+): string => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//JobFlow AI//Interviews//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        ...entries.flatMap(({ interview, job }) => buildEventLines(interview, job)),
+        'END:VCALENDAR'
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const getUpcomingInterviews = (interviews: Interview[], now = new Date()): Interview[] =>
+    interviews
+        .filter(i => new Date(getInterviewEndsAt(i)).getTime() >= now.getTime())
+        .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+
+// --- Timezone helpers ---
+
+const getZoneOffsetMs = (instant: number, timeZone: string) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock value from a datetime-local input ("2025-03-14T15:30") in `timeZone` to a UTC ISO string.
+ */
+export const zonedTimeToUtc = (localDateTime: string, timeZone: string): string => {
+    const [datePart, timePart = '00:00'] = localDateTime.split('T');
+    const [y, m, d] = datePart.split('-').map(Number);
+    const [hh, mm] = timePart.split(':').map(Number);
+    const wallClock = Date.UTC(y, m - 1, d, hh, mm);
+
+    // Two passes settle the offset across DST boundaries
+    let instant = wallClock - getZoneOffsetMs(wallClock, timeZone);
+    instant = wallClock - getZoneOffsetMs(instant, timeZone);
+    return new Date(instant).toISOString();
+};
+
+/**
+ * Inverse of zonedTimeToUtc, for pre-filling datetime-local inputs.
+ */
+export const utcToZonedInput = (iso: string, timeZone: string): string => {
+    const instant = new Date(iso).getTime();
+    const local = new Date(instant + getZoneOffsetMs(instant, timeZone));
+    return local.toISOString().slice(0, 16);
+};
+
+export const formatInTimeZone = (iso: string, timeZone: string): string =>
+    new Date(iso).toLocaleString('en-US', {
+        timeZone,
+        weekday: 'short', month: 'short', day: 'numeric',
+        hour: 'numeric', minute: '2-digit',
+        timeZoneName: 'short'
+    });
+
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Intl.supportedValuesOf is missing from older browsers (Safari < 15.4) despite the ES2022 typings
+export const getSupportedTimeZones = (): string[] => {
+    const supported = Intl.supportedValuesOf?.('timeZone');
+    if (supported) return supported;
+    return ['UTC', 'America/Los_Angeles', 'America/Denver', 'America/Chicago', 'America/New_York', 'Europe/London', 'Europe/Berlin', 'Asia/Dubai', 'Asia/Kolkata', 'Asia/Singapore', 'Asia/Tokyo', 'Australia/Sydney'];
+};
@@ -1,4 +1,6 @@
-import { Job, UserProfile, UserPreferences } from '../types';
+import { Job, UserProfile, UserPreferences, Interview, Reminder, JobQuery, JobPage, EmailAccount, ImapConnectRequest, BridgedMessage, ScanRun, ResumeFileInfo, DocumentVersion } from '../types';
+import { normalizeResume } from './resumeModel';
+import { normalizeMasterResume } from './masterResumes';
 
 /**
  * Service to interact with Neon PostgreSQL via Vercel Serverless Functions.
@@ -7,6 +9,34 @@ import { Job, UserProfile, UserPreferences } from '../types';
 const API_BASE = '/api';
 const LOCAL_PROFILE_KEY = 'jobflow_profile_cache';
 const LOCAL_JOBS_KEY = 'jobflow_jobs_cache';
+const LOCAL_INTERVIEWS_KEY = 'jobflow_interviews_cache';
+// Only the most recent jobs are kept offline; large lists exceed the localStorage quota
+const MAX_CACHED_JOBS = 200;
+
+// Queued document versions are left out too: each can hold a whole resume, and the server has the history
+const writeJobsCache = (jobs: Job[]) => {
+    try {
+        const cached = jobs.slice(0, MAX_CACHED_JOBS).map(({ documentVersions, ...job }) => job);
+        localStorage.setItem(LOCAL_JOBS_KEY, JSON.stringify(cached));
+    } catch (e) {
+        console.warn("[dbService] Jobs cache write failed:", e);
+    }
+};
+
+const buildJobQueryString = (query: JobQuery, cursor?: string | null) => {
+    const params = new URLSearchParams();
+    if (query.statuses && query.statuses.length > 0) params.set('status', query.statuses.join(','));
+    if (query.source) params.set('source', query.source);
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    if (query.minScore !== undefined && query.minScore > 0) params.set('minScore', String(query.minScore));
+    if (query.q && query.q.trim()) params.set('q', query.q.trim());
+    if (query.ids && query.ids.length > 0) params.set('ids', query.ids.join(','));
+    if (query.limit) params.set('limit', String(query.limit));
+    if (cursor) params.set('cursor', cursor);
+    const qs = params.toString();
+    return qs ? `?${qs}` : '';
+};
 
 const normalizePreferences = (prefs: any): UserPreferences => {
     if (!prefs) return { targetRoles: [], targetLocations: [], minSalary: '', remoteOnly: false, language: 'en' };
@@ -16,7 +46,9 @@ const normalizePreferences = (prefs: any): UserPreferences => {
         minSalary: prefs.minSalary || '',
         remoteOnly: !!(prefs.remoteOnly || false),
         shareUrl: prefs.shareUrl,
-        language: prefs.language || 'en'
+        language: prefs.language || 'en',
+        reminderRules: Array.isArray(prefs.reminderRules) ? prefs.reminderRules : undefined,
+        documentTemplate: prefs.documentTemplate
     };
 };
 
@@ -28,7 +60,10 @@ const normalizeProfile = (data: any): UserProfile | null => {
         email: data.email || '',
         phone: data.phone || '',
         resumeContent: data.resumeContent || '',
+        resume: data.resume ? normalizeResume(data.resume) : undefined,
         resumeFileName: data.resumeFileName || '',
+        resumes: Array.isArray(data.resumes) ? data.resumes.map(normalizeMasterResume) : undefined,
+        defaultResumeId: data.defaultResumeId || undefined,
         preferences: normalizePreferences(data.preferences),
         onboardedAt: data.onboardedAt || new Date().toISOString(),
         connectedAccounts: data.connectedAccounts || [],
@@ -86,65 +121,589 @@ export const getUserProfile = async (clerkToken: string): Promise<UserProfile |
     return cached ? JSON.parse(cached) : null;
 };
 
-export const fetchJobsFromDb = async (clerkToken: string): Promise<Job[]> => {
+/**
+ * Fetches one page of jobs matching `query`. Pass the previous page's nextCursor to continue.
+ */
+export const fetchJobsPage = async (clerkToken: string, query: JobQuery = {}, cursor?: string | null): Promise<JobPage> => {
+    const response = await fetch(`${API_BASE}/jobs${buildJobQueryString(query, cursor)}`, {
+        headers: { 'Authorization': `Bearer ${clerkToken}` }
+    });
+    if (!response.ok) {
+        const errData = await response.json().catch(() => ({}));
+        console.error('[dbService] Fetch jobs failed:', response.status, errData);
+        throw new Error(errData.error || `Fetch jobs failed: ${response.status}`);
+    }
+    const data = await response.json();
+    return { jobs: data.jobs || [], nextCursor: data.nextCursor || null };
+};
+
+/**
+ * Loads the newest page of jobs for the initial render. Older jobs are fetched on demand by passing
+ * its nextCursor to fetchJobsPage. Offline, the cached jobs come back without a cursor.
+ */
+export const fetchJobsFromDb = async (clerkToken: string): Promise<JobPage> => {
+    try {
+        const page = await fetchJobsPage(clerkToken);
+        writeJobsCache(page.jobs);
+        return page;
+    } catch (e) {
+        console.warn("[dbService] Fetch jobs network error:", e);
+    }
+    const cached = localStorage.getItem(LOCAL_JOBS_KEY);
+    return { jobs: cached ? JSON.parse(cached) : [], nextCursor: null };
+};
+
+const cacheJob = (job: Job) => {
+    const cached = localStorage.getItem(LOCAL_JOBS_KEY);
+    const jobs: Job[] = cached ? JSON.parse(cached) : [];
+    const index = jobs.findIndex(j => j.id === job.id);
+    if (index > -1) jobs[index] = job; else jobs.unshift(job);
+    writeJobsCache(jobs);
+};
+
+const postJob = async (job: Job, clerkToken: string) => {
+    const response = await fetch(`${API_BASE}/jobs`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${clerkToken}`
+        },
+        body: JSON.stringify(job)
+    });
+    if (!response.ok) {
+        const errData = await response.json().catch(() => ({}));
+        console.error('[dbService] Job save failed:', response.status, errData);
+        throw new Error(errData.error || `Job save failed: ${response.status}`);
+    }
+};
+
+export const saveJobToDb = async (job: Job, clerkToken: string) => {
+    cacheJob(job);
+    try {
+        await postJob(job, clerkToken);
+    } catch (e) {
+        console.warn("[dbService] Job save network error:", e);
+    }
+};
+
+// Same as saveJobToDb, but rejects when the server didn't store the job, so the caller can show it and retry
+export const saveJobToDbOrThrow = async (job: Job, clerkToken: string) => {
+    cacheJob(job);
+    await postJob(job, clerkToken);
+};
+
+// Stored document history of a job, oldest first; throws so callers can tell a failure from an empty history
+export const fetchDocumentVersions = async (jobId: string, clerkToken: string): Promise<DocumentVersion[]> => {
+    const response = await fetch(`${API_BASE}/jobs?versions=${encodeURIComponent(jobId)}`, {
+        headers: { 'Authorization': `Bearer ${clerkToken}` }
+    });
+    if (!response.ok) {
+        const errData = await response.json().catch(() => ({}));
+        console.error('[dbService] Fetch document versions failed:', response.status, errData);
+        throw new Error(errData.error || `Fetch document versions failed: ${response.status}`);
+    }
+    const data = await response.json();
+    return data.versions || [];
+};
+
+export const deleteJobFromDb = async (jobId: string, clerkToken: string) => {
+    const cached = localStorage.getItem(LOCAL_JOBS_KEY);
+    if (cached) {
+        const jobs: Job[] = JSON.parse(cached);
+        writeJobsCache(jobs.filter(j => j.id !== jobId));
+    }
+    try {
+        await fetch(`${API_BASE}/jobs?id=${jobId}`, {
+            method: 'DELETE',
+            headers: { 'Authorization': `Bearer ${clerkToken}` }
+        });
+    } catch (e) {
+        console.warn("[dbService] Job delete network error:", e);
+    }
+};
+
+/**
+ * Replaces a group of duplicate jobs with the merged record. Unlike single-job saves this is not
+ * optimistic: the cache only changes once the server has moved interviews and deleted the duplicates.
+ */
+export const mergeJobsInDb = async (job: Job, duplicateIds: string[], clerkToken: string): Promise<void> => {
+    const response = await fetch(`${API_BASE}/job-merge`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${clerkToken}`
+        },
+        body: JSON.stringify({ job, duplicateIds })
+    });
+    if (!response.ok) {
+        const errData = await response.json().catch(() => ({}));
+        console.error('[dbService] Job merge failed:', response.status, errData);
+        throw new Error(errData.error || 'Could not merge jobs');
+    }
+
+    const cached = localStorage.getItem(LOCAL_JOBS_KEY);
+    if (cached) {
+        const jobs: Job[] = JSON.parse(cached);
+        writeJobsCache(jobs.filter(j => !duplicateIds.includes(j.id)).map(j => j.id === job.id ? job : j));
+    }
+};
+
+const RESOLVE_BATCH_SIZE = 20;
+
+/**
+ * Resolves the jobs' application links to the postings they lead to (server-side, it follows
+ * tracker redirects) and saves them as canonicalUrl. Returns jobId -> canonicalUrl for the jobs
+ * that resolved; failures are logged and left out.
+ */
+export const resolveJobUrlsInDb = async (jobs: Job[], clerkToken: string): Promise<Record<string, string>> => {
+    const resolved: Record<string, string> = {};
+    const pending = jobs.filter(job => job.applicationUrl && !job.canonicalUrl);
+    for (let i = 0; i < pending.length; i += RESOLVE_BATCH_SIZE) {
+        const items = pending.slice(i, i + RESOLVE_BATCH_SIZE).map(job => ({ url: job.applicationUrl, jobId: job.id }));
+        try {
+            const response = await fetch(`${API_BASE}/resolve-url`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${clerkToken}`
+                },
+                body: JSON.stringify({ items })
+            });
+            if (!response.ok) {
+                const errData = await response.json().catch(() => ({}));
+                console.error('[dbService] Resolve URLs failed:', response.status, errData);
+                continue;
+            }
+            const data = await response.json();
+            (data.results || []).forEach((result: any) => {
+                if (result.stored && result.jobId) resolved[result.jobId] = result.canonicalUrl;
+            });
+        } catch (e) {
+            console.warn("[dbService] Resolve URLs network error:", e);
+        }
+    }
+
+    const cached = localStorage.getItem(LOCAL_JOBS_KEY);
+    if (cached && Object.keys(resolved).length > 0) {
+        const cachedJobs: Job[] = JSON.parse(cached);
+        writeJobsCache(cachedJobs.map(j => resolved[j.id] ? { ...j, canonicalUrl: resolved[j.id] } : j));
+    }
+    return resolved;
+};
+
+export const fetchInterviewsFromDb = async (clerkToken: string): Promise<Interview[]> => {
     try {
-        const response = await fetch(`${API_BASE}/jobs`, {
+        const response = await fetch(`${API_BASE}/interviews`, {
             headers: { 'Authorization': `Bearer ${clerkToken}` }
         });
         if (response.ok) {
             const data = await response.json();
-            const jobs = data.jobs || [];
-            localStorage.setItem(LOCAL_JOBS_KEY, JSON.stringify(jobs));
-            return jobs;
+            const interviews = data.interviews || [];
+            localStorage.setItem(LOCAL_INTERVIEWS_KEY, JSON.stringify(interviews));
+            return interviews;
         } else {
             const errData = await response.json().catch(() => ({}));
-            console.error('[dbService] Fetch jobs failed:', response.status, errData);
+            console.error('[dbService] Fetch interviews failed:', response.status, errData);
         }
     } catch (e) {
-        console.warn("[dbService] Fetch jobs network error:", e);
+        console.warn("[dbService] Fetch interviews network error:", e);
     }
-    const cached = localStorage.getItem(LOCAL_JOBS_KEY);
+    const cached = localStorage.getItem(LOCAL_INTERVIEWS_KEY);
     return cached ? JSON.parse(cached) : [];
 };
 
-export const saveJobToDb = async (job: Job, clerkToken: string) => {
-    const cached = localStorage.getItem(LOCAL_JOBS_KEY);
-    const jobs: Job[] = cached ? JSON.parse(cached) : [];
-    const index = jobs.findIndex(j => j.id === job.id);
-    if (index > -1) jobs[index] = job; else jobs.push(job);
-    localStorage.setItem(LOCAL_JOBS_KEY, JSON.stringify(jobs));
+export const saveInterviewToDb = async (interview: Interview, clerkToken: string) => {
+    const cached = localStorage.getItem(LOCAL_INTERVIEWS_KEY);
+    const interviews: Interview[] = cached ? JSON.parse(cached) : [];
+    const index = interviews.findIndex(i => i.id === interview.id);
+    if (index > -1) interviews[index] = interview; else interviews.push(interview);
+    localStorage.setItem(LOCAL_INTERVIEWS_KEY, JSON.stringify(interviews));
 
     try {
-        const response = await fetch(`${API_BASE}/jobs`, {
+        const response = await fetch(`${API_BASE}/interviews`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${clerkToken}`
             },
-            body: JSON.stringify(job)
+            body: JSON.stringify(interview)
         });
         if (!response.ok) {
             const errData = await response.json();
-            console.error('[dbService] Job save failed:', errData);
+            console.error('[dbService] Interview save failed:', errData);
         }
     } catch (e) {
-        console.warn("[dbService] Job save network error:", e);
+        console.warn("[dbService] Interview save network error:", e);
     }
 };
 
-export const deleteJobFromDb = async (jobId: string, clerkToken: string) => {
-    const cached = localStorage.getItem(LOCAL_JOBS_KEY);
+export const deleteInterviewFromDb = async (interviewId: string, clerkToken: string) => {
+    const cached = localStorage.getItem(LOCAL_INTERVIEWS_KEY);
     if (cached) {
-        const jobs: Job[] = JSON.parse(cached);
-        localStorage.setItem(LOCAL_JOBS_KEY, JSON.stringify(jobs.filter(j => j.id !== jobId)));
+        const interviews: Interview[] = JSON.parse(cached);
+        localStorage.setItem(LOCAL_INTERVIEWS_KEY, JSON.stringify(interviews.filter(i => i.id !== interviewId)));
     }
     try {
-        await fetch(`${API_BASE}/jobs?id=${jobId}`, {
+        await fetch(`${API_BASE}/interviews?id=${interviewId}`, {
             method: 'DELETE',
             headers: { 'Authorization': `Bearer ${clerkToken}` }
         });
     } catch (e) {
-        console.warn("[dbService] Job delete network error:", e);
+        console.warn("[dbService] Interview delete network error:", e);
+    }
+};
+
+/**
+ * Downloads the combined .ics feed of all interviews.
+ */
+export const fetchInterviewFeed = async (clerkToken: string): Promise<string> => {
+    const response = await fetch(`${API_BASE}/interview-feed`, {
+        headers: { 'Authorization': `Bearer ${clerkToken}` }
+    });
+    if (!response.ok) {
+        throw new Error(`Calendar feed failed: ${response.status}`);
+    }
+    return await response.text();
+};
+
+/**
+ * Creates a secret subscription URL for the interview feed, for calendar apps that can't sign in.
+ * Any earlier URL stops working.
+ */
+export const createInterviewFeedLink = async (clerkToken: string): Promise<string> => {
+    const response = await fetch(`${API_BASE}/interview-feed`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${clerkToken}` }
+    });
+    if (!response.ok) {
+        throw new Error(`Calendar feed link failed: ${response.status}`);
+    }
+    const { token } = await response.json();
+    return `${window.location.origin}${API_BASE}/interview-feed?token=${encodeURIComponent(token)}`;
+};
+
+export const revokeInterviewFeedLink = async (clerkToken: string): Promise<void> => {
+    const response = await fetch(`${API_BASE}/interview-feed`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${clerkToken}` }
+    });
+    if (!response.ok) {
+        throw new Error(`Revoking the calendar feed link failed: ${response.status}`);
+    }
+};
+
+export const fetchRemindersFromDb = async (clerkToken: string): Promise<Reminder[]> => {
+    try {
+        const response = await fetch(`${API_BASE}/reminders`, {
+            headers: { 'Authorization': `Bearer ${clerkToken}` }
+        });
+        if (response.ok) {
+            const data = await response.json();
+            return data.reminders || [];
+        } else {
+            const errData = await response.json().catch(() => ({}));
+            console.error('[dbService] Fetch reminders failed:', response.status, errData);
+        }
+    } catch (e) {
+        console.warn("[dbService] Fetch reminders network error:", e);
+    }
+    return [];
+};
+
+export const updateReminderStatus = async (ids: string[], status: Reminder['status'], clerkToken: string) => {
+    try {
+        const response = await fetch(`${API_BASE}/reminders`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${clerkToken}`
+            },
+            body: JSON.stringify({ ids, status })
+        });
+        if (!response.ok) {
+            const errData = await response.json();
+            console.error('[dbService] Reminder update failed:', errData);
+        }
+    } catch (e) {
+        console.warn("[dbService] Reminder update network error:", e);
+    }
+};
+
+/**
+ * Starts the Gmail OAuth flow and returns the Google consent URL to navigate to.
+ */
+export const startGmailAuthorization = async (clerkToken: string, loginHint?: string): Promise<string> => {
+    const response = await fetch(`${API_BASE}/gmail-auth`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${clerkToken}`
+        },
+        body: JSON.stringify({ loginHint })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.authorizeUrl) {
+        console.error('[dbService] Gmail authorization failed:', response.status, data);
+        throw new Error(data.error || 'Could not start Gmail authorization');
+    }
+    return data.authorizeUrl;
+};
+
+/**
+ * Gets a short-lived access token for a connected mailbox. The server refreshes it as needed;
+ * throws TOKEN_EXPIRED when the grant was revoked and the user has to reconnect.
+ */
+export const fetchMailAccessToken = async (accountId: string, clerkToken: string): Promise<{ accessToken: string, expiresAt: string }> => {
+    const response = await fetch(`${API_BASE}/gmail-auth?accountId=${encodeURIComponent(accountId)}`, {
+        headers: { 'Authorization': `Bearer ${clerkToken}` }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 401 && data.error === 'TOKEN_EXPIRED') {
+        throw new Error('TOKEN_EXPIRED');
+    }
+    if (!response.ok || !data.accessToken) {
+        console.error('[dbService] Mail access token failed:', response.status, data);
+        throw new Error(data.error || 'Could not get mail access token');
+    }
+    return { accessToken: data.accessToken, expiresAt: data.expiresAt };
+};
+
+/**
+ * Verifies IMAP credentials on the server and stores them encrypted. Throws with the server's message on failure.
+ */
+export const connectImapAccount = async (request: ImapConnectRequest, clerkToken: string): Promise<EmailAccount> => {
+    const response = await fetch(`${API_BASE}/imap-bridge`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${clerkToken}`
+        },
+        body: JSON.stringify(request)
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.account) {
+        console.error('[dbService] IMAP connect failed:', response.status, data);
+        throw new Error(data.error || 'Could not connect mailbox');
+    }
+    return data.account;
+};
+
+export const fetchImapMessages = async (accountId: string, days: number, limit: number, clerkToken: string): Promise<BridgedMessage[]> => {
+    const params = new URLSearchParams({ accountId, days: String(days), limit: String(limit) });
+    const response = await fetch(`${API_BASE}/imap-bridge?${params.toString()}`, {
+        headers: { 'Authorization': `Bearer ${clerkToken}` }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 401 && data.error === 'TOKEN_EXPIRED') {
+        throw new Error('TOKEN_EXPIRED');
+    }
+    if (!response.ok) {
+        console.error('[dbService] IMAP fetch failed:', response.status, data);
+        throw new Error(data.error || 'Could not read mailbox');
+    }
+    return data.messages || [];
+};
+
+export const fetchImapMessage = async (accountId: string, messageId: string, clerkToken: string): Promise<BridgedMessage> => {
+    const params = new URLSearchParams({ accountId, messageId });
+    const response = await fetch(`${API_BASE}/imap-bridge?${params.toString()}`, {
+        headers: { 'Authorization': `Bearer ${clerkToken}` }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 401 && data.error === 'TOKEN_EXPIRED') {
+        throw new Error('TOKEN_EXPIRED');
+    }
+    if (!response.ok) {
+        console.error('[dbService] IMAP message fetch failed:', response.status, data);
+        throw new Error(data.error || 'Could not read message');
+    }
+    return data.message;
+};
+
+/**
+ * Ids of messages already analyzed for a mailbox. A failed lookup returns [] so scanning still works,
+ * just without skipping known messages.
+ */
+export const fetchProcessedMessageIds = async (mailbox: string, clerkToken: string): Promise<string[]> => {
+    try {
+        const response = await fetch(`${API_BASE}/mail-ledger?mailbox=${encodeURIComponent(mailbox)}`, {
+            headers: { 'Authorization': `Bearer ${clerkToken}` }
+        });
+        if (response.ok) {
+            const data = await response.json();
+            return data.messageIds || [];
+        } else {
+            const errData = await response.json().catch(() => ({}));
+            console.error('[dbService] Fetch mail ledger failed:', response.status, errData);
+        }
+    } catch (e) {
+        console.warn("[dbService] Fetch mail ledger network error:", e);
+    }
+    return [];
+};
+
+export const recordProcessedMessages = async (mailbox: string, messageIds: string[], clerkToken: string) => {
+    // The endpoint accepts at most 200 ids per request
+    for (let i = 0; i < messageIds.length; i += 200) {
+        try {
+            const response = await fetch(`${API_BASE}/mail-ledger`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${clerkToken}`
+                },
+                body: JSON.stringify({ mailbox, messageIds: messageIds.slice(i, i + 200) })
+            });
+            if (!response.ok) {
+                const errData = await response.json().catch(() => ({}));
+                console.error('[dbService] Mail ledger update failed:', errData);
+            }
+        } catch (e) {
+            console.warn("[dbService] Mail ledger update network error:", e);
+        }
+    }
+};
+
+/**
+ * Recent inbox scan runs (scheduled ones are recorded by the cron job) and the next scheduled scan time.
+ */
+export const fetchScanRuns = async (clerkToken: string, limit: number = 20): Promise<{ runs: ScanRun[], nextScanAt: string | null }> => {
+    try {
+        const response = await fetch(`${API_BASE}/scan-runs?limit=${limit}`, {
+            headers: { 'Authorization': `Bearer ${clerkToken}` }
+        });
+        if (response.ok) {
+            const data = await response.json();
+            return { runs: data.runs || [], nextScanAt: data.nextScanAt || null };
+        } else {
+            const errData = await response.json().catch(() => ({}));
+            console.error('[dbService] Fetch scan runs failed:', response.status, errData);
+        }
+    } catch (e) {
+        console.warn("[dbService] Fetch scan runs network error:", e);
+    }
+    return { runs: [], nextScanAt: null };
+};
+
+// One run with its per-email breakdown
+export const fetchScanRun = async (id: string, clerkToken: string): Promise<ScanRun | null> => {
+    try {
+        const response = await fetch(`${API_BASE}/scan-runs?id=${encodeURIComponent(id)}`, {
+            headers: { 'Authorization': `Bearer ${clerkToken}` }
+        });
+        if (response.ok) {
+            const data = await response.json();
+            return data.run || null;
+        } else {
+            const errData = await response.json().catch(() => ({}));
+            console.error('[dbService] Fetch scan run failed:', response.status, errData);
+        }
+    } catch (e) {
+        console.warn("[dbService] Fetch scan run network error:", e);
+    }
+    return null;
+};
+
+// Records a scan made in the app. Returns null when it couldn't be stored; the scan itself is unaffected.
+export const saveScanRun = async (run: Omit<ScanRun, 'id'>, clerkToken: string): Promise<ScanRun | null> => {
+    try {
+        const response = await fetch(`${API_BASE}/scan-runs`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${clerkToken}`
+            },
+            body: JSON.stringify(run)
+        });
+        if (response.ok) {
+            const data = await response.json();
+            return data.run || null;
+        } else {
+            const errData = await response.json().catch(() => ({}));
+            console.error('[dbService] Save scan run failed:', response.status, errData);
+        }
+    } catch (e) {
+        console.warn("[dbService] Save scan run network error:", e);
+    }
+    return null;
+};
+
+export const disconnectMailAccount = async (accountId: string, clerkToken: string, authType: EmailAccount['authType'] = 'oauth') => {
+    const route = authType === 'imap' ? 'imap-bridge' : 'gmail-auth';
+    try {
+        const response = await fetch(`${API_BASE}/${route}?accountId=${encodeURIComponent(accountId)}`, {
+            method: 'DELETE',
+            headers: { 'Authorization': `Bearer ${clerkToken}` }
+        });
+        if (!response.ok) {
+            const errData = await response.json().catch(() => ({}));
+            console.error('[dbService] Mail disconnect failed:', errData);
+        }
+    } catch (e) {
+        console.warn("[dbService] Mail disconnect network error:", e);
+    }
+};
+
+const readFileAsBase64 = (file: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    // Data URL minus its "data:<type>;base64," prefix
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const resumeFileUrl = (resumeId: string) => `${API_BASE}/resume-file?resumeId=${encodeURIComponent(resumeId)}`;
+
+/**
+ * Stores the original file of a master resume next to its extracted text. Throws with the server's message on failure.
+ */
+export const uploadResumeFile = async (file: File, mimeType: string, resumeId: string, clerkToken: string): Promise<ResumeFileInfo> => {
+    const response = await fetch(resumeFileUrl(resumeId), {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${clerkToken}`
+        },
+        body: JSON.stringify({ fileName: file.name, mimeType, data: await readFileAsBase64(file) })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.fileName) {
+        console.error('[dbService] Resume file upload failed:', response.status, data);
+        throw new Error(data.error || 'Could not store the resume file');
+    }
+    return data;
+};
+
+// The stored original file of a master resume, or null when none was uploaded
+export const downloadResumeFile = async (resumeId: string, clerkToken: string): Promise<{ info: ResumeFileInfo, blob: Blob } | null> => {
+    try {
+        const response = await fetch(resumeFileUrl(resumeId), {
+            headers: { 'Authorization': `Bearer ${clerkToken}` }
+        });
+        if (response.ok) {
+            const { data, ...info } = await response.json();
+            const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+            return { info, blob: new Blob([bytes], { type: info.mimeType }) };
+        } else if (response.status !== 404) {
+            const errData = await response.json().catch(() => ({}));
+            console.error('[dbService] Resume file download failed:', response.status, errData);
+        }
+    } catch (e) {
+        console.warn("[dbService] Resume file download network error:", e);
+    }
+    return null;
+};
+
+// Removes the stored file of a deleted master resume; a failure only leaves an orphaned file behind
+export const deleteResumeFile = async (resumeId: string, clerkToken: string) => {
+    try {
+        const response = await fetch(resumeFileUrl(resumeId), {
+            method: 'DELETE',
+            headers: { 'Authorization': `Bearer ${clerkToken}` }
+        });
+        if (!response.ok) console.error('[dbService] Resume file delete failed:', response.status);
+    } catch (e) {
+        console.warn("[dbService] Resume file delete network error:", e);
     }
 };
 
@@ -0,0 +1,52 @@
+import { Job, JobDocumentKind, UserProfile } from '../types';
+import { DocumentLayout, coverLetterLayout, documentContact, resumeLayout } from './documentLayout';
+import { getDocumentTemplate } from './documentTemplates';
+import { parseResumeText, resumeFromProfile } from './resumeParser';
+
+/**
+ * Turns a job's tailored resume or cover letter into a formatted PDF or DOCX, entirely in the
+ * browser. The renderers are loaded on first export.
+ */
+
+export type DocumentFormat = 'pdf' | 'docx';
+
+export const DOCUMENT_MIME_TYPES: Record<DocumentFormat, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+// Jobs tailored before the structured resume existed only have the text, which is parsed back
+export const jobDocumentLayout = (job: Job, kind: JobDocumentKind, profile: UserProfile): DocumentLayout | null => {
+    const contact = documentContact(profile, job.tailoredResume || resumeFromProfile(profile));
+    if (kind === 'coverLetter') return job.coverLetter ? coverLetterLayout(job.coverLetter, contact) : null;
+    const resume = job.tailoredResume || (job.customizedResume ? parseResumeText(job.customizedResume) : null);
+    return resume ? resumeLayout(resume, contact) : null;
+};
+
+export const renderDocument = async (layout: DocumentLayout, format: DocumentFormat, templateId?: string): Promise<Blob> => {
+    const template = getDocumentTemplate(templateId);
+    const bytes = format === 'pdf'
+        ? await (await import('./pdfRenderer')).renderPdf(layout, template)
+        : await (await import('./docxRenderer')).renderDocx(layout, template);
+    return new Blob([new Uint8Array(bytes)], { type: DOCUMENT_MIME_TYPES[format] });
+};
+
+export const jobDocumentFileName = (job: Job, kind: JobDocumentKind, format: DocumentFormat) =>
+    `${(job.company || 'Job').replace(/[^\w.-]+/g, '_')}_${kind === 'resume' ? 'Resume' : 'Cover_Letter'}.${format}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+export const exportJobDocument = async (job: Job, kind: JobDocumentKind, profile: UserProfile, format: DocumentFormat, templateId?: string) => {
+    const layout = jobDocumentLayout(job, kind, profile);
+    if (!layout) throw new Error(kind === 'resume' ? 'This job has no tailored resume yet.' : 'This job has no cover letter yet.');
+    downloadBlob(await renderDocument(layout, format, templateId), jobDocumentFileName(job, kind, format));
+};
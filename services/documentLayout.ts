@@ -0,0 +1,88 @@
+import { Resume, ResumeContact, UserProfile } from '../types';
+
+/**
+ * Renderer-neutral content of an exported document: an ordered list of blocks that pdfRenderer
+ * and docxRenderer lay out with a DocumentTemplate. Text here is as the user wrote it; casing,
+ * fonts and spacing are up to the template.
+ */
+
+export type LayoutBlock =
+    | { type: 'name', text: string }
+    | { type: 'contact', text: string }
+    | { type: 'heading', text: string }
+    // An experience, education or project line: title, "Company, Location", dates
+    | { type: 'entry', title: string, subtitle: string, dates: string }
+    // May contain single newlines, kept as line breaks
+    | { type: 'paragraph', text: string }
+    | { type: 'bullet', text: string };
+
+export interface DocumentLayout {
+    title: string; // Document metadata
+    author: string;
+    blocks: LayoutBlock[];
+}
+
+const join = (parts: string[], separator: string) => parts.map(part => part.trim()).filter(Boolean).join(separator);
+const dateRange = (start: string, end: string) => start && end ? `${start} – ${end}` : start || end;
+
+/**
+ * The contact header for exports: name, email and phone from the profile (what the user keeps
+ * current in Settings), location and links from the resume.
+ */
+export const documentContact = (profile: Pick<UserProfile, 'fullName' | 'email' | 'phone'>, resume?: Resume): ResumeContact => ({
+    name: profile.fullName || resume?.contact.name || '',
+    email: profile.email || resume?.contact.email || '',
+    phone: profile.phone || resume?.contact.phone || '',
+    location: resume?.contact.location || '',
+    links: resume?.contact.links || []
+});
+
+const headerBlocks = (contact: ResumeContact): LayoutBlock[] => {
+    const blocks: LayoutBlock[] = [];
+    if (contact.name) blocks.push({ type: 'name', text: contact.name });
+    const line = join([contact.email, contact.phone, contact.location, ...contact.links], '  |  ');
+    if (line) blocks.push({ type: 'contact', text: line });
+    return blocks;
+};
+
+export const resumeLayout = (resume: Resume, contact: ResumeContact): DocumentLayout => {
+    const blocks = headerBlocks(contact);
+    const section = (title: string, content: LayoutBlock[]) => {
+        if (content.length > 0) blocks.push({ type: 'heading', text: title }, ...content);
+    };
+    const bullets = (lines: string[]): LayoutBlock[] => lines.filter(Boolean).map(text => ({ type: 'bullet', text }));
+
+    section('Summary', resume.summary ? [{ type: 'paragraph', text: resume.summary }] : []);
+    section('Experience', resume.experience.flatMap(entry => [
+        { type: 'entry', title: entry.title || entry.company, subtitle: join([entry.title ? entry.company : '', entry.location], ', '), dates: dateRange(entry.startDate, entry.endDate) },
+        ...bullets(entry.bullets)
+    ] as LayoutBlock[]));
+    section('Education', resume.education.flatMap(entry => [
+        { type: 'entry', title: entry.degree || entry.institution, subtitle: join([entry.degree ? entry.institution : '', entry.location], ', '), dates: dateRange(entry.startDate, entry.endDate) },
+        ...bullets(entry.details)
+    ] as LayoutBlock[]));
+    section('Skills', resume.skills.length > 0 ? [{ type: 'paragraph', text: resume.skills.join(', ') }] : []);
+    section('Certifications', bullets(resume.certifications.map(cert => join([cert.name, cert.issuer, cert.date], ', '))));
+    section('Projects', resume.projects.flatMap(project => [
+        { type: 'entry', title: project.name, subtitle: project.url, dates: '' },
+        ...(project.description ? [{ type: 'paragraph', text: project.description }] : []),
+        ...bullets(project.bullets)
+    ] as LayoutBlock[]));
+    resume.extraSections.forEach(extra => section(extra.title, extra.lines.map(text => ({ type: 'paragraph', text }))));
+
+    return { title: join([contact.name, 'Resume'], ' – '), author: contact.name, blocks };
+};
+
+// Paragraphs are separated by blank lines; the letter's own greeting and sign-off are kept as written
+export const coverLetterLayout = (letter: string, contact: ResumeContact, date: Date = new Date()): DocumentLayout => {
+    const paragraphs = letter.replace(/\r\n?/g, '\n').split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+    return {
+        title: join([contact.name, 'Cover Letter'], ' – '),
+        author: contact.name,
+        blocks: [
+            ...headerBlocks(contact),
+            { type: 'paragraph', text: date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) },
+            ...paragraphs.map(text => ({ type: 'paragraph', text }) as LayoutBlock)
+        ]
+    };
+};
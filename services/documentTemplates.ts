@@ -0,0 +1,85 @@
+import { DocumentTemplateId } from '../types';
+
+/**
+ * Visual templates for exported resumes and cover letters. A template is only styling; the same
+ * DocumentLayout renders with any of them, as PDF (pdfRenderer) or DOCX (docxRenderer).
+ */
+
+export interface DocumentTemplate {
+    id: DocumentTemplateId;
+    name: string;
+    description: string;
+    // PDF uses the matching standard font (Times, Helvetica); DOCX names a font Word has everywhere
+    font: 'serif' | 'sans';
+    docxFont: string;
+    // Sizes in points
+    nameSize: number;
+    headingSize: number;
+    bodySize: number;
+    margin: number;
+    accentColor: string; // Hex without '#', used for the name and headings
+    headerAlign: 'center' | 'left';
+    uppercaseHeadings: boolean;
+    // Thin line under each section heading
+    headingRule: boolean;
+    // Entry dates right-aligned on the title line; otherwise inline after the title, which parsers read best
+    datesRight: boolean;
+}
+
+export const DOCUMENT_TEMPLATES: DocumentTemplate[] = [
+    {
+        id: 'classic',
+        name: 'Classic',
+        description: 'Serif, centered header, ruled section headings',
+        font: 'serif',
+        docxFont: 'Times New Roman',
+        nameSize: 20,
+        headingSize: 11,
+        bodySize: 10.5,
+        margin: 54,
+        accentColor: '1F2937',
+        headerAlign: 'center',
+        uppercaseHeadings: true,
+        headingRule: true,
+        datesRight: true
+    },
+    {
+        id: 'modern',
+        name: 'Modern',
+        description: 'Sans-serif, left-aligned header, colored headings',
+        font: 'sans',
+        docxFont: 'Calibri',
+        nameSize: 22,
+        headingSize: 11.5,
+        bodySize: 10,
+        margin: 48,
+        accentColor: '4F46E5',
+        headerAlign: 'left',
+        uppercaseHeadings: false,
+        headingRule: false,
+        datesRight: true
+    },
+    {
+        id: 'ats-plain',
+        name: 'ATS Plain',
+        description: 'Single column, no color or rules, for applicant tracking systems',
+        font: 'sans',
+        docxFont: 'Arial',
+        nameSize: 16,
+        headingSize: 11,
+        bodySize: 10.5,
+        margin: 54,
+        accentColor: '000000',
+        headerAlign: 'left',
+        uppercaseHeadings: true,
+        headingRule: false,
+        datesRight: false
+    }
+];
+
+export const DEFAULT_DOCUMENT_TEMPLATE: DocumentTemplateId = 'classic';
+
+// Unknown ids (e.g. from an older saved preference) fall back to the default
+export const getDocumentTemplate = (id?: string | null): DocumentTemplate =>
+    DOCUMENT_TEMPLATES.find(template => template.id === id)
+    || DOCUMENT_TEMPLATES.find(template => template.id === DEFAULT_DOCUMENT_TEMPLATE)!;
@@ -0,0 +1,101 @@
+import { DocumentVersion, DocumentVersionSource, Job, JobDocumentKind } from '../types';
+import { parseResumeText } from './resumeParser';
+
+/**
+ * History of a job's tailored resume and cover letter. Every generation, editing session and restore
+ * adds a version and makes it the job's current document; only the autosaves of an editing session
+ * update their own version. New versions travel with the job to api/jobs.ts, which stores them in
+ * job_document_versions; App drops them from the job once a save has succeeded.
+ */
+
+// Matches MAX_DOCUMENT_VERSIONS in api/jobs.ts, which prunes older ones per job and kind
+export const MAX_DOCUMENT_VERSIONS = 30;
+
+export const DOCUMENT_VERSION_SOURCE_LABELS: Record<DocumentVersionSource, string> = {
+    ai: 'AI',
+    local: 'Local fallback',
+    manual: 'Manual edit'
+};
+
+type VersionDetails = Omit<DocumentVersion, 'id' | 'kind' | 'text' | 'createdAt'>;
+
+export const createDocumentVersion = (kind: JobDocumentKind, text: string, details: VersionDetails): DocumentVersion => ({
+    id: `ver_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`,
+    kind,
+    text,
+    ...details,
+    createdAt: new Date().toISOString()
+});
+
+export const jobDocumentText = (job: Job, kind: JobDocumentKind) =>
+    (kind === 'resume' ? job.customizedResume : job.coverLetter) || '';
+
+// Stored and not yet stored versions, oldest first
+export const mergeDocumentVersions = (...lists: (DocumentVersion[] | undefined)[]): DocumentVersion[] => {
+    const byId = new Map<string, DocumentVersion>();
+    lists.forEach(list => (list || []).forEach(version => byId.set(version.id, version)));
+    return Array.from(byId.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// A document generated before versions were kept, so replacing it doesn't lose it
+const legacyVersion = (job: Job, kind: JobDocumentKind, history: DocumentVersion[]): DocumentVersion | null => {
+    const text = jobDocumentText(job, kind);
+    if (!text || history.some(version => version.kind === kind)) return null;
+    const promptVersion = kind === 'resume' ? job.customizedResumePromptVersion : job.coverLetterPromptVersion;
+    return {
+        ...createDocumentVersion(kind, text, {
+            source: promptVersion ? 'ai' : 'manual',
+            promptVersion,
+            resume: kind === 'resume' ? job.tailoredResume : undefined,
+            baseResumeId: kind === 'resume' ? job.baseResumeId : undefined
+        }),
+        // Its real date is unknown; the job's detection is the earliest it can be from
+        createdAt: job.detectedAt
+    };
+};
+
+/**
+ * Makes each version the job's current document of its kind and queues it for saving.
+ * `history` is every version known so far, used to keep a document that predates the history.
+ */
+export const applyDocumentVersions = (job: Job, versions: DocumentVersion[], history: DocumentVersion[]): Job => {
+    const known = mergeDocumentVersions(history, job.documentVersions);
+    const legacy = versions
+        .map(version => version.kind)
+        .filter((kind, i, kinds) => kinds.indexOf(kind) === i)
+        .map(kind => legacyVersion(job, kind, known))
+        .filter((version): version is DocumentVersion => !!version);
+
+    return versions.reduce<Job>((updated, version) => version.kind === 'resume'
+        ? {
+            ...updated,
+            customizedResume: version.text,
+            customizedResumePromptVersion: version.promptVersion,
+            tailoredResume: version.resume,
+            baseResumeId: version.baseResumeId
+        }
+        : {
+            ...updated,
+            coverLetter: version.text,
+            coverLetterPromptVersion: version.promptVersion
+        }, { ...job, documentVersions: mergeDocumentVersions(job.documentVersions, legacy, versions) });
+};
+
+/**
+ * A hand edit of the job's document. Passing the version from the session's previous autosave
+ * keeps its id, so one editing session stays one version.
+ */
+export const manualVersion = (job: Job, kind: JobDocumentKind, text: string, session?: DocumentVersion): DocumentVersion => {
+    const version = createDocumentVersion(kind, text, {
+        source: 'manual',
+        resume: kind === 'resume' ? parseResumeText(text) : undefined,
+        baseResumeId: job.baseResumeId
+    });
+    return session ? { ...version, id: session.id } : version;
+};
+
+// A new version with the content of an older one
+export const restoredVersion = (version: DocumentVersion): DocumentVersion => {
+    const { id, kind, text, createdAt, ...details } = version;
+    return createDocumentVersion(kind, text, { ...details, restoredFrom: id });
+};
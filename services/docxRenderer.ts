@@ -0,0 +1,82 @@
+import { AlignmentType, BorderStyle, Document, HeadingLevel, Packer, Paragraph, Tab, TabStopType, TextRun } from 'docx';
+import { DocumentLayout, LayoutBlock } from './documentLayout';
+import { DocumentTemplate } from './documentTemplates';
+
+/**
+ * Writes a DocumentLayout as a Word document. Section headings use Word's heading styles and
+ * bullets real list numbering, so the file stays editable and readable by applicant tracking systems.
+ */
+
+// docx measures font sizes in half-points and page geometry in twentieths of a point
+const halfPoints = (points: number) => Math.round(points * 2);
+const twips = (points: number) => Math.round(points * 20);
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const TEXT_COLOR = '1F2937';
+const MUTED_COLOR = '4B5563';
+
+export const renderDocx = async (layout: DocumentLayout, template: DocumentTemplate): Promise<Uint8Array> => {
+    const { bodySize, docxFont: font, accentColor } = template;
+    const contentWidth = twips(PAGE_WIDTH - template.margin * 2);
+    const headerAlign = template.headerAlign === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT;
+
+    const run = (text: string, options: { size?: number, bold?: boolean, italics?: boolean, color?: string } = {}) =>
+        new TextRun({ text, font, size: halfPoints(options.size ?? bodySize), bold: options.bold, italics: options.italics, color: options.color ?? TEXT_COLOR });
+
+    // Single newlines in a block become line breaks
+    const lines = (text: string, options?: Parameters<typeof run>[1]) =>
+        text.split('\n').map((line, i) => i === 0 ? run(line, options) : new TextRun({ text: line, break: 1, font, size: halfPoints(options?.size ?? bodySize), color: options?.color ?? TEXT_COLOR }));
+
+    const toParagraphs = (block: LayoutBlock, next?: LayoutBlock): Paragraph[] => {
+        switch (block.type) {
+            case 'name':
+                return [new Paragraph({ alignment: headerAlign, spacing: { after: 40 }, children: [run(block.text, { size: template.nameSize, bold: true, color: accentColor })] })];
+            case 'contact':
+                return [new Paragraph({ alignment: headerAlign, spacing: { after: twips(bodySize) }, children: [run(block.text, { size: bodySize - 0.5, color: MUTED_COLOR })] })];
+            case 'heading':
+                return [new Paragraph({
+                    heading: HeadingLevel.HEADING_2,
+                    spacing: { before: twips(bodySize * 0.8), after: twips(bodySize * 0.3) },
+                    keepNext: true,
+                    border: template.headingRule ? { bottom: { style: BorderStyle.SINGLE, size: 6, color: accentColor, space: 1 } } : undefined,
+                    children: [run(template.uppercaseHeadings ? block.text.toUpperCase() : block.text, { size: template.headingSize, bold: true, color: accentColor })]
+                })];
+            case 'entry': {
+                const datesRight = template.datesRight && !!block.dates;
+                const subtitle = template.datesRight ? block.subtitle : [block.subtitle, block.dates].filter(Boolean).join(' | ');
+                const paragraphs = [new Paragraph({
+                    spacing: { before: twips(bodySize * 0.4) },
+                    keepNext: true,
+                    tabStops: datesRight ? [{ type: TabStopType.RIGHT, position: contentWidth }] : undefined,
+                    children: [
+                        run(block.title, { bold: true }),
+                        ...(datesRight ? [new TextRun({ children: [new Tab(), block.dates], font, size: halfPoints(bodySize), color: MUTED_COLOR })] : [])
+                    ]
+                })];
+                if (subtitle) paragraphs.push(new Paragraph({ keepNext: true, children: [run(subtitle, { italics: true, color: MUTED_COLOR })] }));
+                return paragraphs;
+            }
+            case 'paragraph':
+                return [new Paragraph({ spacing: { after: next?.type === 'paragraph' ? twips(bodySize * 0.6) : 0 }, children: lines(block.text) })];
+            case 'bullet':
+                return [new Paragraph({ bullet: { level: 0 }, spacing: { after: 20 }, children: lines(block.text) })];
+        }
+    };
+
+    const doc = new Document({
+        creator: 'JobFlow',
+        title: layout.title,
+        styles: { default: { document: { run: { font, size: halfPoints(bodySize) } } } },
+        sections: [{
+            properties: {
+                page: {
+                    size: { width: twips(PAGE_WIDTH), height: twips(PAGE_HEIGHT) },
+                    margin: { top: twips(template.margin), bottom: twips(template.margin), left: twips(template.margin), right: twips(template.margin) }
+                }
+            },
+            children: layout.blocks.flatMap((block, i) => toParagraphs(block, layout.blocks[i + 1]))
+        }]
+    });
+    return new Uint8Array(await Packer.toArrayBuffer(doc));
+};
@@ -0,0 +1,43 @@
+import type { LlmClient, LlmRequest, LlmResponse } from './llmClient';
+
+/**
+ * Deterministic LlmClient with no network access, for offline development and tests.
+ * By default it answers "{}" to JSON requests and a fixed sentence naming the prompt otherwise;
+ * `respond` supplies canned answers. Every request is recorded in `calls`.
+ */
+
+export interface FakeLlmOptions {
+    // Return undefined to fall through to the default answer
+    respond?: (request: LlmRequest) => string | Partial<LlmResponse> | undefined;
+}
+
+export interface FakeLlmClient extends LlmClient {
+    readonly calls: LlmRequest[];
+}
+
+export const FAKE_LLM_MODEL = 'fake-1';
+
+// Stable across runs, so snapshots of fake output don't churn
+const hashPrompt = (text: string) => {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const createFakeLlmClient = (options: FakeLlmOptions = {}): FakeLlmClient => {
+    const calls: LlmRequest[] = [];
+    return {
+        name: 'fake',
+        model: FAKE_LLM_MODEL,
+        calls,
+        async generate(request) {
+            calls.push(request);
+            const canned = options.respond?.(request);
+            const base: LlmResponse = { text: '', sources: [], model: FAKE_LLM_MODEL };
+            if (typeof canned === 'string') return { ...base, text: canned };
+            if (canned) return { ...base, ...canned };
+            const firstLine = request.prompt.trim().split('\n')[0].slice(0, 80);
+            return { ...base, text: request.json ? '{}' : `Fake response ${hashPrompt(request.prompt)} for: ${firstLine}` };
+        }
+    };
+};
@@ -0,0 +1,105 @@
+import type { MailMessage, MailProvider, MailSearchOptions } from './mailProvider';
+import { matchesJobKeywords, syncByDate } from './mailProvider';
+
+/**
+ * In-memory MailProvider for demos and tests. Search applies the same subject-keyword and
+ * date rules as the real providers; deliver() adds mail so incremental sync can be exercised.
+ */
+
+export interface FakeMailMessage extends MailMessage {
+    html: string;
+}
+
+export interface FakeMailProviderOptions {
+    emailAddress?: string;
+    messages?: FakeMailMessage[];
+    // Every call rejects with this message, e.g. 'TOKEN_EXPIRED' to exercise the reconnect path
+    failWith?: string;
+}
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600000).toISOString();
+
+export const createDemoMessages = (): FakeMailMessage[] => [
+    {
+        id: 'demo-1',
+        from: 'LinkedIn Job Alerts',
+        subject: '3 new jobs for Frontend Engineer',
+        date: hoursAgo(2),
+        snippet: 'Senior Frontend Engineer at Northwind, Frontend Developer at Contoso',
+        html: `
+            <h2>Jobs matching your alert</h2>
+            <p><a href="https://www.linkedin.com/jobs/view/demo-1001">Senior Frontend Engineer</a> · Northwind · Remote</p>
+            <p><a href="https://www.linkedin.com/jobs/view/demo-1002">Frontend Developer</a> · Contoso · Berlin</p>
+            <p><a href="https://www.linkedin.com/jobs/view/demo-1003">UI Designer</a> · Fabrikam · London</p>
+            <p><a href="https://www.linkedin.com/settings">Manage alert settings</a></p>
+        `
+    },
+    {
+        id: 'demo-2',
+        from: 'Indeed',
+        subject: 'Hiring now: Backend Engineer roles near you',
+        date: hoursAgo(30),
+        snippet: 'Backend Engineer at Tailspin Toys',
+        html: `
+            <p><a href="https://www.indeed.com/viewjob?jk=demo2001">Backend Engineer</a> - Tailspin Toys - Remote</p>
+            <p><a href="https://www.indeed.com/viewjob?jk=demo2002">Data Analyst</a> - Wingtip - Amsterdam</p>
+            <p><a href="https://www.indeed.com/unsubscribe">Unsubscribe</a></p>
+        `
+    },
+    {
+        id: 'demo-3',
+        from: 'Recruiter at Adventure Works',
+        subject: 'Career opportunity: Product Manager',
+        date: hoursAgo(5 * 24),
+        snippet: 'We think you would be a great fit for our Product Manager opening',
+        html: `<p>Hi,</p><p>Have a look at our <a href="https://careers.adventure-works.example/jobs/pm-42">Product Manager</a> opening.</p>`
+    },
+    {
+        id: 'demo-4',
+        from: 'Weekly Digest',
+        subject: 'Your weekly reading list',
+        date: hoursAgo(10),
+        snippet: 'Articles picked for you',
+        html: `<p><a href="https://blog.example/posts/1">Software Engineer interview tips</a></p>`
+    }
+];
+
+export const createFakeMailProvider = (options: FakeMailProviderOptions = {}): MailProvider & { deliver: (message: FakeMailMessage) => void } => {
+    const mailbox = [...(options.messages || createDemoMessages())];
+    const emailAddress = options.emailAddress || 'demo@jobflow.app';
+
+    const guard = async () => {
+        if (options.failWith) throw new Error(options.failWith);
+    };
+
+    const search = async ({ days, limit, keywords }: MailSearchOptions): Promise<MailMessage[]> => {
+        await guard();
+        const since = Date.now() - days * 86400000;
+        return mailbox
+            .filter(msg => new Date(msg.date).getTime() >= since && matchesJobKeywords(msg.subject, keywords))
+            .sort((a, b) => b.date.localeCompare(a.date))
+            .slice(0, limit)
+            .map(({ html, ...summary }) => summary);
+    };
+
+    return {
+        name: 'Demo',
+        jobSource: 'Demo',
+        authenticate: guard,
+        getProfile: async () => {
+            await guard();
+            return { emailAddress, displayName: 'Demo Inbox' };
+        },
+        search,
+        fetchBody: async (messageId) => {
+            await guard();
+            const message = mailbox.find(msg => msg.id === messageId);
+            if (!message) throw new Error(`Unknown message ${messageId}`);
+            return message.html;
+        },
+        sync: (cursor, syncOptions) => syncByDate(search, cursor, syncOptions),
+        deliver: (message) => {
+            mailbox.push(message);
+        }
+    };
+};
@@ -0,0 +1,50 @@
+import { GoogleGenAI } from '@google/genai';
+import type { LlmClient, LlmClientFactory, LlmRequest, LlmSource } from './llmClient';
+
+/**
+ * LlmClient for the Gemini API (@google/genai), with Google Search and Maps grounding.
+ */
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+// Maps grounding isn't available on every model
+const MAPS_GROUNDING_MODEL = 'gemini-2.5-flash';
+
+export const createGeminiLlmClient: LlmClientFactory = (config): LlmClient => {
+    if (!config.apiKey) throw new Error('Gemini API key is not set (LLM_API_KEY or API_KEY)');
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+    const defaultModel = config.model || DEFAULT_GEMINI_MODEL;
+
+    return {
+        name: 'gemini',
+        model: defaultModel,
+        async generate(request: LlmRequest) {
+            const tools = request.tools || [];
+            const model = tools.includes('maps') && !config.model ? MAPS_GROUNDING_MODEL : defaultModel;
+            const response = await ai.models.generateContent({
+                model,
+                contents: request.prompt,
+                config: {
+                    systemInstruction: request.system,
+                    temperature: request.temperature,
+                    maxOutputTokens: request.maxOutputTokens,
+                    // Gemini doesn't allow a JSON response type together with grounding tools
+                    responseMimeType: request.json && tools.length === 0 ? 'application/json' : undefined,
+                    tools: tools.length > 0
+                        ? tools.map(tool => tool === 'maps' ? { googleMaps: {} } : { googleSearch: {} })
+                        : undefined,
+                    toolConfig: request.location
+                        ? { retrievalConfig: { latLng: { latitude: request.location.lat, longitude: request.location.lng } } }
+                        : undefined
+                }
+            });
+
+            const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+            const sources: LlmSource[] = chunks.flatMap((chunk): LlmSource[] => {
+                if (chunk.web?.uri) return [{ uri: chunk.web.uri, title: chunk.web.title, tool: 'webSearch' }];
+                if (chunk.maps?.uri) return [{ uri: chunk.maps.uri, title: chunk.maps.title, tool: 'maps' }];
+                return [];
+            });
+            return { text: response.text || '', sources, model };
+        }
+    };
+};
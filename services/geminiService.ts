@@ -1,8 +1,25 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { Job, JobStatus } from '../types';
+import { Job, JobStatus, Resume } from '../types';
+import { cleanJobUrl } from './urlRules';
+import { getLlmClient } from './llmClientRegistry';
+import { parseJsonResponse } from './llmClient';
+import { buildPrompt } from './promptRegistry';
+import { RewriteStyle } from './prompts';
+import { applyTailoring, normalizeResume, resumeToText, scoreResumeMatch } from './resumeModel';
+
+export interface GeneratedDocument {
+  text: string;
+  // Prompt that produced `text` (see promptRegistry); absent when generation failed
+  promptVersion?: string;
+  model?: string;
+}
+
+export interface GeneratedResume extends GeneratedDocument {
+  // The tailored structure `text` was rendered from; absent when generation failed
+  resume?: Resume;
+}
 
 /**
- * Generates a tailored cover letter using the Gemini model.
+ * Generates a tailored cover letter using the configured LLM (see llmClientRegistry).
  */
 export const generateCoverLetter = async (
   title: string,
@@ -11,124 +28,74 @@ export const generateCoverLetter = async (
   resume: string,
   name: string,
   email: string
-) => {
+): Promise<GeneratedDocument> => {
   try {
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY not set');
-    }
-
-    const ai = new GoogleGenerativeAI({ apiKey });
-
-    const isPlaceholder =
-      !company ||
-      company.toLowerCase().includes('review') ||
-      company.toLowerCase().includes('unknown') ||
-      company.toLowerCase().includes('site') ||
-      company.toLowerCase().includes('description');
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-1.5-flash',
-      contents: `Write a professional, high-impact cover letter for the ${title} position.
-
-CONTEXT:
-- Target Company: ${
-        isPlaceholder
-          ? 'Carefully scan the job description below to identify the actual company name. If not found, use "Hiring Manager".'
-          : company
-      }
-- Candidate: ${name} (${email})
-- Job Title: ${title}
-- Job Description: ${description}
-- Candidate Resume: ${resume}
-
-REQUIREMENTS:
-1. Keep cover letter under 400 words
-2. Match candidate skills to job requirements
-3. NEVER use placeholder text like "Review Required", "Unknown Company", "Check Site", or "Check Description"
-4. Use professional tone and ATS-friendly formatting
-5. Include specific accomplishments from resume that align with job requirements`,
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 1024,
-      },
-    });
-
-    return response.response.text() || '';
+    const { request, promptVersion } = buildPrompt('coverLetter', { title, company, description, resume, name, email });
+    const response = await getLlmClient().generate(request);
+    return { text: response.text, promptVersion, model: response.model };
   } catch (error: any) {
     console.error('[generateCoverLetter] Error:', error.message);
-    return `Cover letter generation failed: ${error.message}`;
+    return { text: `Cover letter generation failed: ${error.message}` };
   }
 };
 
 /**
- * Customizes a resume based on the job description.
+ * Customizes the structured resume for the job: the LLM rewords and reorders, applyTailoring keeps
+ * the facts from the original, and the result is rendered to text.
  */
 export const customizeResume = async (
   title: string,
   company: string,
   description: string,
-  resume: string,
+  resume: Resume,
   email: string
-) => {
+): Promise<GeneratedResume> => {
   try {
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY not set');
-    }
-
-    const ai = new GoogleGenerativeAI({ apiKey });
-
-    const isPlaceholder =
-      !company ||
-      company.toLowerCase().includes('review') ||
-      company.toLowerCase().includes('unknown');
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-1.5-flash',
-      contents: `Tailor this resume for a ${title} role at ${
-        isPlaceholder ? 'the target company' : company
-      }.
-
-Email: ${email}
-
-Original Resume:
-${resume}
-
-Job Description:
-${description}
-
-INSTRUCTIONS:
-1. Reorder experience to highlight relevant skills first
-2. Adapt bullet points to match job description keywords
-3. Emphasize achievements with metrics (e.g., increased by X%, saved Y hours)
-4. Keep the same length and structure
-5. Focus on ATS optimization with proper formatting`,
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 2048,
-      },
-    });
-
-    return response.response.text() || '';
+    const original: Resume = { ...resume, contact: { ...resume.contact, email: email || resume.contact.email } };
+    const { request, promptVersion } = buildPrompt('tailorStructuredResume', { title, company, description, resume: original });
+    const response = await getLlmClient().generate(request);
+    const tailored = applyTailoring(original, normalizeResume(parseJsonResponse(response.text, {})));
+    return { text: resumeToText(tailored), resume: tailored, promptVersion, model: response.model };
   } catch (error: any) {
     console.error('[customizeResume] Error:', error.message);
-    return `Resume customization failed: ${error.message}`;
+    return { text: `Resume customization failed: ${error.message}` };
   }
 };
 
 /**
- * Extracts job details from URL via server-side API
+ * Rewrites a passage selected in the document editor. Unlike the generators above this throws on
+ * failure, so the editor can leave the selection untouched.
+ */
+export const rewriteSelection = async (
+  selection: string,
+  style: RewriteStyle,
+  document: string,
+  documentType: 'resume' | 'cover letter',
+  title: string,
+  company: string
+): Promise<GeneratedDocument> => {
+  const { request, promptVersion } = buildPrompt('rewriteSelection', { selection, style, document, documentType, title, company });
+  const response = await getLlmClient().generate(request);
+  // Models sometimes wrap the answer in quotes or a code fence despite the instructions
+  const text = response.text.trim().replace(/^```\w*\n?|\n?```$/g, '').replace(/^"([\s\S]*)"$/, '$1').trim();
+  if (!text) throw new Error('The AI returned an empty rewrite');
+  return { text, promptVersion, model: response.model };
+};
+
+/**
+ * Extracts job details from URL via server-side API.
+ * `extractor` is the structured source that read the posting ('greenhouse', 'json-ld', ...), or 'llm'.
  */
 export const extractJobFromUrl = async (
-  url: string
-): Promise<{ data: any; sources: any[] }> => {
+  url: string,
+  clerkToken: string
+): Promise<{ data: any; sources: any[]; extractor?: string }> => {
   try {
     console.log('[extractJobFromUrl] Extracting from URL:', url);
 
     const res = await fetch('/api/extract-job', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${clerkToken}` },
       body: JSON.stringify({ url }),
     });
 
@@ -182,47 +149,11 @@ export const extractJobsFromEmailHtml = async (
   }[]
 > => {
   try {
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY not set');
-    }
-
-    const ai = new GoogleGenerativeAI({ apiKey });
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-1.5-flash',
-      contents: `Extract ALL job postings from this email HTML. Return ONLY a valid JSON array of objects.
+    const response = await getLlmClient().generate(buildPrompt('extractEmailJobs', { html }).request);
 
-Each object must have these EXACT keys:
-- title (string): Job title
-- company (string): Company name
-- location (string): Job location or "Remote"
-- salaryRange (string): Salary range or empty string
-- description (string): Job description (max 500 chars)
-- applicationUrl (string): Application link or empty string
-
-HTML Content:
-${html}
-
-IMPORTANT: Return ONLY valid JSON array, no other text.`,
-      generationConfig: {
-        temperature: 0.2,
-        maxOutputTokens: 4096,
-        responseMimeType: 'application/json',
-      },
-    });
-
-    try {
-      const text = response.response.text();
-      // Extract JSON from response (in case there's extra text)
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      const parsed = JSON.parse(jsonMatch ? jsonMatch : text);
-      
-      return Array.isArray(parsed) ? parsed : [];
-    } catch (parseError) {
-      console.error('[extractJobsFromEmailHtml] Parse error:', parseError);
-      return [];
-    }
+    const parsed = parseJsonResponse<any>(response.text, {});
+    const jobs = Array.isArray(parsed) ? parsed : parsed.jobs;
+    return Array.isArray(jobs) ? jobs : [];
   } catch (error: any) {
     console.error('[extractJobsFromEmailHtml] Error:', error.message);
     return [];
@@ -230,7 +161,8 @@ IMPORTANT: Return ONLY valid JSON array, no other text.`,
 };
 
 /**
- * URL cleaning helper - removes tracking parameters
+ * URL cleaning helper - unwraps known tracker links and removes tracking parameters (see urlRules).
+ * Redirects are only followed server-side, by /api/resolve-url.
  */
 export const getSmartApplicationUrl = (
   url: string,
@@ -238,21 +170,7 @@ export const getSmartApplicationUrl = (
   company?: string
 ): string => {
   try {
-    const u = new URL(url);
-    const paramsToRemove = [
-      'utm_source',
-      'utm_medium',
-      'utm_campaign',
-      'utm_term',
-      'utm_content',
-      'ref',
-      'source',
-      'click_id',
-      'fbclid',
-      'gclid',
-    ];
-    paramsToRemove.forEach((p) => u.searchParams.delete(p));
-    return u.toString();
+    return cleanJobUrl(new URL(url).toString());
   } catch (error) {
     console.error('[getSmartApplicationUrl] Invalid URL:', url);
     return url;
@@ -260,7 +178,7 @@ export const getSmartApplicationUrl = (
 };
 
 /**
- * Searches for nearby jobs using Gemini (note: requires proper tool setup)
+ * Searches for nearby jobs using the LLM (note: requires proper tool setup)
  */
 export const searchNearbyJobs = async (
   lat: number,
@@ -268,28 +186,17 @@ export const searchNearbyJobs = async (
   role: string
 ): Promise<Job[]> => {
   try {
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY not set');
-    }
-
-    const ai = new GoogleGenerativeAI({ apiKey });
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-1.5-flash',
-      contents: `Find 5 active ${role} job openings near latitude ${lat}, longitude ${lng}. 
+    const response = await getLlmClient().generate({
+      prompt: `Find 5 active ${role} job openings near latitude ${lat}, longitude ${lng}. 
       
       Return as JSON array with: title, company, location, description, applicationUrl`,
-      generationConfig: {
-        temperature: 0.5,
-        maxOutputTokens: 2048,
-        responseMimeType: 'application/json',
-      },
+      temperature: 0.5,
+      maxOutputTokens: 2048,
+      json: true,
     });
 
     try {
-      const text = response.response.text();
-      const parsed = JSON.parse(text);
+      const parsed = parseJsonResponse<any>(response.text, []);
       
       const jobs: Job[] = Array.isArray(parsed)
         ? parsed.map((job: any, index: number) => ({
@@ -321,47 +228,28 @@ export const searchNearbyJobs = async (
 };
 
 /**
- * Generates match score between job and user profile
+ * Generates match score between job and the structured resume; falls back to keyword coverage
+ * (scoreResumeMatch) when the LLM is unavailable or doesn't answer with a number.
  */
 export const calculateJobMatchScore = async (
   jobDescription: string,
-  userResume: string,
+  resume: Resume,
   userPreferences: { targetRoles?: string[]; targetLocations?: string[] }
 ): Promise<number> => {
+  const keywordScore = () => scoreResumeMatch(resume, { description: jobDescription }).score;
   try {
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY not set');
-    }
-
-    const ai = new GoogleGenerativeAI({ apiKey });
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-1.5-flash',
-      contents: `Rate the match between this job and the candidate on a scale of 0-100.
-
-Job Description:
-${jobDescription}
-
-Candidate Resume:
-${userResume}
-
-Target Roles: ${userPreferences.targetRoles?.join(', ') || 'Any'}
-Target Locations: ${userPreferences.targetLocations?.join(', ') || 'Any'}
-
-Return ONLY a single number between 0-100.`,
-      generationConfig: {
-        temperature: 0.3,
-        maxOutputTokens: 10,
-      },
+    const { request } = buildPrompt('matchScore', {
+      description: jobDescription,
+      resume,
+      targetRoles: userPreferences.targetRoles || [],
+      targetLocations: userPreferences.targetLocations || [],
     });
+    const response = await getLlmClient().generate(request);
+    const score = parseInt(response.text.trim(), 10);
 
-    const scoreText = response.response.text().trim();
-    const score = parseInt(scoreText, 10);
-    
-    return isNaN(score) ? 50 : Math.min(100, Math.max(0, score));
+    return isNaN(score) ? keywordScore() : Math.min(100, Math.max(0, score));
   } catch (error: any) {
     console.error('[calculateJobMatchScore] Error:', error.message);
-    return 50; // Default middle score on error
+    return keywordScore();
   }
 };
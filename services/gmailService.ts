@@ -1,3 +1,5 @@
+import type { MailMessage, MailProvider, MailProviderFactory, MailSearchOptions } from './mailProvider';
+import { DEFAULT_JOB_KEYWORDS, matchesJobKeywords } from './mailProvider';
 
 /**
  * Service to interact with Gmail API using OAuth Access Token.
@@ -56,6 +58,7 @@ export const fetchGmailProfile = async (accessToken: string) => {
   });
 
   if (!response.ok) {
+    if (response.status === 401) throw new Error('TOKEN_EXPIRED');
     throw new Error('Failed to fetch profile');
   }
 
@@ -114,6 +117,80 @@ export const getMessageBody = async (accessToken: string, messageId: string) =>
   return await response.json();
 };
 
+/**
+ * Ids of messages added to INBOX since `startHistoryId`, plus the mailbox's current historyId.
+ * Returns null when Gmail no longer has history that far back (404), so the caller must do a full search.
+ */
+export const listHistoryMessageIds = async (accessToken: string, startHistoryId: string, maxPages: number = 5): Promise<{ messageIds: string[], historyId: string } | null> => {
+  const cleanToken = sanitizeToken(accessToken);
+  const messageIds = new Set<string>();
+  let historyId = startHistoryId;
+  let pageToken = '';
+
+  for (let page = 0; page < maxPages; page++) {
+    const params = new URLSearchParams({ startHistoryId, historyTypes: 'messageAdded', labelId: 'INBOX', maxResults: '500' });
+    if (pageToken) params.set('pageToken', pageToken);
+
+    const response = await fetchWithTimeout(`https://gmail.googleapis.com/gmail/v1/users/me/history?${params.toString()}`, {
+      headers: {
+        Authorization: `Bearer ${cleanToken}`,
+        Accept: 'application/json',
+      },
+      cache: 'no-store',
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      if (response.status === 401) throw new Error('TOKEN_EXPIRED');
+      const errorJson = await response.json().catch(() => ({}));
+      console.error(`Gmail history error (${response.status}):`, JSON.stringify(errorJson, null, 2));
+      throw new Error(`Gmail API Error: ${response.status} ${errorJson.error?.message || response.statusText}`);
+    }
+
+    const data = await response.json();
+    (data.history || []).forEach((entry: any) => {
+      (entry.messagesAdded || []).forEach((added: any) => {
+        if (added.message?.id) messageIds.add(added.message.id);
+      });
+    });
+    historyId = data.historyId || historyId;
+    pageToken = data.nextPageToken || '';
+    if (!pageToken) break;
+  }
+
+  return { messageIds: Array.from(messageIds), historyId };
+};
+
+// Headers only; much cheaper than the full message when deciding whether to analyze it.
+// Returns null for messages deleted since they showed up in history.
+export const getMessageMetadata = async (accessToken: string, messageId: string) => {
+  const cleanToken = sanitizeToken(accessToken);
+
+  const response = await fetchWithTimeout(`https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}?format=metadata&metadataHeaders=From&metadataHeaders=Subject`, {
+    headers: {
+      Authorization: `Bearer ${cleanToken}`,
+      Accept: 'application/json',
+    },
+    cache: 'force-cache',
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    if (response.status === 401) throw new Error('TOKEN_EXPIRED');
+    throw new Error(`Failed to get metadata for message ${messageId}`);
+  }
+
+  const data = await response.json();
+  const header = (name: string) => (data.payload?.headers || []).find((h: any) => h.name.toLowerCase() === name.toLowerCase())?.value || '';
+  return {
+    id: data.id as string,
+    from: header('From').replace(/\s*<[^>]+>$/, '').replace(/^"|"$/g, ''),
+    subject: header('Subject'),
+    date: data.internalDate ? new Date(Number(data.internalDate)).toISOString() : '',
+    snippet: data.snippet || ''
+  };
+};
+
 export const decodeEmailBody = (messageData: any): string => {
   let body = '';
   
@@ -161,4 +238,73 @@ export const decodeEmailBody = (messageData: any): string => {
   }
   
   return '';
-};
\ No newline at end of file
+};
+
+/**
+ * MailProvider over the Gmail REST API. OAuth accounts fetch an access token from the server
+ * on first use; session accounts use their pasted token. The sync cursor is a Gmail historyId.
+ */
+export const createGmailProvider: MailProviderFactory = (account, context) => {
+  const canResolve = account.authType === 'oauth' && !!context.resolveAccessToken;
+  if (!canResolve && !account.accessToken) return null;
+
+  let accessToken = canResolve ? '' : account.accessToken || '';
+
+  const authenticate = async () => {
+    if (!accessToken && context.resolveAccessToken) {
+      accessToken = await context.resolveAccessToken(account);
+    }
+  };
+
+  // The list endpoint only returns ids; sender, subject and date would need a per-message fetch
+  const search = async ({ days, limit, keywords = DEFAULT_JOB_KEYWORDS }: MailSearchOptions): Promise<MailMessage[]> => {
+    await authenticate();
+    const messages = await listMessages(accessToken, limit, `subject:(${keywords.join(' OR ')}) newer_than:${days}d`);
+    return messages.map((msg: any) => ({
+      id: msg.id,
+      from: 'Gmail API',
+      subject: `Email ID: ${msg.id}`,
+      date: '',
+      snippet: 'Ready to analyze'
+    }));
+  };
+
+  const provider: MailProvider = {
+    name: 'Gmail',
+    jobSource: 'Gmail',
+    authenticate,
+    getProfile: async () => {
+      await authenticate();
+      const profile = await fetchGmailProfile(accessToken);
+      return { emailAddress: profile.emailAddress };
+    },
+    search,
+    fetchBody: async (messageId) => {
+      await authenticate();
+      return decodeEmailBody(await getMessageBody(accessToken, messageId));
+    },
+    sync: async (cursor, options) => {
+      await authenticate();
+      const history = cursor ? await listHistoryMessageIds(accessToken, cursor) : null;
+      // Too much new mail to inspect one by one; the keyword search over the date range is cheaper
+      if (history && history.messageIds.length > options.limit * 3) {
+        return { messages: await search(options), cursor: history.historyId };
+      }
+      if (!history) {
+        // Read the historyId before searching so mail arriving during the search is picked up next time
+        const { historyId } = await fetchGmailProfile(accessToken);
+        return { messages: await search(options), cursor: String(historyId) };
+      }
+
+      // History isn't filtered by query, so apply the subject keywords to the new messages' headers
+      const messages: MailMessage[] = [];
+      for (const id of history.messageIds) {
+        const meta = await getMessageMetadata(accessToken, id);
+        if (meta && matchesJobKeywords(meta.subject, options.keywords)) messages.push(meta);
+      }
+      messages.sort((a, b) => b.date.localeCompare(a.date));
+      return { messages: messages.slice(0, options.limit), cursor: history.historyId };
+    }
+  };
+  return provider;
+};
@@ -0,0 +1,39 @@
+import type { MailMessage, MailProvider, MailProviderFactory, MailSearchOptions } from './mailProvider';
+import { syncByDate } from './mailProvider';
+
+/**
+ * MailProvider for Yahoo, Apple and generic IMAP accounts. The password stays on the server, so every
+ * read goes through /api/imap-bridge, which returns decoded bodies together with the listing.
+ * Bodies of messages outside the last search are fetched one by one when the app supports it.
+ * The bridge applies its own subject keywords; `keywords` is ignored here.
+ */
+export const createImapBridgeProvider: MailProviderFactory = (account, context) => {
+    const fetchBridgedMessages = context.fetchBridgedMessages;
+    if (account.authType !== 'imap' || !fetchBridgedMessages) return null;
+
+    const bodies = new Map<string, string>();
+
+    const search = async ({ days, limit }: MailSearchOptions): Promise<MailMessage[]> => {
+        const messages = await fetchBridgedMessages(account, days);
+        messages.forEach(msg => bodies.set(msg.id, msg.html));
+        return messages.slice(0, limit).map(({ html, ...summary }) => summary);
+    };
+
+    const provider: MailProvider = {
+        name: account.provider,
+        jobSource: 'IMAP',
+        authenticate: async () => {},
+        getProfile: async () => ({ emailAddress: account.emailAddress }),
+        search,
+        fetchBody: async (messageId) => {
+            const body = bodies.get(messageId);
+            if (body !== undefined) return body;
+            if (!context.fetchBridgedMessage) throw new Error(`Message ${messageId} was not returned by the last search`);
+            const message = await context.fetchBridgedMessage(account, messageId);
+            bodies.set(messageId, message.html);
+            return message.html;
+        },
+        sync: (cursor, options) => syncByDate(search, cursor, options)
+    };
+    return provider;
+};
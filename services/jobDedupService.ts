@@ -0,0 +1,217 @@
+import { Job, JobStatus } from '../types';
+import { getSmartApplicationUrl } from './geminiService';
+
+/**
+ * Finds jobs that are the same posting reached through different sources (an alert email, a pasted
+ * link, a search result) and merges them into one record.
+ */
+
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|ag|sa|plc|bv|pty)\b/g;
+// Company names the extractors use when they couldn't tell
+const PLACEHOLDER_COMPANIES = new Set(['review required', 'unknown company', 'unknown', 'confidential']);
+
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+    sr: 'senior',
+    snr: 'senior',
+    jr: 'junior',
+    eng: 'engineer',
+    engr: 'engineer',
+    dev: 'developer',
+    mgr: 'manager',
+    swe: 'software engineer'
+};
+
+// Locations that don't pin a posting down; they match any location
+const GENERIC_LOCATIONS = new Set(['', 'remote', 'remote hybrid', 'hybrid', 'anywhere', 'worldwide']);
+
+const simplify = (text: string) => text.toLowerCase().replace(/&/g, ' and ').replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+export const normalizeCompany = (company: string = '') => {
+    if (PLACEHOLDER_COMPANIES.has(company.trim().toLowerCase())) return '';
+    return simplify(company).replace(COMPANY_SUFFIXES, ' ').replace(/^the\s+/, '').replace(/\s+/g, ' ').trim();
+};
+
+export const normalizeTitle = (title: string = '') =>
+    simplify(title.replace(/\([^)]*\)|\[[^\]]*\]/g, ' '))
+        .split(' ')
+        .filter(Boolean)
+        .map(word => TITLE_ABBREVIATIONS[word] || word)
+        .join(' ');
+
+export const normalizeLocation = (location: string = '') => {
+    const normalized = simplify(location);
+    return GENERIC_LOCATIONS.has(normalized) ? '' : normalized;
+};
+
+/**
+ * Tracking-free URL that identifies a posting: getSmartApplicationUrl's cleanup, then per-board rules
+ * so alert links and pasted links to the same LinkedIn or Indeed job compare equal.
+ * Null for missing or non-http URLs and search-page fallbacks.
+ */
+export const canonicalJobUrl = (url?: string): string | null => {
+    if (!url) return null;
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+        parsed = new URL(getSmartApplicationUrl(parsed.toString()));
+    } catch (e) {
+        return null;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+    const host = parsed.hostname.toLowerCase().replace(/^(www|m)\./, '');
+    if (/(^|\.)google\./.test(host) && parsed.pathname === '/search') return null;
+
+    if (host === 'linkedin.com' || host.endsWith('.linkedin.com')) {
+        const id = parsed.pathname.match(/\/jobs\/view\/(?:[^/]*-)?(\d+)/)?.[1] || parsed.searchParams.get('currentJobId');
+        if (id) return `linkedin.com/jobs/view/${id}`;
+    }
+    if (/(^|\.)indeed\./.test(host)) {
+        const id = parsed.searchParams.get('jk') || parsed.searchParams.get('vjk');
+        if (id) return `indeed.com/viewjob?jk=${id}`;
+    }
+
+    parsed.searchParams.sort();
+    const query = parsed.searchParams.toString();
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}${query ? `?${query}` : ''}`;
+};
+
+export interface JobFingerprint {
+    url: string | null;
+    company: string;
+    title: string;
+    location: string;
+}
+
+// The resolved posting URL when there is one, so different tracker links to one posting match
+export const fingerprintJob = (job: Pick<Job, 'title' | 'company' | 'location' | 'applicationUrl' | 'canonicalUrl'>): JobFingerprint => ({
+    url: canonicalJobUrl(job.canonicalUrl) || canonicalJobUrl(job.applicationUrl),
+    company: normalizeCompany(job.company),
+    title: normalizeTitle(job.title),
+    location: normalizeLocation(job.location)
+});
+
+// Same canonical URL, or same known company and title in a compatible location
+export const isLikelyDuplicate = (a: JobFingerprint, b: JobFingerprint) => {
+    if (a.url && a.url === b.url) return true;
+    if (!a.company || a.company !== b.company || !a.title || a.title !== b.title) return false;
+    return !a.location || !b.location || a.location === b.location;
+};
+
+const markedDistinct = (a: Job, b: Job) => !!(a.distinctFrom?.includes(b.id) || b.distinctFrom?.includes(a.id));
+
+/**
+ * Groups of two or more jobs that look like the same posting, largest first. Pairs the user
+ * marked as distinct are never linked directly, and a generic location ("Remote") doesn't chain
+ * postings in two different cities into one group.
+ */
+export const findDuplicateGroups = (jobs: Job[]): Job[][] => {
+    const fingerprints = jobs.map(fingerprintJob);
+    const parent = jobs.map((_, index) => index);
+    const locations = fingerprints.map(fp => new Set(fp.location ? [fp.location] : []));
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+    const union = (i: number, j: number) => {
+        const [rootI, rootJ] = [find(i), find(j)];
+        if (rootI === rootJ) return;
+        parent[rootJ] = rootI;
+        locations[rootJ].forEach(location => locations[rootI].add(location));
+    };
+    const locationsConflict = (i: number, j: number) => {
+        const [a, b] = [locations[find(i)], locations[find(j)]];
+        return a.size > 0 && b.size > 0 && !Array.from(a).some(location => b.has(location));
+    };
+
+    for (let i = 0; i < jobs.length; i++) {
+        for (let j = i + 1; j < jobs.length; j++) {
+            if (markedDistinct(jobs[i], jobs[j])) continue;
+            const sameUrl = !!fingerprints[i].url && fingerprints[i].url === fingerprints[j].url;
+            if (sameUrl || (isLikelyDuplicate(fingerprints[i], fingerprints[j]) && !locationsConflict(i, j))) {
+                union(i, j);
+            }
+        }
+    }
+
+    const groups = new Map<number, Job[]>();
+    jobs.forEach((job, index) => {
+        const root = find(index);
+        groups.set(root, [...(groups.get(root) || []), job]);
+    });
+    return Array.from(groups.values())
+        .filter(group => group.length > 1)
+        .sort((a, b) => b.length - a.length);
+};
+
+// Existing jobs that a new job probably duplicates
+export const findDuplicatesOf = (job: Job, jobs: Job[]): Job[] => {
+    const fingerprint = fingerprintJob(job);
+    return jobs.filter(other => other.id !== job.id && isLikelyDuplicate(fingerprint, fingerprintJob(other)) && !markedDistinct(job, other));
+};
+
+// How far along the pipeline a status is; later stages carry more of the user's work
+const STATUS_PROGRESS: Record<JobStatus, number> = {
+    [JobStatus.DETECTED]: 0,
+    [JobStatus.REVIEW]: 1,
+    [JobStatus.SAVED]: 2,
+    [JobStatus.APPLIED_AUTO]: 3,
+    [JobStatus.APPLIED_MANUAL]: 3,
+    [JobStatus.INTERVIEW]: 4,
+    [JobStatus.REJECTED]: 5,
+    [JobStatus.OFFER]: 6
+};
+
+// Pipeline stage first, then generated documents, notes and description
+export const jobRichness = (job: Job) =>
+    (STATUS_PROGRESS[job.status] ?? 0) * 100
+    + (job.customizedResume ? 20 : 0)
+    + (job.coverLetter ? 20 : 0)
+    + (job.notes?.trim() ? 10 : 0)
+    + Math.min(Math.floor((job.description || '').length / 100), 10)
+    + (job.statusHistory?.length || 0);
+
+/**
+ * Merges a duplicate group into its richest record (or `primaryId`). The primary keeps its id, status,
+ * history and documents; blanks are filled from the others, notes are combined and the description
+ * is the longest one.
+ */
+export const mergeJobGroup = (group: Job[], primaryId?: string): { merged: Job, duplicateIds: string[] } => {
+    const ranked = [...group].sort((a, b) => jobRichness(b) - jobRichness(a));
+    const primary = ranked.find(job => job.id === primaryId) || ranked[0];
+    const ordered = [primary, ...ranked.filter(job => job !== primary)];
+    const groupIds = new Set(group.map(job => job.id));
+    const firstWith = <K extends keyof Job>(key: K, accept: (value: Job[K]) => boolean = value => !!value) =>
+        ordered.map(job => job[key]).find(accept);
+
+    // Documents move together with the prompt version that produced them
+    const letterSource = ordered.find(job => job.coverLetter);
+    const resumeSource = ordered.find(job => job.customizedResume);
+    const notes = Array.from(new Set(ordered.map(job => job.notes?.trim()).filter((note): note is string => !!note)));
+    const distinctFrom = Array.from(new Set(ordered.flatMap(job => job.distinctFrom || []))).filter(id => !groupIds.has(id));
+
+    const merged: Job = {
+        ...primary,
+        company: firstWith('company', company => !!normalizeCompany(company)) || primary.company,
+        location: firstWith('location', location => !!normalizeLocation(location)) || primary.location,
+        salaryRange: firstWith('salaryRange'),
+        description: ordered.map(job => job.description || '').reduce((longest, text) => text.length > longest.length ? text : longest, ''),
+        requirements: Array.from(new Set(ordered.flatMap(job => job.requirements || []))),
+        coverLetter: letterSource?.coverLetter,
+        coverLetterPromptVersion: letterSource?.coverLetterPromptVersion,
+        customizedResume: resumeSource?.customizedResume,
+        customizedResumePromptVersion: resumeSource?.customizedResumePromptVersion,
+        tailoredResume: resumeSource?.tailoredResume,
+        baseResumeId: resumeSource?.baseResumeId,
+        notes: notes.join('\n\n'),
+        logoUrl: firstWith('logoUrl'),
+        applicationUrl: firstWith('applicationUrl', url => !!canonicalJobUrl(url)) || primary.applicationUrl,
+        canonicalUrl: firstWith('canonicalUrl'),
+        employmentType: firstWith('employmentType'),
+        postedAt: firstWith('postedAt'),
+        expiresAt: firstWith('expiresAt'),
+        isRemote: firstWith('isRemote'),
+        matchScore: Math.max(...ordered.map(job => job.matchScore || 0)),
+        detectedAt: ordered.map(job => job.detectedAt).sort()[0],
+        distinctFrom: distinctFrom.length > 0 ? distinctFrom : undefined
+    };
+
+    return { merged, duplicateIds: ordered.slice(1).map(job => job.id) };
+};
@@ -0,0 +1,94 @@
+import { Job, JobStatus, UserPreferences } from '../types';
+
+/**
+ * Turns job links found in email into Job records. Shared by the in-app scanner and the
+ * scheduled server-side scan so both score, filter and identify jobs the same way.
+ */
+
+export const scoreJobMatch = (job: Partial<Job>, preferences?: UserPreferences): { score: number, isMatch: boolean } => {
+    if (!preferences) return { score: 100, isMatch: true };
+
+    const { targetRoles, targetLocations, remoteOnly } = preferences;
+    const title = (job.title || '').toLowerCase();
+    const location = (job.location || '').toLowerCase();
+
+    let roleMatch = targetRoles.length === 0;
+    let locMatch = targetLocations.length === 0;
+    let score = 0;
+
+    // Check Roles using Regex for Whole Word Matching
+    if (targetRoles.length > 0) {
+        roleMatch = targetRoles.some(r => {
+            const escaped = r.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const regex = new RegExp(`(?:^|[\\s\\W])${escaped}(?:$|[\\s\\W])`, 'i');
+            return regex.test(title);
+        });
+        if (roleMatch) score += 50;
+    } else {
+        score += 50;
+    }
+
+    // Check Location
+    if (targetLocations.length > 0) {
+        locMatch = targetLocations.some(l => location.includes(l.toLowerCase()));
+        if (locMatch) score += 50;
+    } else {
+        score += 50;
+    }
+
+    // Check Remote
+    if (remoteOnly) {
+        if (location.includes('remote') || title.includes('remote')) {
+            score += 10;
+        } else {
+            locMatch = false;
+        }
+    }
+
+    return { score, isMatch: roleMatch && locMatch };
+};
+
+// Same URL, same id: re-detecting a job updates it instead of adding a copy
+export const stableJobId = (applicationUrl: string) => {
+    try {
+        return btoa(applicationUrl);
+    } catch (e) {
+        // Fallback for Unicode characters
+        return btoa(encodeURIComponent(applicationUrl).replace(/%([0-9A-F]{2})/g, (match, p1) =>
+            String.fromCharCode(parseInt(p1, 16))
+        ));
+    }
+};
+
+/**
+ * Scores the candidates, drops role mismatches when target roles are set, keeps the first
+ * candidate per URL and returns detected jobs, best matches first.
+ */
+export const buildDetectedJobs = (candidates: Partial<Job>[], preferences: UserPreferences | undefined, source: Job['source']): Job[] => {
+    const uniqueJobsMap = new Map<string, Partial<Job>>();
+
+    candidates.forEach(job => {
+        if (!job.applicationUrl || uniqueJobsMap.has(job.applicationUrl)) return;
+        const { score, isMatch } = scoreJobMatch(job, preferences);
+        // Filter out low scores if preferences are set
+        if (preferences?.targetRoles?.length && !isMatch) return;
+        uniqueJobsMap.set(job.applicationUrl, { ...job, matchScore: score });
+    });
+
+    return Array.from(uniqueJobsMap.values())
+        .sort((a, b) => (b.matchScore || 0) - (a.matchScore || 0))
+        .map(job => ({
+            id: stableJobId(job.applicationUrl!),
+            title: job.title || 'Unknown Role',
+            company: job.company || 'Unknown Company',
+            location: job.location || 'Remote',
+            salaryRange: job.salaryRange,
+            description: job.description || '',
+            source,
+            detectedAt: new Date().toISOString(),
+            status: JobStatus.DETECTED,
+            matchScore: job.matchScore || 50,
+            requirements: [],
+            applicationUrl: job.applicationUrl
+        }));
+};
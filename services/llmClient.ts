@@ -0,0 +1,69 @@
+/**
+ * Common surface for text generation, so features don't depend on a particular model API.
+ * An adapter is a module exporting an LlmClientFactory; llmClientRegistry picks one from the
+ * environment (LLM_PROVIDER), so the app can run against Gemini, a local OpenAI-compatible
+ * server (Ollama, llama.cpp) or the deterministic fake.
+ */
+
+// Grounding tools; adapters that don't support them ignore them and return no sources
+export type LlmTool = 'webSearch' | 'maps';
+
+export interface LlmRequest {
+    prompt: string;
+    system?: string;
+    // Ask for a JSON response; parse it with parseJsonResponse, local models don't always comply
+    json?: boolean;
+    temperature?: number;
+    maxOutputTokens?: number;
+    tools?: LlmTool[];
+    // Bias for the maps tool
+    location?: { lat: number, lng: number };
+}
+
+export interface LlmSource {
+    uri: string;
+    title?: string;
+    tool: LlmTool;
+}
+
+export interface LlmResponse {
+    text: string;
+    // Pages or places the answer was grounded on, in the order the model cited them
+    sources: LlmSource[];
+    model: string;
+}
+
+export interface LlmClient {
+    readonly name: string;
+    readonly model: string;
+    // Throws on transport or API errors; callers decide on a fallback
+    generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export interface LlmClientConfig {
+    provider: string;
+    model?: string;
+    apiKey?: string;
+    // OpenAI-compatible servers, e.g. http://localhost:11434/v1 for Ollama
+    baseUrl?: string;
+}
+
+export type LlmClientFactory = (config: LlmClientConfig) => LlmClient;
+
+/**
+ * The JSON value in a model response, tolerating code fences and text around it.
+ * Returns `fallback` when there is none.
+ */
+export const parseJsonResponse = <T>(text: string, fallback: T): T => {
+    const unfenced = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '').trim();
+    const candidates = [unfenced, unfenced.match(/\{[\s\S]*\}/)?.[0], unfenced.match(/\[[\s\S]*\]/)?.[0]];
+    for (const candidate of candidates) {
+        if (!candidate) continue;
+        try {
+            return JSON.parse(candidate);
+        } catch (e) {
+            // Try the next candidate
+        }
+    }
+    return fallback;
+};
@@ -0,0 +1,57 @@
+import type { LlmClient, LlmClientConfig, LlmClientFactory } from './llmClient';
+import { createGeminiLlmClient } from './geminiLlmClient';
+import { createOpenAiLlmClient } from './openAiLlmClient';
+import { createFakeLlmClient } from './fakeLlmClient';
+
+/**
+ * Maps LLM_PROVIDER to an LlmClient. Kept apart from llmClient.ts so the adapters can import the
+ * shared types without an import cycle.
+ *
+ * Environment: LLM_PROVIDER (gemini | openai | ollama | fake; default gemini), LLM_MODEL,
+ * LLM_BASE_URL (OpenAI-compatible servers) and LLM_API_KEY. For Gemini the key falls back to
+ * API_KEY, then GOOGLE_GENERATIVE_AI_API_KEY.
+ */
+
+const registry = new Map<string, LlmClientFactory>([
+    ['gemini', createGeminiLlmClient],
+    ['openai', createOpenAiLlmClient],
+    ['ollama', createOpenAiLlmClient],
+    ['fake', () => createFakeLlmClient()]
+]);
+
+export const registerLlmProvider = (key: string, factory: LlmClientFactory) => {
+    registry.set(key.toLowerCase(), factory);
+};
+
+type Env = Record<string, string | undefined>;
+
+const readEnv = (): Env => typeof process !== 'undefined' && process.env ? process.env : {};
+
+export const llmConfigFromEnv = (env: Env = readEnv()): LlmClientConfig => {
+    const provider = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+    return {
+        provider,
+        model: env.LLM_MODEL || undefined,
+        baseUrl: env.LLM_BASE_URL || undefined,
+        apiKey: env.LLM_API_KEY || (provider === 'gemini' ? env.API_KEY || env.GOOGLE_GENERATIVE_AI_API_KEY : undefined)
+    };
+};
+
+export const createLlmClient = (config: LlmClientConfig): LlmClient => {
+    const factory = registry.get(config.provider.toLowerCase());
+    if (!factory) throw new Error(`Unknown LLM provider "${config.provider}"`);
+    return factory(config);
+};
+
+let sharedClient: LlmClient | null = null;
+
+// The client configured by the environment, created on first use
+export const getLlmClient = (): LlmClient => {
+    if (!sharedClient) sharedClient = createLlmClient(llmConfigFromEnv());
+    return sharedClient;
+};
+
+// Replaces the shared client (e.g. with a fake in tests); null goes back to the environment's
+export const setLlmClient = (client: LlmClient | null) => {
+    sharedClient = client;
+};
@@ -1,20 +1,14 @@
 
+import { Resume } from '../types';
+import { extractKeywords as extractJobKeywords, keywordHits } from './resumeModel';
+
 /**
  * Local AI Service
  * Provides robust fallback generation for Resumes and Cover Letters.
  */
 
-const extractKeywords = (text: string): string[] => {
-    const stopwords = new Set(['the', 'and', 'or', 'a', 'an', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by']);
-    const words = text.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/);
-    const freq: Record<string, number> = {};
-    words.forEach(w => {
-        if (!stopwords.has(w) && w.length > 3) {
-            freq[w] = (freq[w] || 0) + 1;
-        }
-    });
-    return Object.entries(freq).sort((a, b) => b[1] - a[1]).slice(0, 10).map(([word]) => word.charAt(0).toUpperCase() + word.slice(1));
-};
+const extractKeywords = (text: string): string[] =>
+    extractJobKeywords(text, 10).map(word => word.charAt(0).toUpperCase() + word.slice(1));
 
 export const localGenerateCoverLetter = async (
     title: string,
@@ -31,46 +25,63 @@ export const localGenerateCoverLetter = async (
     return `${userName}\n${userEmail}\n${today}\n\n${targetName}\n\nRE: Application for ${title}\n\nDear ${targetName},\n\nI am writing to express my strong interest in the ${title} position at ${targetName}. Having reviewed the job description, I am excited about the opportunity to contribute my skills in ${keywords.slice(0, 3).join(', ')} to your team. My experience aligns closely with your requirements, and I am eager to discuss how my background can benefit your organization.\n\nThank you for your time and consideration.\n\nSincerely,\n\n${userName}`;
 };
 
+// Keyword-driven tailoring without an LLM: a targeted summary, and skills and bullets most relevant to the job first
 export const localCustomizeResume = async (
     title: string,
     company: string,
     description: string,
-    originalResume: string,
+    resume: Resume,
     email: string
-): Promise<string> => {
-    const keywords = extractKeywords(description);
-    const targetCompany = (company === "Review Required" || !company) ? "Your Organization" : company;
-    
-    const targetedSummary = `\nCONTACT: ${email}\n\nPROFESSIONAL SUMMARY FOR ${targetCompany.toUpperCase()}\n--------------------------------------------------\nDedicated professional targeting the ${title} role. Relevant expertise: ${keywords.join(', ')}.\n`;
-    
-    // Simple replacement logic for email in text
-    let newResume = originalResume.replace(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, email);
-    
-    if (newResume.match(/SUMMARY|OBJECTIVE/i)) {
-        newResume = newResume.replace(/(SUMMARY|OBJECTIVE)[\s\S]*?(?=\n[A-Z_]+)/i, targetedSummary);
-    } else {
-        newResume = targetedSummary + "\n" + newResume;
-    }
-    return newResume;
+): Promise<Resume> => {
+    const keywords = extractJobKeywords(description);
+    const displayKeywords = extractKeywords(description);
+    const targetCompany = (company === "Review Required" || !company) ? "your organization" : company;
+    const byRelevance = (items: string[]) => items
+        .map((item, index) => ({ item, index, hits: keywordHits(item, keywords) }))
+        .sort((a, b) => b.hits - a.hits || a.index - b.index)
+        .map(({ item }) => item);
+
+    return {
+        ...resume,
+        contact: { ...resume.contact, email: email || resume.contact.email },
+        summary: `Dedicated professional targeting the ${title} role at ${targetCompany}. Relevant expertise: ${displayKeywords.join(', ')}.`
+            + (resume.summary ? `\n${resume.summary}` : ''),
+        skills: byRelevance(resume.skills),
+        experience: resume.experience.map(entry => ({ ...entry, bullets: byRelevance(entry.bullets) })),
+        projects: resume.projects.map(project => ({ ...project, bullets: byRelevance(project.bullets) }))
+    };
 };
 
 const JOB_TITLES_REGEX = /(?:software|systems|data|site|reliability|qa|test|frontend|backend|full.?stack|devops|cloud|network|security|product|project|program|account|sales|marketing|business|customer|support|human|hr|legal|finance|operations)\s+(?:engineer|developer|architect|admin|manager|director|lead|specialist|analyst|associate|representative|executive|consultant)|programmer|coder|technician|designer/i;
 const BLACKLIST_REGEX = /(unsubscribe|privacy|policy|view in browser|profile|settings|preferences|help|support|login|sign in|forgot password|terms|conditions|read more|apply now|click here|browser|email me|alert)/i;
 
-export const localExtractJobs = (html: string, userKeywords: string[] = []): any[] => {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
+export type JobLinkVerdict = 'job' | 'no_href' | 'bad_length' | 'blacklisted' | 'no_title_match';
+
+// Why a link is or isn't taken as a job: its text has to look like a job title (or contain one of the user's target roles)
+export const classifyJobLink = ({ href, text }: { href: string, text: string }, userKeywords: string[] = []): JobLinkVerdict => {
+    text = text.trim();
+    if (!href) return 'no_href';
+    if (text.length < 4 || text.length > 100) return 'bad_length';
+    if (BLACKLIST_REGEX.test(text)) return 'blacklisted';
+    const isMatch = userKeywords.length > 0 ? userKeywords.some(kw => text.toLowerCase().includes(kw.toLowerCase())) : JOB_TITLES_REGEX.test(text);
+    return isMatch ? 'job' : 'no_title_match';
+};
+
+export const selectJobLinks = (links: { href: string, text: string }[], userKeywords: string[] = []): any[] => {
     const jobs: any[] = [];
-    const links = doc.querySelectorAll('a');
-    links.forEach(a => {
-        const href = a.getAttribute('href');
-        let text = a.textContent?.trim() || "";
-        if (!href || text.length < 4 || text.length > 100) return;
-        if (BLACKLIST_REGEX.test(text)) return;
-        let isMatch = userKeywords.length > 0 ? userKeywords.some(kw => text.toLowerCase().includes(kw.toLowerCase())) : JOB_TITLES_REGEX.test(text);
-        if (isMatch) {
-            jobs.push({ title: text, company: "Review Required", location: "Remote/Hybrid", applicationUrl: href, matchScore: 80 });
+    links.forEach(link => {
+        if (classifyJobLink(link, userKeywords) === 'job') {
+            jobs.push({ title: link.text.trim(), company: "Review Required", location: "Remote/Hybrid", applicationUrl: link.href, matchScore: 80 });
         }
     });
     return Array.from(new Map(jobs.map(item => [item.applicationUrl, item])).values()).slice(0, 10); 
 };
+
+export const extractHtmlLinks = (html: string): { href: string, text: string }[] => {
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(html, 'text/html');
+    return Array.from(doc.querySelectorAll('a')).map(a => ({ href: a.getAttribute('href') || '', text: a.textContent || '' }));
+};
+
+export const localExtractJobs = (html: string, userKeywords: string[] = []): any[] =>
+    selectJobLinks(extractHtmlLinks(html), userKeywords);
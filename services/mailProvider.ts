@@ -0,0 +1,89 @@
+import type { EmailAccount, BridgedMessage, Job } from '../types';
+
+/**
+ * Common surface for reading job-related mail, so scanning doesn't depend on a particular API.
+ * A provider is a module exporting a MailProviderFactory; adding it to mailProviderRegistry is all
+ * InboxScanner needs to scan that kind of account.
+ */
+
+export const DEFAULT_JOB_KEYWORDS = ['job', 'jobs', 'vacancy', 'career', 'hiring', 'opportunity'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive, like Gmail's subject: operator
+export const matchesJobKeywords = (subject: string, keywords: string[] = DEFAULT_JOB_KEYWORDS) =>
+    new RegExp(`\\b(${keywords.map(escapeRegExp).join('|')})\\b`, 'i').test(subject);
+
+// Identifies a mailbox across reconnects, for the processed-message ledger
+export const getMailboxKey = (account: EmailAccount) => `${account.provider}:${account.emailAddress.toLowerCase()}`;
+
+export interface MailMessage {
+    id: string;
+    from: string;
+    subject: string;
+    date: string; // ISO 8601; empty when the listing doesn't include it (Gmail)
+    snippet: string;
+}
+
+export interface MailSearchOptions {
+    days: number;
+    limit: number;
+    keywords?: string[];
+}
+
+export interface MailSyncResult {
+    messages: MailMessage[];
+    // Opaque; pass it to the next sync() call to only receive newer messages
+    cursor: string;
+}
+
+export interface MailProvider {
+    readonly name: string;
+    // Recorded as Job.source for jobs found in this provider's mail
+    readonly jobSource: Job['source'];
+    // Resolves credentials up front. Throws TOKEN_EXPIRED when the account has to be reconnected.
+    authenticate(): Promise<void>;
+    getProfile(): Promise<{ emailAddress: string, displayName?: string }>;
+    // Job-related messages received within `days`, newest first
+    search(options: MailSearchOptions): Promise<MailMessage[]>;
+    // Message body as HTML
+    fetchBody(messageId: string): Promise<string>;
+    // Messages received since `cursor`; a null cursor falls back to search(options)
+    sync(cursor: string | null, options: MailSearchOptions): Promise<MailSyncResult>;
+}
+
+// Hooks into the app for credentials that only the server holds
+export interface MailProviderContext {
+    resolveAccessToken?: (account: EmailAccount) => Promise<string>;
+    fetchBridgedMessages?: (account: EmailAccount, days: number) => Promise<BridgedMessage[]>;
+    fetchBridgedMessage?: (account: EmailAccount, messageId: string) => Promise<BridgedMessage>;
+}
+
+// Returns null when the account lacks what the provider needs (e.g. no token and no resolver)
+export type MailProviderFactory = (account: EmailAccount, context: MailProviderContext) => MailProvider | null;
+
+// Readable summary of what a sync() call asked for; recorded with each scan run
+export const describeMailQuery = (cursor: string | null, { days, keywords = DEFAULT_JOB_KEYWORDS }: MailSearchOptions) =>
+    `subject:(${keywords.join(' OR ')}) ${cursor ? `since cursor ${cursor}` : `newer_than:${days}d`}`;
+
+/**
+ * sync() for providers whose search is date-bounded: the cursor is the ISO time of the last sync,
+ * the search window is widened to cover it and anything at or before it is dropped.
+ */
+export const syncByDate = async (
+    search: (options: MailSearchOptions) => Promise<MailMessage[]>,
+    cursor: string | null,
+    options: MailSearchOptions,
+    now: Date = new Date()
+): Promise<MailSyncResult> => {
+    const since = cursor ? new Date(cursor).getTime() : NaN;
+    if (isNaN(since)) {
+        return { messages: await search(options), cursor: now.toISOString() };
+    }
+    const days = Math.max(1, Math.ceil((now.getTime() - since) / 86400000));
+    const messages = await search({ ...options, days });
+    return {
+        messages: messages.filter(m => !m.date || new Date(m.date).getTime() > since),
+        cursor: now.toISOString()
+    };
+};
@@ -0,0 +1,31 @@
+import type { EmailAccount } from '../types';
+import type { MailProvider, MailProviderContext, MailProviderFactory } from './mailProvider';
+import { createGmailProvider } from './gmailService';
+import { createOutlookProvider } from './outlookService';
+import { createImapBridgeProvider } from './imapBridgeProvider';
+import { createFakeMailProvider } from './fakeMailProvider';
+
+/**
+ * Maps connected accounts to their MailProvider. Kept apart from mailProvider.ts so the
+ * provider modules can import the shared types and helpers without an import cycle.
+ */
+
+const registry = new Map<string, MailProviderFactory>([
+    ['gmail', createGmailProvider],
+    ['outlook', createOutlookProvider],
+    ['imap', createImapBridgeProvider],
+    ['demo', (account) => createFakeMailProvider({ emailAddress: account.emailAddress })]
+]);
+
+export const registerMailProvider = (key: string, factory: MailProviderFactory) => {
+    registry.set(key.toLowerCase(), factory);
+};
+
+// Accounts connected through the IMAP bridge share one provider whatever their mailbox host
+const getProviderKey = (account: EmailAccount) =>
+    account.authType === 'imap' ? 'imap' : account.provider.toLowerCase();
+
+export const createMailProvider = (account: EmailAccount, context: MailProviderContext = {}): MailProvider | null => {
+    const factory = registry.get(getProviderKey(account));
+    return factory ? factory(account, context) : null;
+};
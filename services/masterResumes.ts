@@ -0,0 +1,92 @@
+import { Job, MasterResume, Resume, UserProfile } from '../types';
+import { createResumeId, normalizeResume } from './resumeModel';
+import { resumeFromProfile } from './resumeParser';
+
+/**
+ * A user can keep several master resumes, e.g. one per role family, each tied to some of their
+ * target roles. The profile's top-level resumeContent/resume/resumeFileName always mirror the
+ * default one, so code that only knows about a single resume keeps working.
+ */
+
+// Id of the resume synthesized for profiles saved before there could be more than one
+export const PRIMARY_RESUME_ID = 'primary';
+
+export const normalizeMasterResume = (value: any): MasterResume => ({
+    id: value?.id || createResumeId('resume'),
+    name: value?.name || 'Untitled Resume',
+    targetRoles: Array.isArray(value?.targetRoles) ? value.targetRoles.filter((role: any) => typeof role === 'string') : [],
+    resumeContent: value?.resumeContent || '',
+    resume: value?.resume ? normalizeResume(value.resume) : undefined,
+    resumeFileName: value?.resumeFileName || undefined
+});
+
+export const getMasterResumes = (profile: UserProfile): MasterResume[] => {
+    if (profile.resumes && profile.resumes.length > 0) return profile.resumes;
+    return [{
+        id: PRIMARY_RESUME_ID,
+        name: 'Main Resume',
+        targetRoles: [],
+        resumeContent: profile.resumeContent || '',
+        resume: profile.resume,
+        resumeFileName: profile.resumeFileName || undefined
+    }];
+};
+
+export const getDefaultResume = (profile: UserProfile): MasterResume => {
+    const resumes = getMasterResumes(profile);
+    return resumes.find(resume => resume.id === profile.defaultResumeId) || resumes[0];
+};
+
+export const findMasterResume = (profile: UserProfile, id?: string): MasterResume | undefined =>
+    id ? getMasterResumes(profile).find(resume => resume.id === id) : undefined;
+
+// Replaces the collection and copies the default one into the top-level fields
+export const setMasterResumes = (profile: UserProfile, resumes: MasterResume[], defaultResumeId = profile.defaultResumeId): UserProfile => {
+    if (resumes.length === 0) throw new Error('Keep at least one resume.');
+    const primary = resumes.find(resume => resume.id === defaultResumeId) || resumes[0];
+    return {
+        ...profile,
+        resumes,
+        defaultResumeId: primary.id,
+        resumeContent: primary.resumeContent,
+        resume: primary.resume,
+        resumeFileName: primary.resumeFileName || ''
+    };
+};
+
+// A new resume starts empty, or as a copy of `from` without its uploaded file
+export const createMasterResume = (name: string, from?: MasterResume): MasterResume => ({
+    id: createResumeId('resume'),
+    name,
+    targetRoles: [],
+    resumeContent: from?.resumeContent || '',
+    resume: from?.resume ? normalizeResume(JSON.parse(JSON.stringify(from.resume))) : undefined
+});
+
+// Structured form of a master resume, with contact details the profile has and the resume lacks
+export const masterResumeStructure = (master: MasterResume, profile: UserProfile): Resume =>
+    resumeFromProfile({ fullName: profile.fullName, email: profile.email, phone: profile.phone, resumeContent: master.resumeContent, resume: master.resume });
+
+const roleTokens = (text: string) => text.toLowerCase().split(/[^a-z0-9+#]+/).filter(token => token.length > 1);
+
+/**
+ * The resume whose target roles best match the job title. A role matches by the share of its words
+ * found in the title, so "Data Analyst" fits "Senior Data Analyst, Growth"; more than half must be
+ * there, so "Frontend Engineer" doesn't fit "Backend Engineer". Without a match the default resume is used.
+ */
+export const pickMasterResume = (profile: UserProfile, job: Pick<Job, 'title'>): MasterResume => {
+    const fallback = getDefaultResume(profile);
+    const titleTokens = new Set(roleTokens(job.title || ''));
+    let best: { resume: MasterResume, score: number } | null = null;
+    for (const resume of getMasterResumes(profile)) {
+        for (const role of resume.targetRoles) {
+            const tokens = roleTokens(role);
+            if (tokens.length === 0) continue;
+            const score = tokens.filter(token => titleTokens.has(token)).length / tokens.length;
+            if (score > 0.5 && (!best || score > best.score || (score === best.score && resume.id === fallback.id))) {
+                best = { resume, score };
+            }
+        }
+    }
+    return best ? best.resume : fallback;
+};
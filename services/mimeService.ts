@@ -0,0 +1,121 @@
+/**
+ * Minimal RFC 2045/2046 MIME decoding for raw messages (Graph $value, IMAP bodies).
+ * Walks multipart trees and returns the best body: text/html first, then text/plain.
+ * Uses only atob/TextDecoder so it runs in the browser and in serverless functions.
+ */
+
+export interface MimePart {
+  headers: Record<string, string>;
+  contentType: string;
+  charset: string;
+  body: string; // Decoded text
+  parts: MimePart[];
+}
+
+const splitHeaderAndBody = (raw: string): [string, string] => {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return [raw, ''];
+  return [raw.slice(0, match.index), raw.slice(match.index + match[0].length)];
+};
+
+const parseHeaders = (block: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  // Unfold continuation lines (RFC 5322 2.2.3)
+  block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const idx = line.indexOf(':');
+    if (idx > 0) headers[line.slice(0, idx).trim().toLowerCase()] = line.slice(idx + 1).trim();
+  });
+  return headers;
+};
+
+const getParam = (header: string, name: string): string | null => {
+  const match = header.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? (match[1] ?? match[2]) : null;
+};
+
+const decodeBytes = (bytes: Uint8Array, charset: string): string => {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const binaryToBytes = (binary: string) => Uint8Array.from(binary, c => c.charCodeAt(0) & 0xff);
+
+const decodeQuotedPrintable = (input: string): Uint8Array => {
+  const binary = input
+    .replace(/=\r?\n/g, '') // Soft line breaks
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return binaryToBytes(binary);
+};
+
+const decodeBase64 = (input: string): Uint8Array => {
+  try {
+    return binaryToBytes(atob(input.replace(/[^A-Za-z0-9+/=]/g, '')));
+  } catch {
+    return new Uint8Array();
+  }
+};
+
+const decodeTransfer = (body: string, encoding: string, charset: string): string => {
+  switch (encoding.toLowerCase()) {
+    case 'base64': return decodeBytes(decodeBase64(body), charset);
+    case 'quoted-printable': return decodeBytes(decodeQuotedPrintable(body), charset);
+    // 7bit/8bit/binary arrive already decoded as text by the transport
+    default: return body;
+  }
+};
+
+/**
+ * Decodes RFC 2047 encoded-words in headers, e.g. =?UTF-8?B?...?= and =?ISO-8859-1?Q?...?=
+ */
+export const decodeMimeHeader = (value: string): string =>
+  value.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=(\s+(?==\?))?/g, (_, charset, encoding, text) => {
+    const bytes = encoding.toUpperCase() === 'B'
+      ? decodeBase64(text)
+      : decodeQuotedPrintable(text.replace(/_/g, ' '));
+    return decodeBytes(bytes, charset);
+  });
+
+export const parseMimeMessage = (raw: string): MimePart => {
+  const [headerBlock, bodyBlock] = splitHeaderAndBody(raw);
+  const headers = parseHeaders(headerBlock);
+  const contentTypeHeader = headers['content-type'] || 'text/plain; charset=us-ascii';
+  const contentType = contentTypeHeader.split(';')[0].trim().toLowerCase();
+  const charset = getParam(contentTypeHeader, 'charset') || 'utf-8';
+  const boundary = getParam(contentTypeHeader, 'boundary');
+
+  if (contentType.startsWith('multipart/') && boundary) {
+    const sections = bodyBlock.split(`--${boundary}`);
+    // sections[0] is the preamble; anything after the closing "--boundary--" is the epilogue
+    const parts = sections.slice(1)
+      .filter(section => !section.startsWith('--'))
+      .map(section => parseMimeMessage(section.replace(/^\r?\n/, '')));
+    return { headers, contentType, charset, body: '', parts };
+  }
+
+  const encoding = headers['content-transfer-encoding'] || '7bit';
+  return { headers, contentType, charset, body: decodeTransfer(bodyBlock, encoding, charset), parts: [] };
+};
+
+const findPart = (part: MimePart, contentType: string): MimePart | null => {
+  if (part.contentType === contentType && !/attachment/i.test(part.headers['content-disposition'] || '')) return part;
+  for (const child of part.parts) {
+    const found = findPart(child, contentType);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * Returns the message body as HTML; plain-text bodies are escaped and wrapped in <pre>.
+ */
+export const decodeMimeBody = (raw: string): string => {
+  const root = parseMimeMessage(raw);
+  const html = findPart(root, 'text/html');
+  if (html) return html.body;
+  const text = findPart(root, 'text/plain');
+  if (text) return `<pre>${text.body.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`;
+  return '';
+};
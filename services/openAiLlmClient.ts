@@ -0,0 +1,50 @@
+import type { LlmClient, LlmClientFactory, LlmRequest } from './llmClient';
+
+/**
+ * LlmClient for OpenAI-compatible chat completion servers: Ollama, llama.cpp's server, vLLM,
+ * LM Studio or OpenAI itself. Grounding tools aren't supported and are ignored.
+ */
+
+// Ollama's default endpoint, so a local install works without configuration
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+const REQUEST_TIMEOUT_MS = 120000;
+
+export const createOpenAiLlmClient: LlmClientFactory = (config): LlmClient => {
+    const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    const model = config.model || DEFAULT_OPENAI_MODEL;
+
+    return {
+        name: 'openai',
+        model,
+        async generate(request: LlmRequest) {
+            const messages = [
+                ...(request.system ? [{ role: 'system', content: request.system }] : []),
+                { role: 'user', content: request.prompt }
+            ];
+            const response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+                },
+                body: JSON.stringify({
+                    model,
+                    messages,
+                    temperature: request.temperature,
+                    max_tokens: request.maxOutputTokens,
+                    response_format: request.json ? { type: 'json_object' } : undefined,
+                    stream: false
+                }),
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+            });
+            if (!response.ok) {
+                const detail = await response.text().catch(() => '');
+                throw new Error(`LLM server returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+            }
+            const data = await response.json();
+            return { text: data.choices?.[0]?.message?.content || '', sources: [], model: data.model || model };
+        }
+    };
+};
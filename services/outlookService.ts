@@ -0,0 +1,148 @@
+import { decodeMimeBody } from './mimeService';
+import type { MailProvider, MailProviderFactory, MailSearchOptions } from './mailProvider';
+import { DEFAULT_JOB_KEYWORDS, syncByDate } from './mailProvider';
+
+/**
+ * Service to read Outlook / Microsoft 365 mail through Microsoft Graph using an OAuth Access Token.
+ * Mirrors gmailService: profile, keyword + date-range message search, and body retrieval.
+ * Note: This runs entirely in the browser.
+ */
+
+const GRAPH_BASE = 'https://graph.microsoft.com/v1.0';
+
+// --- HELPER: Fetch with strict timeout ---
+const fetchWithTimeout = async (url: string, options: RequestInit = {}, timeout = 10000) => {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), timeout);
+    try {
+        const response = await fetch(url, { ...options, signal: controller.signal });
+        clearTimeout(id);
+        return response;
+    } catch (error) {
+        clearTimeout(id);
+        throw error;
+    }
+};
+
+const throwGraphError = async (response: Response, context: string): Promise<never> => {
+    const errorJson = await response.json().catch(() => ({}));
+    console.error(`Graph API Error (${response.status}) ${context}:`, JSON.stringify(errorJson, null, 2));
+
+    if (response.status === 401) {
+        throw new Error('TOKEN_EXPIRED');
+    } else if (response.status === 403) {
+        throw new Error('Insufficient permissions. Ensure the token includes the "Mail.Read" scope.');
+    }
+    const msg = errorJson.error?.message || response.statusText;
+    throw new Error(`Graph API Error: ${response.status} ${msg}`);
+};
+
+export const fetchOutlookProfile = async (accessToken: string): Promise<{ emailAddress: string, displayName: string }> => {
+    const response = await fetchWithTimeout(`${GRAPH_BASE}/me?$select=mail,userPrincipalName,displayName`, {
+        headers: {
+            Authorization: `Bearer ${accessToken}`,
+            Accept: 'application/json',
+        }
+    });
+
+    if (!response.ok) await throwGraphError(response, 'profile');
+
+    const data = await response.json();
+    return { emailAddress: data.mail || data.userPrincipalName || '', displayName: data.displayName || '' };
+};
+
+/**
+ * Builds a KQL query for Graph $search: any keyword in the subject, received within `days`.
+ * $search cannot be combined with $filter on messages, so the date range lives in KQL too.
+ */
+export const buildOutlookSearch = (keywords: string[], days: number, now: Date = new Date()) => {
+    const since = new Date(now.getTime() - days * 86400000).toISOString().slice(0, 10);
+    const subject = keywords.map(k => `subject:${k.replace(/[":()]/g, '')}`).join(' OR ');
+    return `"(${subject}) AND received>=${since}"`;
+};
+
+export interface OutlookMessageSummary {
+    id: string;
+    subject: string;
+    from: string;
+    receivedDateTime: string;
+    bodyPreview: string;
+}
+
+export const listOutlookMessages = async (
+    accessToken: string,
+    limit: number = 50,
+    days: number = 3,
+    keywords: string[] = DEFAULT_JOB_KEYWORDS
+): Promise<OutlookMessageSummary[]> => {
+    const params = new URLSearchParams({
+        '$search': buildOutlookSearch(keywords, days),
+        '$top': String(limit),
+        '$select': 'id,subject,from,receivedDateTime,bodyPreview'
+    });
+
+    const response = await fetchWithTimeout(`${GRAPH_BASE}/me/messages?${params.toString()}`, {
+        headers: {
+            Authorization: `Bearer ${accessToken}`,
+            Accept: 'application/json',
+        },
+        cache: 'no-store', // Critical: Force fresh fetch
+    });
+
+    if (!response.ok) await throwGraphError(response, 'list');
+
+    const data = await response.json();
+    return (data.value || []).map((m: any) => ({
+        id: m.id,
+        subject: m.subject || '(no subject)',
+        from: m.from?.emailAddress?.name || m.from?.emailAddress?.address || 'Outlook',
+        receivedDateTime: m.receivedDateTime,
+        bodyPreview: m.bodyPreview || ''
+    }));
+};
+
+/**
+ * Fetches the raw RFC 822 message ($value) and decodes it to an HTML body.
+ */
+export const getOutlookMessageBody = async (accessToken: string, messageId: string): Promise<string> => {
+    const response = await fetchWithTimeout(`${GRAPH_BASE}/me/messages/${encodeURIComponent(messageId)}/$value`, {
+        headers: {
+            Authorization: `Bearer ${accessToken}`,
+        },
+        cache: 'force-cache', // Message content is immutable
+    });
+
+    if (!response.ok) await throwGraphError(response, `message ${messageId}`);
+
+    return decodeMimeBody(await response.text());
+};
+
+/**
+ * MailProvider over Microsoft Graph. Outlook accounts are session-only, so a pasted token is required.
+ */
+export const createOutlookProvider: MailProviderFactory = (account) => {
+    const accessToken = account.accessToken;
+    if (!accessToken) return null;
+
+    const search = async ({ days, limit, keywords }: MailSearchOptions) => {
+        const messages = await listOutlookMessages(accessToken, limit, days, keywords);
+        return messages.map(msg => ({
+            id: msg.id,
+            from: msg.from,
+            subject: msg.subject,
+            date: msg.receivedDateTime,
+            snippet: msg.bodyPreview
+        }));
+    };
+
+    const provider: MailProvider = {
+        name: 'Outlook',
+        jobSource: 'Outlook',
+        authenticate: async () => {},
+        getProfile: () => fetchOutlookProfile(accessToken),
+        search,
+        fetchBody: (messageId) => getOutlookMessageBody(accessToken, messageId),
+        sync: (cursor, options) => syncByDate(search, cursor, options)
+    };
+    return provider;
+};
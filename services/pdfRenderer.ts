@@ -0,0 +1,156 @@
+import { Color, PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib';
+import { DocumentLayout, LayoutBlock } from './documentLayout';
+import { DocumentTemplate } from './documentTemplates';
+
+/**
+ * Lays a DocumentLayout out on US Letter pages with the PDF standard fonts, so nothing has to be
+ * fetched or embedded from outside. Runs in the browser and in Node alike.
+ */
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const BULLET_INDENT = 12;
+
+const STANDARD_FONTS = {
+    serif: { regular: StandardFonts.TimesRoman, bold: StandardFonts.TimesRomanBold, italic: StandardFonts.TimesRomanItalic },
+    sans: { regular: StandardFonts.Helvetica, bold: StandardFonts.HelveticaBold, italic: StandardFonts.HelveticaOblique }
+};
+
+const hexColor = (hex: string) => {
+    const value = parseInt(hex, 16);
+    return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+const TEXT_COLOR = hexColor('1F2937');
+const MUTED_COLOR = hexColor('4B5563');
+
+const SUBSTITUTES: Record<string, string> = { '−': '-', '→': '->', '←': '<-', '≥': '>=', '≤': '<=', '✓': '-', '✔': '-', '\t': ' ' };
+
+// Standard fonts only cover WinAnsi: accents are dropped where needed and anything else becomes '?'
+const encodable = (font: PDFFont, text: string, cache: Map<PDFFont, Set<number>>) => {
+    if (!cache.has(font)) cache.set(font, new Set(font.getCharacterSet()));
+    const supported = cache.get(font)!;
+    return Array.from(text).map(char => {
+        if (char === '\n' || supported.has(char.codePointAt(0)!)) return char;
+        if (SUBSTITUTES[char]) return SUBSTITUTES[char];
+        const base = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+        return base && Array.from(base).every(c => supported.has(c.codePointAt(0)!)) ? base : '?';
+    }).join('');
+};
+
+// Greedy word wrap; words wider than the line are split
+const wrapText = (text: string, font: PDFFont, size: number, width: number): string[] => text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let current = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+            current = candidate;
+            return;
+        }
+        if (current) lines.push(current);
+        current = word;
+        while (font.widthOfTextAtSize(current, size) > width && current.length > 1) {
+            let fit = current.length - 1;
+            while (fit > 1 && font.widthOfTextAtSize(current.slice(0, fit), size) > width) fit--;
+            lines.push(current.slice(0, fit));
+            current = current.slice(fit);
+        }
+    });
+    lines.push(current);
+    return lines;
+});
+
+export const renderPdf = async (layout: DocumentLayout, template: DocumentTemplate): Promise<Uint8Array> => {
+    const doc = await PDFDocument.create();
+    doc.setTitle(layout.title);
+    doc.setAuthor(layout.author);
+    doc.setCreator('JobFlow');
+
+    const names = STANDARD_FONTS[template.font];
+    const fonts = {
+        regular: await doc.embedFont(names.regular),
+        bold: await doc.embedFont(names.bold),
+        italic: await doc.embedFont(names.italic)
+    };
+    const charsets = new Map<PDFFont, Set<number>>();
+    const accent = hexColor(template.accentColor);
+    const { margin, bodySize } = template;
+    const contentWidth = PAGE_WIDTH - margin * 2;
+
+    let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - margin;
+
+    // Starts a new page unless `height` more points fit on this one
+    const reserve = (height: number) => {
+        if (y - height >= margin) return;
+        page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - margin;
+    };
+
+    const write = (text: string, options: { font: PDFFont, size: number, color?: Color, x?: number, width?: number, align?: 'left' | 'center' | 'right', lineHeight?: number }) => {
+        const { font, size, color = TEXT_COLOR, x = margin, width = contentWidth, align = 'left', lineHeight = 1.3 } = options;
+        wrapText(encodable(font, text, charsets), font, size, width).forEach(line => {
+            reserve(size * lineHeight);
+            const lineWidth = font.widthOfTextAtSize(line, size);
+            const left = align === 'center' ? x + (width - lineWidth) / 2 : align === 'right' ? x + width - lineWidth : x;
+            page.drawText(line, { x: left, y: y - size, size, font, color });
+            y -= size * lineHeight;
+        });
+    };
+
+    const drawBlock = (block: LayoutBlock, next?: LayoutBlock) => {
+        switch (block.type) {
+            case 'name':
+                write(block.text, { font: fonts.bold, size: template.nameSize, color: accent, align: template.headerAlign, lineHeight: 1.2 });
+                y -= 2;
+                break;
+            case 'contact':
+                write(block.text, { font: fonts.regular, size: bodySize - 0.5, color: MUTED_COLOR, align: template.headerAlign });
+                y -= bodySize;
+                break;
+            case 'heading': {
+                y -= bodySize * 0.6;
+                // Keep the heading with the first lines of its section
+                reserve(template.headingSize * 1.4 + bodySize * 4);
+                write(template.uppercaseHeadings ? block.text.toUpperCase() : block.text, { font: fonts.bold, size: template.headingSize, color: accent, lineHeight: 1.2 });
+                if (template.headingRule) {
+                    page.drawLine({ start: { x: margin, y: y + 1 }, end: { x: PAGE_WIDTH - margin, y: y + 1 }, thickness: 0.75, color: accent });
+                }
+                y -= bodySize * 0.4;
+                break;
+            }
+            case 'entry': {
+                y -= bodySize * 0.3;
+                reserve(bodySize * 1.3 * 3);
+                if (template.datesRight && block.dates) {
+                    const dates = encodable(fonts.regular, block.dates, charsets);
+                    const datesWidth = fonts.regular.widthOfTextAtSize(dates, bodySize);
+                    const top = y;
+                    // Title first, so text extraction reads the line in order
+                    write(block.title, { font: fonts.bold, size: bodySize, width: contentWidth - datesWidth - 12 });
+                    page.drawText(dates, { x: PAGE_WIDTH - margin - datesWidth, y: top - bodySize, size: bodySize, font: fonts.regular, color: MUTED_COLOR });
+                } else {
+                    write(block.title, { font: fonts.bold, size: bodySize });
+                }
+                const subtitle = template.datesRight ? block.subtitle : [block.subtitle, block.dates].filter(Boolean).join(' | ');
+                if (subtitle) write(subtitle, { font: fonts.italic, size: bodySize, color: MUTED_COLOR });
+                break;
+            }
+            case 'paragraph':
+                write(block.text, { font: fonts.regular, size: bodySize });
+                if (next?.type === 'paragraph') y -= bodySize * 0.6;
+                break;
+            case 'bullet': {
+                reserve(bodySize * 1.3);
+                page.drawText('•', { x: margin + 2, y: y - bodySize, size: bodySize, font: fonts.regular, color: TEXT_COLOR });
+                write(block.text, { font: fonts.regular, size: bodySize, x: margin + BULLET_INDENT, width: contentWidth - BULLET_INDENT });
+                y -= 1;
+                break;
+            }
+        }
+    };
+
+    layout.blocks.forEach((block, i) => drawBlock(block, layout.blocks[i + 1]));
+    return doc.save();
+};
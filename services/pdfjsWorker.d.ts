@@ -0,0 +1,4 @@
+// The pdf.js worker bundle ships without type declarations; resumeImport only hands it to pdf.js
+declare module 'pdfjs-dist/build/pdf.worker.min.mjs' {
+    export const WorkerMessageHandler: unknown;
+}
@@ -0,0 +1,61 @@
+import { PROMPT_TEMPLATES } from './prompts';
+import { PromptTemplate, RenderedPrompt, parsePromptVersionId, renderPrompt } from './promptTemplate';
+
+/**
+ * Looks up prompt templates by name. Each name serves its newest version unless pinned, which is
+ * how a prompt change is rolled back without a deploy of the old wording.
+ *
+ * Environment: PROMPT_VERSIONS pins versions, e.g. "coverLetter@1,tailorResume@1".
+ */
+
+export type PromptId = keyof typeof PROMPT_TEMPLATES;
+
+export type PromptVars<Id extends PromptId> =
+    (typeof PROMPT_TEMPLATES)[Id][number] extends PromptTemplate<infer V> ? V : never;
+
+type Env = Record<string, string | undefined>;
+
+const readEnv = (): Env => typeof process !== 'undefined' && process.env ? process.env : {};
+
+const isPromptId = (id: string): id is PromptId => Object.prototype.hasOwnProperty.call(PROMPT_TEMPLATES, id);
+
+export const pinsFromEnv = (env: Env = readEnv()): Partial<Record<PromptId, number>> => {
+    const pins: Partial<Record<PromptId, number>> = {};
+    for (const entry of (env.PROMPT_VERSIONS || '').split(',')) {
+        const parsed = parsePromptVersionId(entry.trim());
+        if (parsed && isPromptId(parsed.id)) pins[parsed.id] = parsed.version;
+    }
+    return pins;
+};
+
+let pins: Partial<Record<PromptId, number>> | null = null;
+
+// Pins `id` to `version`; null goes back to the newest
+export const pinPromptVersion = (id: PromptId, version: number | null) => {
+    if (version !== null) getPrompt(id, version);
+    pins = { ...(pins || pinsFromEnv()), [id]: version ?? undefined };
+};
+
+export const listPromptVersions = <Id extends PromptId>(id: Id): PromptTemplate<PromptVars<Id>>[] =>
+    [...PROMPT_TEMPLATES[id]] as PromptTemplate<PromptVars<Id>>[];
+
+// The pinned version of `id`, or the newest; throws for a version that doesn't exist
+export const getPrompt = <Id extends PromptId>(id: Id, version?: number): PromptTemplate<PromptVars<Id>> => {
+    const versions = listPromptVersions(id);
+    if (!pins) pins = pinsFromEnv();
+    const wanted = version ?? pins[id];
+    if (wanted === undefined) return versions[versions.length - 1];
+    const template = versions.find(candidate => candidate.version === wanted);
+    if (!template) throw new Error(`Unknown prompt version ${id}@${wanted}`);
+    return template;
+};
+
+// The template a stored version ID (e.g. "coverLetter@1") refers to, if it still exists
+export const findPromptVersion = (versionId: string): PromptTemplate<unknown> | null => {
+    const parsed = parsePromptVersionId(versionId);
+    if (!parsed || !isPromptId(parsed.id)) return null;
+    return (listPromptVersions(parsed.id) as PromptTemplate<unknown>[]).find(template => template.version === parsed.version) || null;
+};
+
+export const buildPrompt = <Id extends PromptId>(id: Id, vars: PromptVars<Id>, version?: number): RenderedPrompt =>
+    renderPrompt(getPrompt(id, version), vars);
@@ -0,0 +1,41 @@
+import type { LlmRequest } from './llmClient';
+
+/**
+ * A named, versioned prompt. Generation settings are part of the template, since changing them
+ * changes the output as much as the wording does. Templates are never edited once shipped: a
+ * change is a new version, so a stored version ID always names the exact prompt that was used.
+ */
+export interface PromptTemplate<V> {
+    id: string;
+    version: number;
+    description: string;
+    system?: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    json?: boolean;
+    render(vars: V): string;
+}
+
+export interface RenderedPrompt {
+    request: LlmRequest;
+    // e.g. "coverLetter@2"; stored next to what the prompt produced
+    promptVersion: string;
+}
+
+export const promptVersionId = (template: { id: string, version: number }) => `${template.id}@${template.version}`;
+
+export const parsePromptVersionId = (versionId: string): { id: string, version: number } | null => {
+    const match = versionId.match(/^([\w-]+)@(\d+)$/);
+    return match ? { id: match[1], version: Number(match[2]) } : null;
+};
+
+export const renderPrompt = <V>(template: PromptTemplate<V>, vars: V): RenderedPrompt => ({
+    request: {
+        prompt: template.render(vars),
+        system: template.system,
+        temperature: template.temperature,
+        maxOutputTokens: template.maxOutputTokens,
+        json: template.json
+    },
+    promptVersion: promptVersionId(template)
+});
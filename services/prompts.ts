@@ -0,0 +1,309 @@
+import type { Resume } from '../types';
+import type { PromptTemplate } from './promptTemplate';
+
+/**
+ * Built-in prompt templates, oldest version first. Add a version rather than editing one;
+ * promptRegistry serves the newest unless a version is pinned.
+ */
+
+export interface CoverLetterVars {
+    title: string;
+    company: string;
+    description: string;
+    resume: string;
+    name: string;
+    email: string;
+}
+
+export interface TailorResumeVars {
+    title: string;
+    company: string;
+    description: string;
+    resume: string;
+    email: string;
+}
+
+export interface TailorStructuredResumeVars {
+    title: string;
+    company: string;
+    description: string;
+    resume: Resume;
+}
+
+export interface MatchScoreVars {
+    description: string;
+    resume: Resume;
+    targetRoles: string[];
+    targetLocations: string[];
+}
+
+export interface ExtractJobVars {
+    url: string;
+    // Page HTML; empty when the page couldn't be fetched
+    pageContent: string;
+}
+
+export interface ExtractEmailJobsVars {
+    html: string;
+}
+
+export type RewriteStyle = 'shorter' | 'formal' | 'metrics';
+
+export interface RewriteSelectionVars {
+    selection: string;
+    style: RewriteStyle;
+    // The whole document the selection is from, for context
+    document: string;
+    documentType: 'resume' | 'cover letter';
+    title: string;
+    company: string;
+}
+
+const PAGE_CONTENT_LIMIT = 30000;
+const EMAIL_HTML_LIMIT = 20000;
+
+// Scraped company names that are really UI text ("Review Required", "Check Site")
+const isPlaceholderCompany = (company: string) => {
+    const lower = (company || '').toLowerCase();
+    return !lower || ['review', 'unknown', 'site', 'description'].some(word => lower.includes(word));
+};
+
+const coverLetterV1: PromptTemplate<CoverLetterVars> = {
+    id: 'coverLetter',
+    version: 1,
+    description: 'Original in-app cover letter prompt',
+    temperature: 0.7,
+    maxOutputTokens: 1024,
+    render: ({ title, company, description, resume, name, email }) => `Write a professional, high-impact cover letter for the ${title} position.
+
+CONTEXT:
+- Target Company: ${isPlaceholderCompany(company)
+        ? 'Carefully scan the job description below to identify the actual company name. If not found, use "Hiring Manager".'
+        : company}
+- Candidate: ${name} (${email})
+- Job Title: ${title}
+- Job Description: ${description}
+- Candidate Resume: ${resume}
+
+REQUIREMENTS:
+1. Keep cover letter under 400 words
+2. Match candidate skills to job requirements
+3. NEVER use placeholder text like "Review Required", "Unknown Company", "Check Site", or "Check Description"
+4. Use professional tone and ATS-friendly formatting
+5. Include specific accomplishments from resume that align with job requirements`
+};
+
+// Merges the in-app prompt with the one /api/cover-letter used: adds its system role and bans bracketed placeholders
+const coverLetterV2: PromptTemplate<CoverLetterVars> = {
+    ...coverLetterV1,
+    version: 2,
+    description: 'Unified app and API prompt with a career coach system role',
+    system: 'You are an expert career coach writing professional, ATS-optimized cover letters that stand out.',
+    render: ({ title, company, description, resume, name, email }) => `Write a professional, high-impact cover letter for the ${title} position.
+
+CONTEXT:
+- Target Company: ${isPlaceholderCompany(company)
+        ? 'Carefully scan the job description below to identify the actual company name. If not found, address the letter to "Hiring Manager".'
+        : company}
+- Candidate: ${name} (${email})
+- Job Title: ${title}
+- Job Description: ${description}
+- Candidate Resume: ${resume}
+
+REQUIREMENTS:
+1. Keep the letter under 400 words
+2. Match the candidate's skills to the specific requirements in the job description
+3. Include specific accomplishments from the resume that align with those requirements
+4. Keep a professional, confident and persuasive tone with ATS-friendly formatting
+5. NEVER use placeholders such as [Company Name], [Job Title], "Review Required" or "Unknown Company"; use the data provided`
+};
+
+const tailorResumeV1: PromptTemplate<TailorResumeVars> = {
+    id: 'tailorResume',
+    version: 1,
+    description: 'Original in-app resume tailoring prompt',
+    temperature: 0.7,
+    maxOutputTokens: 2048,
+    render: ({ title, company, description, resume, email }) => `Tailor this resume for a ${title} role at ${isPlaceholderCompany(company) ? 'the target company' : company}.
+
+Email: ${email}
+
+Original Resume:
+${resume}
+
+Job Description:
+${description}
+
+INSTRUCTIONS:
+1. Reorder experience to highlight relevant skills first
+2. Adapt bullet points to match job description keywords
+3. Emphasize achievements with metrics (e.g., increased by X%, saved Y hours)
+4. Keep the same length and structure
+5. Focus on ATS optimization with proper formatting`
+};
+
+const tailorResumeV2: PromptTemplate<TailorResumeVars> = {
+    ...tailorResumeV1,
+    version: 2,
+    description: 'Unified app and API prompt with a resume writer system role',
+    system: 'You are a professional resume writer specializing in ATS optimization and role-specific tailoring.',
+    render: ({ title, company, description, resume, email }) => `Tailor this resume for a ${title} role at ${isPlaceholderCompany(company) ? 'the target company' : company}.
+
+Email: ${email}
+
+Original Resume:
+${resume}
+
+Job Description:
+${description}
+
+INSTRUCTIONS:
+1. Reorder experience to highlight relevant skills first
+2. Rewrite bullet points to emphasize experience relevant to this role, using the job description's keywords
+3. Emphasize achievements with metrics (e.g., increased by X%, saved Y hours)
+4. Keep the same length and structure, as plain professional text
+5. Make sure the contact information uses the email above
+6. Do not include placeholders`
+};
+
+// Same resume in, same shape out; applyTailoring then keeps only the wording changes
+const tailorStructuredResumeV1: PromptTemplate<TailorStructuredResumeVars> = {
+    id: 'tailorStructuredResume',
+    version: 1,
+    description: 'Tailors the structured resume as JSON, rewording bullets and reordering skills',
+    system: 'You are a professional resume writer specializing in ATS optimization and role-specific tailoring.',
+    temperature: 0.5,
+    maxOutputTokens: 4096,
+    json: true,
+    render: ({ title, company, description, resume }) => `Tailor this resume for a ${title} role at ${isPlaceholderCompany(company) ? 'the target company' : company}.
+
+The resume is JSON. Return ONLY the tailored resume as a JSON object with exactly the same shape and the same "id" values.
+
+INSTRUCTIONS:
+1. Rewrite the summary for this role
+2. Rewrite experience and project bullets to emphasize what this job asks for, using its keywords; most relevant bullet first
+3. Order skills by relevance to this job
+4. Emphasize achievements with metrics (e.g., increased by X%, saved Y hours)
+5. Never invent employers, titles, dates, degrees, skills or achievements; only reword and reorder what is there
+
+Job Description:
+${description}
+
+Resume:
+${JSON.stringify(resume)}`
+};
+
+const matchScoreV1: PromptTemplate<MatchScoreVars> = {
+    id: 'matchScore',
+    version: 1,
+    description: 'Scores a job against the structured resume, 0-100',
+    temperature: 0.3,
+    maxOutputTokens: 10,
+    render: ({ description, resume, targetRoles, targetLocations }) => `Rate the match between this job and the candidate on a scale of 0-100.
+
+Job Description:
+${description}
+
+Candidate:
+- Summary: ${resume.summary || 'None'}
+- Roles: ${resume.experience.map(entry => [entry.title, entry.company].filter(Boolean).join(' at ')).join('; ') || 'None'}
+- Skills: ${resume.skills.join(', ') || 'None'}
+- Education: ${resume.education.map(entry => [entry.degree, entry.institution].filter(Boolean).join(', ')).join('; ') || 'None'}
+- Certifications: ${resume.certifications.map(cert => cert.name).join(', ') || 'None'}
+
+Target Roles: ${targetRoles.join(', ') || 'Any'}
+Target Locations: ${targetLocations.join(', ') || 'Any'}
+
+Return ONLY a single number between 0-100.`
+};
+
+const JOB_FIELDS = `Return ONLY a JSON object with these EXACT keys:
+- title (string): Job title
+- company (string): Company name
+- location (string): Job location or "Remote"
+- salaryRange (string): Salary range or empty string
+- description (string): Job description (max 2000 chars)
+- requirements (string[]): Key requirements, one per item`;
+
+const extractJobV1: PromptTemplate<ExtractJobVars> = {
+    id: 'extractJob',
+    version: 1,
+    description: 'Job details from a posting page, or from its URL when the page is unavailable',
+    temperature: 0.2,
+    json: true,
+    render: ({ url, pageContent }) => pageContent
+        ? `Extract job details from this HTML content.
+
+${JOB_FIELDS}
+
+URL: ${url}
+
+HTML content:
+${pageContent.substring(0, PAGE_CONTENT_LIMIT)}`
+        : `The job page at this URL could not be fetched. Infer what you can from the URL itself and leave unknown fields empty.
+
+${JOB_FIELDS}
+
+URL: ${url}`
+};
+
+const extractEmailJobsV1: PromptTemplate<ExtractEmailJobsVars> = {
+    id: 'extractEmailJobs',
+    version: 1,
+    description: 'Every job listing in a job alert email',
+    temperature: 0.2,
+    maxOutputTokens: 4096,
+    json: true,
+    render: ({ html }) => `Extract ALL job postings from this email HTML.
+
+Return ONLY a JSON object of the form {"jobs": [...]}, where each job has these EXACT keys:
+- title (string): Job title
+- company (string): Company name
+- location (string): Job location or "Remote"
+- salaryRange (string): Salary range or empty string
+- description (string): Job description (max 500 chars)
+- applicationUrl (string): Application link or empty string
+
+HTML Content:
+${html.substring(0, EMAIL_HTML_LIMIT)}`
+};
+
+const REWRITE_INSTRUCTIONS: Record<RewriteStyle, string> = {
+    shorter: 'Make it noticeably shorter, about half the words, keeping the key facts and keywords.',
+    formal: 'Make the tone more formal and professional, without adding new claims.',
+    metrics: 'Make the achievements measurable: state results as numbers where the text supports them. Never invent figures; where a number is needed but unknown, write a placeholder such as [X%] for the candidate to fill in.'
+};
+
+// Rewrites part of a document in the in-app editor; the output replaces the selection as-is
+const rewriteSelectionV1: PromptTemplate<RewriteSelectionVars> = {
+    id: 'rewriteSelection',
+    version: 1,
+    description: 'Rewrites a selected passage of a tailored resume or cover letter: shorter, more formal or with metrics',
+    system: 'You are a professional resume writer editing a candidate\'s application documents.',
+    temperature: 0.4,
+    maxOutputTokens: 1024,
+    render: ({ selection, style, document, documentType, title, company }) => `Rewrite the SELECTED TEXT from this ${documentType} for a ${title} application${isPlaceholderCompany(company) ? '' : ` at ${company}`}.
+
+${REWRITE_INSTRUCTIONS[style]}
+
+RULES:
+1. Return ONLY the rewritten text, without quotes, labels or commentary
+2. Keep its line breaks and any bullet markers ("- ") at the start of lines
+3. Never invent employers, titles, dates, skills or achievements
+
+FULL ${documentType.toUpperCase()} (for context only):
+${document}
+
+SELECTED TEXT:
+${selection}`
+};
+
+export const PROMPT_TEMPLATES = {
+    coverLetter: [coverLetterV1, coverLetterV2],
+    tailorResume: [tailorResumeV1, tailorResumeV2],
+    tailorStructuredResume: [tailorStructuredResumeV1],
+    matchScore: [matchScoreV1],
+    extractJob: [extractJobV1],
+    extractEmailJobs: [extractEmailJobsV1],
+    rewriteSelection: [rewriteSelectionV1]
+};
@@ -0,0 +1,108 @@
+import { Job, JobStatus, Interview, ReminderRule } from '../types';
+import { formatInTimeZone } from './calendarService';
+
+/**
+ * Rules-based follow-up reminders.
+ * Evaluation is pure so the scheduled function and the client share the same logic.
+ */
+
+export const DEFAULT_REMINDER_RULES: ReminderRule[] = [
+    {
+        id: 'rule-applied-stale',
+        name: 'Follow up on quiet applications',
+        trigger: 'stale_status',
+        statuses: [JobStatus.APPLIED_MANUAL, JobStatus.APPLIED_AUTO],
+        offsetDays: 7,
+        enabled: true
+    },
+    {
+        id: 'rule-saved-stale',
+        name: 'Apply to saved jobs',
+        trigger: 'stale_status',
+        statuses: [JobStatus.SAVED],
+        offsetDays: 14,
+        enabled: false
+    },
+    {
+        id: 'rule-interview-prep',
+        name: 'Prepare for interviews',
+        trigger: 'before_interview',
+        statuses: [],
+        offsetDays: 1,
+        enabled: true
+    }
+];
+
+export interface ReminderCandidate {
+    // Stable per occurrence, so re-running the evaluation never duplicates a reminder
+    dedupeKey: string;
+    ruleId: string;
+    jobId: string;
+    interviewId?: string;
+    message: string;
+    dueAt: string;
+}
+
+const DAY_MS = 86400000;
+
+export const getReminderRules = (rules?: ReminderRule[]): ReminderRule[] =>
+    Array.isArray(rules) && rules.length > 0 ? rules : DEFAULT_REMINDER_RULES;
+
+/**
+ * When the job last changed status: the newest history entry, falling back to its detection date.
+ */
+export const getLastStatusChangeAt = (job: Job): string => {
+    const history = job.statusHistory || [];
+    return history.length > 0 ? history[history.length - 1].changedAt : job.detectedAt;
+};
+
+export const evaluateReminderRules = (
+    rules: ReminderRule[],
+    jobs: Job[],
+    interviews: Interview[],
+    now: Date = new Date()
+): ReminderCandidate[] => {
+    const candidates: ReminderCandidate[] = [];
+    const jobsById = new Map(jobs.map(j => [j.id, j]));
+
+    rules.filter(r => r.enabled).forEach(rule => {
+        if (rule.trigger === 'stale_status') {
+            jobs.forEach(job => {
+                if (!rule.statuses.includes(job.status)) return;
+                const changedAt = getLastStatusChangeAt(job);
+                const dueAt = new Date(new Date(changedAt).getTime() + rule.offsetDays * DAY_MS);
+                if (isNaN(dueAt.getTime()) || dueAt > now) return;
+
+                const days = Math.floor((now.getTime() - new Date(changedAt).getTime()) / DAY_MS);
+                candidates.push({
+                    dedupeKey: `${rule.id}:${job.id}:${changedAt}`,
+                    ruleId: rule.id,
+                    jobId: job.id,
+                    message: `${job.title} at ${job.company} has been "${job.status}" for ${days} days. Time to follow up?`,
+                    dueAt: dueAt.toISOString()
+                });
+            });
+        }
+
+        if (rule.trigger === 'before_interview') {
+            interviews.forEach(interview => {
+                const job = jobsById.get(interview.jobId);
+                if (!job) return;
+                const startsAt = new Date(interview.startsAt);
+                const dueAt = new Date(startsAt.getTime() - rule.offsetDays * DAY_MS);
+                if (dueAt > now || startsAt <= now) return;
+
+                candidates.push({
+                    dedupeKey: `${rule.id}:${interview.id}:${interview.startsAt}`,
+                    ruleId: rule.id,
+                    jobId: job.id,
+                    interviewId: interview.id,
+                    message: `Round ${interview.round} (${interview.stage}) with ${job.company} starts ${formatInTimeZone(interview.startsAt, interview.timeZone || 'UTC')}. Review your prep notes.`,
+                    dueAt: dueAt.toISOString()
+                });
+            });
+        }
+    });
+
+    return candidates;
+};
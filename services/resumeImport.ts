@@ -0,0 +1,227 @@
+/**
+ * Text extraction for uploaded resumes (PDF, DOCX, plain text), in the browser. The output is
+ * plain text in the layout resumeParser reads: one line per line of the document, blank lines
+ * between paragraphs and "- " in front of bullets. The PDF and DOCX libraries are loaded on first use.
+ */
+
+export type ResumeFileKind = 'pdf' | 'docx' | 'txt';
+
+export const RESUME_FILE_ACCEPT = '.pdf,.docx,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain';
+// The original is stored with the profile (api/resume-file); keeps the upload under the request size limit
+export const MAX_RESUME_FILE_BYTES = 3 * 1024 * 1024;
+
+export const RESUME_MIME_TYPES: Record<ResumeFileKind, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    txt: 'text/plain'
+};
+
+export interface ExtractedResume {
+    kind: ResumeFileKind;
+    text: string;
+    // Things the user should check in the preview, e.g. a PDF with no text layer
+    warnings: string[];
+}
+
+export const resumeFileKind = (file: { name: string, type: string }): ResumeFileKind | null => {
+    const name = file.name.toLowerCase();
+    if (file.type === RESUME_MIME_TYPES.pdf || name.endsWith('.pdf')) return 'pdf';
+    if (file.type === RESUME_MIME_TYPES.docx || name.endsWith('.docx')) return 'docx';
+    if (file.type === 'text/plain' || name.endsWith('.txt')) return 'txt';
+    return null;
+};
+
+// Glyphs used as list markers, including the Symbol and Wingdings private-use bullets Word exports
+const BULLET_GLYPHS = /^[•●▪■◦○‣∙·–—*➢➔✓✔]\s*/;
+
+const tidy = (text: string) => text
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export interface PdfTextItem {
+    str: string;
+    x: number;
+    y: number; // Baseline, growing upwards as in PDF space
+    width: number;
+    height: number;
+    hasEOL?: boolean;
+}
+
+interface PdfLine {
+    text: string;
+    x: number;
+    textX: number; // Where the text after a bullet starts
+    y: number;
+    height: number;
+    bullet: boolean;
+}
+
+/**
+ * Rebuilds lines from positioned PDF text. Items stay in the order the page draws them, which
+ * keeps the sections of two-column layouts together; a wrapped bullet is joined back onto its
+ * bullet, and a gap well above the usual line spacing becomes a paragraph break.
+ */
+export const pdfItemsToText = (pages: PdfTextItem[][]): string => pages.map(items => {
+    const lines: PdfLine[] = [];
+    let current: PdfLine | null = null;
+    let lastEnd = 0;
+
+    items.forEach(item => {
+        if (!item.str && !item.hasEOL) return;
+        const sameLine = current && Math.abs(item.y - current.y) <= Math.max(current.height, item.height, 1) * 0.5;
+        if (!current || !sameLine) {
+            current = { text: '', x: item.x, textX: item.x, y: item.y, height: item.height, bullet: false };
+            lines.push(current);
+        } else if (item.str && current.text && !/\s$/.test(current.text) && !/^\s/.test(item.str)
+            && item.x - lastEnd > Math.max(item.height, current.height) * 0.15) {
+            current.text += ' ';
+        }
+        if (!current.text.trim() && BULLET_GLYPHS.test(item.str.trim())) {
+            current.bullet = true;
+            const rest = item.str.trim().replace(BULLET_GLYPHS, '');
+            // Bullet drawn as its own item: the text starts with the next one
+            current.textX = rest ? item.x : item.x + item.width;
+            current.text += rest;
+        } else {
+            if (current.bullet && !current.text) current.textX = item.x;
+            current.text += item.str;
+        }
+        current.height = Math.max(current.height, item.height);
+        lastEnd = item.x + item.width;
+        if (item.hasEOL) current = null;
+    });
+
+    const spacings = lines.slice(1).map((line, i) => lines[i].y - line.y).filter(gap => gap > 0).sort((a, b) => a - b);
+    const lineSpacing = spacings.length > 0 ? spacings[Math.floor(spacings.length / 2)] : 0;
+
+    const out: string[] = [];
+    let previous: PdfLine | null = null;
+    lines.filter(line => line.text.trim() || line.bullet).forEach(line => {
+        const gap = previous ? previous.y - line.y : 0;
+        const normalGap = lineSpacing > 0 && gap > 0 && gap <= lineSpacing * 1.3;
+        const startsBullet = line.bullet || BULLET_GLYPHS.test(line.text.trim());
+        if (previous?.bullet && !startsBullet && normalGap && line.x >= previous.textX - 2) {
+            out[out.length - 1] += ` ${line.text.trim()}`;
+            previous = { ...previous, y: line.y };
+            return;
+        }
+        if (previous && lineSpacing > 0 && (gap > lineSpacing * 1.6 || gap < 0)) out.push('');
+        const text = line.text.trim().replace(BULLET_GLYPHS, '');
+        out.push(startsBullet ? `- ${text}` : text);
+        previous = { ...line, bullet: startsBullet };
+    });
+    return out.join('\n');
+}).join('\n\n');
+
+// pdf.js runs the worker code in-process when it finds the worker module here
+interface PdfJsWorkerScope {
+    pdfjsWorker?: unknown;
+}
+
+const loadPdfJs = async () => {
+    const pdfjs = await import('pdfjs-dist');
+    const scope = globalThis as typeof globalThis & PdfJsWorkerScope;
+    if (!scope.pdfjsWorker) {
+        // Parses on the main thread, so no worker file has to be served; resumes are a page or two
+        scope.pdfjsWorker = await import('pdfjs-dist/build/pdf.worker.min.mjs');
+    }
+    return pdfjs;
+};
+
+const extractPdf = async (data: ArrayBuffer): Promise<ExtractedResume> => {
+    const pdfjs = await loadPdfJs();
+    const document = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+    try {
+        const pages: PdfTextItem[][] = [];
+        for (let number = 1; number <= document.numPages; number++) {
+            const page = await document.getPage(number);
+            const content = await page.getTextContent();
+            pages.push(content.items.filter((item): item is Extract<typeof item, { str: string }> => 'str' in item).map(item => ({
+                str: item.str,
+                x: item.transform[4],
+                y: item.transform[5],
+                width: item.width,
+                height: item.height || Math.abs(item.transform[3]),
+                hasEOL: item.hasEOL
+            })));
+        }
+        const text = tidy(pdfItemsToText(pages));
+        const warnings = text.length < 50
+            ? ['Hardly any text was found. Scanned PDFs are images; export a text PDF or a Word file instead.']
+            : [];
+        return { kind: 'pdf', text, warnings };
+    } finally {
+        await document.destroy();
+    }
+};
+
+// mammoth's HTML to text: headings and paragraphs as lines, list items as bullets, table rows joined with "|"
+export const docxHtmlToText = (html: string): string => {
+    const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html');
+    const out: string[] = [];
+    const inline = (node: Element) => (node.textContent || '').replace(/\s+/g, ' ').trim();
+
+    const isList = (node: Element) => /^(ul|ol)$/i.test(node.tagName);
+
+    // Nested list items follow their parent item as bullets of their own
+    const walkList = (list: Element) => Array.from(list.children).forEach((item, index) => {
+        const text = item.cloneNode(true) as Element;
+        Array.from(text.children).filter(isList).forEach(child => child.remove());
+        const marker = list.tagName.toLowerCase() === 'ol' ? `${index + 1}.` : '-';
+        out.push(`${marker} ${inline(text)}`);
+        Array.from(item.children).filter(isList).forEach(walkList);
+    });
+
+    const walk = (parent: Element) => Array.from(parent.children).forEach(node => {
+        const tag = node.tagName.toLowerCase();
+        if (/^h[1-6]$/.test(tag)) {
+            out.push('', inline(node));
+        } else if (tag === 'p') {
+            out.push(inline(node));
+        } else if (isList(node)) {
+            walkList(node);
+        } else if (tag === 'table') {
+            out.push('');
+            node.querySelectorAll('tr').forEach(row => {
+                const cells = Array.from(row.querySelectorAll('td,th')).map(inline).filter(Boolean);
+                if (cells.length > 0) out.push(cells.join(' | '));
+            });
+            out.push('');
+        } else {
+            walk(node);
+        }
+    });
+
+    walk(doc.body);
+    return out.join('\n');
+};
+
+const extractDocx = async (data: ArrayBuffer): Promise<ExtractedResume> => {
+    const mammoth = (await import('mammoth')).default;
+    const result = await mammoth.convertToHtml({ arrayBuffer: data });
+    const text = tidy(docxHtmlToText(result.value));
+    const warnings = result.messages
+        .filter(message => message.type === 'error')
+        .map(message => message.message);
+    if (text.length < 50) warnings.push('Hardly any text was found in this document.');
+    return { kind: 'docx', text, warnings };
+};
+
+export const extractResumeText = async (file: File): Promise<ExtractedResume> => {
+    const kind = resumeFileKind(file);
+    if (!kind) throw new Error('Please upload a PDF, Word (.docx) or text file.');
+    if (file.size > MAX_RESUME_FILE_BYTES) throw new Error('Resume files can be at most 3 MB.');
+
+    try {
+        if (kind === 'txt') return { kind, text: tidy(await file.text()), warnings: [] };
+        const data = await file.arrayBuffer();
+        return kind === 'pdf' ? await extractPdf(data) : await extractDocx(data);
+    } catch (error: any) {
+        console.error('[resumeImport] Extraction failed:', error);
+        throw new Error(kind === 'pdf'
+            ? 'This PDF could not be read. It may be password protected or damaged.'
+            : 'This Word document could not be read. Please save it as .docx and try again.');
+    }
+};
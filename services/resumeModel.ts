@@ -0,0 +1,214 @@
+import { Resume, ResumeContact } from '../types';
+
+/**
+ * Shared operations on the structured resume: validation of untrusted JSON (stored profiles,
+ * LLM output), plain-text rendering and keyword matching against a job.
+ */
+
+export const createResumeId = (prefix: string) => `${prefix}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const emptyResume = (contact: Partial<ResumeContact> = {}): Resume => ({
+    contact: { name: '', email: '', phone: '', location: '', links: [], ...contact },
+    summary: '',
+    experience: [],
+    education: [],
+    skills: [],
+    certifications: [],
+    projects: [],
+    extraSections: []
+});
+
+const str = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+const strList = (value: unknown) => Array.isArray(value) ? value.map(str).filter(Boolean) : [];
+const list = (value: unknown): any[] => Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+const idOr = (value: unknown, prefix: string) => str(value) || createResumeId(prefix);
+
+// Coerces anything resume-shaped into a valid Resume; missing fields become empty
+export const normalizeResume = (value: any): Resume => {
+    const source = value && typeof value === 'object' ? value : {};
+    const contact = source.contact && typeof source.contact === 'object' ? source.contact : {};
+    return {
+        contact: {
+            name: str(contact.name),
+            email: str(contact.email),
+            phone: str(contact.phone),
+            location: str(contact.location),
+            links: strList(contact.links)
+        },
+        summary: str(source.summary),
+        experience: list(source.experience).map(entry => ({
+            id: idOr(entry.id, 'exp'),
+            title: str(entry.title),
+            company: str(entry.company),
+            location: str(entry.location),
+            startDate: str(entry.startDate),
+            endDate: str(entry.endDate),
+            bullets: strList(entry.bullets)
+        })),
+        education: list(source.education).map(entry => ({
+            id: idOr(entry.id, 'edu'),
+            institution: str(entry.institution),
+            degree: str(entry.degree),
+            location: str(entry.location),
+            startDate: str(entry.startDate),
+            endDate: str(entry.endDate),
+            details: strList(entry.details)
+        })),
+        skills: Array.from(new Set(strList(source.skills))),
+        certifications: list(source.certifications).map(entry => ({
+            id: idOr(entry.id, 'cert'),
+            name: str(entry.name),
+            issuer: str(entry.issuer),
+            date: str(entry.date)
+        })).filter(entry => entry.name),
+        projects: list(source.projects).map(entry => ({
+            id: idOr(entry.id, 'proj'),
+            name: str(entry.name),
+            url: str(entry.url),
+            description: str(entry.description),
+            bullets: strList(entry.bullets)
+        })),
+        extraSections: list(source.extraSections).map(entry => ({
+            id: idOr(entry.id, 'sec'),
+            title: str(entry.title),
+            lines: strList(entry.lines)
+        })).filter(entry => entry.title && entry.lines.length > 0)
+    };
+};
+
+export const isResumeEmpty = (resume: Resume) =>
+    !resume.summary && resume.experience.length === 0 && resume.education.length === 0
+    && resume.skills.length === 0 && resume.projects.length === 0;
+
+const joinParts = (parts: string[]) => parts.filter(Boolean).join(' | ');
+const dateRange = (start: string, end: string) => start && end ? `${start} - ${end}` : start || end;
+
+/**
+ * Plain-text rendering, stored as `resumeContent` and sent to prompts that take text. Uses the
+ * headings and "Title | Company | Location | Dates" lines resumeParser reads back.
+ */
+export const resumeToText = (resume: Resume): string => {
+    const { contact } = resume;
+    const blocks: string[] = [];
+
+    const header = [contact.name, joinParts([contact.email, contact.phone, contact.location, ...contact.links])].filter(Boolean);
+    if (header.length > 0) blocks.push(header.join('\n'));
+    if (resume.summary) blocks.push(`SUMMARY\n${resume.summary}`);
+
+    if (resume.experience.length > 0) {
+        blocks.push(`EXPERIENCE\n${resume.experience.map(entry => [
+            joinParts([entry.title, entry.company, entry.location, dateRange(entry.startDate, entry.endDate)]),
+            ...entry.bullets.map(bullet => `- ${bullet}`)
+        ].join('\n')).join('\n\n')}`);
+    }
+    if (resume.education.length > 0) {
+        blocks.push(`EDUCATION\n${resume.education.map(entry => [
+            joinParts([entry.institution, entry.degree, entry.location, dateRange(entry.startDate, entry.endDate)]),
+            ...entry.details.map(detail => `- ${detail}`)
+        ].join('\n')).join('\n\n')}`);
+    }
+    if (resume.skills.length > 0) blocks.push(`SKILLS\n${resume.skills.join(', ')}`);
+    if (resume.certifications.length > 0) {
+        blocks.push(`CERTIFICATIONS\n${resume.certifications.map(cert => `- ${joinParts([cert.name, cert.issuer, cert.date])}`).join('\n')}`);
+    }
+    if (resume.projects.length > 0) {
+        blocks.push(`PROJECTS\n${resume.projects.map(project => [
+            joinParts([project.name, project.url]),
+            project.description,
+            ...project.bullets.map(bullet => `- ${bullet}`)
+        ].filter(Boolean).join('\n')).join('\n\n')}`);
+    }
+    resume.extraSections.forEach(section => blocks.push(`${section.title.toUpperCase()}\n${section.lines.join('\n')}`));
+
+    return blocks.join('\n\n');
+};
+
+/**
+ * Takes the wording from a tailored copy (summary, bullets, skill order) but keeps the facts from
+ * the original: contact details, employers, titles, dates and degrees can't be changed by tailoring.
+ * Entries are matched by id; ones the tailored copy dropped or invented are ignored.
+ */
+export const applyTailoring = (original: Resume, tailored: Resume): Resume => {
+    const byId = <T extends { id: string }>(entries: T[]) => new Map(entries.map(entry => [entry.id, entry]));
+    const experience = byId(tailored.experience);
+    const projects = byId(tailored.projects);
+    const knownSkills = new Map(original.skills.map(skill => [skill.toLowerCase(), skill]));
+    const reordered = tailored.skills.map(skill => knownSkills.get(skill.toLowerCase())).filter((skill): skill is string => !!skill);
+
+    return {
+        ...original,
+        summary: tailored.summary || original.summary,
+        experience: original.experience.map(entry => ({
+            ...entry,
+            bullets: experience.get(entry.id)?.bullets.length ? experience.get(entry.id)!.bullets : entry.bullets
+        })),
+        projects: original.projects.map(project => ({
+            ...project,
+            description: projects.get(project.id)?.description || project.description,
+            bullets: projects.get(project.id)?.bullets.length ? projects.get(project.id)!.bullets : project.bullets
+        })),
+        skills: Array.from(new Set([...reordered, ...original.skills]))
+    };
+};
+
+const STOPWORDS = new Set([
+    'the', 'and', 'or', 'a', 'an', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'as', 'is', 'are', 'be', 'will',
+    'you', 'your', 'our', 'we', 'us', 'this', 'that', 'from', 'have', 'has', 'who', 'what', 'about', 'their', 'they',
+    'all', 'any', 'can', 'not', 'but', 'more', 'other', 'into', 'such', 'able', 'well', 'also', 'including', 'work',
+    'working', 'team', 'role', 'job', 'years', 'year', 'experience', 'strong', 'skills', 'ability', 'within', 'across',
+    'help', 'new', 'plus', 'must', 'should', 'would', 'etc', 'benefits', 'company', 'opportunity', 'candidate',
+    'need', 'looking', 'join', 'seeking', 'ideal', 'like', 'using', 'based', 'position', 'apply', 'please'
+]);
+
+// Keeps terms like "c++", "node.js" and "ci/cd" whole
+const tokenize = (text: string) => (text.toLowerCase().match(/[a-z0-9][a-z0-9+#./-]*[a-z0-9+#]|[a-z0-9]/g) || []);
+
+// The job's most frequent meaningful terms, most frequent first
+export const extractKeywords = (text: string, limit = 20): string[] => {
+    const freq = new Map<string, number>();
+    tokenize(text).forEach(word => {
+        if (word.length > 2 && !STOPWORDS.has(word) && !/^\d+$/.test(word)) freq.set(word, (freq.get(word) || 0) + 1);
+    });
+    return Array.from(freq.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit).map(([word]) => word);
+};
+
+// How many of `keywords` appear in `text`
+export const keywordHits = (text: string, keywords: string[]) => {
+    const words = new Set(tokenize(text));
+    return keywords.filter(keyword => words.has(keyword)).length;
+};
+
+// Every word on the resume that a job could ask for
+const resumeVocabulary = (resume: Resume) => [
+    resume.summary,
+    ...resume.skills,
+    ...resume.experience.flatMap(entry => [entry.title, ...entry.bullets]),
+    ...resume.projects.flatMap(project => [project.name, project.description, ...project.bullets]),
+    ...resume.certifications.map(cert => cert.name),
+    ...resume.education.map(entry => entry.degree)
+].join('\n');
+
+export interface ResumeMatch {
+    score: number; // 0-100, share of the job's keywords found on the resume
+    matched: string[];
+    missing: string[];
+}
+
+type MatchableJob = { title?: string, description: string, requirements?: string[] };
+
+const keywordCoverage = (text: string, job: MatchableJob): ResumeMatch => {
+    const keywords = extractKeywords([job.title, job.description, ...(job.requirements || [])].filter(Boolean).join('\n'));
+    if (keywords.length === 0) return { score: 0, matched: [], missing: [] };
+    const words = new Set(tokenize(text));
+    const matched = keywords.filter(keyword => words.has(keyword));
+    return {
+        score: Math.round(matched.length / keywords.length * 100),
+        matched,
+        missing: keywords.filter(keyword => !words.has(keyword))
+    };
+};
+
+export const scoreResumeMatch = (resume: Resume, job: MatchableJob): ResumeMatch => keywordCoverage(resumeVocabulary(resume), job);
+
+// The same coverage for a plain-text document, such as a tailored resume or cover letter being edited
+export const scoreTextMatch = (text: string, job: MatchableJob): ResumeMatch => keywordCoverage(text, job);
@@ -0,0 +1,265 @@
+import { Resume, ResumeEducation, ResumeExperience, ResumeProject, UserProfile } from '../types';
+import { createResumeId, emptyResume } from './resumeModel';
+
+/**
+ * Converts a plain-text resume into the structured model. Sections are found by their headings;
+ * entries are a header line (title, company, dates...) followed by bullets. Text under headings
+ * it doesn't know is kept in `extraSections` rather than dropped.
+ */
+
+type SectionKey = 'summary' | 'experience' | 'education' | 'skills' | 'certifications' | 'projects';
+
+const SECTION_HEADINGS: Record<SectionKey, string[]> = {
+    summary: ['summary', 'professional summary', 'career summary', 'profile', 'professional profile', 'objective', 'career objective', 'about', 'about me'],
+    experience: ['experience', 'work experience', 'professional experience', 'relevant experience', 'employment', 'employment history', 'work history', 'career history'],
+    education: ['education', 'academic background', 'education and training', 'education & training'],
+    skills: ['skills', 'technical skills', 'key skills', 'core skills', 'core competencies', 'competencies', 'technologies', 'skills and tools', 'skills & tools', 'tools'],
+    certifications: ['certifications', 'certificates', 'licenses', 'licenses and certifications', 'licenses & certifications', 'certifications and licenses', 'certifications & licenses'],
+    projects: ['projects', 'personal projects', 'selected projects', 'key projects', 'side projects']
+};
+
+const HEADING_LOOKUP = new Map<string, SectionKey>(
+    (Object.keys(SECTION_HEADINGS) as SectionKey[]).flatMap(key => SECTION_HEADINGS[key].map(heading => [heading, key] as [string, SectionKey]))
+);
+
+const BULLET_PATTERN = /^\s*(?:[-*•▪◦·‣–—]|\d+[.)])\s+/;
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{7,}\d/;
+const LINK_PATTERN = /(?:https?:\/\/|www\.)\S+|\b(?:linkedin\.com|github\.com|gitlab\.com)\/\S+/gi;
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}/\\d{4}|\\d{4}|present|current|now|today)`;
+const DATE_RANGE_PATTERN = new RegExp(`\\(?\\s*(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE})\\s*\\)?|\\(?\\b(${DATE})\\b\\)?`, 'i');
+const DEGREE_PATTERN = /\b(?:bachelor|master|associate|doctor|diploma|degree|b\.?sc?|b\.?a|m\.?sc?|m\.?a|mba|ph\.?d|b\.?eng|m\.?eng|bs|ba|ms|ma)\b/i;
+const LOCATION_PATTERN = /^(?:remote|hybrid|[A-Z][a-zA-Z .'-]+,\s*[A-Z][a-zA-Z .'-]+)$/;
+const SEPARATOR_PATTERN = /\s+(?:\||—|–|-|@|at)\s+|\s*\|\s*|\s*•\s*|\s*·\s*/;
+
+const headingOf = (line: string): SectionKey | 'other' | null => {
+    const text = line.trim().replace(/[:\s]+$/, '');
+    if (!text || text.length > 40 || BULLET_PATTERN.test(line)) return null;
+    const known = HEADING_LOOKUP.get(text.toLowerCase());
+    if (known) return known;
+    // An all-caps line of a few words is a heading we don't know ("LANGUAGES", "VOLUNTEER WORK")
+    return /^[A-Z][A-Z &/]{2,}$/.test(text) && text.split(/\s+/).length <= 4 ? 'other' : null;
+};
+
+const stripBullet = (line: string) => line.replace(BULLET_PATTERN, '').trim();
+
+// Removes the first date or date range from `text`
+const takeDates = (text: string): { rest: string, startDate: string, endDate: string } => {
+    const match = text.match(DATE_RANGE_PATTERN);
+    if (!match) return { rest: text, startDate: '', endDate: '' };
+    const rest = (text.slice(0, match.index) + ' ' + text.slice(match.index! + match[0].length)).replace(/\s*[|,–—-]\s*$/, '').trim();
+    return match[3]
+        ? { rest, startDate: '', endDate: match[3] }
+        : { rest, startDate: match[1], endDate: match[2] };
+};
+
+const splitParts = (lines: string[]) => lines
+    .flatMap(line => line.split(SEPARATOR_PATTERN))
+    .map(part => part.replace(/^[,\s]+|[,\s]+$/g, ''))
+    .filter(Boolean);
+
+// Entry headers split on "|", "-", "at"...; failing those on commas, keeping "Austin, TX" together
+const splitHeader = (text: string) => {
+    const parts = splitParts([text]);
+    if (parts.length !== 1 || !parts[0].includes(',')) return parts;
+    return parts[0].split(/\s*,\s*/).reduce<string[]>((merged, part) => {
+        if (merged.length > 0 && /^[A-Z]{2}$/.test(part)) merged[merged.length - 1] += `, ${part}`;
+        else if (part) merged.push(part);
+        return merged;
+    }, []);
+};
+
+interface Block {
+    header: string[];
+    body: string[]; // Plain lines between the header and the bullets
+    bullets: string[];
+}
+
+/**
+ * Groups a section's lines into entries: header lines, then bullets. A plain line after bullets,
+ * or after a blank line, starts the next entry. A second plain line is more header (company or
+ * dates on their own line) unless the first already had dates or it reads as a sentence.
+ */
+const toBlocks = (lines: string[], maxHeaderLines = 2): Block[] => {
+    const blocks: Block[] = [];
+    let current: Block | null = null;
+    let blank = false;
+    lines.forEach(line => {
+        if (!line.trim()) {
+            blank = true;
+            return;
+        }
+        const isBullet = BULLET_PATTERN.test(line);
+        if (!current || (!isBullet && (blank || current.bullets.length > 0))) {
+            current = { header: [], body: [], bullets: [] };
+            blocks.push(current);
+        }
+        if (isBullet) current.bullets.push(stripBullet(line));
+        else if (current.header.length === 0 || (
+            current.header.length < maxHeaderLines && current.body.length === 0
+            && !DATE_RANGE_PATTERN.test(current.header.join(' ')) && !/[.!?]$/.test(line.trim())
+        )) current.header.push(line.trim());
+        else current.body.push(line.trim());
+        blank = false;
+    });
+    return blocks;
+};
+
+const parseExperience = (lines: string[]): ResumeExperience[] => toBlocks(lines).map(block => {
+    const { rest, startDate, endDate } = takeDates(block.header.join(' | '));
+    const parts = splitHeader(rest);
+    const locationIndex = parts.findIndex((part, index) => index > 0 && LOCATION_PATTERN.test(part));
+    const location = locationIndex >= 0 ? parts.splice(locationIndex, 1)[0] : '';
+    return {
+        id: createResumeId('exp'),
+        title: parts[0] || '',
+        company: parts[1] || '',
+        location: location || parts[2] || '',
+        startDate,
+        endDate,
+        bullets: [...block.body, ...block.bullets]
+    };
+});
+
+const parseEducation = (lines: string[]): ResumeEducation[] => toBlocks(lines).map(block => {
+    const { rest, startDate, endDate } = takeDates(block.header.join(' | '));
+    const parts = splitHeader(rest);
+    // Institution first, unless the line leads with the degree ("BSc Computer Science, MIT")
+    if (parts.length > 1 && DEGREE_PATTERN.test(parts[0]) && !DEGREE_PATTERN.test(parts[1])) parts.unshift(parts.splice(1, 1)[0]);
+    const locationIndex = parts.findIndex((part, index) => index > 1 && LOCATION_PATTERN.test(part));
+    return {
+        id: createResumeId('edu'),
+        institution: parts[0] || '',
+        degree: parts[1] || '',
+        location: locationIndex >= 0 ? parts[locationIndex] : '',
+        startDate,
+        endDate,
+        details: [...block.body, ...block.bullets]
+    };
+});
+
+// One header line: the line under it is the project's description
+const parseProjects = (lines: string[]): ResumeProject[] => toBlocks(lines, 1).map(block => {
+    const header = block.header.join(' | ');
+    const url = header.match(LINK_PATTERN)?.[0] || '';
+    const parts = splitParts([takeDates(header.replace(url, '')).rest]);
+    return {
+        id: createResumeId('proj'),
+        name: parts[0] || '',
+        url,
+        description: [...parts.slice(1), ...block.body].join(' '),
+        bullets: block.bullets
+    };
+});
+
+const parseSkills = (lines: string[]) => Array.from(new Set(lines
+    // "Languages: Go, Rust" lists the skills after the label
+    .map(line => stripBullet(line).replace(/^[^:,]{1,30}:\s*/, ''))
+    .flatMap(line => line.split(/\s*[,;|•·]\s*/))
+    .map(skill => skill.trim().replace(/\.$/, ''))
+    .filter(skill => skill && skill.length <= 60)));
+
+const parseCertifications = (lines: string[]) => lines.filter(line => line.trim()).map(line => {
+    const { rest, endDate } = takeDates(stripBullet(line));
+    const [name, ...issuer] = splitParts([rest]);
+    return { id: createResumeId('cert'), name: name || '', issuer: issuer.join(', '), date: endDate };
+}).filter(cert => cert.name);
+
+// The lines above the first heading: name, then contact details and perhaps a headline
+const parseHeader = (lines: string[], resume: Resume) => {
+    const leftovers: string[] = [];
+    lines.filter(line => line.trim()).forEach(line => {
+        const links: string[] = line.match(LINK_PATTERN) || [];
+        const email = line.match(EMAIL_PATTERN)?.[0] || '';
+        let rest = links.reduce((text, link) => text.replace(link, ''), line).replace(email, '');
+        const phone = rest.match(PHONE_PATTERN)?.[0] || '';
+        rest = rest.replace(phone, '');
+
+        resume.contact.links.push(...links);
+        if (email && !resume.contact.email) resume.contact.email = email;
+        if (phone && !resume.contact.phone) resume.contact.phone = phone.trim();
+
+        const parts = splitParts([rest]);
+        const isContactLine = !!(email || phone || links.length);
+        parts.forEach(part => {
+            if (!resume.contact.name && !isContactLine) resume.contact.name = part;
+            else if (!resume.contact.location && LOCATION_PATTERN.test(part)) resume.contact.location = part;
+            else if (!isContactLine) leftovers.push(part);
+        });
+    });
+    return leftovers;
+};
+
+export const parseResumeText = (text: string): Resume => {
+    const resume = emptyResume();
+    const header: string[] = [];
+    const sections: { key: SectionKey | 'other', title: string, lines: string[] }[] = [];
+
+    text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+        const heading = headingOf(line);
+        // An all-caps first line is the name, as PDF resumes often set it
+        const isName = heading === 'other' && sections.length === 0 && !header.some(previous => previous.trim());
+        if (heading && !isName) sections.push({ key: heading, title: line.trim().replace(/:$/, ''), lines: [] });
+        else if (sections.length > 0) sections[sections.length - 1].lines.push(line);
+        else header.push(line);
+    });
+
+    const headline = parseHeader(header, resume);
+
+    sections.forEach(section => {
+        const lines = section.lines;
+        switch (section.key) {
+            case 'summary':
+                resume.summary = [resume.summary, lines.map(stripBullet).filter(Boolean).join('\n')].filter(Boolean).join('\n');
+                break;
+            case 'experience':
+                resume.experience.push(...parseExperience(lines));
+                break;
+            case 'education':
+                resume.education.push(...parseEducation(lines));
+                break;
+            case 'skills':
+                resume.skills = Array.from(new Set([...resume.skills, ...parseSkills(lines)]));
+                break;
+            case 'certifications':
+                resume.certifications.push(...parseCertifications(lines));
+                break;
+            case 'projects':
+                resume.projects.push(...parseProjects(lines));
+                break;
+            default: {
+                const kept = lines.map(line => line.trim()).filter(Boolean);
+                if (kept.length > 0) resume.extraSections.push({ id: createResumeId('sec'), title: section.title, lines: kept });
+            }
+        }
+    });
+
+    if (sections.length === 0) {
+        // Text with no recognisable headings at all is kept, below the name, as the summary
+        resume.summary = header.map(line => line.trim()).filter(Boolean).slice(1).join('\n');
+    } else if (!resume.summary && headline.length > 0) {
+        // A headline under the name stands in for a missing summary
+        resume.summary = headline.join(' ');
+    }
+    resume.contact.links = Array.from(new Set(resume.contact.links));
+    return resume;
+};
+
+/**
+ * The profile's structured resume. Profiles saved before the structured model only have text,
+ * which is parsed on the fly; contact fields the text lacks come from the profile.
+ * `resume` is used as is (dbService normalizes it on load), so it can be called while editing.
+ */
+export const resumeFromProfile = (profile: Pick<UserProfile, 'fullName' | 'email' | 'phone' | 'resumeContent' | 'resume'>): Resume => {
+    const resume = profile.resume || parseResumeText(profile.resumeContent || '');
+    return {
+        ...resume,
+        contact: {
+            ...resume.contact,
+            name: resume.contact.name || profile.fullName || '',
+            email: resume.contact.email || profile.email || '',
+            phone: resume.contact.phone || profile.phone || ''
+        }
+    };
+};
@@ -0,0 +1,49 @@
+import { Job, ScanRunMessage } from '../types';
+import type { MailMessage } from './mailProvider';
+
+/**
+ * Per-email breakdown of a scan run, shared by the in-app scanner and the scheduled scan so
+ * both record runs the same way.
+ */
+
+// One analyzed email: the job links found in it, or why it couldn't be read
+export interface MessageExtraction {
+    message: MailMessage;
+    candidates: Partial<Job>[];
+    error?: string;
+}
+
+export const summarizeScanMessages = (
+    messages: MailMessage[],
+    extractions: MessageExtraction[],
+    jobs: Job[]
+): { messages: ScanRunMessage[], duplicatesSkipped: number } => {
+    const jobsByUrl = new Map(jobs.map(job => [job.applicationUrl!, job]));
+    const byId = new Map(extractions.map(extraction => [extraction.message.id, extraction]));
+    const seenUrls = new Set<string>();
+    let duplicatesSkipped = 0;
+
+    // In listing order, so "first email" matches what the user saw
+    const summary = messages.map((message): ScanRunMessage => {
+        const base = { messageId: message.id, from: message.from, subject: message.subject };
+        const extraction = byId.get(message.id);
+        if (!extraction) return { ...base, outcome: 'skipped', linksMatched: 0, jobs: [] };
+        if (extraction.error) return { ...base, outcome: 'error', linksMatched: 0, jobs: [], error: extraction.error };
+
+        const credited: ScanRunMessage['jobs'] = [];
+        extraction.candidates.forEach(candidate => {
+            const url = candidate.applicationUrl;
+            if (!url) return;
+            if (seenUrls.has(url)) {
+                duplicatesSkipped++;
+                return;
+            }
+            seenUrls.add(url);
+            const job = jobsByUrl.get(url);
+            if (job) credited.push({ id: job.id, title: job.title, company: job.company, applicationUrl: url });
+        });
+        return { ...base, outcome: credited.length > 0 ? 'jobs' : 'no_jobs', linksMatched: extraction.candidates.length, jobs: credited };
+    });
+
+    return { messages: summary, duplicatesSkipped };
+};
@@ -1,33 +1,20 @@
-import { GoogleGenAI } from "@google/genai";
+import { getLlmClient } from "./llmClientRegistry";
 
 export const findJobLink = async (title: string, company: string): Promise<string | null> => {
-  // @ts-ignore
-  if (!process.env.API_KEY) {
-      console.error("No API Key found");
-      return null;
-  }
-
   try {
-    // Initialize Gemini client with the API key from environment
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    // Using gemini-3-flash-preview for basic text tasks with search grounding
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Find the official job application page for the position of "${title}" at "${company}". 
+    // Web search grounding; providers without it return no sources and we find nothing
+    const response = await getLlmClient().generate({
+      prompt: `Find the official job application page for the position of "${title}" at "${company}". 
       Prioritize direct company career pages over job boards. 
       If using a job board like Indeed or LinkedIn, ensure the link is to the specific job post.`,
-      config: {
-        tools: [{googleSearch: {}}],
-      },
+      tools: ['webSearch'],
     });
 
-    // Extract the first web URI from the grounding metadata
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks && chunks.length > 0) {
-        for (const chunk of chunks) {
-            const uri = chunk.web?.uri;
-            if (!uri) continue;
+    // Take the first usable web source the answer was grounded on
+    const sources = response.sources.filter(source => source.tool === 'webSearch');
+    if (sources.length > 0) {
+        for (const source of sources) {
+            const uri = source.uri;
 
             // VALIDATION LOGIC
             
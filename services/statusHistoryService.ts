@@ -0,0 +1,51 @@
+import { Job, JobStatus, JobStatusChange } from '../types';
+
+/**
+ * Helpers for the per-job status transition log.
+ * The server appends the authoritative entries; these keep the local copy in step
+ * so the timeline updates before the next sync.
+ */
+
+export const applyStatusChange = (job: Job, status: JobStatus, note?: string): Job => {
+    if (job.status === status) return job;
+
+    const entry: JobStatusChange = {
+        status,
+        previousStatus: job.status,
+        changedAt: new Date().toISOString(),
+        note: note?.trim() || undefined
+    };
+
+    return {
+        ...job,
+        status,
+        statusHistory: [...(job.statusHistory || []), entry]
+    };
+};
+
+/**
+ * Returns the history with a synthetic first entry for jobs created before the log existed.
+ */
+export const getStatusTimeline = (job: Job): JobStatusChange[] => {
+    const history = job.statusHistory || [];
+    if (history.length > 0 && history[0].previousStatus === null) return history;
+
+    return [
+        {
+            status: history[0]?.previousStatus || job.status,
+            previousStatus: null,
+            changedAt: job.detectedAt
+        },
+        ...history
+    ];
+};
+
+/**
+ * Milliseconds from the first entry until the job first reached `status`, or null if it never did.
+ */
+export const getTimeToStatus = (job: Job, status: JobStatus): number | null => {
+    const timeline = getStatusTimeline(job);
+    const reached = timeline.find(e => e.status === status);
+    if (!reached) return null;
+    return new Date(reached.changedAt).getTime() - new Date(timeline[0].changedAt).getTime();
+};
@@ -0,0 +1,49 @@
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+}
+
+export interface DiffSummary {
+    added: number;
+    removed: number;
+}
+
+const splitLines = (text: string) => text ? text.replace(/\r\n/g, '\n').split('\n') : [];
+
+/**
+ * Line diff from `before` to `after` (longest common subsequence). Removed lines come before the
+ * lines added in their place, as in a unified diff. Quadratic, which is fine for resume-sized text.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = splitLines(before);
+    const b = splitLines(after);
+    // common[i][j]: length of the LCS of a[i..] and b[j..]
+    const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            result.push({ type: 'same', text: a[i++] });
+            j++;
+        } else if (j >= b.length || (i < a.length && common[i + 1][j] >= common[i][j + 1])) {
+            result.push({ type: 'removed', text: a[i++] });
+        } else {
+            result.push({ type: 'added', text: b[j++] });
+        }
+    }
+    return result;
+};
+
+export const summarizeDiff = (diff: DiffLine[]): DiffSummary => ({
+    added: diff.filter(line => line.type === 'added').length,
+    removed: diff.filter(line => line.type === 'removed').length
+});
@@ -0,0 +1,131 @@
+/**
+ * Rules for turning links found in job emails into the posting's own URL: tracker wrappers that
+ * carry the destination in the link itself, query parameters that only identify the click, and
+ * hosts where a posting lives (where following redirects should stop).
+ * Shared by the browser (cleanup only) and the server-side resolver (which also follows redirects).
+ */
+
+export interface TrackerWrapperRule {
+    name: string;
+    // Tested against `${hostname}${pathname}`
+    pattern: RegExp;
+    // The wrapped destination, or null when this link doesn't carry one
+    unwrap: (url: URL) => string | null;
+}
+
+export interface UrlRules {
+    wrappers: TrackerWrapperRule[];
+    // Exact names, or patterns for families like utm_*
+    trackingParams: (string | RegExp)[];
+    // Job boards and ATS pages; a URL matching one of these is already canonical
+    terminalPatterns: RegExp[];
+    // Sign-in pages a redirect chain may end on; the URL before them is kept instead
+    loginWallPatterns: RegExp[];
+}
+
+const param = (name: string) => (url: URL) => url.searchParams.get(name);
+
+export const DEFAULT_URL_RULES: UrlRules = {
+    wrappers: [
+        {
+            // https://<id>.r.<region>.awstrack.me/L0/<encoded destination>/1/<message id>
+            name: 'Amazon SES',
+            pattern: /(^|\.)awstrack\.me\/L0\//,
+            unwrap: url => {
+                const encoded = url.pathname.match(/^\/L0\/([^/]+)/)?.[1];
+                return encoded ? decodeURIComponent(encoded) : null;
+            }
+        },
+        { name: 'Google redirect', pattern: /(^|\.)google\.[a-z.]+\/url$/, unwrap: url => url.searchParams.get('q') || url.searchParams.get('url') },
+        { name: 'Outlook Safe Links', pattern: /\.safelinks\.protection\.outlook\.com\//, unwrap: param('url') },
+        { name: 'LinkedIn redirect', pattern: /(^|\.)linkedin\.com\/redir\/redirect/, unwrap: param('url') },
+        { name: 'Facebook link shim', pattern: /^l\.facebook\.com\/l\.php/, unwrap: param('u') },
+        { name: 'Slack redirect', pattern: /^slack-redir\.net\/link/, unwrap: param('url') },
+        {
+            // urldefense.com/v3/__<destination>__;<checksum>
+            name: 'Proofpoint v3',
+            pattern: /^urldefense\.com\/v3\//,
+            unwrap: url => url.href.match(/\/v3\/__(.+?)__;/)?.[1] || null
+        },
+        {
+            // urldefense.proofpoint.com/v2/url?u=<destination with - for % and _ for />
+            name: 'Proofpoint v2',
+            pattern: /^urldefense\.proofpoint\.com\/v2\/url/,
+            unwrap: url => {
+                const encoded = url.searchParams.get('u');
+                return encoded ? decodeURIComponent(encoded.replace(/-/g, '%').replace(/_/g, '/')) : null;
+            }
+        }
+    ],
+    trackingParams: [
+        /^utm_/,
+        /^mc_/,
+        /^_hs/,
+        'ref', 'source', 'click_id', 'fbclid', 'gclid', 'msclkid', 'yclid', 'igshid',
+        'trk', 'trkEmail', 'trackingId', 'refId', 'lipi', 'midToken', 'midSig', 'eid', 'otpToken'
+    ],
+    terminalPatterns: [
+        /(^|\.)linkedin\.com\/(comm\/)?jobs\/view\//,
+        /(^|\.)indeed\.[a-z.]+\/viewjob/,
+        /(^|\.)greenhouse\.io\//,
+        /(^|\.)lever\.co\//,
+        /(^|\.)myworkdayjobs\.com\//,
+        /(^|\.)ashbyhq\.com\//,
+        /(^|\.)smartrecruiters\.com\//,
+        /(^|\.)workable\.com\//,
+        /(^|\.)bamboohr\.com\/careers/,
+        /(^|\.)jobvite\.com\//,
+        /(^|\.)icims\.com\//,
+        /(^|\.)recruitee\.com\//
+    ],
+    loginWallPatterns: [/\/(authwall|login|signin|sign-in|uas\/login|account\/login)(\/|$)/i]
+};
+
+const hostPath = (url: URL) => `${url.hostname.toLowerCase().replace(/^www\./, '')}${url.pathname}`;
+
+const parse = (url: string): URL | null => {
+    try {
+        return new URL(url);
+    } catch (e) {
+        return null;
+    }
+};
+
+// Unwraps nested tracker links (e.g. Safe Links around an SES link) up to `maxDepth` levels
+export const unwrapTrackerUrl = (url: string, rules: UrlRules = DEFAULT_URL_RULES, maxDepth = 5): string => {
+    let current = url;
+    for (let depth = 0; depth < maxDepth; depth++) {
+        const parsed = parse(current);
+        if (!parsed) return current;
+        const rule = rules.wrappers.find(r => r.pattern.test(hostPath(parsed)));
+        const inner = rule ? rule.unwrap(parsed) : null;
+        if (!inner || !parse(inner)) return current;
+        current = inner;
+    }
+    return current;
+};
+
+export const stripTrackingParams = (url: string, rules: UrlRules = DEFAULT_URL_RULES): string => {
+    const parsed = parse(url);
+    if (!parsed) return url;
+    Array.from(parsed.searchParams.keys()).forEach(key => {
+        if (rules.trackingParams.some(rule => typeof rule === 'string' ? rule === key : rule.test(key))) {
+            parsed.searchParams.delete(key);
+        }
+    });
+    return parsed.toString();
+};
+
+export const isTerminalJobUrl = (url: string, rules: UrlRules = DEFAULT_URL_RULES) => {
+    const parsed = parse(url);
+    return !!parsed && rules.terminalPatterns.some(pattern => pattern.test(hostPath(parsed)));
+};
+
+export const isLoginWall = (url: string, rules: UrlRules = DEFAULT_URL_RULES) => {
+    const parsed = parse(url);
+    return !!parsed && rules.loginWallPatterns.some(pattern => pattern.test(parsed.pathname));
+};
+
+// Unwrapping and parameter cleanup only; no network
+export const cleanJobUrl = (url: string, rules: UrlRules = DEFAULT_URL_RULES) =>
+    stripTrackingParams(unwrapTrackerUrl(url, rules), rules);
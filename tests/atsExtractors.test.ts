@@ -0,0 +1,118 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Recorded responses, served for the source URL each extractor asks for
+const SOURCES: Record<string, string> = {
+  'https://boards-api.greenhouse.io/v1/boards/fabrikam/jobs/5011223?pay_transparency=true': 'greenhouse-job.json',
+  'https://api.lever.co/v0/postings/northwind-traders/8f0c1d2e-3a4b-4c5d-9e6f-7a8b9c0d1e2f': 'lever-posting.json',
+  'https://contoso.wd5.myworkdayjobs.com/wday/cxs/contoso/External/job/Chicago-IL/Data-Analyst-II_R-0041235': 'workday-job.json',
+  'https://jobs.ashbyhq.com/litware/3b9d2f10-6c7e-4a8b-9f01-2d3e4f5a6b7c': 'ashby-job.html'
+};
+
+const fetchPage = vi.hoisted(() => vi.fn());
+vi.mock('../api/_lib/pageFetcher', () => ({ fetchPage }));
+
+import { extractAtsJob, findAtsExtractor } from '../api/_lib/atsExtractors';
+
+beforeEach(() => {
+  fetchPage.mockReset();
+  fetchPage.mockImplementation(async (url: string) => {
+    const fixture = SOURCES[url];
+    if (!fixture) throw new Error(`No fixture for ${url}`);
+    const body = readFileSync(join(__dirname, 'fixtures/ats', fixture), 'utf8');
+    return { url, status: 200, contentType: '', charset: 'utf-8', body, truncated: false, fetchedAt: new Date().toISOString() };
+  });
+});
+
+describe('ATS extractors against recorded postings', () => {
+  it('greenhouse', async () => {
+    const result = await extractAtsJob('https://boards.greenhouse.io/fabrikam/jobs/5011223?gh_src=abc');
+    expect(result?.extractor).toBe('greenhouse');
+    expect(result?.job).toMatchObject({
+      title: 'Senior Backend Engineer',
+      company: 'Fabrikam',
+      location: 'San Francisco, CA',
+      salaryRange: '$160,000 - $210,000',
+      requirements: [
+        '5+ years building backend services in Go or Java',
+        'Experience operating PostgreSQL at scale',
+        'Familiarity with event-driven architectures (Kafka)'
+      ],
+      applicationUrl: 'https://boards.greenhouse.io/fabrikam/jobs/5011223',
+      postedAt: '2026-09-30T18:03:12.000Z'
+    });
+  });
+
+  it('lever', async () => {
+    const result = await extractAtsJob('https://jobs.lever.co/northwind-traders/8f0c1d2e-3a4b-4c5d-9e6f-7a8b9c0d1e2f');
+    expect(result?.extractor).toBe('lever');
+    expect(result?.job).toMatchObject({
+      title: 'Staff Platform Engineer',
+      company: 'Northwind Traders',
+      location: 'Toronto, ON / Remote - Canada',
+      salaryRange: '180,000 CAD - 220,000 CAD per year salary',
+      requirements: [
+        '8+ years of infrastructure experience',
+        'Deep knowledge of Kubernetes and Terraform',
+        'Strong written communication'
+      ],
+      applicationUrl: 'https://jobs.lever.co/northwind-traders/8f0c1d2e-3a4b-4c5d-9e6f-7a8b9c0d1e2f/apply',
+      employmentType: 'Full-time'
+    });
+  });
+
+  it('workday', async () => {
+    const result = await extractAtsJob('https://contoso.wd5.myworkdayjobs.com/en-US/External/job/Chicago-IL/Data-Analyst-II_R-0041235');
+    expect(result?.extractor).toBe('workday');
+    expect(result?.job).toMatchObject({
+      title: 'Data Analyst II',
+      company: 'Contoso Ltd.',
+      location: 'Chicago, IL / Remote, USA',
+      salaryRange: '$85,000 - $110,000 per year',
+      requirements: [
+        '3+ years of SQL experience',
+        'Experience with Python or R',
+        "Bachelor's degree in a quantitative field"
+      ],
+      applicationUrl: 'https://contoso.wd5.myworkdayjobs.com/External/job/Chicago-IL/Data-Analyst-II_R-0041235',
+      employmentType: 'Full-time'
+    });
+  });
+
+  it('ashby', async () => {
+    const result = await extractAtsJob('https://jobs.ashbyhq.com/litware/3b9d2f10-6c7e-4a8b-9f01-2d3e4f5a6b7c');
+    expect(result?.extractor).toBe('ashby');
+    expect(result?.job).toMatchObject({
+      title: 'Product Designer',
+      company: 'Litware',
+      location: 'New York, NY / Remote (US)',
+      salaryRange: '$130K – $160K',
+      requirements: [
+        '4+ years of product design experience',
+        'A portfolio of shipped B2B work',
+        'Comfort with Figma prototyping'
+      ],
+      applicationUrl: 'https://jobs.ashbyhq.com/litware/3b9d2f10-6c7e-4a8b-9f01-2d3e4f5a6b7c/application',
+      employmentType: 'Full-time'
+    });
+  });
+});
+
+describe('extractAtsJob fallbacks', () => {
+  it('returns null for input that is not a URL, so the LLM path takes over', async () => {
+    await expect(extractAtsJob('Senior Backend Engineer at Fabrikam')).resolves.toBeNull();
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('returns null for hosts without an extractor and for non-posting pages', async () => {
+    expect(findAtsExtractor(new URL('https://careers.example.com/jobs/1'))).toBeNull();
+    await expect(extractAtsJob('https://jobs.lever.co/northwind-traders')).resolves.toBeNull();
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the source has no usable posting', async () => {
+    fetchPage.mockResolvedValueOnce({ url: '', status: 200, contentType: '', charset: 'utf-8', body: '{"error":"Not found"}', truncated: false, fetchedAt: '' });
+    await expect(extractAtsJob('https://boards.greenhouse.io/fabrikam/jobs/1')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeMailMessage, createFakeMailProvider } from '../services/fakeMailProvider';
+import { registerMailProvider } from '../services/mailProviderRegistry';
+import { scanStoredMailbox } from '../api/_lib/inboxScan';
+import { MailCredential } from '../api/_lib/mailCredentials';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+const hoursBefore = (hours: number, from = NOW) => new Date(from.getTime() - hours * 3600000).toISOString();
+
+const message = (id: string, subject: string, date: string, html = ''): FakeMailMessage => ({
+  id,
+  from: 'Alerts <alerts@example.com>',
+  subject,
+  date,
+  snippet: subject,
+  html
+});
+
+const jobAlert = (id: string, date: string, jobId: string, title: string) =>
+  message(id, `New jobs for you: ${title}`, date, `<p><a href="https://www.linkedin.com/jobs/view/${jobId}">${title}</a> · Northwind · Remote</p>`);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('fake MailProvider search', () => {
+  const mailbox = () => createFakeMailProvider({
+    messages: [
+      message('old', 'Career opportunity: Product Manager', hoursBefore(5 * 24)),
+      message('recent', 'Hiring now: Backend Engineer', hoursBefore(30)),
+      message('newest', '3 new jobs for Frontend Engineer', hoursBefore(2)),
+      message('digest', 'Your weekly reading list', hoursBefore(1))
+    ]
+  });
+
+  it('returns job mail within the date range, newest first, without bodies', async () => {
+    const found = await mailbox().search({ days: 3, limit: 10 });
+    expect(found.map(m => m.id)).toEqual(['newest', 'recent']);
+    expect(found[0]).not.toHaveProperty('html');
+
+    expect((await mailbox().search({ days: 7, limit: 10 })).map(m => m.id)).toEqual(['newest', 'recent', 'old']);
+  });
+
+  it('applies the limit and custom subject keywords', async () => {
+    expect((await mailbox().search({ days: 7, limit: 1 })).map(m => m.id)).toEqual(['newest']);
+    expect((await mailbox().search({ days: 7, limit: 10, keywords: ['reading'] })).map(m => m.id)).toEqual(['digest']);
+  });
+});
+
+describe('fake MailProvider sync', () => {
+  it('falls back to search without a cursor and continues from the returned cursor', async () => {
+    const provider = createFakeMailProvider({ messages: [jobAlert('m1', hoursBefore(3), '1001', 'Frontend Engineer')] });
+
+    const first = await provider.sync(null, { days: 7, limit: 10 });
+    expect(first.messages.map(m => m.id)).toEqual(['m1']);
+    expect(first.cursor).toBe(NOW.toISOString());
+
+    // Mail that arrives later, plus one whose date is before the cursor (already covered by the first sync)
+    const later = new Date(NOW.getTime() + 2 * 3600000);
+    provider.deliver(jobAlert('m2', hoursBefore(1, later), '1002', 'Backend Engineer'));
+    provider.deliver(jobAlert('m0', hoursBefore(1), '1000', 'Data Engineer'));
+    vi.setSystemTime(later);
+
+    const second = await provider.sync(first.cursor, { days: 7, limit: 10 });
+    expect(second.messages.map(m => m.id)).toEqual(['m2']);
+    expect(second.cursor).toBe(later.toISOString());
+
+    const third = await provider.sync(second.cursor, { days: 7, limit: 10 });
+    expect(third.messages).toEqual([]);
+  });
+
+  it('reaches back past the search window to an old cursor', async () => {
+    const provider = createFakeMailProvider({ messages: [jobAlert('m1', hoursBefore(10 * 24), '1001', 'Frontend Engineer')] });
+    const { messages } = await provider.sync(hoursBefore(12 * 24), { days: 1, limit: 10 });
+    expect(messages.map(m => m.id)).toEqual(['m1']);
+  });
+});
+
+describe('fake MailProvider bodies and failures', () => {
+  it('fetches the HTML body of a known message', async () => {
+    const provider = createFakeMailProvider({ messages: [jobAlert('m1', hoursBefore(3), '1001', 'Frontend Engineer')] });
+    expect(await provider.fetchBody('m1')).toContain('https://www.linkedin.com/jobs/view/1001');
+    await expect(provider.fetchBody('missing')).rejects.toThrow('Unknown message missing');
+  });
+
+  it('rejects every call with failWith', async () => {
+    const provider = createFakeMailProvider({ failWith: 'TOKEN_EXPIRED' });
+    await expect(provider.authenticate()).rejects.toThrow('TOKEN_EXPIRED');
+    await expect(provider.search({ days: 7, limit: 10 })).rejects.toThrow('TOKEN_EXPIRED');
+    await expect(provider.sync(null, { days: 7, limit: 10 })).rejects.toThrow('TOKEN_EXPIRED');
+    await expect(provider.fetchBody('demo-1')).rejects.toThrow('TOKEN_EXPIRED');
+  });
+
+  it('serves the demo mailbox by default', async () => {
+    const provider = createFakeMailProvider();
+    expect(await provider.getProfile()).toEqual({ emailAddress: 'demo@jobflow.app', displayName: 'Demo Inbox' });
+    // The weekly digest doesn't have a job keyword in its subject
+    expect((await provider.search({ days: 7, limit: 10 })).map(m => m.id)).toEqual(['demo-1', 'demo-2', 'demo-3']);
+  });
+});
+
+// Stands in for Postgres: keeps the processed-message ledger and answers job inserts, records the rest
+const createFakeSql = () => {
+  const ledger = new Set<string>();
+  const statements: string[] = [];
+  const sql = (strings: TemplateStringsArray, ...values: any[]) => {
+    const text = strings.join('?').replace(/\s+/g, ' ').trim();
+    statements.push(text);
+    if (text.startsWith('SELECT message_id FROM processed_messages')) {
+      return Promise.resolve([...ledger].map(message_id => ({ message_id })));
+    }
+    if (text.startsWith('INSERT INTO processed_messages')) {
+      (values[2] as string[]).forEach(id => ledger.add(id));
+    }
+    if (text.startsWith('INSERT INTO jobs')) return Promise.resolve([{ id: values[0] }]);
+    return Promise.resolve([]);
+  };
+  return { sql, statements, ledger };
+};
+
+describe('scheduled scan through the fake provider', () => {
+  const credential: MailCredential = {
+    id: 'cred-1',
+    userId: 'user-1',
+    provider: 'Demo',
+    emailAddress: 'alerts@example.com',
+    refreshToken: null,
+    accessToken: null,
+    accessTokenExpiresAt: null,
+    scope: null,
+    settings: null,
+    secret: null,
+    status: 'active'
+  };
+
+  it('skips messages the ledger already has', async () => {
+    const provider = createFakeMailProvider({
+      messages: [
+        jobAlert('m1', hoursBefore(3), '1001', 'Senior Frontend Engineer'),
+        jobAlert('m2', hoursBefore(2), '1002', 'Backend Developer')
+      ]
+    });
+    const fetchBody = vi.spyOn(provider, 'fetchBody');
+    registerMailProvider('demo', () => provider);
+    const { sql, ledger } = createFakeSql();
+
+    const first = await scanStoredMailbox(sql, credential, { connectedAccounts: [] });
+    expect(first).toMatchObject({ status: 'success', mailbox: 'Demo:alerts@example.com', messagesFound: 2, messagesProcessed: 2, jobsCreated: 2 });
+    expect([...ledger].sort()).toEqual(['m1', 'm2']);
+
+    provider.deliver(jobAlert('m3', hoursBefore(1), '1003', 'Product Designer'));
+    fetchBody.mockClear();
+
+    const second = await scanStoredMailbox(sql, credential, { connectedAccounts: [] });
+    expect(second).toMatchObject({ status: 'success', messagesFound: 3, messagesProcessed: 1, jobsFound: 1 });
+    expect(fetchBody.mock.calls).toEqual([['m3']]);
+    expect([...ledger].sort()).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('records a revoked mailbox as an error run', async () => {
+    registerMailProvider('demo', () => createFakeMailProvider({ failWith: 'TOKEN_EXPIRED' }));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { sql, statements } = createFakeSql();
+
+    const run = await scanStoredMailbox(sql, credential, { connectedAccounts: [] });
+    expect(run.status).toBe('error');
+    expect(run.error).toBe('Mailbox access was revoked or the password changed. Reconnect it in the app.');
+    expect(statements.some(s => s.startsWith('INSERT INTO processed_messages'))).toBe(false);
+  });
+});
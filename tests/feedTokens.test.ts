@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createFeedToken, findFeedTokenUser, revokeFeedToken } from '../api/_lib/feedTokens';
+
+// Stands in for calendar_feed_tokens: user_id -> token_hash, with the upsert replacing a user's row
+const createFakeSql = () => {
+  const rows = new Map<string, string>();
+  const values: unknown[][] = [];
+  const sql = (strings: TemplateStringsArray, ...params: any[]) => {
+    const text = strings.join('?').replace(/\s+/g, ' ').trim();
+    values.push(params);
+    if (text.startsWith('INSERT INTO calendar_feed_tokens')) rows.set(params[0], params[1]);
+    if (text.startsWith('DELETE FROM calendar_feed_tokens')) rows.delete(params[0]);
+    if (text.startsWith('SELECT user_id FROM calendar_feed_tokens')) {
+      return Promise.resolve(Array.from(rows).filter(([, hash]) => hash === params[0]).map(([user_id]) => ({ user_id })));
+    }
+    return Promise.resolve([]);
+  };
+  return { sql, values };
+};
+
+describe('calendar feed tokens', () => {
+  it('finds the user of a token without storing the token itself', async () => {
+    const { sql, values } = createFakeSql();
+    const token = await createFeedToken(sql, 'user_1');
+
+    expect(token).toMatch(/^[\w-]{32}$/);
+    expect(values.flat()).not.toContain(token);
+    expect(await findFeedTokenUser(sql, token)).toBe('user_1');
+    expect(await findFeedTokenUser(sql, `${token}x`)).toBeNull();
+  });
+
+  it('revokes the previous token when a new one is created', async () => {
+    const { sql } = createFakeSql();
+    const first = await createFeedToken(sql, 'user_1');
+    const second = await createFeedToken(sql, 'user_1');
+
+    expect(second).not.toBe(first);
+    expect(await findFeedTokenUser(sql, first)).toBeNull();
+    expect(await findFeedTokenUser(sql, second)).toBe('user_1');
+  });
+
+  it('stops accepting a revoked token', async () => {
+    const { sql, values } = createFakeSql();
+    const token = await createFeedToken(sql, 'user_1');
+    await revokeFeedToken(sql, 'user_1');
+
+    expect(await findFeedTokenUser(sql, token)).toBeNull();
+    const queries = values.length;
+    expect(await findFeedTokenUser(sql, '')).toBeNull();
+    expect(values).toHaveLength(queries);
+  });
+});
@@ -0,0 +1,124 @@
+import { createHash } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  buildGoogleAuthorizeUrl,
+  createPkcePair,
+  exchangeAuthorizationCode,
+  fetchGmailAddress,
+  getFreshGmailAccessToken,
+  OAuthError
+} from '../api/_lib/gmailOAuth';
+import { MailCredential } from '../api/_lib/mailCredentials';
+import { FixtureServer, sendJson, startFixtureServer } from './helpers/fixtureServer';
+
+// Mock Google endpoints: one authorization code, one live refresh token and one revoked one
+const AUTH_CODE = 'mock-auth-code';
+const REFRESH_TOKEN = 'mock-refresh-token';
+const REVOKED_REFRESH_TOKEN = 'mock-revoked-refresh-token';
+let issuedChallenge = '';
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+  server = await startFixtureServer({
+    '/token': (req, res) => {
+      const params = new URLSearchParams(req.body);
+      if (params.get('grant_type') === 'authorization_code') {
+        const verifier = params.get('code_verifier') || '';
+        const challenge = createHash('sha256').update(verifier).digest('base64url');
+        if (params.get('code') !== AUTH_CODE || challenge !== issuedChallenge) {
+          return sendJson(res, 400, { error: 'invalid_grant', error_description: 'Bad code or verifier' });
+        }
+        return sendJson(res, 200, { access_token: 'access-1', expires_in: 3599, refresh_token: REFRESH_TOKEN, scope: 'gmail.readonly' });
+      }
+      if (params.get('refresh_token') === REFRESH_TOKEN) {
+        return sendJson(res, 200, { access_token: 'access-2', expires_in: 3599 });
+      }
+      sendJson(res, 400, { error: 'invalid_grant', error_description: 'Token has been expired or revoked.' });
+    },
+    '/gmail/v1/users/me/profile': (req, res) => {
+      if (req.headers.authorization !== 'Bearer access-1') return sendJson(res, 401, { error: { code: 401 } });
+      sendJson(res, 200, { emailAddress: 'candidate@example.com' });
+    }
+  });
+  process.env.GOOGLE_CLIENT_ID = 'mock-client';
+  process.env.GOOGLE_OAUTH_REDIRECT_URI = 'http://localhost/api/gmail-callback';
+  process.env.GOOGLE_OAUTH_AUTHORIZE_URL = `${server.baseUrl}/authorize`;
+  process.env.GOOGLE_OAUTH_TOKEN_URL = `${server.baseUrl}/token`;
+  process.env.GMAIL_API_BASE = server.baseUrl;
+  process.env.TOKEN_ENCRYPTION_KEY = 'test-encryption-key';
+});
+
+afterAll(() => server.close());
+
+// Records the statements instead of running them
+const createFakeSql = () => {
+  const statements: string[] = [];
+  const sql = (strings: TemplateStringsArray) => {
+    statements.push(strings.join('?').replace(/\s+/g, ' ').trim());
+    return Promise.resolve([]);
+  };
+  return { sql, statements };
+};
+
+const credential = (overrides: Partial<MailCredential>): MailCredential => ({
+  id: 'cred-1',
+  userId: 'user-1',
+  provider: 'gmail',
+  emailAddress: 'candidate@example.com',
+  refreshToken: REFRESH_TOKEN,
+  accessToken: null,
+  accessTokenExpiresAt: null,
+  scope: null,
+  settings: null,
+  secret: null,
+  status: 'active',
+  ...overrides
+});
+
+describe('Gmail OAuth against a mock server', () => {
+  it('exchanges the code with the PKCE verifier and reads the profile', async () => {
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    const authorizeUrl = new URL(buildGoogleAuthorizeUrl('state-1', codeChallenge));
+    expect(authorizeUrl.origin + authorizeUrl.pathname).toBe(`${server.baseUrl}/authorize`);
+    expect(authorizeUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    issuedChallenge = authorizeUrl.searchParams.get('code_challenge')!;
+
+    const tokens = await exchangeAuthorizationCode(AUTH_CODE, codeVerifier);
+    expect(tokens.accessToken).toBe('access-1');
+    expect(tokens.refreshToken).toBe(REFRESH_TOKEN);
+    expect(await fetchGmailAddress(tokens.accessToken)).toBe('candidate@example.com');
+  });
+
+  it('rejects a code redeemed with the wrong verifier', async () => {
+    issuedChallenge = createPkcePair().codeChallenge;
+    await expect(exchangeAuthorizationCode(AUTH_CODE, createPkcePair().codeVerifier)).rejects.toMatchObject({ code: 'invalid_grant' });
+  });
+
+  it('refreshes an expiring access token and stores it', async () => {
+    const { sql, statements } = createFakeSql();
+    const soon = new Date(Date.now() + 60 * 1000).toISOString();
+    const fresh = await getFreshGmailAccessToken(sql, credential({ accessToken: 'stale', accessTokenExpiresAt: soon }));
+    expect(fresh.accessToken).toBe('access-2');
+    expect(statements).toHaveLength(1);
+    expect(statements[0]).toMatch(/^UPDATE mail_credentials SET access_token/);
+  });
+
+  it('keeps a token that is still valid without calling the server', async () => {
+    const { sql, statements } = createFakeSql();
+    const before = server.requests.length;
+    const later = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+    const fresh = await getFreshGmailAccessToken(sql, credential({ accessToken: 'still-good', accessTokenExpiresAt: later }));
+    expect(fresh.accessToken).toBe('still-good');
+    expect(server.requests.length).toBe(before);
+    expect(statements).toHaveLength(0);
+  });
+
+  it('marks the credential revoked when the refresh token is gone', async () => {
+    const { sql, statements } = createFakeSql();
+    const error = await getFreshGmailAccessToken(sql, credential({ refreshToken: REVOKED_REFRESH_TOKEN })).catch(e => e);
+    expect(error).toBeInstanceOf(OAuthError);
+    expect(error.code).toBe('TOKEN_EXPIRED');
+    expect(statements[0]).toMatch(/^UPDATE mail_credentials SET status = 'revoked'/);
+  });
+});
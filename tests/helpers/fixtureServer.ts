@@ -0,0 +1,60 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Local HTTP server for tests that exercise code making real requests. Each route gets the
+ * request and its body and writes the response; unknown paths answer 404.
+ */
+
+export interface FixtureRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+export type FixtureRoute = (req: FixtureRequest, res: ServerResponse) => void;
+
+export interface FixtureServer {
+  baseUrl: string;
+  requests: FixtureRequest[];
+  close: () => Promise<void>;
+}
+
+export const startFixtureServer = async (routes: Record<string, FixtureRoute>): Promise<FixtureServer> => {
+  const requests: FixtureRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://fixture.local');
+      const request: FixtureRequest = {
+        method: req.method || 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf8')
+      };
+      requests.push(request);
+      const route = routes[url.pathname];
+      if (!route) {
+        res.writeHead(404).end('Not found');
+        return;
+      }
+      route(request, res);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
@@ -0,0 +1,252 @@
+import { AddressInfo, createServer, Socket } from 'net';
+
+/**
+ * Minimal in-process IMAP4rev1 server for tests of the IMAP bridge: LOGIN, LIST and SELECT/EXAMINE
+ * of one INBOX, UID SEARCH (ALL, SINCE, SUBJECT, OR, NOT, UID and parenthesized groups), UID FETCH of UID,
+ * ENVELOPE, INTERNALDATE and BODY[] and LOGOUT. Everything else answers BAD.
+ */
+
+export interface ImapFixtureMessage {
+  uid: number;
+  // Raw RFC 822 source with CRLF line ends
+  source: string;
+  internalDate: Date;
+}
+
+export interface ImapFixtureServer {
+  host: string;
+  port: number;
+  // Every command line received, without its tag
+  commands: string[];
+  close: () => Promise<void>;
+}
+
+type Token = string | Token[];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const quote = (value: string | undefined) => value === undefined ? 'NIL' : `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatInternalDate = (date: Date) =>
+  `"${pad(date.getUTCDate())}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000"`;
+
+// Unfolded header fields of a message, keyed by lower-case name
+const parseHeaders = (source: string) => {
+  const head = source.split(/\r?\n\r?\n/)[0].replace(/\r?\n[ \t]+/g, ' ');
+  const headers = new Map<string, string>();
+  head.split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  });
+  return headers;
+};
+
+const envelopeAddress = (value: string | undefined) => {
+  if (!value) return 'NIL';
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^@>]+)@([^>]+)>\s*$/) || value.match(/^()\s*([^@\s]+)@(\S+)\s*$/);
+  if (!match) return 'NIL';
+  return `((${match[1] ? quote(match[1]) : 'NIL'} NIL ${quote(match[2])} ${quote(match[3])}))`;
+};
+
+const envelope = (source: string) => {
+  const headers = parseHeaders(source);
+  const from = envelopeAddress(headers.get('from'));
+  return `(${quote(headers.get('date'))} ${quote(headers.get('subject'))} ${from} ${from} ${from} ${envelopeAddress(headers.get('to'))} NIL NIL NIL ${quote(headers.get('message-id'))})`;
+};
+
+// Splits command arguments into atoms, strings and parenthesized lists
+const tokenize = (text: string): Token[] => {
+  const root: Token[] = [];
+  const stack: Token[][] = [root];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === ' ') {
+      i++;
+    } else if (char === '(') {
+      const list: Token[] = [];
+      stack[stack.length - 1].push(list);
+      stack.push(list);
+      i++;
+    } else if (char === ')') {
+      stack.pop();
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\') i++;
+        value += text[i++];
+      }
+      i++;
+      stack[stack.length - 1].push(value);
+    } else {
+      const start = i;
+      while (i < text.length && !' ()'.includes(text[i])) {
+        // Section specifiers like BODY.PEEK[]<0.100> stay one atom
+        if (text[i] === '[') while (i < text.length && text[i] !== ']') i++;
+        i++;
+      }
+      stack[stack.length - 1].push(text.slice(start, i));
+    }
+  }
+  return root;
+};
+
+const parseSearchDate = (value: string) => {
+  const [day, month, year] = value.split('-');
+  return Date.UTC(Number(year), MONTHS.findIndex(m => m.toLowerCase() === month.toLowerCase()), Number(day));
+};
+
+const inUidSet = (set: string, uid: number, maxUid: number) => set.split(',').some(part => {
+  const [from, to] = part.split(':').map(n => n === '*' ? maxUid : Number(n));
+  return to === undefined ? uid === from : uid >= Math.min(from, to) && uid <= Math.max(from, to);
+});
+
+/**
+ * Matches one search key (with its arguments) from the front of `tokens`, consuming them.
+ */
+const matchKey = (tokens: Token[], message: ImapFixtureMessage, maxUid: number): boolean => {
+  const token = tokens.shift();
+  if (Array.isArray(token)) return matchAll([...token], message, maxUid);
+  const key = (token || '').toUpperCase();
+  switch (key) {
+    case 'ALL':
+      return true;
+    case 'OR': {
+      const left = matchKey(tokens, message, maxUid);
+      const right = matchKey(tokens, message, maxUid);
+      return left || right;
+    }
+    case 'NOT':
+      return !matchKey(tokens, message, maxUid);
+    case 'SINCE': {
+      const since = parseSearchDate(String(tokens.shift()));
+      const date = message.internalDate;
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) >= since;
+    }
+    case 'SUBJECT': {
+      const term = String(tokens.shift()).toLowerCase();
+      return (parseHeaders(message.source).get('subject') || '').toLowerCase().includes(term);
+    }
+    case 'UID':
+      return inUidSet(String(tokens.shift()), message.uid, maxUid);
+    default:
+      throw new Error(`Unsupported search key ${key}`);
+  }
+};
+
+const matchAll = (tokens: Token[], message: ImapFixtureMessage, maxUid: number): boolean => {
+  let matches = true;
+  while (tokens.length > 0) {
+    if (!matchKey(tokens, message, maxUid)) matches = false;
+  }
+  return matches;
+};
+
+export const startImapFixtureServer = async (
+  account: { user: string, password: string },
+  messages: ImapFixtureMessage[]
+): Promise<ImapFixtureServer> => {
+  const commands: string[] = [];
+  const sockets = new Set<Socket>();
+  const maxUid = Math.max(0, ...messages.map(m => m.uid));
+  const CAPABILITIES = 'IMAP4rev1';
+
+  const handle = (socket: Socket, line: string, state: { authenticated: boolean, selected: boolean }) => {
+    const [tag, ...rest] = line.split(' ');
+    const text = rest.join(' ');
+    commands.push(text);
+    const args = tokenize(text);
+    let command = String(args.shift() || '').toUpperCase();
+    const uidMode = command === 'UID';
+    if (uidMode) command = String(args.shift() || '').toUpperCase();
+    const reply = (untagged: string[], status: string) => {
+      socket.write([...untagged.map(entry => `* ${entry}`), `${tag} ${status}`].join('\r\n') + '\r\n');
+    };
+
+    if (command === 'CAPABILITY') return reply([`CAPABILITY ${CAPABILITIES}`], 'OK CAPABILITY completed');
+    if (command === 'NOOP') return reply([], 'OK NOOP completed');
+    if (command === 'LOGOUT') {
+      reply(['BYE Logging out'], 'OK LOGOUT completed');
+      return socket.end();
+    }
+    if (command === 'LOGIN') {
+      if (args[0] !== account.user || args[1] !== account.password) {
+        return reply([], 'NO [AUTHENTICATIONFAILED] Invalid credentials');
+      }
+      state.authenticated = true;
+      return reply([], `OK [CAPABILITY ${CAPABILITIES}] LOGIN completed`);
+    }
+    if (!state.authenticated) return reply([], 'NO Not authenticated');
+
+    if (command === 'LIST') {
+      // An empty pattern asks for the hierarchy delimiter
+      const pattern = String(args[1]);
+      const entries = pattern === '' ? ['LIST (\\Noselect) "/" ""'] : /^(INBOX|\*|%)$/i.test(pattern) ? ['LIST (\\HasNoChildren) "/" INBOX'] : [];
+      return reply(entries, 'OK LIST completed');
+    }
+    if (command === 'SELECT' || command === 'EXAMINE') {
+      if (String(args[0]).toUpperCase() !== 'INBOX') return reply([], 'NO Mailbox does not exist');
+      state.selected = true;
+      return reply([
+        'FLAGS (\\Seen \\Answered \\Flagged \\Deleted \\Draft)',
+        `${messages.length} EXISTS`,
+        '0 RECENT',
+        'OK [UIDVALIDITY 1] UIDs valid',
+        `OK [UIDNEXT ${maxUid + 1}] Predicted next UID`
+      ], `OK [${command === 'SELECT' ? 'READ-WRITE' : 'READ-ONLY'}] ${command} completed`);
+    }
+    if (!state.selected) return reply([], `BAD ${command} not supported here`);
+
+    if (command === 'SEARCH' && uidMode) {
+      if (String(args[0]).toUpperCase() === 'CHARSET') args.splice(0, 2);
+      const found = messages.filter(message => matchAll([...args], message, maxUid)).map(m => m.uid);
+      return reply([`SEARCH${found.map(uid => ` ${uid}`).join('')}`], 'OK SEARCH completed');
+    }
+    if (command === 'FETCH' && uidMode) {
+      const set = String(args[0]);
+      messages.forEach((message, index) => {
+        if (!inUidSet(set, message.uid, maxUid)) return;
+        const body = Buffer.from(message.source, 'utf8');
+        socket.write(`* ${index + 1} FETCH (UID ${message.uid} INTERNALDATE ${formatInternalDate(message.internalDate)} ENVELOPE ${envelope(message.source)} BODY[]<0> {${body.length}}\r\n`);
+        socket.write(body);
+        socket.write(')\r\n');
+      });
+      return reply([], 'OK FETCH completed');
+    }
+    return reply([], `BAD Unknown command ${command}`);
+  };
+
+  const server = createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => undefined);
+    const state = { authenticated: false, selected: false };
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        handle(socket, line, state);
+      }
+    });
+    socket.write(`* OK [CAPABILITY ${CAPABILITIES}] Fixture IMAP ready\r\n`);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    host: '127.0.0.1',
+    port,
+    commands,
+    close: () => new Promise<void>(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    })
+  };
+};
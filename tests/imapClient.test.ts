@@ -0,0 +1,128 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// Stands in for DNS, so a public-looking name can answer with a private address
+const answers = vi.hoisted(() => new Map<string, string[]>());
+vi.mock('dns/promises', () => ({
+  lookup: async (host: string) => (answers.get(host) || []).map(address => ({ address, family: address.includes(':') ? 6 : 4 }))
+}));
+
+import { fetchMessageByUid, searchJobMessages, validateImapSettings, verifyImapLogin } from '../api/_lib/imapClient';
+import { BlockedUrlError } from '../api/_lib/netGuard';
+import { ImapFixtureServer, startImapFixtureServer } from './helpers/imapFixtureServer';
+
+const settings = (host: string) => ({ host, port: 993, secure: true, user: 'candidate@example.com' });
+
+afterEach(() => {
+  answers.clear();
+});
+
+describe('IMAP host guard', () => {
+  it('rejects literal private hosts before connecting', () => {
+    expect(validateImapSettings(settings('10.0.0.8'))).toBe('Private network hosts are not allowed');
+    expect(validateImapSettings(settings('imap.mail.yahoo.com'))).toBeNull();
+  });
+
+  it('refuses to connect when a public-looking name resolves to a private address', async () => {
+    answers.set('imap.rebind.example', ['169.254.169.254']);
+    expect(validateImapSettings(settings('imap.rebind.example'))).toBeNull();
+    await expect(verifyImapLogin(settings('imap.rebind.example'), 'secret')).rejects.toBeInstanceOf(BlockedUrlError);
+  });
+
+  it('checks again on every later connection', async () => {
+    answers.set('imap.rebind.example', ['10.1.2.3', '93.184.216.34']);
+    await expect(searchJobMessages(settings('imap.rebind.example'), 'secret', 3, 10)).rejects.toBeInstanceOf(BlockedUrlError);
+  });
+});
+
+describe('IMAP bridge against a local IMAP server', () => {
+  const eml = (name: string) => readFileSync(join(__dirname, 'fixtures/imap', name), 'utf8');
+  const daysAgo = (days: number) => new Date(Date.now() - days * 86400000);
+  const account = { user: 'candidate@example.com', password: 'app-password' };
+  let server: ImapFixtureServer;
+  let local: ReturnType<typeof settings>;
+
+  beforeAll(async () => {
+    server = await startImapFixtureServer(account, [
+      // A job subject, but older than the searched range
+      { uid: 1, source: eml('job-alert.eml'), internalDate: daysAgo(40) },
+      { uid: 2, source: eml('job-alert.eml'), internalDate: daysAgo(4) },
+      { uid: 3, source: eml('interview.eml'), internalDate: daysAgo(3) },
+      { uid: 4, source: eml('plain-offer.eml'), internalDate: daysAgo(2) },
+      // Recent, but no job keyword in the subject
+      { uid: 5, source: eml('newsletter.eml'), internalDate: daysAgo(1) }
+    ]);
+    local = { ...settings(server.host), port: server.port, secure: false };
+    vi.stubEnv('IMAP_ALLOW_PRIVATE_HOSTS', 'true');
+  });
+
+  afterEach(() => {
+    server.commands.length = 0;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+  });
+
+  it('verifies the login and logs out', async () => {
+    await expect(verifyImapLogin(local, account.password)).resolves.toBeUndefined();
+    expect(server.commands.some(command => command.startsWith('LOGIN'))).toBe(true);
+    expect(server.commands[server.commands.length - 1]).toBe('LOGOUT');
+  });
+
+  it('rejects a wrong password', async () => {
+    await expect(verifyImapLogin(local, 'wrong')).rejects.toThrow();
+  });
+
+  it('searches INBOX by date and job keywords in the subject', async () => {
+    const messages = await searchJobMessages(local, account.password, 7, 10);
+    expect(messages.map(m => m.id)).toEqual(['4', '3', '2']);
+
+    const search = server.commands.find(command => command.startsWith('UID SEARCH'))!;
+    expect(search).toMatch(/\bSINCE \d{1,2}-[A-Z][a-z]{2}-\d{4}\b/);
+    ['job', 'jobs', 'vacancy', 'career', 'hiring', 'opportunity'].forEach(keyword => {
+      expect(search).toMatch(new RegExp(`SUBJECT "?${keyword}"?( |\\)|$)`));
+    });
+  });
+
+  it('returns the newest matches up to the limit', async () => {
+    const messages = await searchJobMessages(local, account.password, 7, 2);
+    expect(messages.map(m => m.id)).toEqual(['4', '3']);
+    expect(server.commands.find(command => command.startsWith('UID FETCH'))).toMatch(/^UID FETCH 4,3 /);
+  });
+
+  it('normalizes headers and bodies', async () => {
+    const [offer, interview, alert] = await searchJobMessages(local, account.password, 7, 10);
+
+    expect(alert).toMatchObject({
+      from: 'Indeed',
+      subject: '3 new jobs for Data Analyst – Chicago',
+      date: '2026-10-15T08:15:00.000Z',
+      snippet: 'Data Analyst II Contoso Ltd. – Chicago, IL $85,000 – $110,000 View job'
+    });
+    expect(alert.html).toContain('<a href="https://www.indeed.com/rc/clk?jk=abc123">');
+
+    // The HTML alternative wins over the plain text one
+    expect(interview.html).toContain('the <b>Product Designer</b> role');
+    expect(interview.snippet).toMatch(/^Hi Alex, Thanks for applying to Litware\./);
+
+    // Plain-text bodies are escaped into <pre>; a bare address stands in for a missing name
+    expect(offer.from).toBe('hr@fabrikam.com');
+    expect(offer.html).toMatch(/^<pre>Salary &lt;negotiable&gt; &amp; benefits included\.\s*<\/pre>$/);
+  });
+
+  it('fetches one message by UID whatever its subject', async () => {
+    const message = await fetchMessageByUid(local, account.password, '5');
+    expect(message).toMatchObject({ id: '5', from: 'Northwind News', subject: 'Your weekly reading list' });
+    expect(message?.html).toContain('Ten articles you might like.');
+
+    await expect(fetchMessageByUid(local, account.password, '99')).resolves.toBeNull();
+  });
+
+  it('rejects a malformed UID without connecting', async () => {
+    await expect(fetchMessageByUid(local, account.password, '1:*')).resolves.toBeNull();
+    expect(server.commands).toHaveLength(0);
+  });
+});
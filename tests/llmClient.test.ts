@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The routes resolve and fetch the posting; DNS answers with a public address and fetch is stubbed per test
+vi.mock('dns/promises', () => ({
+  lookup: async () => [{ address: '93.184.216.34', family: 4 }]
+}));
+
+// Signed-in user seen by Clerk's getAuth; null for a signed-out request
+const clerk = vi.hoisted(() => ({ userId: 'user_1' as string | null }));
+vi.mock('@clerk/nextjs/server', () => {
+  const getAuth = () => ({ userId: clerk.userId });
+  return { getAuth, default: { getAuth } };
+});
+
+import extractJobHandler from '../api/extract-job';
+import coverLetterHandler from '../api/cover-letter';
+import tailorResumeHandler from '../api/tailor-resume';
+import { clearPageCache } from '../api/_lib/pageFetcher';
+import { FakeLlmClient, FakeLlmOptions, createFakeLlmClient } from '../services/fakeLlmClient';
+import { llmConfigFromEnv, setLlmClient } from '../services/llmClientRegistry';
+import { parseJsonResponse } from '../services/llmClient';
+import { Resume } from '../types';
+
+// Just enough of VercelResponse for the handlers
+const createResponse = () => {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      res.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: any) {
+      res.body = body;
+      return res;
+    },
+    end() {
+      return res;
+    }
+  };
+  return res;
+};
+
+const call = async (handler: (req: any, res: any) => unknown, body: Record<string, unknown>) => {
+  const res = createResponse();
+  await handler({ method: 'POST', headers: {}, body }, res);
+  return res;
+};
+
+let llm: FakeLlmClient;
+const useFakeLlm = (options: FakeLlmOptions = {}) => {
+  llm = createFakeLlmClient(options);
+  setLlmClient(llm);
+};
+
+beforeEach(() => {
+  clerk.userId = 'user_1';
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  setLlmClient(null);
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('extract-job LLM fallback', () => {
+  const POSTING_URL = 'https://jobs.example.com/postings/42';
+  const PAGE = '<html><body><h1>Platform Engineer</h1><p>Acme Robotics, Lisbon</p></body></html>';
+
+  beforeEach(() => {
+    clearPageCache();
+    vi.stubEnv('NODE_ENV', 'development');
+  });
+
+  it('sends a page without structured data to the LLM and parses its fenced JSON', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(PAGE, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })));
+    useFakeLlm({
+      respond: () => '```json\n{"title": "Platform Engineer", "company": "Acme Robotics", "requirements": ["Go", "Kubernetes"]}\n```'
+    });
+
+    const res = await call(extractJobHandler, { url: POSTING_URL });
+    expect(res.statusCode).toBe(200);
+    expect(res.body.extractor).toBe('llm');
+    expect(res.body.data).toMatchObject({
+      title: 'Platform Engineer',
+      company: 'Acme Robotics',
+      location: 'Remote',
+      requirements: ['Go', 'Kubernetes'],
+      applicationUrl: POSTING_URL
+    });
+
+    expect(llm.calls).toHaveLength(1);
+    expect(llm.calls[0].json).toBe(true);
+    expect(llm.calls[0].prompt).toContain(`URL: ${POSTING_URL}`);
+    expect(llm.calls[0].prompt).toContain('<h1>Platform Engineer</h1>');
+  });
+
+  it('works from the URL alone when the page cannot be fetched, and survives a non-JSON answer', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Server error', { status: 500 })));
+    useFakeLlm({ respond: () => 'Sorry, I cannot read that page.' });
+
+    const res = await call(extractJobHandler, { url: POSTING_URL });
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data).toMatchObject({ title: 'Extraction Failed', company: 'Unknown', requirements: [] });
+    expect(llm.calls[0].prompt).toContain('could not be fetched');
+    expect(llm.calls[0].prompt).not.toContain('HTML content');
+  });
+
+  it('skips the LLM for pages with JSON-LD', async () => {
+    const jsonLd = JSON.stringify({ '@type': 'JobPosting', title: 'Data Engineer', hiringOrganization: { name: 'Contoso' }, description: 'Pipelines' });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(`<script type="application/ld+json">${jsonLd}</script>`, { headers: { 'Content-Type': 'text/html' } })));
+    useFakeLlm();
+
+    const res = await call(extractJobHandler, { url: POSTING_URL });
+    expect(res.body.extractor).toBe('json-ld');
+    expect(llm.calls).toHaveLength(0);
+  });
+});
+
+describe('cover-letter route', () => {
+  const JOB = { title: 'Frontend Engineer', company: 'Northwind', description: 'React and TypeScript', resume: 'Jane Doe\nReact developer', name: 'Jane Doe', email: 'jane@example.com' };
+
+  it('renders the cover letter prompt and returns the model text with the prompt version', async () => {
+    useFakeLlm({ respond: () => 'Dear Hiring Manager, ...' });
+
+    const res = await call(coverLetterHandler, JOB);
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ text: 'Dear Hiring Manager, ...', promptVersion: 'coverLetter@2' });
+
+    expect(llm.calls).toHaveLength(1);
+    expect(llm.calls[0].system).toMatch(/career coach/);
+    expect(llm.calls[0].prompt).toContain('- Target Company: Northwind');
+    expect(llm.calls[0].prompt).toContain('- Candidate: Jane Doe (jane@example.com)');
+    expect(llm.calls[0].prompt).toContain('React developer');
+  });
+
+  it('rejects signed-out users and incomplete requests without calling the model', async () => {
+    useFakeLlm();
+    expect((await call(coverLetterHandler, { ...JOB, description: '' })).statusCode).toBe(400);
+    clerk.userId = null;
+    expect((await call(coverLetterHandler, JOB)).statusCode).toBe(401);
+    expect(llm.calls).toHaveLength(0);
+  });
+});
+
+describe('tailor-resume route', () => {
+  const resume: Resume = {
+    contact: { name: 'Jane Doe', email: 'old@example.com', phone: '', location: 'Lisbon', links: [] },
+    summary: 'Frontend developer.',
+    experience: [{ id: 'exp_1', title: 'Developer', company: 'Contoso', location: '', startDate: '2020', endDate: 'Present', bullets: ['Built pages'] }],
+    education: [],
+    skills: ['CSS', 'React', 'TypeScript'],
+    certifications: [],
+    projects: [],
+    extraSections: []
+  };
+  const JOB = { title: 'Frontend Engineer', company: 'Northwind', description: 'React and TypeScript', resume, email: 'jane@example.com' };
+
+  it('applies the tailored JSON to the structured resume', async () => {
+    useFakeLlm({
+      respond: () => JSON.stringify({
+        ...resume,
+        summary: 'React engineer focused on TypeScript.',
+        experience: [{ ...resume.experience[0], bullets: ['Built React pages in TypeScript'] }],
+        // Kubernetes isn't on the resume, so it must not be added
+        skills: ['typescript', 'React', 'Kubernetes']
+      })
+    });
+
+    const res = await call(tailorResumeHandler, JOB);
+    expect(res.statusCode).toBe(200);
+    expect(res.body.promptVersion).toBe('tailorStructuredResume@1');
+    expect(res.body.resume.summary).toBe('React engineer focused on TypeScript.');
+    expect(res.body.resume.experience[0].bullets).toEqual(['Built React pages in TypeScript']);
+    expect(res.body.resume.skills).toEqual(['TypeScript', 'React', 'CSS']);
+    expect(res.body.resume.contact.email).toBe('jane@example.com');
+    expect(res.body.text).toContain('Built React pages in TypeScript');
+
+    expect(llm.calls).toHaveLength(1);
+    expect(llm.calls[0].json).toBe(true);
+    expect(llm.calls[0].prompt).toContain('"id":"exp_1"');
+    expect(llm.calls[0].prompt).toContain('"email":"jane@example.com"');
+  });
+
+  it('keeps the original resume when the model answer is not JSON', async () => {
+    useFakeLlm({ respond: () => 'I could not tailor this resume.' });
+
+    const res = await call(tailorResumeHandler, JOB);
+    expect(res.statusCode).toBe(200);
+    expect(res.body.resume.summary).toBe('Frontend developer.');
+    expect(res.body.resume.experience[0].bullets).toEqual(['Built pages']);
+    expect(res.body.resume.skills).toEqual(['CSS', 'React', 'TypeScript']);
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('reads plain, fenced and embedded JSON', () => {
+    expect(parseJsonResponse('{"a": 1}', {})).toEqual({ a: 1 });
+    expect(parseJsonResponse('```json\n{"a": 1}\n```', {})).toEqual({ a: 1 });
+    expect(parseJsonResponse('```\n[1, 2]\n```', [])).toEqual([1, 2]);
+    expect(parseJsonResponse('Here you go: {"jobs": [{"title": "QA Lead"}]} Hope that helps!', {})).toEqual({ jobs: [{ title: 'QA Lead' }] });
+    expect(parseJsonResponse('The list is [1, 2, 3].', [])).toEqual([1, 2, 3]);
+  });
+
+  it('returns the fallback when there is no valid JSON', () => {
+    expect(parseJsonResponse('No JSON here', { empty: true })).toEqual({ empty: true });
+    expect(parseJsonResponse('{"a": 1,}', null)).toBeNull();
+    expect(parseJsonResponse('', [])).toEqual([]);
+  });
+});
+
+describe('llmConfigFromEnv', () => {
+  it('defaults to Gemini with the first key set', () => {
+    expect(llmConfigFromEnv({})).toEqual({ provider: 'gemini', model: undefined, baseUrl: undefined, apiKey: undefined });
+    expect(llmConfigFromEnv({ GOOGLE_GENERATIVE_AI_API_KEY: 'google' }).apiKey).toBe('google');
+    expect(llmConfigFromEnv({ API_KEY: 'api', GOOGLE_GENERATIVE_AI_API_KEY: 'google' }).apiKey).toBe('api');
+    expect(llmConfigFromEnv({ LLM_API_KEY: 'llm', API_KEY: 'api', GOOGLE_GENERATIVE_AI_API_KEY: 'google' }).apiKey).toBe('llm');
+  });
+
+  it('only falls back to the Gemini keys for Gemini', () => {
+    expect(llmConfigFromEnv({ LLM_PROVIDER: 'Ollama', LLM_MODEL: 'llama3.1', LLM_BASE_URL: 'http://localhost:11434/v1', API_KEY: 'api' })).toEqual({
+      provider: 'ollama',
+      model: 'llama3.1',
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: undefined
+    });
+    expect(llmConfigFromEnv({ LLM_PROVIDER: 'openai', LLM_API_KEY: 'sk-test' }).apiKey).toBe('sk-test');
+  });
+});
+
+describe('createFakeLlmClient', () => {
+  it('records calls and answers deterministically by default', async () => {
+    const client = createFakeLlmClient();
+    expect((await client.generate({ prompt: 'Score this', json: true })).text).toBe('{}');
+    const first = await client.generate({ prompt: 'Write a letter\nfor Northwind' });
+    const second = await client.generate({ prompt: 'Write a letter\nfor Northwind' });
+    expect(first.text).toMatch(/^Fake response [0-9a-f]{8} for: Write a letter$/);
+    expect(second.text).toBe(first.text);
+    expect(first.model).toBe('fake-1');
+    expect(client.calls.map(c => c.prompt)).toEqual(['Score this', 'Write a letter\nfor Northwind', 'Write a letter\nfor Northwind']);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { mergeConnectedAccounts } from '../api/_lib/mailCredentials';
+
+const account = (id: string, syncCursor: string, lastSynced: string) =>
+  ({ id, provider: 'Gmail', emailAddress: `${id}@example.com`, isConnected: true, authType: 'oauth', syncCursor, lastSynced });
+
+describe('mergeConnectedAccounts', () => {
+  it('keeps scan state the cron stored after the client loaded its copy', () => {
+    const stored = [account('a', 'history-200', '2026-10-18T12:00:00Z')];
+    const incoming = [{ ...account('a', 'history-100', '2026-10-18T06:00:00Z'), emailAddress: 'renamed@example.com' }];
+    expect(mergeConnectedAccounts(stored, incoming)).toEqual([
+      { ...incoming[0], syncCursor: 'history-200', lastSynced: '2026-10-18T12:00:00Z' }
+    ]);
+  });
+
+  it('takes the client scan state when the client synced last', () => {
+    const stored = [account('a', 'history-200', '2026-10-18T12:00:00Z')];
+    const incoming = [account('a', 'history-300', '2026-10-18T13:00:00Z')];
+    expect(mergeConnectedAccounts(stored, incoming)).toEqual(incoming);
+  });
+
+  it('follows the client list for added and removed accounts', () => {
+    const stored = [account('a', 'c1', '2026-10-18T12:00:00Z'), account('b', 'c2', '2026-10-18T12:00:00Z')];
+    const incoming = [account('c', 'c3', '2026-10-18T08:00:00Z')];
+    expect(mergeConnectedAccounts(stored, incoming)).toEqual(incoming);
+  });
+});
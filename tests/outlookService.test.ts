@@ -0,0 +1,85 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildOutlookSearch, createOutlookProvider } from '../services/outlookService';
+import { EmailAccount } from '../types';
+
+// Responses recorded from Microsoft Graph v1.0, with personal data replaced
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures/graph', name), 'utf8');
+
+const account: EmailAccount = {
+  id: 'outlook-1',
+  provider: 'Outlook',
+  emailAddress: '',
+  isConnected: true,
+  lastSynced: '',
+  accessToken: 'graph-token'
+};
+
+const requestedUrls: URL[] = [];
+
+// Serves the fixtures for the Graph routes the adapter calls; an "expired" token gets the recorded 401
+const fakeGraph = async (input: string | URL | Request, init?: RequestInit) => {
+  const url = new URL(input instanceof Request ? input.url : input.toString());
+  requestedUrls.push(url);
+  const auth = new Headers(init?.headers).get('Authorization');
+  if (auth !== 'Bearer graph-token') {
+    return new Response(fixture('unauthorized.json'), { status: 401, headers: { 'Content-Type': 'application/json' } });
+  }
+  if (url.pathname === '/v1.0/me') return new Response(fixture('me.json'), { status: 200 });
+  if (url.pathname === '/v1.0/me/messages') return new Response(fixture('messages.json'), { status: 200 });
+  if (url.pathname === '/v1.0/me/messages/AAMkAGI2TG93AAA%3D/$value') return new Response(fixture('message.eml'), { status: 200 });
+  return new Response('{}', { status: 404 });
+};
+
+beforeEach(() => {
+  requestedUrls.length = 0;
+  vi.stubGlobal('fetch', vi.fn(fakeGraph));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('Outlook adapter against recorded Graph responses', () => {
+  it('reads the profile, falling back to the user principal name', async () => {
+    const provider = createOutlookProvider(account, {})!;
+    expect(await provider.getProfile()).toEqual({ emailAddress: 'alex.candidate@contoso.onmicrosoft.com', displayName: 'Alex Candidate' });
+  });
+
+  it('searches by subject keywords and date range and maps the messages', async () => {
+    const provider = createOutlookProvider(account, {})!;
+    const messages = await provider.search({ days: 7, limit: 25, keywords: ['job', 'application'] });
+
+    const params = requestedUrls[0].searchParams;
+    expect(params.get('$top')).toBe('25');
+    expect(params.get('$search')).toMatch(/^"\(subject:job OR subject:application\) AND received>=\d{4}-\d{2}-\d{2}"$/);
+    expect(messages.map(m => m.from)).toEqual(['LinkedIn Job Alerts', 'no-reply@greenhouse.io', 'Outlook']);
+    expect(messages[0]).toMatchObject({
+      id: 'AAMkAGI2TG93AAA=',
+      subject: 'New job alert: Senior Frontend Engineer at Fabrikam',
+      date: '2026-10-18T07:42:11Z'
+    });
+    expect(messages[2].subject).toBe('(no subject)');
+  });
+
+  it('decodes the raw MIME message to its HTML part', async () => {
+    const provider = createOutlookProvider(account, {})!;
+    const body = await provider.fetchBody('AAMkAGI2TG93AAA=');
+    expect(body).toContain('<h1>Senior Frontend Engineer</h1>');
+    expect(body).toContain('Fabrikam – Seattle, WA');
+    expect(body).toContain('€90,000 – €110,000');
+    expect(body).toContain('href="https://www.linkedin.com/comm/jobs/view/4012345678"');
+  });
+
+  it('reports an expired token as TOKEN_EXPIRED', async () => {
+    const provider = createOutlookProvider({ ...account, accessToken: 'expired' }, {})!;
+    await expect(provider.search({ days: 3, limit: 10 })).rejects.toThrow('TOKEN_EXPIRED');
+  });
+
+  it('builds the KQL date bound from the day count', () => {
+    expect(buildOutlookSearch(['offer'], 3, new Date('2026-10-18T12:00:00Z'))).toBe('"(subject:offer) AND received>=2026-10-15"');
+  });
+});
@@ -0,0 +1,174 @@
+import { brotliCompressSync, gzipSync } from 'zlib';
+import { ServerResponse } from 'http';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Stands in for DNS; each lookup of a name takes the next answer, so a name can rebind between lookups
+const answers = vi.hoisted(() => new Map<string, string[][]>());
+const lookups = vi.hoisted(() => [] as string[]);
+vi.mock('dns/promises', () => ({
+  lookup: async (host: string) => {
+    lookups.push(host);
+    const queue = answers.get(host) || [];
+    const addresses = queue.length > 1 ? queue.shift()! : queue[0] || [];
+    return addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+  }
+}));
+
+import { BlockedUrlError } from '../api/_lib/netGuard';
+import { PageFetchError, clearPageCache, detectCharset, fetchPage } from '../api/_lib/pageFetcher';
+import { FixtureServer, startFixtureServer } from './helpers/fixtureServer';
+
+const send = (headers: Record<string, string>, body: Buffer | string) => (_: unknown, res: ServerResponse) => {
+  res.writeHead(200, headers).end(body);
+};
+const redirect = (location: string) => (_: unknown, res: ServerResponse) => {
+  res.writeHead(302, { Location: location }).end();
+};
+
+const HTML = '<html><head><title>Café</title></head><body><h1>Senior Engineer – Zürich</h1></body></html>';
+
+let server: FixtureServer;
+// The fixture server listens on 127.0.0.1, which the fetcher refuses unless told otherwise
+const local = { allowPrivateHosts: true };
+
+beforeAll(async () => {
+  server = await startFixtureServer({
+    '/big': send({ 'Content-Type': 'text/html' }, 'x'.repeat(64 * 1024)),
+    '/bom': send({ 'Content-Type': 'text/html' }, Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(HTML, 'utf8')])),
+    '/utf16': send({ 'Content-Type': 'text/html' }, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(HTML, 'utf16le')])),
+    '/header-latin2': send({ 'Content-Type': 'text/html; charset=ISO-8859-2' }, Buffer.from([0xa3, 0xf3, 0x64, 0xbc])),
+    // 0x93/0x94 are curly quotes and 0x80 the euro sign in windows-1252, control codes in ISO-8859-1
+    '/meta-1252': send({ 'Content-Type': 'text/html' }, Buffer.concat([
+      Buffer.from('<html><head><meta charset="iso-8859-1"></head><body>'),
+      Buffer.from([0x93, 0x51, 0x94, 0x20, 0x80, 0x35, 0x30]),
+      Buffer.from('</body></html>')
+    ])),
+    '/gzip': send({ 'Content-Type': 'text/html; charset=utf-8', 'Content-Encoding': 'gzip' }, gzipSync(HTML)),
+    '/br': send({ 'Content-Type': 'text/html; charset=utf-8', 'Content-Encoding': 'br' }, brotliCompressSync(HTML)),
+    '/hop-1': redirect('/hop-2'),
+    '/hop-2': redirect('/hop-3'),
+    '/hop-3': redirect('/page'),
+    '/page': send({ 'Content-Type': 'text/html; charset=utf-8' }, HTML),
+    '/gone': (_, res) => { res.writeHead(404).end('Not found'); }
+  });
+});
+
+beforeEach(() => {
+  server.requests.length = 0;
+  clearPageCache();
+});
+
+afterEach(() => {
+  answers.clear();
+  lookups.length = 0;
+  vi.restoreAllMocks();
+});
+
+afterAll(() => server.close());
+
+describe('fetchPage against a local fixture server', () => {
+  it('cuts the body at maxBytes and marks it truncated', async () => {
+    const page = await fetchPage(`${server.baseUrl}/big`, { ...local, maxBytes: 1000 });
+    expect(page.body).toHaveLength(1000);
+    expect(page.truncated).toBe(true);
+
+    const whole = await fetchPage(`${server.baseUrl}/big`, { ...local, cacheTtlMs: 0 });
+    expect(whole.body).toHaveLength(64 * 1024);
+    expect(whole.truncated).toBe(false);
+  });
+
+  it('detects the charset from a byte order mark', async () => {
+    expect(await fetchPage(`${server.baseUrl}/bom`, local)).toMatchObject({ charset: 'utf-8', body: expect.stringContaining('Senior Engineer – Zürich') });
+    expect(await fetchPage(`${server.baseUrl}/utf16`, local)).toMatchObject({ charset: 'utf-16le', body: expect.stringContaining('<title>Café</title>') });
+  });
+
+  it('decodes with the charset from the Content-Type header', async () => {
+    const page = await fetchPage(`${server.baseUrl}/header-latin2`, local);
+    expect(page.charset).toBe('iso-8859-2');
+    expect(page.body).toBe('Łódź');
+  });
+
+  it('reads a <meta> charset and decodes Latin-1 labels as windows-1252', async () => {
+    const page = await fetchPage(`${server.baseUrl}/meta-1252`, local);
+    expect(page.charset).toBe('iso-8859-1');
+    expect(page.body).toContain('“Q” €50');
+  });
+
+  it('decodes gzip and brotli bodies', async () => {
+    expect((await fetchPage(`${server.baseUrl}/gzip`, local)).body).toBe(HTML);
+    expect((await fetchPage(`${server.baseUrl}/br`, local)).body).toBe(HTML);
+    expect(server.requests[0].headers['accept-encoding']).toContain('br');
+  });
+
+  it('follows redirects up to the limit', async () => {
+    const page = await fetchPage(`${server.baseUrl}/hop-1`, local);
+    expect(page.url).toBe(`${server.baseUrl}/page`);
+    expect(page.body).toBe(HTML);
+
+    const error = await fetchPage(`${server.baseUrl}/hop-1`, { ...local, maxRedirects: 2, cacheTtlMs: 0 }).catch(e => e);
+    expect(error).toBeInstanceOf(PageFetchError);
+    expect(error.message).toBe('Stopped after 2 redirects');
+  });
+
+  it('reports non-2xx responses with their status', async () => {
+    const error = await fetchPage(`${server.baseUrl}/gone`, local).catch(e => e);
+    expect(error).toBeInstanceOf(PageFetchError);
+    expect(error.status).toBe(404);
+  });
+
+  it('serves repeat requests from the cache until the TTL runs out', async () => {
+    const now = Date.now();
+    await fetchPage(`${server.baseUrl}/page`, { ...local, cacheTtlMs: 1000 });
+    await fetchPage(`${server.baseUrl}/page`, { ...local, cacheTtlMs: 1000 });
+    expect(server.requests).toHaveLength(1);
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + 5000);
+    await fetchPage(`${server.baseUrl}/page`, { ...local, cacheTtlMs: 1000 });
+    expect(server.requests).toHaveLength(2);
+
+    await fetchPage(`${server.baseUrl}/page`, { ...local, cacheTtlMs: 0 });
+    await fetchPage(`${server.baseUrl}/page`, { ...local, cacheTtlMs: 0 });
+    expect(server.requests).toHaveLength(4);
+  });
+});
+
+describe('fetchPage SSRF guard', () => {
+  it('refuses the fixture server itself without the private-host opt-in', async () => {
+    await expect(fetchPage(`${server.baseUrl}/page`)).rejects.toBeInstanceOf(BlockedUrlError);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('checks every redirect hop before requesting it', async () => {
+    // A public page that redirects to the metadata endpoint; fetch is stubbed since nothing public is reachable here
+    answers.set('jobs.example.com', [['93.184.216.34']]);
+    const fetchSpy = vi.fn(async () => new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data/' } }));
+    vi.stubGlobal('fetch', fetchSpy);
+    try {
+      const error = await fetchPage('https://jobs.example.com/posting/1').catch(e => e);
+      expect(error).toBeInstanceOf(BlockedUrlError);
+      expect(error.message).toBe('Blocked host 169.254.169.254');
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('connects only to addresses the guard accepted when DNS rebinds after the check', async () => {
+    answers.set('rebind.example.com', [['93.184.216.34'], ['127.0.0.1']]);
+    const error = await fetchPage('http://rebind.example.com/posting').catch(e => e);
+    expect(error).toBeInstanceOf(BlockedUrlError);
+    expect(error.message).toBe('Blocked host rebind.example.com');
+    // Once for the check, once more for the connection
+    expect(lookups).toEqual(['rebind.example.com', 'rebind.example.com']);
+  });
+});
+
+describe('detectCharset', () => {
+  it('prefers the BOM, then the header, then a meta tag, then UTF-8', () => {
+    const bytes = (text: string) => new TextEncoder().encode(text);
+    expect(detectCharset(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]), 'text/html; charset=iso-8859-1')).toBe('utf-8');
+    expect(detectCharset(bytes('<meta charset="shift_jis">'), 'text/html; charset="Windows-1252"')).toBe('windows-1252');
+    expect(detectCharset(bytes('<meta http-equiv="Content-Type" content="text/html; charset=Shift_JIS">'), 'text/html')).toBe('shift_jis');
+    expect(detectCharset(bytes('<html></html>'), '')).toBe('utf-8');
+  });
+});
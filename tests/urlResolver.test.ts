@@ -0,0 +1,126 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ServerResponse } from 'http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { isPrivateAddress } from '../api/_lib/netGuard';
+import { resolveJobUrl } from '../api/_lib/urlResolver';
+import { FixtureServer, startFixtureServer } from './helpers/fixtureServer';
+
+const page = (name: string) => (_: unknown, res: ServerResponse) => {
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(readFileSync(join(__dirname, 'fixtures/redirects', name), 'utf8'));
+};
+const redirect = (status: number, location: string) => (_: unknown, res: ServerResponse) => {
+  res.writeHead(status, { Location: location }).end();
+};
+
+let server: FixtureServer;
+// The fixture server listens on 127.0.0.1, which the resolver refuses unless told otherwise
+const local = { allowPrivateHosts: true };
+
+beforeAll(async () => {
+  server = await startFixtureServer({
+    // Email click tracker -> HTTP redirects -> meta refresh -> script redirect -> posting
+    '/click/e1': redirect(302, '/r/abc?utm_source=email'),
+    '/r/abc': redirect(301, '/meta-refresh'),
+    '/meta-refresh': page('meta-refresh.html'),
+    '/script-redirect': page('script-redirect.html'),
+    '/jobs/4012345678': page('job-page.html'),
+    '/loop-a': redirect(302, '/loop-b'),
+    '/loop-b': redirect(302, '/loop-a'),
+    '/to-login': redirect(302, '/login?next=%2Fjobs%2F1'),
+    '/gone': (_, res) => { res.writeHead(404).end(); },
+    '/download': (_, res) => { res.writeHead(200, { 'Content-Type': 'application/pdf' }).end('%PDF-1.4'); }
+  });
+});
+
+beforeEach(() => { server.requests.length = 0; });
+
+afterAll(() => server.close());
+
+describe('resolveJobUrl against a local fixture server', () => {
+  it('follows HTTP, meta refresh and script redirects and strips tracking params on the way', async () => {
+    const result = await resolveJobUrl(`${server.baseUrl}/click/e1`, local);
+    expect(result.resolved).toBe(true);
+    expect(result.url).toBe(`${server.baseUrl}/jobs/4012345678`);
+    expect(result.hops).toEqual([
+      `${server.baseUrl}/click/e1`,
+      `${server.baseUrl}/r/abc`,
+      `${server.baseUrl}/meta-refresh`,
+      `${server.baseUrl}/script-redirect`,
+      `${server.baseUrl}/jobs/4012345678`
+    ]);
+    expect(server.requests.map(r => r.path)).toEqual(['/click/e1', '/r/abc', '/meta-refresh', '/script-redirect', '/jobs/4012345678']);
+  });
+
+  it('stops at the redirect limit', async () => {
+    const result = await resolveJobUrl(`${server.baseUrl}/click/e1`, { ...local, maxRedirects: 2 });
+    expect(result).toMatchObject({ resolved: false, error: 'Stopped after 2 redirects', url: `${server.baseUrl}/meta-refresh` });
+  });
+
+  it('detects redirect loops', async () => {
+    const result = await resolveJobUrl(`${server.baseUrl}/loop-a`, local);
+    expect(result).toMatchObject({ resolved: false, error: 'Redirect loop' });
+  });
+
+  it('keeps the URL before a sign-in wall', async () => {
+    const result = await resolveJobUrl(`${server.baseUrl}/to-login`, local);
+    expect(result).toMatchObject({ resolved: true, url: `${server.baseUrl}/to-login` });
+  });
+
+  it('reports HTTP errors and treats non-HTML responses as the destination', async () => {
+    expect(await resolveJobUrl(`${server.baseUrl}/gone`, local)).toMatchObject({ resolved: false, error: 'HTTP 404' });
+    expect(await resolveJobUrl(`${server.baseUrl}/download`, local)).toMatchObject({ resolved: true, url: `${server.baseUrl}/download` });
+  });
+
+  it('unwraps an SES tracker link without requesting the tracker', async () => {
+    const destination = `${server.baseUrl}/jobs/4012345678?utm_medium=email&trk=alert`;
+    const tracked = `https://abc123.r.us-east-1.awstrack.me/L0/${encodeURIComponent(destination)}/1/0100018f-msg/xyz=`;
+    const result = await resolveJobUrl(tracked, local);
+    expect(result).toMatchObject({ resolved: true, url: `${server.baseUrl}/jobs/4012345678` });
+    expect(server.requests.map(r => r.path)).toEqual(['/jobs/4012345678']);
+  });
+
+  it('unwraps nested trackers around an ATS link and stops there without any request', async () => {
+    const greenhouse = 'https://boards.greenhouse.io/fabrikam/jobs/5011223?utm_source=linkedin&gh_src=abc';
+    const ses = `https://abc123.r.us-east-1.awstrack.me/L0/${encodeURIComponent(greenhouse)}/1/msg`;
+    const safeLinks = `https://nam12.safelinks.protection.outlook.com/?url=${encodeURIComponent(ses)}&data=05%7C02&reserved=0`;
+    const result = await resolveJobUrl(safeLinks);
+    expect(result).toEqual({
+      url: 'https://boards.greenhouse.io/fabrikam/jobs/5011223?gh_src=abc',
+      hops: ['https://boards.greenhouse.io/fabrikam/jobs/5011223?gh_src=abc'],
+      resolved: true
+    });
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('refuses private hosts unless allowed', async () => {
+    const result = await resolveJobUrl(`${server.baseUrl}/click/e1`);
+    expect(result).toMatchObject({ resolved: false, error: 'Blocked host 127.0.0.1' });
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('refuses private IPv4 addresses written as IPv6', async () => {
+    const port = new URL(server.baseUrl).port;
+    for (const host of ['[::ffff:127.0.0.1]', '[::ffff:7f00:1]', '[::127.0.0.1]', '[64:ff9b::127.0.0.1]', '[2002:7f00:1::]']) {
+      const result = await resolveJobUrl(`http://${host}:${port}/click/e1`);
+      expect(result.resolved, host).toBe(false);
+      expect(result.error, host).toMatch(/^Blocked host /);
+    }
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('checks the IPv4 address embedded in mapped, compatible, NAT64 and 6to4 addresses', () => {
+    for (const address of ['::ffff:169.254.169.254', '::ffff:a9fe:a9fe', '::a9fe:a9fe', '::', '::1', '64:ff9b::a00:1', '2002:c0a8:101::1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    for (const address of ['::ffff:8.8.8.8', '64:ff9b::808:808', '2002:808:808::1', '2606:4700:4700::1111']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it('blocks unique local, link-local and multicast IPv6', () => {
+    expect(['fd12:3456::1', 'fe80::1%eth0', 'ff02::1'].map(isPrivateAddress)).toEqual([true, true, true]);
+  });
+});
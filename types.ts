@@ -23,7 +23,34 @@ export enum ViewState {
   REVIEW_SELECTION = 'REVIEW_SELECTION',
   GENERATED_JOBS_LIST = 'GENERATED_JOBS_LIST',
   ONBOARDING = 'ONBOARDING',
-  DEBUG = 'DEBUG'
+  DEBUG = 'DEBUG',
+  REMINDERS = 'REMINDERS'
+}
+
+export interface JobStatusChange {
+  status: JobStatus;
+  previousStatus: JobStatus | null; // null for the initial entry
+  changedAt: string;
+  note?: string;
+}
+
+export type JobDocumentKind = 'resume' | 'coverLetter';
+
+// 'local' is the keyword-based fallback used when the LLM is unavailable (see localAiService)
+export type DocumentVersionSource = 'ai' | 'local' | 'manual';
+
+// One saved state of a job's tailored resume or cover letter (see services/documentVersions)
+export interface DocumentVersion {
+  id: string;
+  kind: JobDocumentKind;
+  text: string;
+  resume?: Resume; // Structure of a resume version, when known
+  source: DocumentVersionSource;
+  model?: string;
+  promptVersion?: string;
+  baseResumeId?: string;
+  restoredFrom?: string; // Id of the version this one restored
+  createdAt: string;
 }
 
 export interface Job {
@@ -33,16 +60,80 @@ export interface Job {
   location: string;
   salaryRange?: string;
   description: string;
-  source: 'Gmail' | 'LinkedIn' | 'Indeed' | 'Imported Link';
+  source: 'Gmail' | 'Outlook' | 'IMAP' | 'Demo' | 'LinkedIn' | 'Indeed' | 'Imported Link';
   detectedAt: string; 
   status: JobStatus;
   matchScore: number; 
   requirements: string[];
   coverLetter?: string;
   customizedResume?: string; 
+  coverLetterPromptVersion?: string; // Prompt that generated coverLetter, e.g. "coverLetter@2" (see promptRegistry)
+  customizedResumePromptVersion?: string;
+  tailoredResume?: Resume; // Structure customizedResume was rendered from
+  baseResumeId?: string; // MasterResume the tailored documents were generated from
   notes?: string;
   logoUrl?: string;
   applicationUrl?: string;
+  canonicalUrl?: string; // Posting the application link leads to, with trackers and redirects resolved
+  employmentType?: string; // e.g. "Full-time", "Contract"
+  postedAt?: string; // When the employer published the posting (ISO)
+  expiresAt?: string; // Application deadline (ISO)
+  isRemote?: boolean;
+  statusHistory?: JobStatusChange[]; // Oldest first, server-authoritative
+  // Versions added since the job was loaded, stored with the next save; the full history is fetched on demand
+  documentVersions?: DocumentVersion[];
+  distinctFrom?: string[]; // Jobs the user said are not duplicates of this one
+}
+
+// Server-side filters for GET /api/jobs; omitted fields are not applied
+export interface JobQuery {
+  statuses?: JobStatus[];
+  source?: string;
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  minScore?: number;
+  q?: string; // Full-text over title, company and description
+  ids?: string[]; // Only these jobs, e.g. ones a reminder points at
+  limit?: number;
+}
+
+export interface JobPage {
+  jobs: Job[];
+  nextCursor: string | null;
+}
+
+export interface Interview {
+  id: string;
+  jobId: string;
+  round: number;
+  stage: string; // e.g. Phone Screen, Technical, Onsite
+  startsAt: string; // UTC ISO instant
+  timeZone: string; // IANA zone the interview was scheduled in
+  durationMinutes: number;
+  interviewers: string[];
+  meetingLink?: string;
+  location?: string;
+  prepNotes?: string;
+}
+
+export interface ReminderRule {
+  id: string;
+  name: string;
+  trigger: 'stale_status' | 'before_interview';
+  statuses: JobStatus[]; // Only used by 'stale_status'
+  offsetDays: number; // Days unchanged, or days before the interview
+  enabled: boolean;
+}
+
+export interface Reminder {
+  id: string;
+  ruleId: string;
+  jobId: string;
+  interviewId?: string;
+  message: string;
+  dueAt: string;
+  createdAt: string;
+  status: 'unread' | 'read' | 'dismissed';
 }
 
 export interface UserPreferences {
@@ -52,16 +143,162 @@ export interface UserPreferences {
   remoteOnly: boolean;
   shareUrl?: string; 
   language: 'en' | 'es' | 'fr' | 'de' | 'ar';
+  reminderRules?: ReminderRule[];
+  documentTemplate?: DocumentTemplateId; // Default template for exported resumes and letters
 }
 
+// Templates in services/documentTemplates
+export type DocumentTemplateId = 'classic' | 'modern' | 'ats-plain';
+
 export interface EmailAccount {
   id: string;
-  provider: 'Gmail' | 'Outlook' | 'Yahoo' | 'IMAP';
+  provider: 'Gmail' | 'Outlook' | 'Yahoo' | 'Apple' | 'IMAP' | 'Demo';
   emailAddress: string;
   isConnected: boolean;
   lastSynced: string;
   icon?: string;
-  accessToken?: string;
+  accessToken?: string; // Session-only pasted tokens; never persisted
+  // 'oauth' accounts keep an encrypted refresh token server-side and fetch access tokens on demand;
+  // 'imap' accounts keep an encrypted app password and are read through /api/imap-bridge
+  authType?: 'oauth' | 'imap' | 'session';
+  // Where the last completed scan stopped (a Gmail historyId or an ISO timestamp, per provider);
+  // the next scan only asks for newer mail
+  syncCursor?: string;
+}
+
+export interface ImapConnectRequest {
+  provider: 'Yahoo' | 'Apple' | 'IMAP';
+  emailAddress: string;
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string; // Defaults to the email address
+  password: string;
+}
+
+// A job-related message returned by the IMAP bridge, body already decoded to HTML
+export interface BridgedMessage {
+  id: string;
+  from: string;
+  subject: string;
+  date: string;
+  snippet: string;
+  html: string;
+}
+
+// Summary of one inbox scan; scheduled scans are recorded by /api/cron-inbox-scan
+// What one email contributed to a scan run
+export interface ScanRunMessage {
+  messageId: string;
+  from: string;
+  subject: string;
+  // 'skipped' = already in the processed-message ledger
+  outcome: 'jobs' | 'no_jobs' | 'skipped' | 'error';
+  linksMatched: number;
+  // Jobs of the run credited to this email; a job linked from several emails is credited to the first
+  jobs: { id: string, title: string, company: string, applicationUrl: string }[];
+  error?: string;
+}
+
+export interface ScanRun {
+  id: string;
+  accountId: string;
+  mailbox: string;
+  trigger: 'scheduled' | 'manual';
+  status: 'success' | 'error';
+  query: string;
+  messagesFound: number;
+  messagesProcessed: number;
+  jobsFound: number;
+  jobsCreated: number;
+  // Job links repeated across the run's emails
+  duplicatesSkipped: number;
+  error?: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  // Only included when a single run is loaded
+  messages?: ScanRunMessage[];
+}
+
+// Structured resume; see resumeParser for converting plain text and resumeModel for rendering it
+export interface ResumeContact {
+  name: string;
+  email: string;
+  phone: string;
+  location: string;
+  links: string[]; // Portfolio, LinkedIn, GitHub...
+}
+
+export interface ResumeExperience {
+  id: string;
+  title: string;
+  company: string;
+  location: string;
+  startDate: string; // As written, e.g. "Jan 2020"
+  endDate: string; // "Present" for a current role
+  bullets: string[];
+}
+
+export interface ResumeEducation {
+  id: string;
+  institution: string;
+  degree: string;
+  location: string;
+  startDate: string;
+  endDate: string;
+  details: string[];
+}
+
+export interface ResumeCertification {
+  id: string;
+  name: string;
+  issuer: string;
+  date: string;
+}
+
+export interface ResumeProject {
+  id: string;
+  name: string;
+  url: string;
+  description: string;
+  bullets: string[];
+}
+
+// A section the parser didn't recognise (Languages, Volunteering...), kept as its lines
+export interface ResumeExtraSection {
+  id: string;
+  title: string;
+  lines: string[];
+}
+
+export interface Resume {
+  contact: ResumeContact;
+  summary: string;
+  experience: ResumeExperience[];
+  education: ResumeEducation[];
+  skills: string[];
+  certifications: ResumeCertification[];
+  projects: ResumeProject[];
+  extraSections: ResumeExtraSection[];
+}
+
+// One of the user's base resumes, e.g. one per role family they apply for
+export interface MasterResume {
+  id: string;
+  name: string;
+  targetRoles: string[]; // Subset of preferences.targetRoles this resume is for; empty for any role
+  resumeContent: string;
+  resume?: Resume;
+  resumeFileName?: string;
+}
+
+// The uploaded original resume file (PDF, DOCX or text) stored next to the extracted resumeContent
+export interface ResumeFileInfo {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
 }
 
 export interface UserProfile {
@@ -71,7 +308,11 @@ export interface UserProfile {
   avatarUrl?: string;
   phone: string;
   resumeContent: string; 
-  resumeFileName?: string;
+  resume?: Resume; // Structured master resume; editing it re-renders resumeContent, editing the text re-parses it
+  resumeFileName?: string; // Name of the uploaded original, see ResumeFileInfo
+  // All master resumes; resumeContent, resume and resumeFileName mirror the default one
+  resumes?: MasterResume[];
+  defaultResumeId?: string;
   preferences: UserPreferences;
   onboardedAt: string | null;
   connectedAccounts: EmailAccount[];